@@ -0,0 +1,89 @@
+import type { NexusAccessClient } from './client';
+import { NexusAccessError } from './errors';
+import type { PermissionDecision, ResourceRef } from './types';
+
+export interface RequirePermissionOptions<Req> {
+  // Resource the permission is needed for, e.g. the project in the URL
+  resource?: (request: Req) => ResourceRef | undefined;
+  /**
+   * Identify the user with your own authentication instead of the request's
+   * Supabase access token. Checks are then made with the client's own token,
+   * whose user needs the `rbac_check` permission.
+   */
+  getUserId?: (
+    request: Req
+  ) => string | null | undefined | Promise<string | null | undefined>;
+}
+
+export type AuthorizationResult =
+  | { allowed: true; decision: PermissionDecision }
+  | {
+      allowed: false;
+      status: number;
+      error: string;
+      decision?: PermissionDecision;
+    };
+
+// Subject of an access token; the API verifies the token itself
+function getTokenSubject(token: string): string | undefined {
+  try {
+    const payload = token.split('.')[1].replace(/-/g, '+').replace(/_/g, '/');
+    const { sub } = JSON.parse(atob(payload));
+    return typeof sub === 'string' ? sub : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Decide whether the caller of an incoming request holds `permission`. By
+ * default the caller is whoever the request's bearer token belongs to, and
+ * the check is made with that token.
+ */
+export async function authorizeRequest<Req>(
+  client: NexusAccessClient,
+  permission: string,
+  request: Req,
+  authorization: string | null | undefined,
+  { resource, getUserId }: RequirePermissionOptions<Req> = {}
+): Promise<AuthorizationResult> {
+  let checker = client;
+  let userId: string | null | undefined;
+
+  if (getUserId) {
+    userId = await getUserId(request);
+  } else if (authorization?.startsWith('Bearer ')) {
+    const token = authorization.slice('Bearer '.length);
+    checker = client.withAccessToken(token);
+    userId = getTokenSubject(token);
+  }
+
+  if (!userId) {
+    return { allowed: false, status: 401, error: 'Authentication required' };
+  }
+
+  try {
+    const decision = await checker.check({
+      user_id: userId,
+      permission_name: permission,
+      ...resource?.(request),
+    });
+
+    if (!decision.allowed) {
+      return {
+        allowed: false,
+        status: 403,
+        error: 'Insufficient permissions',
+        decision,
+      };
+    }
+
+    return { allowed: true, decision };
+  } catch (error) {
+    // An invalid or expired token is rejected by the API with 401
+    if (error instanceof NexusAccessError && error.status === 401) {
+      return { allowed: false, status: 401, error: 'Authentication required' };
+    }
+    throw error;
+  }
+}
@@ -0,0 +1,404 @@
+import type { z } from 'zod';
+import {
+  assignUserRoleSchema,
+  checkMultiplePermissionsSchema,
+  checkPermissionSchema,
+  createAssociationSchema,
+  createPermissionSchema,
+  createRoleSchema,
+  explainUserAccessQuerySchema,
+  idSchema,
+  ORGANIZATION_HEADER,
+  unassignUserRoleSchema,
+  updatePermissionSchema,
+  updateRoleSchema,
+} from './shared';
+import { DecisionCache, type DecisionCacheOptions } from './decision-cache';
+import { NexusAccessError, type NexusAccessErrorDetail } from './errors';
+import type {
+  AssignUserRoleRequest,
+  AssociationRequest,
+  AssociationWithNames,
+  CheckPermissionRequest,
+  CheckPermissionsRequest,
+  CreatePermissionRequest,
+  CreateRoleRequest,
+  ExplainUserAccessRequest,
+  ListQuery,
+  Paginated,
+  Permission,
+  PermissionDecision,
+  ResourceRef,
+  Role,
+  RolePermission,
+  UnassignUserRoleRequest,
+  UpdatePermissionRequest,
+  UpdateRoleRequest,
+  UserAccessExplanation,
+  UserRole,
+  UserWithRoles,
+} from './types';
+
+// A Supabase access token, or a function returning a fresh one
+export type AccessToken = string | (() => string | Promise<string>);
+
+export interface NexusAccessClientOptions {
+  // Where Nexus Access is deployed, e.g. https://nexus.example.com
+  baseUrl: string;
+  accessToken?: AccessToken;
+  // Organization to work on; defaults to the caller's oldest membership
+  organizationId?: string;
+  // Decision cache settings, or false to ask the API on every check
+  cache?: DecisionCacheOptions | false;
+  fetch?: typeof fetch;
+}
+
+interface RequestOptions {
+  method?: 'GET' | 'POST' | 'PUT' | 'DELETE';
+  query?: Record<string, string | number | undefined>;
+  body?: unknown;
+  // Already resolved token, to avoid asking the token function twice
+  accessToken?: string;
+}
+
+// Validate input with the schema the API itself uses
+function validate<Schema extends z.ZodType>(
+  schema: Schema,
+  input: unknown
+): z.output<Schema> {
+  const result = schema.safeParse(input);
+  if (!result.success) {
+    throw new NexusAccessError(
+      'Invalid input data',
+      400,
+      result.error.issues.map((err) => ({
+        field: err.path.join('.'),
+        message: err.message,
+      }))
+    );
+  }
+  return result.data;
+}
+
+function validateId(id: string, label: string): string {
+  if (!idSchema.safeParse(id).success) {
+    throw new NexusAccessError(`Invalid ${label} ID`, 400);
+  }
+  return id;
+}
+
+// The API reports body errors as { field, message } and query errors as
+// zod issues with a path
+function toErrorDetails(
+  details: unknown
+): NexusAccessErrorDetail[] | undefined {
+  if (!Array.isArray(details)) {
+    return undefined;
+  }
+
+  return details.map((detail) => ({
+    field: Array.isArray(detail?.path)
+      ? detail.path.join('.')
+      : String(detail?.field ?? ''),
+    message: String(detail?.message ?? ''),
+  }));
+}
+
+/**
+ * Typed client for the Nexus Access API.
+ *
+ * Permission checks are cached per caller for a short time (see
+ * `DecisionCache`). Changes made through this client clear the decisions
+ * they can affect; changes made elsewhere are picked up when the cached
+ * decisions expire or `clearDecisionCache()` is called.
+ */
+export class NexusAccessClient {
+  private readonly options: NexusAccessClientOptions;
+  private readonly apiUrl: string;
+  private readonly cache: DecisionCache | null;
+
+  constructor(options: NexusAccessClientOptions, cache?: DecisionCache | null) {
+    this.options = options;
+    this.apiUrl = `${options.baseUrl.replace(/\/+$/, '')}/api`;
+    this.cache =
+      cache !== undefined
+        ? cache
+        : options.cache === false
+          ? null
+          : new DecisionCache(options.cache);
+  }
+
+  /**
+   * Client that calls the API as another caller, such as the user of an
+   * incoming request. It shares this client's decision cache.
+   */
+  withAccessToken(accessToken: AccessToken): NexusAccessClient {
+    return new NexusAccessClient({ ...this.options, accessToken }, this.cache);
+  }
+
+  // Forget cached decisions, for every user or only one
+  clearDecisionCache(userId?: string): void {
+    this.cache?.clear(userId);
+  }
+
+  readonly permissions = {
+    list: async (query: ListQuery = {}) =>
+      this.request<Paginated<Permission>>('/permissions', {
+        query: { ...query },
+      }),
+    get: async (id: string) =>
+      this.data<Permission>(`/permissions/${validateId(id, 'permission')}`),
+    create: async (input: CreatePermissionRequest) =>
+      this.data<Permission>('/permissions', {
+        method: 'POST',
+        body: validate(createPermissionSchema, input),
+      }),
+    update: async (id: string, input: UpdatePermissionRequest) =>
+      this.data<Permission>(`/permissions/${validateId(id, 'permission')}`, {
+        method: 'PUT',
+        body: validate(updatePermissionSchema, input),
+      }),
+    delete: async (id: string): Promise<void> => {
+      await this.request(`/permissions/${validateId(id, 'permission')}`, {
+        method: 'DELETE',
+      });
+      this.cache?.clear();
+    },
+  };
+
+  readonly roles = {
+    list: async (query: ListQuery = {}) =>
+      this.request<Paginated<Role>>('/roles', { query: { ...query } }),
+    get: async (id: string) =>
+      this.data<Role>(`/roles/${validateId(id, 'role')}`),
+    create: async (input: CreateRoleRequest) =>
+      this.data<Role>('/roles', {
+        method: 'POST',
+        body: validate(createRoleSchema, input),
+      }),
+    // Changing the parent changes what the role grants
+    update: async (id: string, input: UpdateRoleRequest): Promise<Role> => {
+      const role = await this.data<Role>(`/roles/${validateId(id, 'role')}`, {
+        method: 'PUT',
+        body: validate(updateRoleSchema, input),
+      });
+      this.cache?.clear();
+      return role;
+    },
+    delete: async (id: string): Promise<void> => {
+      await this.request(`/roles/${validateId(id, 'role')}`, {
+        method: 'DELETE',
+      });
+      this.cache?.clear();
+    },
+  };
+
+  readonly associations = {
+    list: async () => this.data<AssociationWithNames[]>('/associations'),
+    create: async (input: AssociationRequest): Promise<RolePermission> => {
+      const association = await this.data<RolePermission>('/associations', {
+        method: 'POST',
+        body: validate(createAssociationSchema, input),
+      });
+      this.cache?.clear();
+      return association;
+    },
+    delete: async (input: AssociationRequest): Promise<void> => {
+      await this.request('/associations', {
+        method: 'DELETE',
+        query: validate(createAssociationSchema, input),
+      });
+      this.cache?.clear();
+    },
+  };
+
+  readonly users = {
+    list: async (query: ListQuery = {}) =>
+      this.request<Paginated<UserWithRoles>>('/users', { query: { ...query } }),
+    get: async (id: string) =>
+      this.data<UserWithRoles>(`/users/${validateId(id, 'user')}`),
+    // Every permission of the user and how it is granted
+    explain: async (id: string, query: ExplainUserAccessRequest = {}) =>
+      this.data<UserAccessExplanation>(
+        `/users/${validateId(id, 'user')}/explain`,
+        { query: validate(explainUserAccessQuerySchema, query) }
+      ),
+    assignRole: async (
+      userId: string,
+      input: AssignUserRoleRequest
+    ): Promise<UserRole> => {
+      const assignment = validate(assignUserRoleSchema, {
+        ...input,
+        user_id: userId,
+      });
+      const userRole = await this.data<UserRole>(
+        `/users/${assignment.user_id}/roles`,
+        { method: 'POST', body: assignment }
+      );
+      this.cache?.clear(userId);
+      return userRole;
+    },
+    removeRole: async (
+      userId: string,
+      input: UnassignUserRoleRequest
+    ): Promise<void> => {
+      const { user_id, ...query } = validate(unassignUserRoleSchema, {
+        ...input,
+        user_id: userId,
+      });
+      await this.request(`/users/${user_id}/roles`, {
+        method: 'DELETE',
+        query,
+      });
+      this.cache?.clear(userId);
+    },
+  };
+
+  /**
+   * Decide whether a user holds a permission, globally or for a resource.
+   * Checking anyone but the caller requires the `rbac_check` permission.
+   */
+  async check(input: CheckPermissionRequest): Promise<PermissionDecision> {
+    const check = validate(checkPermissionSchema, input);
+    const accessToken = await this.getAccessToken();
+    const key = this.getDecisionKey(accessToken, check);
+
+    const cached = this.cache?.get(key);
+    if (cached) {
+      return cached;
+    }
+
+    const decision = await this.data<PermissionDecision>('/check', {
+      method: 'POST',
+      body: check,
+      accessToken,
+    });
+    this.cache?.set(key, decision);
+    return decision;
+  }
+
+  // Decide several permissions of one user, asking the API only for the
+  // decisions that are not cached
+  async checkMany(
+    input: CheckPermissionsRequest
+  ): Promise<{ decisions: PermissionDecision[]; allowed: boolean }> {
+    const { user_id, permissions } = validate(
+      checkMultiplePermissionsSchema,
+      input
+    );
+    const accessToken = await this.getAccessToken();
+    const keys = permissions.map((permission) =>
+      this.getDecisionKey(accessToken, { user_id, ...permission })
+    );
+    const decisions = keys.map((key) => this.cache?.get(key));
+
+    const missing = permissions.filter((_, index) => !decisions[index]);
+    if (missing.length > 0) {
+      const fetched = await this.data<PermissionDecision[]>('/check/batch', {
+        method: 'POST',
+        body: { user_id, permissions: missing },
+        accessToken,
+      });
+
+      let next = 0;
+      decisions.forEach((decision, index) => {
+        if (!decision) {
+          const fetchedDecision = fetched[next++];
+          decisions[index] = fetchedDecision;
+          this.cache?.set(keys[index], fetchedDecision);
+        }
+      });
+    }
+
+    const result = decisions as PermissionDecision[];
+    return {
+      decisions: result,
+      allowed: result.every((decision) => decision.allowed),
+    };
+  }
+
+  async can(
+    userId: string,
+    permissionName: string,
+    resource?: ResourceRef
+  ): Promise<boolean> {
+    const decision = await this.check({
+      user_id: userId,
+      permission_name: permissionName,
+      ...resource,
+    });
+    return decision.allowed;
+  }
+
+  private async getAccessToken(): Promise<string | undefined> {
+    const { accessToken } = this.options;
+    return typeof accessToken === 'function' ? accessToken() : accessToken;
+  }
+
+  // Decisions are only reused for the caller and organization that asked
+  private getDecisionKey(
+    accessToken: string | undefined,
+    check: {
+      user_id: string;
+      permission_name: string;
+      resource_type?: string;
+      resource_id?: string;
+    }
+  ): string {
+    return JSON.stringify([
+      accessToken ?? '',
+      this.options.organizationId ?? '',
+      check.user_id,
+      check.permission_name,
+      check.resource_type ?? '',
+      check.resource_id ?? '',
+    ]);
+  }
+
+  // Send a request and return its `data`
+  private async data<T>(path: string, options?: RequestOptions): Promise<T> {
+    const result = await this.request<{ data: T }>(path, options);
+    return result.data;
+  }
+
+  private async request<T>(
+    path: string,
+    { method = 'GET', query, body, accessToken }: RequestOptions = {}
+  ): Promise<T> {
+    const url = new URL(`${this.apiUrl}${path}`);
+    Object.entries(query ?? {}).forEach(([key, value]) => {
+      if (value !== undefined) {
+        url.searchParams.set(key, String(value));
+      }
+    });
+
+    const token = accessToken ?? (await this.getAccessToken());
+    const headers: Record<string, string> = {
+      ...(token && { Authorization: `Bearer ${token}` }),
+      ...(this.options.organizationId && {
+        [ORGANIZATION_HEADER]: this.options.organizationId,
+      }),
+      ...(body !== undefined && { 'Content-Type': 'application/json' }),
+    };
+
+    const fetchImpl = this.options.fetch ?? fetch;
+    const response = await fetchImpl(url, {
+      method,
+      headers,
+      body: body !== undefined ? JSON.stringify(body) : undefined,
+    });
+    const result = await response.json().catch(() => ({}));
+
+    if (!response.ok) {
+      throw new NexusAccessError(
+        result.message ||
+          result.error ||
+          `Request failed with status ${response.status}`,
+        response.status,
+        toErrorDetails(result.details)
+      );
+    }
+
+    return result as T;
+  }
+}
@@ -0,0 +1,70 @@
+import type { PermissionDecision } from './types';
+
+export interface DecisionCacheOptions {
+  // How long a decision is reused, in milliseconds
+  ttl?: number;
+  // Oldest decisions are evicted beyond this many
+  maxEntries?: number;
+}
+
+interface CacheEntry {
+  decision: PermissionDecision;
+  expiresAt: number;
+}
+
+/**
+ * In-memory cache of permission decisions, so that hot paths such as
+ * middleware do not call the API on every request. Entries expire after
+ * `ttl`; call `clear()` when you learn of an RBAC change, for example from a
+ * Nexus Access webhook.
+ */
+export class DecisionCache {
+  private readonly ttl: number;
+  private readonly maxEntries: number;
+  private readonly entries = new Map<string, CacheEntry>();
+
+  constructor({ ttl = 30_000, maxEntries = 1000 }: DecisionCacheOptions = {}) {
+    this.ttl = ttl;
+    this.maxEntries = maxEntries;
+  }
+
+  get(key: string): PermissionDecision | undefined {
+    const entry = this.entries.get(key);
+    if (!entry) {
+      return undefined;
+    }
+
+    if (entry.expiresAt <= Date.now()) {
+      this.entries.delete(key);
+      return undefined;
+    }
+
+    return entry.decision;
+  }
+
+  set(key: string, decision: PermissionDecision): void {
+    // Re-inserting moves the key to the end of the eviction order
+    this.entries.delete(key);
+    this.entries.set(key, { decision, expiresAt: Date.now() + this.ttl });
+
+    while (this.entries.size > this.maxEntries) {
+      const oldest = this.entries.keys().next().value;
+      if (oldest === undefined) break;
+      this.entries.delete(oldest);
+    }
+  }
+
+  // Forget every decision, or only those about one user
+  clear(userId?: string): void {
+    if (!userId) {
+      this.entries.clear();
+      return;
+    }
+
+    for (const [key, entry] of this.entries) {
+      if (entry.decision.user_id === userId) {
+        this.entries.delete(key);
+      }
+    }
+  }
+}
@@ -0,0 +1,24 @@
+export interface NexusAccessErrorDetail {
+  field: string;
+  message: string;
+}
+
+/**
+ * Error returned by the Nexus Access API, or raised before sending a request
+ * whose input fails validation (status 400).
+ */
+export class NexusAccessError extends Error {
+  readonly status: number;
+  readonly details?: NexusAccessErrorDetail[];
+
+  constructor(
+    message: string,
+    status: number,
+    details?: NexusAccessErrorDetail[]
+  ) {
+    super(message);
+    this.name = 'NexusAccessError';
+    this.status = status;
+    this.details = details;
+  }
+}
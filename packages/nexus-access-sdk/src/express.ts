@@ -0,0 +1,61 @@
+import type { NexusAccessClient } from './client';
+import { authorizeRequest, type RequirePermissionOptions } from './authorize';
+
+// The parts of Express this module relies on, so it does not depend on it
+export interface ExpressLikeRequest {
+  headers: Record<string, string | string[] | undefined>;
+}
+
+export interface ExpressLikeResponse {
+  status(code: number): { json(body: unknown): unknown };
+  locals?: Record<string, unknown>;
+}
+
+export type ExpressLikeNext = (error?: unknown) => void;
+
+/**
+ * Express middleware factory bound to a client:
+ *
+ *   const { requirePermission } = createExpressAuthorization(nexus);
+ *   app.get('/reports', requirePermission('read_reports'), listReports);
+ *
+ * Requests without the permission are answered with 401 or 403. Allowed
+ * requests get the decision in `res.locals.permissionDecision`.
+ */
+export function createExpressAuthorization(client: NexusAccessClient) {
+  function requirePermission<Req extends ExpressLikeRequest>(
+    permission: string,
+    options?: RequirePermissionOptions<Req>
+  ) {
+    return async (
+      req: Req,
+      res: ExpressLikeResponse,
+      next: ExpressLikeNext
+    ) => {
+      try {
+        const authorization = req.headers.authorization;
+        const result = await authorizeRequest(
+          client,
+          permission,
+          req,
+          Array.isArray(authorization) ? authorization[0] : authorization,
+          options
+        );
+
+        if (!result.allowed) {
+          res.status(result.status).json({ error: result.error });
+          return;
+        }
+
+        if (res.locals) {
+          res.locals.permissionDecision = result.decision;
+        }
+        next();
+      } catch (error) {
+        next(error);
+      }
+    };
+  }
+
+  return { requirePermission };
+}
@@ -0,0 +1,13 @@
+export {
+  NexusAccessClient,
+  type AccessToken,
+  type NexusAccessClientOptions,
+} from './client';
+export { DecisionCache, type DecisionCacheOptions } from './decision-cache';
+export { NexusAccessError, type NexusAccessErrorDetail } from './errors';
+export {
+  authorizeRequest,
+  type AuthorizationResult,
+  type RequirePermissionOptions,
+} from './authorize';
+export type * from './types';
@@ -0,0 +1,48 @@
+import type { NexusAccessClient } from './client';
+import { authorizeRequest, type RequirePermissionOptions } from './authorize';
+import type { PermissionDecision } from './types';
+
+/**
+ * Next.js route handler wrapper bound to a client:
+ *
+ *   const { requirePermission } = createNextAuthorization(nexus);
+ *   export const GET = requirePermission('read_users', async (request) =>
+ *     Response.json(await listUsers())
+ *   );
+ *
+ * Works for `middleware.ts` too, wrapping a function that returns
+ * `NextResponse.next()`. Requests without the permission are answered with
+ * 401 or 403 and the handler is not called.
+ */
+export function createNextAuthorization(client: NexusAccessClient) {
+  function requirePermission<Req extends Request, Context>(
+    permission: string,
+    handler: (
+      request: Req,
+      context: Context,
+      decision: PermissionDecision
+    ) => Response | Promise<Response>,
+    options?: RequirePermissionOptions<Req>
+  ) {
+    return async (request: Req, context: Context): Promise<Response> => {
+      const result = await authorizeRequest(
+        client,
+        permission,
+        request,
+        request.headers.get('authorization'),
+        options
+      );
+
+      if (!result.allowed) {
+        return Response.json(
+          { error: result.error },
+          { status: result.status }
+        );
+      }
+
+      return handler(request, context, result.decision);
+    };
+  }
+
+  return { requirePermission };
+}
@@ -0,0 +1,166 @@
+/**
+ * The request schemas and constants the package shares with the app, copied
+ * from src/lib/validations and src/lib/organizations.ts so that the package
+ * builds on its own. Each declaration must match the app's declaration of the
+ * same name, which `npm run sdk:check` in the repository root verifies.
+ */
+
+import { z } from 'zod';
+
+// Request header that selects the organization a request works on
+export const ORGANIZATION_HEADER = 'x-organization-id';
+
+export const idSchema = z.string().uuid('Invalid ID format');
+
+const nameSchema = z
+  .string()
+  .transform((val) => val.trim())
+  .pipe(
+    z
+      .string()
+      .min(1, 'Name is required')
+      .max(100, 'Name must be less than 100 characters')
+      .regex(
+        /^[a-zA-Z0-9_-]+$/,
+        'Name can only contain letters, numbers, underscores, and hyphens'
+      )
+  );
+
+const descriptionSchema = z
+  .string()
+  .max(500, 'Description must be less than 500 characters')
+  .optional()
+  .nullable()
+  .transform((val) => val?.trim() || null);
+
+const nonEmptyArraySchema = <T extends z.ZodTypeAny>(schema: T) =>
+  z.array(schema).min(1, 'At least one item is required');
+
+export const createPermissionSchema = z.object({
+  name: nameSchema,
+  description: descriptionSchema,
+});
+
+export const updatePermissionSchema = createPermissionSchema
+  .partial()
+  .refine(
+    (data) => Object.keys(data).length > 0,
+    'At least one field must be provided for update'
+  );
+
+export const createRoleSchema = z.object({
+  name: nameSchema,
+  parent_role_id: idSchema.nullable().optional(),
+});
+
+export const updateRoleSchema = createRoleSchema
+  .partial()
+  .refine(
+    (data) => Object.keys(data).length > 0,
+    'At least one field must be provided for update'
+  );
+
+export const createAssociationSchema = z.object({
+  role_id: idSchema,
+  permission_id: idSchema,
+});
+
+// Resource scopes, e.g. type "project" and id "42"; '*' is a wildcard
+const SCOPE_WILDCARD = '*';
+
+const scopeTypeSchema = z
+  .string()
+  .trim()
+  .min(1, 'Scope type is required')
+  .max(100, 'Scope type must be less than 100 characters')
+  .regex(
+    /^(\*|[a-zA-Z][a-zA-Z0-9_.-]*)$/,
+    'Scope type must be "*" or start with a letter and contain only letters, numbers, dots, dashes and underscores'
+  );
+
+const scopeIdSchema = z
+  .string()
+  .trim()
+  .min(1, 'Scope ID is required')
+  .max(255, 'Scope ID must be less than 255 characters');
+
+const roleScopeShape = {
+  scope_type: scopeTypeSchema.default(SCOPE_WILDCARD),
+  scope_id: scopeIdSchema.default(SCOPE_WILDCARD),
+};
+
+// A global grant ('*' type) cannot be narrowed to a resource ID
+const isValidScope = (scope: { scope_type: string; scope_id: string }) =>
+  scope.scope_type !== SCOPE_WILDCARD || scope.scope_id === SCOPE_WILDCARD;
+
+const invalidScopeMessage = {
+  message: 'scope_id must be "*" when scope_type is "*"',
+  path: ['scope_id'],
+};
+
+// Optional validity window of a role assignment
+const roleValidityShape = {
+  valid_from: z.string().datetime({ offset: true }).nullable().optional(),
+  valid_until: z.string().datetime({ offset: true }).nullable().optional(),
+};
+
+const isValidWindow = (validity: {
+  valid_from?: string | null;
+  valid_until?: string | null;
+}) =>
+  !validity.valid_from ||
+  !validity.valid_until ||
+  new Date(validity.valid_until) > new Date(validity.valid_from);
+
+const invalidWindowMessage = {
+  message: 'valid_until must be after valid_from',
+  path: ['valid_until'],
+};
+
+export const assignUserRoleSchema = z
+  .object({
+    user_id: idSchema,
+    role_id: idSchema,
+    ...roleScopeShape,
+    ...roleValidityShape,
+  })
+  .refine(isValidScope, invalidScopeMessage)
+  .refine(isValidWindow, invalidWindowMessage)
+  .refine(
+    (data) => !data.valid_until || new Date(data.valid_until) > new Date(),
+    { message: 'valid_until must be in the future', path: ['valid_until'] }
+  );
+
+export const unassignUserRoleSchema = z
+  .object({
+    user_id: idSchema,
+    role_id: idSchema,
+    ...roleScopeShape,
+  })
+  .refine(isValidScope, invalidScopeMessage);
+
+// Without resource_type only global grants apply
+export const checkPermissionSchema = z.object({
+  user_id: idSchema,
+  permission_name: nameSchema,
+  resource_type: scopeTypeSchema.optional(),
+  resource_id: scopeIdSchema.optional(),
+});
+
+export const checkMultiplePermissionsSchema = z.object({
+  user_id: idSchema,
+  permissions: nonEmptyArraySchema(
+    z.object({
+      permission_name: nameSchema,
+      resource_type: scopeTypeSchema.optional(),
+      resource_id: scopeIdSchema.optional(),
+    })
+  ),
+});
+
+// Optionally explain a single permission, for a resource
+export const explainUserAccessQuerySchema = z.object({
+  permission_name: nameSchema.optional(),
+  resource_type: scopeTypeSchema.optional(),
+  resource_id: scopeIdSchema.optional(),
+});
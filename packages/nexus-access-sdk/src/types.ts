@@ -0,0 +1,153 @@
+import type { z } from 'zod';
+import type {
+  assignUserRoleSchema,
+  checkMultiplePermissionsSchema,
+  checkPermissionSchema,
+  createAssociationSchema,
+  createPermissionSchema,
+  createRoleSchema,
+  explainUserAccessQuerySchema,
+  unassignUserRoleSchema,
+  updatePermissionSchema,
+  updateRoleSchema,
+} from './shared';
+
+// Responses, as the app's types in src/lib/types describe them
+export interface Permission {
+  id: string;
+  name: string;
+  description: string | null;
+  created_at: string;
+}
+
+export interface Role {
+  id: string;
+  name: string;
+  // Role whose permissions this role inherits
+  parent_role_id: string | null;
+  created_at: string;
+}
+
+export interface RolePermission {
+  role_id: string;
+  permission_id: string;
+  created_at?: string;
+}
+
+// Resource a role assignment applies to; '*' is a wildcard
+export interface RoleScope {
+  scope_type: string;
+  scope_id: string;
+}
+
+// Window in which a role assignment is active; null bounds are open
+interface RoleValidity {
+  valid_from?: string | null;
+  valid_until?: string | null;
+}
+
+export interface UserRole extends RoleScope, RoleValidity {
+  user_id: string;
+  role_id: string;
+  created_at?: string;
+}
+
+export interface UserRoleAssignment extends RoleScope, RoleValidity {
+  role: Pick<Role, 'id' | 'name'>;
+  // Whether the assignment is currently within its validity window
+  active: boolean;
+}
+
+export interface UserWithRoles {
+  id: string;
+  email: string | null;
+  created_at: string;
+  last_sign_in_at: string | null;
+  // Globally assigned roles and the permissions they grant
+  roles: Role[];
+  permissions: Permission[];
+  // Every assignment, including resource-scoped ones
+  assignments: UserRoleAssignment[];
+}
+
+export interface PermissionDecision {
+  user_id: string;
+  permission_name: string;
+  resource_type?: string;
+  resource_id?: string;
+  allowed: boolean;
+  granted_by: Array<Pick<Role, 'id' | 'name'> & RoleScope>;
+  reason: string;
+}
+
+// How an assignment grants a permission: the assigned role first, then each
+// parent up to the role the permission is attached to
+export interface PermissionGrantPath extends RoleScope {
+  roles: Pick<Role, 'id' | 'name'>[];
+  valid_until: string | null;
+}
+
+export interface ExplainedPermission extends Permission {
+  paths: PermissionGrantPath[];
+}
+
+export interface UserAccessExplanation {
+  user_id: string;
+  email: string | null;
+  permissions: ExplainedPermission[];
+  // Set when a specific permission was asked about
+  decision: PermissionDecision | null;
+}
+
+// Requests are what the API's validation schemas accept
+export type CreatePermissionRequest = z.input<typeof createPermissionSchema>;
+export type UpdatePermissionRequest = z.input<typeof updatePermissionSchema>;
+export type CreateRoleRequest = z.input<typeof createRoleSchema>;
+export type UpdateRoleRequest = z.input<typeof updateRoleSchema>;
+export type AssociationRequest = z.input<typeof createAssociationSchema>;
+export type AssignUserRoleRequest = Omit<
+  z.input<typeof assignUserRoleSchema>,
+  'user_id'
+>;
+export type UnassignUserRoleRequest = Omit<
+  z.input<typeof unassignUserRoleSchema>,
+  'user_id'
+>;
+export type ExplainUserAccessRequest = z.input<
+  typeof explainUserAccessQuerySchema
+>;
+export type CheckPermissionRequest = z.input<typeof checkPermissionSchema>;
+export type CheckPermissionsRequest = z.input<
+  typeof checkMultiplePermissionsSchema
+>;
+
+// Resource a permission is checked for
+export interface ResourceRef {
+  resource_type: string;
+  resource_id: string;
+}
+
+export interface ListQuery {
+  // Matches names and descriptions (emails for users)
+  query?: string;
+  limit?: number;
+  offset?: number;
+}
+
+export interface Pagination {
+  page: number;
+  pageSize: number;
+  total: number;
+  totalPages: number;
+}
+
+export interface Paginated<T> {
+  data: T[];
+  pagination: Pagination;
+}
+
+export interface AssociationWithNames extends RolePermission {
+  role_name: string;
+  permission_name: string;
+  permission_description: string | null;
+}
@@ -0,0 +1,71 @@
+#!/usr/bin/env node
+
+// The SDK keeps copies of the app's request schemas in
+// packages/nexus-access-sdk/src/shared.ts so that it builds on its own. This
+// check fails when a copy no longer matches the app's declaration of the same
+// name, so that the SDK does not validate requests differently from the API.
+
+const fs = require('fs');
+const path = require('path');
+const ts = require('typescript');
+
+const root = path.join(__dirname, '..');
+const SHARED = 'packages/nexus-access-sdk/src/shared.ts';
+const SOURCES = [
+  'src/lib/validations/common.ts',
+  'src/lib/validations/rbac.ts',
+  'src/lib/organizations.ts',
+];
+
+// Top-level `const` declarations of a file, by name, as whitespace-free text
+function readDeclarations(file) {
+  const source = ts.createSourceFile(
+    file,
+    fs.readFileSync(path.join(root, file), 'utf8'),
+    ts.ScriptTarget.Latest
+  );
+  const declarations = new Map();
+
+  source.statements
+    .filter(ts.isVariableStatement)
+    .forEach((statement) =>
+      statement.declarationList.declarations.forEach((declaration) =>
+        declarations.set(
+          declaration.name.getText(source),
+          declaration.getText(source).replace(/\s+/g, '')
+        )
+      )
+    );
+
+  return declarations;
+}
+
+function checkSdkSchemas() {
+  const originals = new Map();
+  SOURCES.forEach((file) =>
+    readDeclarations(file).forEach((text, name) =>
+      originals.set(name, { file, text })
+    )
+  );
+
+  const problems = [];
+  readDeclarations(SHARED).forEach((text, name) => {
+    const original = originals.get(name);
+    if (!original) {
+      problems.push(`${name} is not declared in ${SOURCES.join(', ')}`);
+    } else if (original.text !== text) {
+      problems.push(`${name} differs from ${original.file}`);
+    }
+  });
+
+  if (problems.length > 0) {
+    console.error(`❌ ${SHARED} is out of step with the app:`);
+    problems.forEach((problem) => console.error(`   - ${problem}`));
+    console.error('\nCopy the current declarations from the app.');
+    process.exit(1);
+  }
+
+  console.log(`✅ ${SHARED} matches the app`);
+}
+
+checkSdkSchemas();
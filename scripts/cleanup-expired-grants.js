@@ -0,0 +1,37 @@
+#!/usr/bin/env node
+
+const { createClient } = require('@supabase/supabase-js');
+require('dotenv').config({ path: '.env.local' });
+
+async function cleanupExpiredGrants() {
+  const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL;
+  const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+
+  if (!supabaseUrl) {
+    console.error('❌ Missing NEXT_PUBLIC_SUPABASE_URL');
+    process.exit(1);
+  }
+
+  if (!supabaseServiceKey) {
+    console.error('❌ Missing SUPABASE_SERVICE_ROLE_KEY');
+    console.error('This is needed to call cleanup_expired_user_roles.');
+    console.error('\nAlternatively, run this in your Supabase SQL Editor:');
+    console.error('\nSELECT public.cleanup_expired_user_roles();');
+    process.exit(1);
+  }
+
+  const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+  console.log('🧹 Removing expired role assignments...');
+
+  const { data, error } = await supabase.rpc('cleanup_expired_user_roles');
+
+  if (error) {
+    console.error('❌ Failed to clean up expired grants:', error.message);
+    process.exit(1);
+  }
+
+  console.log(`✅ Removed ${data} expired role assignment(s)`);
+}
+
+cleanupExpiredGrants().catch(console.error);
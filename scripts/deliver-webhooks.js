@@ -0,0 +1,58 @@
+#!/usr/bin/env node
+
+require('dotenv').config({ path: '.env.local' });
+
+// Seconds between runs with --watch, unless WEBHOOK_DELIVERY_INTERVAL is set
+const DEFAULT_WATCH_INTERVAL = 15;
+
+async function deliverWebhooks(appUrl, cronSecret) {
+  const response = await fetch(`${appUrl}/api/cron/deliver-webhooks`, {
+    headers: { Authorization: `Bearer ${cronSecret}` },
+  });
+  const result = await response.json().catch(() => ({}));
+
+  if (!response.ok) {
+    throw new Error(result.error || `HTTP ${response.status}`);
+  }
+
+  console.log(`📬 ${result.message}`);
+}
+
+async function main() {
+  const appUrl = (process.env.NEXTAUTH_URL || 'http://localhost:3000').replace(
+    /\/$/,
+    ''
+  );
+  const cronSecret = process.env.CRON_SECRET;
+  const watch = process.argv.includes('--watch');
+  const watchInterval =
+    Number(process.env.WEBHOOK_DELIVERY_INTERVAL) || DEFAULT_WATCH_INTERVAL;
+
+  if (!cronSecret) {
+    console.error('❌ Missing CRON_SECRET');
+    console.error(
+      'The delivery job at /api/cron/deliver-webhooks authenticates with it.'
+    );
+    process.exit(1);
+  }
+
+  console.log(`🚚 Delivering webhooks through ${appUrl}...`);
+
+  try {
+    await deliverWebhooks(appUrl, cronSecret);
+  } catch (err) {
+    console.error('❌ Failed to deliver webhooks:', err.message);
+    if (!watch) process.exit(1);
+  }
+
+  if (watch) {
+    console.log(`👀 Running every ${watchInterval}s, press Ctrl+C to stop`);
+    setInterval(() => {
+      deliverWebhooks(appUrl, cronSecret).catch((err) =>
+        console.error('❌ Failed to deliver webhooks:', err.message)
+      );
+    }, watchInterval * 1000);
+  }
+}
+
+main().catch(console.error);
@@ -0,0 +1,47 @@
+#!/usr/bin/env node
+
+const { createClient } = require('@supabase/supabase-js');
+require('dotenv').config({ path: '.env.local' });
+
+async function grantAdmin() {
+  const email = process.argv[2];
+
+  if (!email) {
+    console.error('❌ Missing email address');
+    console.error('\nUsage: npm run db:grant-admin -- user@example.com');
+    process.exit(1);
+  }
+
+  const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL;
+  const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+
+  if (!supabaseUrl) {
+    console.error('❌ Missing NEXT_PUBLIC_SUPABASE_URL');
+    process.exit(1);
+  }
+
+  if (!supabaseServiceKey) {
+    console.error('❌ Missing SUPABASE_SERVICE_ROLE_KEY');
+    console.error('This is needed to call grant_rbac_admin.');
+    console.error('\nAlternatively, run this in your Supabase SQL Editor:');
+    console.error(`\nSELECT public.grant_rbac_admin('${email}');`);
+    process.exit(1);
+  }
+
+  const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+  console.log(`🔐 Granting RBAC administrator role to ${email}...`);
+
+  const { data, error } = await supabase.rpc('grant_rbac_admin', {
+    admin_email: email,
+  });
+
+  if (error) {
+    console.error('❌ Failed to grant administrator role:', error.message);
+    process.exit(1);
+  }
+
+  console.log(`✅ User ${data} is now an RBAC administrator`);
+}
+
+grantAdmin().catch(console.error);
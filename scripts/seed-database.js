@@ -29,6 +29,22 @@ async function seedDatabase() {
 
   const supabase = createClient(supabaseUrl, supabaseServiceKey);
 
+  // Sample data goes into the oldest organization, like grant_rbac_admin
+  const { data: organization, error: organizationError } = await supabase
+    .from('organizations')
+    .select('id, name')
+    .order('created_at')
+    .limit(1)
+    .single();
+
+  if (organizationError) {
+    console.error('❌ No organization found:', organizationError.message);
+    console.error('Run the database migrations first.');
+    process.exit(1);
+  }
+
+  console.log(`🏢 Organization: ${organization.name}\n`);
+
   // Insert sample permissions
   console.log('📋 Inserting permissions...');
   const permissions = [
@@ -53,7 +69,10 @@ async function seedDatabase() {
     try {
       const { error } = await supabase
         .from('permissions')
-        .upsert(permission, { onConflict: 'name' });
+        .upsert(
+          { ...permission, organization_id: organization.id },
+          { onConflict: 'organization_id,name' }
+        );
 
       if (error) {
         console.error(
@@ -84,7 +103,10 @@ async function seedDatabase() {
     try {
       const { error } = await supabase
         .from('roles')
-        .upsert(role, { onConflict: 'name' });
+        .upsert(
+          { ...role, organization_id: organization.id },
+          { onConflict: 'organization_id,name' }
+        );
 
       if (error) {
         console.error(`❌ Failed to insert role ${role.name}:`, error.message);
@@ -100,10 +122,14 @@ async function seedDatabase() {
   console.log('\n🔗 Creating role-permission associations...');
 
   // Get all roles and permissions
-  const { data: allRoles } = await supabase.from('roles').select('*');
+  const { data: allRoles } = await supabase
+    .from('roles')
+    .select('*')
+    .eq('organization_id', organization.id);
   const { data: allPermissions } = await supabase
     .from('permissions')
-    .select('*');
+    .select('*')
+    .eq('organization_id', organization.id);
 
   if (!allRoles || !allPermissions) {
     console.error('❌ Failed to fetch roles or permissions');
@@ -150,6 +176,7 @@ async function seedDatabase() {
       try {
         const { error } = await supabase.from('role_permissions').upsert(
           {
+            organization_id: organization.id,
             role_id: role.id,
             permission_id: permission.id,
           },
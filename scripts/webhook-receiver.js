@@ -0,0 +1,62 @@
+#!/usr/bin/env node
+
+// Minimal webhook endpoint for trying out deliveries locally. Prints every
+// event it receives and checks its signature when WEBHOOK_SECRET is set.
+//
+//   WEBHOOK_SECRET=whsec_... npm run webhooks:receive
+//
+// Then subscribe http://localhost:4000/ (or the PORT you chose) in the app.
+// Set FAIL=1 to answer 500 and watch deliveries being retried.
+
+const http = require('http');
+const { createHmac, timingSafeEqual } = require('crypto');
+
+const port = Number(process.env.PORT) || 4000;
+const secret = process.env.WEBHOOK_SECRET;
+const fail = process.env.FAIL === '1';
+
+// The body is the signed content, so the HMAC is computed over it as received
+function isValidSignature(body, header) {
+  const expected = Buffer.from(
+    `sha256=${createHmac('sha256', secret).update(body).digest('hex')}`
+  );
+  const actual = Buffer.from(header || '');
+  return actual.length === expected.length && timingSafeEqual(actual, expected);
+}
+
+const server = http.createServer((request, response) => {
+  if (request.method !== 'POST') {
+    response.writeHead(405).end();
+    return;
+  }
+
+  const chunks = [];
+  request.on('data', (chunk) => chunks.push(chunk));
+  request.on('end', () => {
+    const body = Buffer.concat(chunks);
+    const event = request.headers['x-nexus-event'];
+    const delivery = request.headers['x-nexus-delivery'];
+
+    let signature = '⚪ signature not checked (WEBHOOK_SECRET is not set)';
+    if (secret) {
+      if (!isValidSignature(body, request.headers['x-nexus-signature'])) {
+        console.log(`❌ ${event} ${delivery}: invalid signature`);
+        response.writeHead(401).end();
+        return;
+      }
+      signature = '✅ signature valid';
+    }
+
+    console.log(`\n📨 ${event} (${delivery}) ${signature}`);
+    console.log(JSON.stringify(JSON.parse(body.toString('utf8')), null, 2));
+
+    response.writeHead(fail ? 500 : 204).end();
+  });
+});
+
+server.listen(port, () => {
+  console.log(`🎧 Listening for webhooks on http://localhost:${port}/`);
+  if (fail) {
+    console.log('💥 FAIL=1: answering every delivery with 500');
+  }
+});
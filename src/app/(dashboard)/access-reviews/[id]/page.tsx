@@ -0,0 +1,15 @@
+import { AccessReviewDetail } from '@/components/access-reviews';
+
+export default async function AccessReviewDetailPage({
+  params,
+}: {
+  params: Promise<{ id: string }>;
+}) {
+  const { id } = await params;
+
+  return (
+    <div className="container mx-auto py-8">
+      <AccessReviewDetail campaignId={id} />
+    </div>
+  );
+}
@@ -0,0 +1,18 @@
+import { AccessReviewList } from '@/components/access-reviews';
+
+export default function AccessReviewsPage() {
+  return (
+    <div className="container mx-auto py-8">
+      <div className="space-y-6">
+        <div>
+          <h1 className="text-3xl font-bold tracking-tight">Access Reviews</h1>
+          <p className="text-muted-foreground">
+            Certify periodically that every user still needs the roles they
+            hold.
+          </p>
+        </div>
+        <AccessReviewList />
+      </div>
+    </div>
+  );
+}
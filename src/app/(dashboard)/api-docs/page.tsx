@@ -0,0 +1,18 @@
+import { ApiReference } from '@/components/api-docs';
+
+export default function ApiDocsPage() {
+  return (
+    <div className="container mx-auto py-8">
+      <div className="space-y-6">
+        <div>
+          <h1 className="text-3xl font-bold tracking-tight">API Reference</h1>
+          <p className="text-muted-foreground">
+            Every REST endpoint with its parameters, request body and responses.
+            Requests sent from here use your current session.
+          </p>
+        </div>
+        <ApiReference />
+      </div>
+    </div>
+  );
+}
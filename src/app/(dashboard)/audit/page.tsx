@@ -0,0 +1,17 @@
+import { AuditLogList } from '@/components/audit';
+
+export default function AuditPage() {
+  return (
+    <div className="container mx-auto py-8">
+      <div className="space-y-6">
+        <div>
+          <h1 className="text-3xl font-bold tracking-tight">Audit Log</h1>
+          <p className="text-muted-foreground">
+            Review every change made to permissions, roles and user access.
+          </p>
+        </div>
+        <AuditLogList />
+      </div>
+    </div>
+  );
+}
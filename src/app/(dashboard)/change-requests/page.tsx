@@ -0,0 +1,18 @@
+import { ChangeRequestList } from '@/components/change-requests';
+
+export default function ChangeRequestsPage() {
+  return (
+    <div className="container mx-auto py-8">
+      <div className="space-y-6">
+        <div>
+          <h1 className="text-3xl font-bold tracking-tight">Approvals</h1>
+          <p className="text-muted-foreground">
+            Review proposed changes to permissions, roles and their
+            associations.
+          </p>
+        </div>
+        <ChangeRequestList />
+      </div>
+    </div>
+  );
+}
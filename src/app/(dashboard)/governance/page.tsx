@@ -0,0 +1,18 @@
+import { SodConstraints, SodViolations } from '@/components/governance';
+
+export default function GovernancePage() {
+  return (
+    <div className="container mx-auto py-8">
+      <div className="space-y-6">
+        <div>
+          <h1 className="text-3xl font-bold tracking-tight">Governance</h1>
+          <p className="text-muted-foreground">
+            Keep toxic combinations of roles and permissions apart.
+          </p>
+        </div>
+        <SodConstraints />
+        <SodViolations />
+      </div>
+    </div>
+  );
+}
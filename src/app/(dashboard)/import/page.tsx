@@ -0,0 +1,18 @@
+import { RbacImport } from '@/components/import';
+
+export default function ImportPage() {
+  return (
+    <div className="container mx-auto py-8">
+      <div className="space-y-6">
+        <div>
+          <h1 className="text-3xl font-bold tracking-tight">Import</h1>
+          <p className="text-muted-foreground">
+            Load an exported configuration, review the changes it would make and
+            apply them in one step.
+          </p>
+        </div>
+        <RbacImport />
+      </div>
+    </div>
+  );
+}
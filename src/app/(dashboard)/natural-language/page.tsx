@@ -8,6 +8,7 @@ import {
 } from '@/components/natural-language/command-history';
 import { CommandPreview } from '@/components/natural-language/command-preview';
 import { AIResponseDisplay } from '@/components/natural-language/ai-response-display';
+import { ConfirmationDialog } from '@/components/ui/confirmation-dialog';
 import {
   Card,
   CardContent,
@@ -35,6 +36,11 @@ export default function NaturalLanguagePage() {
   );
   const [history, setHistory] = useState<CommandHistoryItem[]>([]);
   const [lastInput, setLastInput] = useState('');
+  // Impact of a destructive command waiting for the user to confirm it
+  const [pendingConfirmation, setPendingConfirmation] = useState<{
+    message: string;
+    token: string;
+  } | null>(null);
 
   // Initialize AI service and load suggestions
   useEffect(() => {
@@ -90,15 +96,18 @@ export default function NaturalLanguagePage() {
       const response = await processResponse.json();
       setCurrentResponse(response);
 
-      if (response.success && response.command) {
+      // Commands that failed validation are previewed too, so every step
+      // shows whether it is valid. Answered questions have nothing to execute.
+      if (response.command && response.validation && !response.results) {
         setCurrentCommand(response.command);
-      } else {
-        // Add failed command to history immediately
+      }
+      if (!response.success || response.results) {
+        // Add failed commands and answered questions to history immediately
         const historyItem: CommandHistoryItem = {
           id: Date.now().toString(),
           command,
           timestamp: new Date(),
-          success: false,
+          success: response.success,
           message: response.message,
           error: response.error,
         };
@@ -120,10 +129,11 @@ export default function NaturalLanguagePage() {
     }
   };
 
-  const handleCommandExecute = async () => {
+  const handleCommandExecute = async (confirmationToken?: string) => {
     if (!currentCommand || !currentResponse) return;
 
     setIsExecuting(true);
+    setPendingConfirmation(null);
     const startTime = Date.now();
 
     try {
@@ -133,12 +143,25 @@ export default function NaturalLanguagePage() {
         headers: {
           'Content-Type': 'application/json',
         },
-        body: JSON.stringify({ command: currentCommand }),
+        body: JSON.stringify({
+          command: currentCommand,
+          confirm_destructive: Boolean(confirmationToken),
+          confirmation_token: confirmationToken,
+        }),
       });
 
       const result = await response.json();
       const executionTime = Date.now() - startTime;
 
+      // Deletions are only applied once the user has seen what they remove
+      if (response.status === 428 && result.confirmation) {
+        setPendingConfirmation({
+          message: result.message,
+          token: result.confirmation.confirmation_token,
+        });
+        return;
+      }
+
       const historyItem: CommandHistoryItem = {
         id: Date.now().toString(),
         command: lastInput,
@@ -287,9 +310,12 @@ export default function NaturalLanguagePage() {
                 The AI service is not properly configured. Please ensure you
                 have:
                 <ul className="list-disc list-inside mt-2 space-y-1">
-                  <li>Set the GOOGLE_GEMINI_API_KEY environment variable</li>
-                  <li>Restarted the application after adding the API key</li>
-                  <li>Verified your API key is valid</li>
+                  <li>Set LLM_PROVIDER to gemini, openai or rules</li>
+                  <li>
+                    Set the provider&apos;s settings: GOOGLE_GEMINI_API_KEY for
+                    gemini, LLM_BASE_URL and LLM_MODEL for openai
+                  </li>
+                  <li>Restarted the application after changing them</li>
                 </ul>
               </AlertDescription>
             </Alert>
@@ -339,14 +365,26 @@ export default function NaturalLanguagePage() {
             <CommandPreview
               command={currentCommand}
               message={currentResponse?.message || ''}
-              onExecute={handleCommandExecute}
+              onExecute={() => handleCommandExecute()}
               onCancel={handleCommandCancel}
               isExecuting={isExecuting}
               suggestions={currentResponse?.suggestions}
+              validation={currentResponse?.validation}
             />
           </ErrorBoundary>
         )}
 
+        <ConfirmationDialog
+          isOpen={pendingConfirmation !== null}
+          onClose={() => setPendingConfirmation(null)}
+          onConfirm={() => handleCommandExecute(pendingConfirmation?.token)}
+          title="Confirm Deletion"
+          description={pendingConfirmation?.message ?? ''}
+          confirmText="Delete"
+          variant="destructive"
+          isLoading={isExecuting}
+        />
+
         {/* AI Response Display */}
         {currentResponse && !currentCommand && (
           <ErrorBoundary level="component">
@@ -0,0 +1,18 @@
+import { OrganizationMembers } from '@/components/organizations';
+
+export default function OrganizationPage() {
+  return (
+    <div className="container mx-auto py-8">
+      <div className="space-y-6">
+        <div>
+          <h1 className="text-3xl font-bold tracking-tight">Organization</h1>
+          <p className="text-muted-foreground">
+            Manage who belongs to the current organization. Switch or create
+            organizations from the menu at the top.
+          </p>
+        </div>
+        <OrganizationMembers />
+      </div>
+    </div>
+  );
+}
@@ -1,4 +1,4 @@
-import { RoleList } from '@/components/roles';
+import { RoleHierarchy, RoleList } from '@/components/roles';
 
 export default function RolesPage() {
   return (
@@ -7,10 +7,12 @@ export default function RolesPage() {
         <div>
           <h1 className="text-3xl font-bold tracking-tight">Role Management</h1>
           <p className="text-muted-foreground">
-            Create, view, update, and delete roles in your RBAC system.
+            Create, view, update, and delete roles in your RBAC system. Roles
+            can inherit the permissions of a parent role.
           </p>
         </div>
         <RoleList />
+        <RoleHierarchy />
       </div>
     </div>
   );
@@ -0,0 +1,18 @@
+import { PolicySimulator } from '@/components/simulation';
+
+export default function SimulatePage() {
+  return (
+    <div className="container mx-auto py-8">
+      <div className="space-y-6">
+        <div>
+          <h1 className="text-3xl font-bold tracking-tight">What-If</h1>
+          <p className="text-muted-foreground">
+            Find out who gains or loses which permissions before you make a
+            change.
+          </p>
+        </div>
+        <PolicySimulator />
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,18 @@
+import { SnapshotList } from '@/components/snapshots';
+
+export default function SnapshotsPage() {
+  return (
+    <div className="container mx-auto py-8">
+      <div className="space-y-6">
+        <div>
+          <h1 className="text-3xl font-bold tracking-tight">Snapshots</h1>
+          <p className="text-muted-foreground">
+            Save the RBAC model at a point in time, compare versions and roll
+            back mistakes.
+          </p>
+        </div>
+        <SnapshotList />
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,15 @@
+import { UserDetail } from '@/components/users';
+
+export default async function UserDetailPage({
+  params,
+}: {
+  params: Promise<{ id: string }>;
+}) {
+  const { id } = await params;
+
+  return (
+    <div className="container mx-auto py-8">
+      <UserDetail userId={id} />
+    </div>
+  );
+}
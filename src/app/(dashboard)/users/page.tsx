@@ -0,0 +1,18 @@
+import { ExpiringGrants, UserList } from '@/components/users';
+
+export default function UsersPage() {
+  return (
+    <div className="container mx-auto py-8">
+      <div className="space-y-6">
+        <div>
+          <h1 className="text-3xl font-bold tracking-tight">User Access</h1>
+          <p className="text-muted-foreground">
+            See who has access to the system and grant or revoke their roles.
+          </p>
+        </div>
+        <ExpiringGrants />
+        <UserList />
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,18 @@
+import { WebhookList } from '@/components/webhooks';
+
+export default function WebhooksPage() {
+  return (
+    <div className="container mx-auto py-8">
+      <div className="space-y-6">
+        <div>
+          <h1 className="text-3xl font-bold tracking-tight">Webhooks</h1>
+          <p className="text-muted-foreground">
+            Push RBAC changes to the services that cache permissions, and check
+            how each delivery went.
+          </p>
+        </div>
+        <WebhookList />
+      </div>
+    </div>
+  );
+}
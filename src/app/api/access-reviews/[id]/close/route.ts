@@ -0,0 +1,97 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@/lib/supabase/server';
+import { requireAdmin } from '@/lib/supabase/authorization';
+import { handleDatabaseError } from '@/lib/supabase/errors';
+import {
+  ensureAccessReviewReport,
+  getReportSigningSecret,
+} from '@/lib/supabase/access-reviews';
+import { idSchema } from '@/lib/validations/common';
+
+// HTTP status for errors raised by close_access_review
+const CLOSE_ERROR_STATUS: Record<string, number> = {
+  '42501': 403, // insufficient_privilege
+  P0002: 404, // no_data_found
+  '55000': 409, // object_not_in_prerequisite_state: closed or undecided items
+};
+
+// POST /api/access-reviews/[id]/close - Revoke the assignments marked revoke,
+// close the campaign and produce its signed report. Closing a closed campaign
+// again produces a report that could not be stored the first time.
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const supabase = await createClient();
+    const auth = await requireAdmin(supabase);
+    if (auth.response) {
+      return auth.response;
+    }
+
+    const { id } = await params;
+
+    // Validate ID parameter
+    const idValidation = idSchema.safeParse(id);
+    if (!idValidation.success) {
+      return NextResponse.json(
+        { error: 'Invalid access review ID' },
+        { status: 400 }
+      );
+    }
+
+    // Checked first so a campaign is never closed without its report
+    const secret = getReportSigningSecret();
+    if (!secret) {
+      return NextResponse.json(
+        { error: 'ACCESS_REVIEW_SIGNING_SECRET is not configured' },
+        { status: 503 }
+      );
+    }
+
+    const { data: closed, error: closedError } = await supabase
+      .from('access_review_campaigns')
+      .select('*')
+      .eq('id', id)
+      .eq('status', 'closed')
+      .is('report', null)
+      .maybeSingle();
+
+    if (closedError) {
+      throw handleDatabaseError(closedError);
+    }
+
+    if (closed) {
+      const campaign = await ensureAccessReviewReport(supabase, closed, secret);
+      return NextResponse.json({
+        data: campaign,
+        message: 'Access review report produced',
+      });
+    }
+
+    const { data, error } = await supabase
+      .rpc('close_access_review', { campaign_id: id })
+      .single();
+
+    if (error) {
+      const status = CLOSE_ERROR_STATUS[error.code];
+      if (!status) {
+        throw handleDatabaseError(error);
+      }
+      return NextResponse.json({ error: error.message }, { status });
+    }
+
+    const campaign = await ensureAccessReviewReport(supabase, data, secret);
+
+    return NextResponse.json({
+      data: campaign,
+      message: `Access review closed: ${campaign.report?.totals.revoked ?? 0} assignments revoked`,
+    });
+  } catch (error) {
+    console.error('Error closing access review:', error);
+    return NextResponse.json(
+      { error: 'Failed to close access review' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,132 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@/lib/supabase/server';
+import {
+  RBAC_REVIEW_PERMISSION,
+  requirePermission,
+} from '@/lib/supabase/authorization';
+import { handleDatabaseError } from '@/lib/supabase/errors';
+import { idSchema } from '@/lib/validations/common';
+import { accessReviewDecisionsSchema } from '@/lib/validations/rbac';
+
+// POST /api/access-reviews/[id]/decisions - Mark items keep or revoke.
+// Decisions can be changed until the campaign is closed.
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const supabase = await createClient();
+    const auth = await requirePermission(supabase, RBAC_REVIEW_PERMISSION);
+    if (auth.response) {
+      return auth.response;
+    }
+
+    const body = await request.json();
+    const { id } = await params;
+
+    // Validate ID parameter
+    const idValidation = idSchema.safeParse(id);
+    if (!idValidation.success) {
+      return NextResponse.json(
+        { error: 'Invalid access review ID' },
+        { status: 400 }
+      );
+    }
+
+    // Validate input data
+    const validation = accessReviewDecisionsSchema.safeParse(body);
+    if (!validation.success) {
+      return NextResponse.json(
+        {
+          error: 'Invalid input data',
+          details: validation.error.issues.map((err) => ({
+            field: err.path.join('.'),
+            message: err.message,
+          })),
+        },
+        { status: 400 }
+      );
+    }
+
+    const { data: campaign, error: campaignError } = await supabase
+      .from('access_review_campaigns')
+      .select('status')
+      .eq('id', id)
+      .maybeSingle();
+
+    if (campaignError) {
+      throw handleDatabaseError(campaignError);
+    }
+
+    if (!campaign) {
+      return NextResponse.json(
+        { error: 'Access review not found' },
+        { status: 404 }
+      );
+    }
+
+    if (campaign.status !== 'open') {
+      return NextResponse.json(
+        { error: 'Access review is already closed' },
+        { status: 409 }
+      );
+    }
+
+    // Items sharing a decision and comment are updated together
+    const groups = new Map<
+      string,
+      { decision: 'keep' | 'revoke'; comment: string | null; ids: string[] }
+    >();
+    for (const { item_id, decision, comment } of validation.data.decisions) {
+      const key = JSON.stringify([decision, comment]);
+      const group = groups.get(key) ?? { decision, comment, ids: [] };
+      group.ids.push(item_id);
+      groups.set(key, group);
+    }
+
+    const decidedAt = new Date().toISOString();
+    const results = await Promise.all(
+      [...groups.values()].map(({ decision, comment, ids }) =>
+        supabase
+          .from('access_review_items')
+          .update({
+            decision,
+            comment,
+            decided_by: auth.user.id,
+            decided_by_email: auth.user.email ?? null,
+            decided_at: decidedAt,
+          })
+          .eq('campaign_id', id)
+          .in('id', ids)
+          .select('id')
+      )
+    );
+
+    const queryError = results.find((result) => result.error)?.error;
+    if (queryError) {
+      throw handleDatabaseError(queryError);
+    }
+
+    // RLS leaves out items the reviewer may not decide on
+    const updated = new Set(
+      results.flatMap((result) => (result.data || []).map((item) => item.id))
+    );
+    const skipped = validation.data.decisions
+      .map((decision) => decision.item_id)
+      .filter((itemId) => !updated.has(itemId));
+
+    return NextResponse.json({
+      data: { updated: updated.size, skipped },
+      message:
+        skipped.length === 0
+          ? `${updated.size} decisions recorded`
+          : `${updated.size} decisions recorded, ${skipped.length} skipped (unknown items or your own assignments)`,
+    });
+  } catch (error) {
+    console.error('Error recording access review decisions:', error);
+    return NextResponse.json(
+      { error: 'Failed to record access review decisions' },
+      { status: 500 }
+    );
+  }
+}
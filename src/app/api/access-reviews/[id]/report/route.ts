@@ -0,0 +1,102 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@/lib/supabase/server';
+import { requireUser } from '@/lib/supabase/authorization';
+import { handleDatabaseError } from '@/lib/supabase/errors';
+import { getReportSigningSecret } from '@/lib/supabase/access-reviews';
+import { verifySignature } from '@/lib/signing';
+import { idSchema } from '@/lib/validations/common';
+
+// GET /api/access-reviews/[id]/report - Signed summary of a closed campaign,
+// as stored when it was closed. `?download=true` returns the report as a JSON
+// file.
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const supabase = await createClient();
+    const auth = await requireUser(supabase);
+    if (auth.response) {
+      return auth.response;
+    }
+
+    const { id } = await params;
+
+    // Validate ID parameter
+    const idValidation = idSchema.safeParse(id);
+    if (!idValidation.success) {
+      return NextResponse.json(
+        { error: 'Invalid access review ID' },
+        { status: 400 }
+      );
+    }
+
+    const secret = getReportSigningSecret();
+    if (!secret) {
+      return NextResponse.json(
+        { error: 'ACCESS_REVIEW_SIGNING_SECRET is not configured' },
+        { status: 503 }
+      );
+    }
+
+    const { data: campaign, error } = await supabase
+      .from('access_review_campaigns')
+      .select('*')
+      .eq('id', id)
+      .maybeSingle();
+
+    if (error) {
+      throw handleDatabaseError(error);
+    }
+
+    if (!campaign) {
+      return NextResponse.json(
+        { error: 'Access review not found' },
+        { status: 404 }
+      );
+    }
+
+    if (campaign.status !== 'closed') {
+      return NextResponse.json(
+        { error: 'The report is available once the access review is closed' },
+        { status: 409 }
+      );
+    }
+
+    if (!campaign.report || !campaign.report_signature) {
+      return NextResponse.json(
+        {
+          error:
+            'The report was not stored when the access review was closed; an administrator can close it again to produce it',
+        },
+        { status: 409 }
+      );
+    }
+    const signature = campaign.report_signature;
+
+    const result = {
+      report: campaign.report,
+      signature,
+      algorithm: 'HMAC-SHA256',
+      verified: verifySignature(campaign.report, signature, secret),
+    };
+
+    const { searchParams } = new URL(request.url);
+    if (searchParams.get('download') === 'true') {
+      return new NextResponse(JSON.stringify(result, null, 2), {
+        headers: {
+          'Content-Type': 'application/json',
+          'Content-Disposition': `attachment; filename="access-review-${campaign.id}.json"`,
+        },
+      });
+    }
+
+    return NextResponse.json({ data: result });
+  } catch (error) {
+    console.error('Error fetching access review report:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch access review report' },
+      { status: 500 }
+    );
+  }
+}
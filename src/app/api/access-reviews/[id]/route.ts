@@ -0,0 +1,71 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@/lib/supabase/server';
+import { requireUser } from '@/lib/supabase/authorization';
+import { handleDatabaseError } from '@/lib/supabase/errors';
+import { idSchema } from '@/lib/validations/common';
+
+// GET /api/access-reviews/[id] - Get a campaign with every item under review
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const supabase = await createClient();
+    const auth = await requireUser(supabase);
+    if (auth.response) {
+      return auth.response;
+    }
+
+    const { id } = await params;
+
+    // Validate ID parameter
+    const idValidation = idSchema.safeParse(id);
+    if (!idValidation.success) {
+      return NextResponse.json(
+        { error: 'Invalid access review ID' },
+        { status: 400 }
+      );
+    }
+
+    const [
+      { data: campaign, error: campaignError },
+      { data: items, error: itemsError },
+    ] = await Promise.all([
+      supabase
+        .from('access_review_campaigns')
+        .select('*')
+        .eq('id', id)
+        .maybeSingle(),
+      supabase
+        .from('access_review_items')
+        .select('*')
+        .eq('campaign_id', id)
+        .order('role_name')
+        .order('user_email'),
+    ]);
+
+    const queryError = campaignError || itemsError;
+    if (queryError) {
+      throw handleDatabaseError(queryError);
+    }
+
+    if (!campaign) {
+      return NextResponse.json(
+        { error: 'Access review not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      data: { ...campaign, items: items || [] },
+      // Reviewers cannot decide on their own assignments
+      current_user_id: auth.user.id,
+    });
+  } catch (error) {
+    console.error('Error fetching access review:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch access review' },
+      { status: 500 }
+    );
+  }
+}
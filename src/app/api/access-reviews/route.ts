@@ -0,0 +1,117 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@/lib/supabase/server';
+import { requireAdmin, requireUser } from '@/lib/supabase/authorization';
+import { handleDatabaseError } from '@/lib/supabase/errors';
+import { createAccessReviewSchema } from '@/lib/validations/rbac';
+
+// GET /api/access-reviews - List access review campaigns with their progress.
+// RLS limits the results to administrators and reviewers.
+export async function GET() {
+  try {
+    const supabase = await createClient();
+    const auth = await requireUser(supabase);
+    if (auth.response) {
+      return auth.response;
+    }
+
+    const { data, error } = await supabase
+      .from('access_review_campaigns')
+      .select(
+        'id, name, description, roles, status, due_at, created_by_email, created_at, closed_by_email, closed_at, access_review_items(decision)'
+      )
+      .order('created_at', { ascending: false });
+
+    if (error) {
+      throw handleDatabaseError(error);
+    }
+
+    const campaigns = (data || []).map(
+      ({ access_review_items: items, ...campaign }) => ({
+        ...campaign,
+        progress: {
+          total: items.length,
+          decided: items.filter((item) => item.decision !== null).length,
+          revoke: items.filter((item) => item.decision === 'revoke').length,
+        },
+      })
+    );
+
+    return NextResponse.json({ data: campaigns });
+  } catch (error) {
+    console.error('Error fetching access reviews:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch access reviews' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/access-reviews - Launch a campaign over the current assignments
+// of the given roles
+export async function POST(request: NextRequest) {
+  try {
+    const supabase = await createClient();
+    const auth = await requireAdmin(supabase);
+    if (auth.response) {
+      return auth.response;
+    }
+
+    const body = await request.json();
+
+    // Validate input data
+    const validation = createAccessReviewSchema.safeParse(body);
+    if (!validation.success) {
+      return NextResponse.json(
+        {
+          error: 'Invalid input data',
+          details: validation.error.issues.map((err) => ({
+            field: err.path.join('.'),
+            message: err.message,
+          })),
+        },
+        { status: 400 }
+      );
+    }
+
+    const { name, description, role_ids, due_at } = validation.data;
+
+    const { data, error } = await supabase
+      .rpc('start_access_review', {
+        campaign_name: name,
+        campaign_description: description,
+        role_ids,
+        due_at: due_at ?? null,
+      })
+      .single();
+
+    if (error) {
+      if (error.code === 'P0002') {
+        return NextResponse.json({ error: error.message }, { status: 404 });
+      }
+      throw handleDatabaseError(error);
+    }
+
+    const { count, error: countError } = await supabase
+      .from('access_review_items')
+      .select('id', { count: 'exact', head: true })
+      .eq('campaign_id', data.id);
+
+    if (countError) {
+      throw handleDatabaseError(countError);
+    }
+
+    return NextResponse.json(
+      {
+        data,
+        message: `Access review "${name}" launched with ${count || 0} assignments to review`,
+      },
+      { status: 201 }
+    );
+  } catch (error) {
+    console.error('Error launching access review:', error);
+    return NextResponse.json(
+      { error: 'Failed to launch access review' },
+      { status: 500 }
+    );
+  }
+}
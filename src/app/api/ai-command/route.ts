@@ -1,12 +1,53 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { createClient } from '@/lib/supabase/server';
+import { requireAdmin } from '@/lib/supabase/authorization';
+import { listOrganizationUsers } from '@/lib/supabase/organizations';
+import { isChangeApprovalRequired } from '@/lib/supabase/change-requests';
+import { findSodChangeViolations } from '@/lib/supabase/sod';
+import { SCOPE_WILDCARD } from '@/lib/validations/rbac';
+import { executeCommandSchema } from '@/lib/validations/ai';
 import { aiService } from '@/lib/gemini/ai-service';
-import { AICommand, CommandExecutionResult } from '@/lib/gemini/types';
+import { findByName } from '@/lib/gemini/names';
+import { formatSodViolation } from '@/lib/rbac-utils';
+import { isQueryStep } from '@/lib/gemini/query-engine';
+import {
+  ConfirmationSubject,
+  createConfirmationToken,
+  getConfirmationSecret,
+  verifyConfirmationToken,
+} from '@/lib/gemini/confirmation';
+import {
+  AICommand,
+  AICommandStep,
+  AICommandType,
+  CommandExecutionResult,
+  CommandImpact,
+} from '@/lib/gemini/types';
+import type { Role, RolePermission, UserRole } from '@/lib/types';
 
 type SupabaseClient = Awaited<ReturnType<typeof createClient>>;
 
+// Result of a command with the HTTP status to answer with, 200 by default
+type ExecutionOutcome = CommandExecutionResult & { status?: number };
+
+interface ExecutionOptions {
+  userId: string;
+  dryRun: boolean;
+  confirmDestructive: boolean;
+  confirmationToken?: string;
+  // Seconds allowed before changes are sent; the signal aborts once it passes
+  timeout: number;
+  signal: AbortSignal;
+}
+
 export async function POST(request: NextRequest) {
   try {
+    const supabase = await createClient();
+    const auth = await requireAdmin(supabase);
+    if (auth.response) {
+      return auth.response;
+    }
+
     let body;
     try {
       body = await request.json();
@@ -22,49 +63,64 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    const { command } = body;
-
-    // Check if this is a parsed command (object) or a string command to process
-    if (typeof command === 'object' && command !== null && 'type' in command) {
-      // This is a parsed AICommand object - execute it directly
-      const supabase = await createClient();
-      const executionResult = await executeCommand(
-        supabase,
-        command as AICommand
-      );
-
-      return NextResponse.json({
-        success: executionResult.success,
-        message: executionResult.message,
-        error: executionResult.error,
-        data: executionResult.data,
-        parsedCommand: command,
-      });
-    }
+    const { command } = body ?? {};
 
-    // This is a string command - process it first
-    const userInput = command;
-
-    // Validate input
-    if (
-      !userInput ||
-      typeof userInput !== 'string' ||
-      userInput.trim().length === 0
-    ) {
+    // A single parsed step sent without the steps wrapper is accepted too
+    const validation = executeCommandSchema.safeParse({
+      ...body,
+      command:
+        typeof command === 'object' && command !== null && !('steps' in command)
+          ? { steps: [command] }
+          : command,
+    });
+    if (!validation.success) {
+      const isPlan = typeof command === 'object' && command !== null;
       return NextResponse.json(
         {
           success: false,
-          message: 'Invalid command format',
-          error: 'Command must be a non-empty string or parsed command object',
-          suggestions: [
-            'Try: "Create a new permission called read_users"',
-            'Or: "Give the admin role the read_users permission"',
-          ],
+          message: isPlan ? 'Invalid command plan' : 'Invalid command format',
+          error: validation.error.issues
+            .map((issue) => `${issue.path.join('.')}: ${issue.message}`)
+            .join(', '),
+          suggestions: isPlan
+            ? undefined
+            : [
+                'Try: "Create a new permission called read_users"',
+                'Or: "Give the admin role the read_users permission"',
+              ],
         },
         { status: 400 }
       );
     }
 
+    const { timeout } = validation.data;
+    const options: ExecutionOptions = {
+      userId: auth.user.id,
+      dryRun: validation.data.dry_run,
+      confirmDestructive: validation.data.confirm_destructive,
+      confirmationToken: validation.data.confirmation_token,
+      timeout,
+      signal: AbortSignal.timeout(timeout * 1000),
+    };
+
+    // Check if this is a parsed command plan or a string command to process
+    if (typeof validation.data.command === 'object') {
+      // This is a parsed command plan - execute it directly
+      const { status = 200, ...executionResult } = await executeCommand(
+        supabase,
+        validation.data.command as AICommand,
+        options
+      );
+
+      return NextResponse.json(
+        { ...executionResult, parsedCommand: command },
+        { status }
+      );
+    }
+
+    // This is a string command - process it first
+    const userInput = validation.data.command;
+
     // Check if AI service is available
     const isAvailable = await aiService.isAvailable();
     if (!isAvailable) {
@@ -72,7 +128,7 @@ export async function POST(request: NextRequest) {
         {
           success: false,
           message: 'AI service is currently unavailable',
-          error: 'Google Gemini API key is not configured',
+          error: 'The LLM provider is not configured',
           suggestions: [
             'Use the manual interface to manage permissions and roles',
             'Contact your administrator to configure the AI service',
@@ -83,7 +139,19 @@ export async function POST(request: NextRequest) {
     }
 
     // Process the natural language command
-    const aiResponse = await aiService.processCommand(userInput.trim());
+    const aiResponse = await aiService.processCommand(
+      userInput,
+      supabase,
+      options.signal
+    );
+
+    if (options.signal.aborted) {
+      const { status, ...timeoutResult } = timedOut(timeout);
+      return NextResponse.json(
+        { ...timeoutResult, parsedCommand: null },
+        { status }
+      );
+    }
 
     // If AI processing failed, return the error
     if (!aiResponse.success || !aiResponse.command) {
@@ -96,19 +164,32 @@ export async function POST(request: NextRequest) {
       });
     }
 
+    // Questions were answered while processing, there is nothing to apply
+    if (aiResponse.results) {
+      return NextResponse.json({
+        success: true,
+        message: aiResponse.message,
+        data: aiResponse.results,
+        parsedCommand: aiResponse.command,
+      });
+    }
+
     // Execute the parsed command
-    const supabase = await createClient();
-    const executionResult = await executeCommand(supabase, aiResponse.command);
+    const { status = 200, ...executionResult } = await executeCommand(
+      supabase,
+      aiResponse.command,
+      options
+    );
 
     // Return structured response
-    return NextResponse.json({
-      success: executionResult.success,
-      message: executionResult.message,
-      error: executionResult.error,
-      data: executionResult.data,
-      parsedCommand: aiResponse.command,
-      suggestions: executionResult.success ? [] : aiResponse.suggestions,
-    });
+    return NextResponse.json(
+      {
+        ...executionResult,
+        parsedCommand: aiResponse.command,
+        suggestions: executionResult.success ? [] : aiResponse.suggestions,
+      },
+      { status }
+    );
   } catch (error) {
     console.error('Error processing AI command:', error);
     return NextResponse.json(
@@ -127,394 +208,419 @@ export async function POST(request: NextRequest) {
   }
 }
 
+// Parameters each step type needs before it is sent to the database
+const REQUIRED_PARAMETERS: Record<
+  Exclude<AICommandType, 'unknown'>,
+  string[]
+> = {
+  create_permission: ['name'],
+  create_role: ['name'],
+  assign_permission: ['role_name', 'permission_name'],
+  remove_permission: ['role_name', 'permission_name'],
+  delete_permission: ['name'],
+  delete_role: ['name'],
+  assign_role_to_user: ['user_email', 'role_name'],
+  remove_role_from_user: ['user_email', 'role_name'],
+  list_user_roles: ['user_email'],
+  find_roles_with_permission: ['permission_name'],
+  list_role_permissions: ['role_name'],
+  list_unused_permissions: [],
+  find_users_with_permission: ['permission_name'],
+};
+
+const isDeletion = (step: AICommandStep) =>
+  step.type === 'delete_permission' || step.type === 'delete_role';
+
+const timedOut = (seconds: number): ExecutionOutcome => ({
+  success: false,
+  message: `Command timed out after ${seconds}s, nothing was changed`,
+  error: 'Timeout',
+  status: 504,
+});
+
 /**
- * Execute a parsed AI command against the database
+ * Execute a parsed AI command against the database. All steps are applied in
+ * one transaction by apply_ai_command_plan, so either every change is made or
+ * none is. Dry runs stop before anything is written, plans are refused while
+ * changes require approval, and deletions only go ahead with a confirmation
+ * token issued for the same plan and user.
  */
 async function executeCommand(
   supabase: SupabaseClient,
-  command: AICommand
-): Promise<CommandExecutionResult> {
-  switch (command.type) {
-    case 'create_permission':
-      return await createPermission(supabase, command);
-    case 'create_role':
-      return await createRole(supabase, command);
-    case 'assign_permission':
-      return await assignPermission(supabase, command);
-    case 'remove_permission':
-      return await removePermission(supabase, command);
-    case 'delete_permission':
-      return await deletePermission(supabase, command);
-    case 'delete_role':
-      return await deleteRole(supabase, command);
-    default:
+  command: AICommand,
+  options: ExecutionOptions
+): Promise<ExecutionOutcome> {
+  const { steps } = command;
+  const stepLabel = (index: number) =>
+    steps.length > 1 ? `Step ${index + 1}: ` : '';
+
+  for (const [index, step] of steps.entries()) {
+    const required =
+      REQUIRED_PARAMETERS[step.type as keyof typeof REQUIRED_PARAMETERS];
+    if (!required) {
       return {
         success: false,
-        message: 'Unknown command type',
-        error: `Unsupported command type: ${command.type}`,
+        message: `${stepLabel(index)}Unknown command type`,
+        error: `Unsupported command type: ${step.type}`,
       };
-  }
-}
-
-async function createPermission(
-  supabase: SupabaseClient,
-  command: AICommand
-): Promise<CommandExecutionResult> {
-  const { name, description } = command.parameters;
-
-  if (!name) {
-    return {
-      success: false,
-      message: 'Permission name is required',
-      error: 'Missing permission name',
-    };
-  }
-
-  // Check if permission already exists
-  const { data: existing } = await supabase
-    .from('permissions')
-    .select('id')
-    .eq('name', name)
-    .single();
+    }
 
-  if (existing) {
-    return {
-      success: false,
-      message: `Permission "${name}" already exists`,
-      error: 'Duplicate permission name',
-    };
+    const missing = required.filter((name) => !step.parameters[name]);
+    if (missing.length > 0) {
+      return {
+        success: false,
+        message: `${stepLabel(index)}Missing ${missing.join(', ')}`,
+        error: 'Missing required parameters',
+      };
+    }
   }
 
-  const { data, error } = await supabase
-    .from('permissions')
-    .insert([{ name, description: description || null }])
-    .select()
-    .single();
-
-  if (error) {
-    return {
-      success: false,
-      message: 'Failed to create permission',
-      error: error.message,
-    };
+  // Questions are answered from the RBAC model without writing anything
+  const queries = steps.filter(isQueryStep).length;
+  if (queries > 0) {
+    return queries === steps.length
+      ? answerQueries(supabase, steps)
+      : {
+          success: false,
+          message:
+            'Questions cannot be combined with changes; ask them separately',
+          error: 'Mixed query and change steps',
+        };
   }
 
-  return {
-    success: true,
-    message: `Permission "${name}" created successfully`,
-    data,
-  };
-}
-
-async function createRole(
-  supabase: SupabaseClient,
-  command: AICommand
-): Promise<CommandExecutionResult> {
-  const { name } = command.parameters;
-
-  if (!name) {
-    return {
-      success: false,
-      message: 'Role name is required',
-      error: 'Missing role name',
-    };
-  }
+  // Users are given by email; the database function needs their IDs
+  const users = steps.some((step) => step.parameters.user_email)
+    ? await listOrganizationUsers(supabase)
+    : [];
+  const resolvedSteps: AICommandStep[] = [];
+  for (const [index, step] of steps.entries()) {
+    const { user_email } = step.parameters;
+    if (!user_email) {
+      resolvedSteps.push(step);
+      continue;
+    }
 
-  // Check if role already exists
-  const { data: existing } = await supabase
-    .from('roles')
-    .select('id')
-    .eq('name', name)
-    .single();
+    const user = users.find(
+      (candidate) => candidate.email?.toLowerCase() === user_email.toLowerCase()
+    );
+    if (!user) {
+      return {
+        success: false,
+        message: `${stepLabel(index)}User "${user_email}" not found`,
+        error: 'User does not exist',
+      };
+    }
 
-  if (existing) {
-    return {
-      success: false,
-      message: `Role "${name}" already exists`,
-      error: 'Duplicate role name',
-    };
+    resolvedSteps.push({
+      ...step,
+      parameters: { ...step.parameters, user_id: user.id },
+    });
   }
 
-  const { data, error } = await supabase
-    .from('roles')
-    .insert([{ name }])
-    .select()
-    .single();
-
-  if (error) {
-    return {
-      success: false,
-      message: 'Failed to create role',
-      error: error.message,
-    };
+  const sodResult = await checkPlanSod(supabase, resolvedSteps);
+  if (sodResult) {
+    return sodResult;
   }
 
-  return {
-    success: true,
-    message: `Role "${name}" created successfully`,
-    data,
-  };
-}
-
-async function assignPermission(
-  supabase: SupabaseClient,
-  command: AICommand
-): Promise<CommandExecutionResult> {
-  const { role_name, permission_name } = command.parameters;
-
-  if (!role_name || !permission_name) {
-    return {
-      success: false,
-      message: 'Both role name and permission name are required',
-      error: 'Missing required parameters',
-    };
+  const deletions = steps.filter(isDeletion);
+  const preview =
+    options.dryRun || deletions.length > 0
+      ? await aiService.previewCommand(command, supabase)
+      : null;
+
+  // Tokens are bound to the organization, which the header can switch
+  const secret = getConfirmationSecret();
+  let subject: ConfirmationSubject | undefined;
+  if (deletions.length > 0 && secret) {
+    const { data: organizationId, error } = await supabase.rpc(
+      'current_organization_id'
+    );
+    if (error || !organizationId) {
+      return {
+        success: false,
+        message: 'Could not determine the organization, nothing was changed',
+        error: error?.message ?? 'No current organization',
+      };
+    }
+    subject = { userId: options.userId, organizationId };
   }
 
-  // Find role and permission
-  const [roleResult, permissionResult] = await Promise.all([
-    supabase.from('roles').select('id, name').eq('name', role_name).single(),
-    supabase
-      .from('permissions')
-      .select('id, name')
-      .eq('name', permission_name)
-      .single(),
-  ]);
+  const confirmation =
+    preview && subject && secret
+      ? {
+          impact: preview.impact,
+          ...createConfirmationToken(steps, subject, secret),
+        }
+      : undefined;
 
-  if (roleResult.error) {
+  if (preview && options.dryRun) {
     return {
-      success: false,
-      message: `Role "${role_name}" not found`,
-      error: 'Role does not exist',
+      success: preview.valid,
+      dry_run: true,
+      message: preview.valid
+        ? [
+            'Dry run, nothing was changed.',
+            steps.length > 1
+              ? `All ${steps.length} steps are valid.`
+              : 'The command is valid.',
+            summarizeImpact(preview.impact),
+          ]
+            .filter(Boolean)
+            .join(' ')
+        : 'Dry run found problems, nothing was changed',
+      error: preview.valid ? undefined : preview.errors.join(', '),
+      data: { validation: preview.steps, impact: preview.impact },
+      confirmation,
     };
   }
 
-  if (permissionResult.error) {
+  // Plans apply as a whole, so like bulk changes they cannot go through
+  // approval
+  if (isChangeApprovalRequired()) {
     return {
       success: false,
-      message: `Permission "${permission_name}" not found`,
-      error: 'Permission does not exist',
+      message:
+        'Natural language changes are disabled while changes require approval. Use a dry run to check a command, then submit its changes one at a time.',
+      error: 'Change approval required',
+      status: 409,
     };
   }
 
-  const role = roleResult.data;
-  const permission = permissionResult.data;
+  if (preview && deletions.length > 0) {
+    if (!secret || !subject) {
+      return {
+        success: false,
+        message: 'AI_COMMAND_CONFIRMATION_SECRET is not configured',
+        error: 'Destructive commands cannot be confirmed',
+        status: 503,
+      };
+    }
 
-  // Check if association already exists
-  const { data: existing } = await supabase
-    .from('role_permissions')
-    .select('role_id, permission_id')
-    .eq('role_id', role.id)
-    .eq('permission_id', permission.id)
-    .single();
+    const confirmed =
+      options.confirmDestructive &&
+      options.confirmationToken !== undefined &&
+      verifyConfirmationToken(
+        options.confirmationToken,
+        steps,
+        subject,
+        secret
+      );
+    if (!confirmed) {
+      return {
+        success: false,
+        message: summarizeImpact(preview.impact),
+        error: options.confirmationToken
+          ? 'Invalid or expired confirmation token'
+          : 'Confirmation required: send confirm_destructive with the confirmation token',
+        confirmation,
+        status: 428,
+      };
+    }
+  }
 
-  if (existing) {
-    return {
-      success: false,
-      message: `Role "${role_name}" already has permission "${permission_name}"`,
-      error: 'Association already exists',
-    };
+  // The time limit covers everything before the first write; once sent, the
+  // transaction runs to completion
+  if (options.signal.aborted) {
+    return timedOut(options.timeout);
   }
 
-  const { data, error } = await supabase
-    .from('role_permissions')
-    .insert([{ role_id: role.id, permission_id: permission.id }])
-    .select()
-    .single();
+  // Deletions can be undone from the snapshot the plan takes before its
+  // first step, in the same transaction
+  const snapshotName =
+    deletions.length > 0
+      ? `Before deleting ${deletions
+          .map(
+            (step) =>
+              `${step.type === 'delete_role' ? 'role' : 'permission'} "${
+                step.parameters.name
+              }"`
+          )
+          .join(', ')}`
+      : undefined;
+
+  const { error } = await supabase.rpc('apply_ai_command_plan', {
+    steps: resolvedSteps,
+    snapshot_name: snapshotName,
+  });
 
   if (error) {
     return {
       success: false,
-      message: 'Failed to assign permission',
+      message:
+        steps.length > 1
+          ? `No changes were made. ${error.message}`
+          : error.message.replace(/^Step 1: /, ''),
       error: error.message,
     };
   }
 
-  return {
-    success: true,
-    message: `Permission "${permission_name}" assigned to role "${role_name}" successfully`,
-    data,
-  };
-}
-
-async function removePermission(
-  supabase: SupabaseClient,
-  command: AICommand
-): Promise<CommandExecutionResult> {
-  const { role_name, permission_name } = command.parameters;
-
-  if (!role_name || !permission_name) {
-    return {
-      success: false,
-      message: 'Both role name and permission name are required',
-      error: 'Missing required parameters',
-    };
-  }
-
-  // Find role and permission
-  const [roleResult, permissionResult] = await Promise.all([
-    supabase.from('roles').select('id, name').eq('name', role_name).single(),
-    supabase
-      .from('permissions')
-      .select('id, name')
-      .eq('name', permission_name)
-      .single(),
-  ]);
-
-  if (roleResult.error) {
-    return {
-      success: false,
-      message: `Role "${role_name}" not found`,
-      error: 'Role does not exist',
-    };
-  }
-
-  if (permissionResult.error) {
-    return {
-      success: false,
-      message: `Permission "${permission_name}" not found`,
-      error: 'Permission does not exist',
-    };
-  }
-
-  const role = roleResult.data;
-  const permission = permissionResult.data;
+  const undo = snapshotName
+    ? ` Restore snapshot "${snapshotName}" to undo this.`
+    : '';
 
-  // Check if association exists
-  const { data: existing } = await supabase
-    .from('role_permissions')
-    .select('role_id, permission_id')
-    .eq('role_id', role.id)
-    .eq('permission_id', permission.id)
-    .single();
-
-  if (!existing) {
-    return {
-      success: false,
-      message: `Role "${role_name}" does not have permission "${permission_name}"`,
-      error: 'Association does not exist',
-    };
-  }
-
-  const { error } = await supabase
-    .from('role_permissions')
-    .delete()
-    .eq('role_id', role.id)
-    .eq('permission_id', permission.id);
-
-  if (error) {
+  if (steps.length === 1) {
     return {
-      success: false,
-      message: 'Failed to remove permission',
-      error: error.message,
+      success: true,
+      message: `${describeStep(steps[0])} successfully.${undo}`,
     };
   }
 
   return {
     success: true,
-    message: `Permission "${permission_name}" removed from role "${role_name}" successfully`,
+    message: `All ${steps.length} steps applied: ${steps
+      .map(describeStep)
+      .join('; ')}.${undo}`,
   };
 }
 
-async function deletePermission(
+async function answerQueries(
   supabase: SupabaseClient,
-  command: AICommand
+  steps: AICommandStep[]
 ): Promise<CommandExecutionResult> {
-  const { name } = command.parameters;
-
-  if (!name) {
+  try {
+    const results = await aiService.answerQueries(steps, supabase);
     return {
-      success: false,
-      message: 'Permission name is required',
-      error: 'Missing permission name',
+      success: true,
+      message: results.map((result) => result.summary).join('; '),
+      data: results,
     };
-  }
-
-  // Find permission
-  const { data: permission, error: findError } = await supabase
-    .from('permissions')
-    .select('id, name')
-    .eq('name', name)
-    .single();
-
-  if (findError) {
+  } catch (error) {
     return {
       success: false,
-      message: `Permission "${name}" not found`,
-      error: 'Permission does not exist',
+      message: error instanceof Error ? error.message : 'Query failed',
+      error: 'Failed to answer the question',
     };
   }
+}
 
-  // Delete associated role_permissions first
-  await supabase
-    .from('role_permissions')
-    .delete()
-    .eq('permission_id', permission.id);
+// e.g. 'Deleting role "editor" also removes 3 permission associations and
+// 2 user role assignments.'
+function summarizeImpact(impact: CommandImpact[]): string {
+  return impact
+    .map(({ type, name, associations, user_assignments }) => {
+      const removed = [
+        `${associations.length} permission association${
+          associations.length === 1 ? '' : 's'
+        }`,
+      ];
+      if (type === 'delete_role') {
+        removed.push(
+          `${user_assignments.length} user role assignment${
+            user_assignments.length === 1 ? '' : 's'
+          }`
+        );
+      }
+      return `Deleting ${type === 'delete_role' ? 'role' : 'permission'} "${name}" also removes ${removed.join(' and ')}.`;
+    })
+    .join(' ');
+}
 
-  // Delete the permission
-  const { error } = await supabase
-    .from('permissions')
-    .delete()
-    .eq('id', permission.id);
+// What a successfully applied step did, e.g. 'Role "auditor" created'
+function describeStep({ type, parameters }: AICommandStep): string {
+  const { name, role_name, permission_name, user_email } = parameters;
 
-  if (error) {
-    return {
-      success: false,
-      message: 'Failed to delete permission',
-      error: error.message,
-    };
+  switch (type) {
+    case 'create_permission':
+      return `Permission "${name}" created`;
+    case 'create_role':
+      return `Role "${name}" created`;
+    case 'assign_permission':
+      return `Permission "${permission_name}" assigned to role "${role_name}"`;
+    case 'remove_permission':
+      return `Permission "${permission_name}" removed from role "${role_name}"`;
+    case 'delete_permission':
+      return `Permission "${name}" deleted`;
+    case 'delete_role':
+      return `Role "${name}" deleted`;
+    case 'assign_role_to_user':
+      return `Role "${role_name}" assigned to user "${user_email}"`;
+    case 'remove_role_from_user':
+      return `Role "${role_name}" removed from user "${user_email}"`;
+    default:
+      return type;
   }
-
-  return {
-    success: true,
-    message: `Permission "${name}" deleted successfully`,
-  };
 }
 
-async function deleteRole(
+/**
+ * Check the permissions and user roles a plan grants against the
+ * separation-of-duties constraints, including grants to roles the plan
+ * creates. Returns an error result, or null when the plan is allowed.
+ */
+async function checkPlanSod(
   supabase: SupabaseClient,
-  command: AICommand
-): Promise<CommandExecutionResult> {
-  const { name } = command.parameters;
-
-  if (!name) {
-    return {
-      success: false,
-      message: 'Role name is required',
-      error: 'Missing role name',
-    };
+  steps: AICommandStep[]
+): Promise<CommandExecutionResult | null> {
+  if (
+    !steps.some(
+      (step) =>
+        step.type === 'assign_permission' || step.type === 'assign_role_to_user'
+    )
+  ) {
+    return null;
   }
 
-  // Find role
-  const { data: role, error: findError } = await supabase
-    .from('roles')
-    .select('id, name')
-    .eq('name', name)
-    .single();
+  const [rolesResult, permissionsResult] = await Promise.all([
+    supabase.from('roles').select('id, name'),
+    supabase.from('permissions').select('id, name'),
+  ]);
 
-  if (findError) {
+  const queryError = rolesResult.error || permissionsResult.error;
+  if (queryError) {
     return {
       success: false,
-      message: `Role "${name}" not found`,
-      error: 'Role does not exist',
+      message: 'Failed to check separation of duties, nothing was changed',
+      error: queryError.message,
     };
   }
 
-  // Delete associated role_permissions first
-  await supabase.from('role_permissions').delete().eq('role_id', role.id);
-
-  // Delete the role
-  const { error } = await supabase.from('roles').delete().eq('id', role.id);
-
-  if (error) {
-    return {
-      success: false,
-      message: 'Failed to delete role',
-      error: error.message,
-    };
+  const existingRoles = rolesResult.data || [];
+  const permissions = permissionsResult.data || [];
+
+  // Roles created by the plan get placeholder IDs so grants to them count
+  const roles: Role[] = [];
+  const rolePermissions: RolePermission[] = [];
+  const userRoles: UserRole[] = [];
+  steps.forEach(({ type, parameters }) => {
+    const roleId =
+      parameters.role_name &&
+      findByName([...existingRoles, ...roles], parameters.role_name)?.id;
+    const permissionId =
+      parameters.permission_name &&
+      findByName(permissions, parameters.permission_name)?.id;
+
+    if (type === 'create_role') {
+      const id = crypto.randomUUID();
+      roles.push({
+        id,
+        name: parameters.name,
+        parent_role_id: null,
+        created_at: new Date().toISOString(),
+      });
+    } else if (type === 'assign_permission' && roleId && permissionId) {
+      rolePermissions.push({ role_id: roleId, permission_id: permissionId });
+    } else if (type === 'assign_role_to_user' && roleId) {
+      userRoles.push({
+        user_id: parameters.user_id,
+        role_id: roleId,
+        scope_type: SCOPE_WILDCARD,
+        scope_id: SCOPE_WILDCARD,
+      });
+    }
+  });
+
+  const violations = await findSodChangeViolations(supabase, {
+    roles,
+    rolePermissions,
+    userRoles,
+  });
+  if (violations.length === 0) {
+    return null;
   }
 
   return {
-    success: true,
-    message: `Role "${name}" deleted successfully`,
+    success: false,
+    message:
+      'The command would violate separation of duties, nothing was changed',
+    error: violations.map(formatSodViolation).join('; '),
   };
 }
@@ -1,15 +1,25 @@
 import { NextResponse } from 'next/server';
+import { createClient } from '@/lib/supabase/server';
+import { requireUser } from '@/lib/supabase/authorization';
+import { getLLMProvider } from '@/lib/gemini/providers';
 
 export async function GET() {
   try {
-    const apiKey = process.env.GOOGLE_GEMINI_API_KEY;
-    const isAvailable = Boolean(apiKey && apiKey.trim().length > 0);
+    const supabase = await createClient();
+    const auth = await requireUser(supabase);
+    if (auth.response) {
+      return auth.response;
+    }
+
+    const provider = getLLMProvider();
+    const isAvailable = provider.isConfigured();
 
     return NextResponse.json({
       available: isAvailable,
+      provider: provider.name,
       message: isAvailable
         ? 'AI service is available'
-        : 'Google Gemini API key not configured',
+        : `The ${provider.name} LLM provider is not configured`,
     });
   } catch (error) {
     console.error('Error checking AI service availability:', error);
@@ -1,8 +1,16 @@
 import { NextResponse } from 'next/server';
+import { createClient } from '@/lib/supabase/server';
+import { requireUser } from '@/lib/supabase/authorization';
 import { aiService } from '@/lib/gemini/ai-service';
 
 export async function GET() {
   try {
+    const supabase = await createClient();
+    const auth = await requireUser(supabase);
+    if (auth.response) {
+      return auth.response;
+    }
+
     const helpText = aiService.getHelpText();
     return NextResponse.json({ helpText });
   } catch (error) {
@@ -1,8 +1,16 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@/lib/supabase/server';
+import { requireUser } from '@/lib/supabase/authorization';
 import { aiService } from '@/lib/gemini/ai-service';
 
 export async function POST(request: NextRequest) {
   try {
+    const supabase = await createClient();
+    const auth = await requireUser(supabase);
+    if (auth.response) {
+      return auth.response;
+    }
+
     const { command } = await request.json();
 
     if (!command || typeof command !== 'string') {
@@ -16,7 +24,7 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    const response = await aiService.processCommand(command);
+    const response = await aiService.processCommand(command, supabase);
     return NextResponse.json(response);
   } catch (error) {
     console.error('Error processing AI command:', error);
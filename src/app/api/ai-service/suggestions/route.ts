@@ -1,9 +1,17 @@
 import { NextResponse } from 'next/server';
+import { createClient } from '@/lib/supabase/server';
+import { requireUser } from '@/lib/supabase/authorization';
 import { aiService } from '@/lib/gemini/ai-service';
 
 export async function GET() {
   try {
-    const suggestions = await aiService.getCommandSuggestions();
+    const supabase = await createClient();
+    const auth = await requireUser(supabase);
+    if (auth.response) {
+      return auth.response;
+    }
+
+    const suggestions = await aiService.getCommandSuggestions(supabase);
     return NextResponse.json({ suggestions });
   } catch (error) {
     console.error('Error getting command suggestions:', error);
@@ -1,26 +1,30 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { createClient } from '@/lib/supabase/server';
-import { z } from 'zod';
-
-// Bulk operation validation schema
-const bulkOperationSchema = z.object({
-  role_id: z.string().uuid({ message: 'Invalid role ID' }),
-  permission_ids: z
-    .array(z.string().uuid({ message: 'Invalid permission ID' }))
-    .min(1, 'At least one permission is required'),
-  operation: z.enum(['assign', 'unassign'], {
-    message: 'Operation must be either "assign" or "unassign"',
-  }),
-});
+import { requireAdmin } from '@/lib/supabase/authorization';
+import {
+  changeApprovalRequiredResponse,
+  isChangeApprovalRequired,
+} from '@/lib/supabase/change-requests';
+import { checkSodChange } from '@/lib/supabase/sod';
+import { bulkAssociationOperationSchema } from '@/lib/validations/rbac';
 
 // POST /api/associations/bulk - Bulk assign permissions to a role
 export async function POST(request: NextRequest) {
   try {
     const supabase = await createClient();
+    const auth = await requireAdmin(supabase);
+    if (auth.response) {
+      return auth.response;
+    }
+
+    if (isChangeApprovalRequired()) {
+      return changeApprovalRequiredResponse();
+    }
+
     const body = await request.json();
 
     // Validate input data
-    const validation = bulkOperationSchema.safeParse(body);
+    const validation = bulkAssociationOperationSchema.safeParse(body);
     if (!validation.success) {
       return NextResponse.json(
         {
@@ -81,6 +85,14 @@ export async function POST(request: NextRequest) {
         permission_id,
       }));
 
+      // Reject toxic combinations of permissions; nothing is assigned then
+      const sodResponse = await checkSodChange(supabase, {
+        rolePermissions: associations,
+      });
+      if (sodResponse) {
+        return sodResponse;
+      }
+
       // Use upsert to handle duplicates gracefully
       const { data, error } = await supabase
         .from('role_permissions')
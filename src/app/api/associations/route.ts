@@ -1,5 +1,11 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { createClient } from '@/lib/supabase/server';
+import { requireAdmin, requireUser } from '@/lib/supabase/authorization';
+import { checkSodChange } from '@/lib/supabase/sod';
+import {
+  isChangeApprovalRequired,
+  submitChangeRequest,
+} from '@/lib/supabase/change-requests';
 import {
   createAssociationSchema,
   deleteAssociationSchema,
@@ -9,6 +15,10 @@ import {
 export async function GET() {
   try {
     const supabase = await createClient();
+    const auth = await requireUser(supabase);
+    if (auth.response) {
+      return auth.response;
+    }
 
     // Get all associations with role and permission details
     const { data: associations, error } = await supabase.from(
@@ -51,6 +61,11 @@ export async function GET() {
 export async function POST(request: NextRequest) {
   try {
     const supabase = await createClient();
+    const auth = await requireAdmin(supabase);
+    if (auth.response) {
+      return auth.response;
+    }
+
     const body = await request.json();
 
     // Validate input data
@@ -72,10 +87,10 @@ export async function POST(request: NextRequest) {
 
     // Verify that role and permission exist
     const [roleCheck, permissionCheck] = await Promise.all([
-      supabase.from('roles').select('id').eq('id', role_id).single(),
+      supabase.from('roles').select('id, name').eq('id', role_id).single(),
       supabase
         .from('permissions')
-        .select('id')
+        .select('id, name')
         .eq('id', permission_id)
         .single(),
     ]);
@@ -106,6 +121,22 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    // Reject toxic combinations of permissions
+    const sodResponse = await checkSodChange(supabase, {
+      rolePermissions: [{ role_id, permission_id }],
+    });
+    if (sodResponse) {
+      return sodResponse;
+    }
+
+    if (isChangeApprovalRequired()) {
+      return submitChangeRequest(supabase, auth.user, {
+        operation: 'create_association',
+        payload: { role_id, permission_id },
+        summary: `Grant permission "${permissionCheck.data.name}" to role "${roleCheck.data.name}"`,
+      });
+    }
+
     // Create the association
     const { data: association, error } = await supabase
       .from('role_permissions')
@@ -135,6 +166,11 @@ export async function POST(request: NextRequest) {
 export async function DELETE(request: NextRequest) {
   try {
     const supabase = await createClient();
+    const auth = await requireAdmin(supabase);
+    if (auth.response) {
+      return auth.response;
+    }
+
     const { searchParams } = new URL(request.url);
     const roleIdParam = searchParams.get('role_id');
     const permissionIdParam = searchParams.get('permission_id');
@@ -162,7 +198,9 @@ export async function DELETE(request: NextRequest) {
     // Check if association exists before attempting to delete
     const { data: existing } = await supabase
       .from('role_permissions')
-      .select('*')
+      .select(
+        'role_id, permission_id, roles!inner(name), permissions!inner(name)'
+      )
       .eq('role_id', role_id)
       .eq('permission_id', permission_id)
       .single();
@@ -174,6 +212,14 @@ export async function DELETE(request: NextRequest) {
       );
     }
 
+    if (isChangeApprovalRequired()) {
+      return submitChangeRequest(supabase, auth.user, {
+        operation: 'delete_association',
+        payload: { role_id, permission_id },
+        summary: `Revoke permission "${existing.permissions.name}" from role "${existing.roles.name}"`,
+      });
+    }
+
     const { error } = await supabase
       .from('role_permissions')
       .delete()
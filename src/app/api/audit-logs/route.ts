@@ -0,0 +1,104 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@/lib/supabase/server';
+import { requireAdmin } from '@/lib/supabase/authorization';
+import { handleDatabaseError } from '@/lib/supabase/errors';
+import { auditLogQuerySchema } from '@/lib/validations/rbac';
+
+// GET /api/audit-logs - List recorded RBAC changes
+export async function GET(request: NextRequest) {
+  try {
+    const supabase = await createClient();
+    const auth = await requireAdmin(supabase);
+    if (auth.response) {
+      return auth.response;
+    }
+
+    const { searchParams } = new URL(request.url);
+
+    // Validate query parameters
+    const validation = auditLogQuerySchema.safeParse({
+      user_id: searchParams.get('user_id') || undefined,
+      action: searchParams.get('action') || undefined,
+      resource_type: searchParams.get('resource_type') || undefined,
+      resource_id: searchParams.get('resource_id') || undefined,
+      start_date: searchParams.get('start_date') || undefined,
+      end_date: searchParams.get('end_date') || undefined,
+      page: parseInt(searchParams.get('page') || '1'),
+      limit: parseInt(searchParams.get('limit') || '20'),
+      sortBy: searchParams.get('sortBy') || undefined,
+      sortOrder: searchParams.get('sortOrder') || 'desc',
+    });
+    if (!validation.success) {
+      return NextResponse.json(
+        {
+          error: 'Invalid query parameters',
+          details: validation.error.issues,
+        },
+        { status: 400 }
+      );
+    }
+
+    const {
+      user_id,
+      action,
+      resource_type,
+      resource_id,
+      start_date,
+      end_date,
+      page,
+      limit,
+      sortBy,
+      sortOrder,
+    } = validation.data;
+
+    let queryBuilder = supabase
+      .from('audit_logs')
+      .select('*', { count: 'exact' })
+      .order(sortBy || 'timestamp', { ascending: sortOrder === 'asc' });
+
+    if (user_id) {
+      queryBuilder = queryBuilder.eq('user_id', user_id);
+    }
+    if (action) {
+      queryBuilder = queryBuilder.eq('action', action);
+    }
+    if (resource_type) {
+      queryBuilder = queryBuilder.eq('resource_type', resource_type);
+    }
+    if (resource_id) {
+      queryBuilder = queryBuilder.eq('resource_id', resource_id);
+    }
+    if (start_date) {
+      queryBuilder = queryBuilder.gte('timestamp', start_date);
+    }
+    if (end_date) {
+      queryBuilder = queryBuilder.lte('timestamp', end_date);
+    }
+
+    // Apply pagination
+    const offset = (page - 1) * limit;
+    queryBuilder = queryBuilder.range(offset, offset + limit - 1);
+
+    const { data, error, count } = await queryBuilder;
+
+    if (error) {
+      throw handleDatabaseError(error);
+    }
+
+    return NextResponse.json({
+      data: data || [],
+      pagination: {
+        page,
+        pageSize: limit,
+        total: count || 0,
+        totalPages: Math.ceil((count || 0) / limit),
+      },
+    });
+  } catch (error) {
+    console.error('Error fetching audit logs:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch audit logs' },
+      { status: 500 }
+    );
+  }
+}
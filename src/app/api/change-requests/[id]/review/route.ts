@@ -0,0 +1,151 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@/lib/supabase/server';
+import {
+  RBAC_APPROVE_PERMISSION,
+  requirePermission,
+} from '@/lib/supabase/authorization';
+import { handleDatabaseError } from '@/lib/supabase/errors';
+import { checkSodChange } from '@/lib/supabase/sod';
+import { idSchema } from '@/lib/validations/common';
+import { reviewChangeRequestSchema } from '@/lib/validations/rbac';
+
+// HTTP status for errors raised by review_change_request and by the change
+// it applies
+const REVIEW_ERROR_STATUS: Record<string, number> = {
+  '42501': 403, // insufficient_privilege, e.g. reviewing your own request
+  P0002: 404, // no_data_found: request or its target is gone
+  '55000': 409, // object_not_in_prerequisite_state: already reviewed
+  '23505': 409, // unique_violation
+  '23503': 409, // foreign_key_violation
+  '23514': 409, // check_violation, e.g. a role hierarchy cycle
+};
+
+// POST /api/change-requests/[id]/review - Approve (and apply) or reject a
+// pending change request
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const supabase = await createClient();
+    const auth = await requirePermission(supabase, RBAC_APPROVE_PERMISSION);
+    if (auth.response) {
+      return auth.response;
+    }
+
+    const body = await request.json();
+    const { id } = await params;
+
+    // Validate ID parameter
+    const idValidation = idSchema.safeParse(id);
+    if (!idValidation.success) {
+      return NextResponse.json(
+        { error: 'Invalid change request ID' },
+        { status: 400 }
+      );
+    }
+
+    // Validate input data
+    const validation = reviewChangeRequestSchema.safeParse(body);
+    if (!validation.success) {
+      return NextResponse.json(
+        {
+          error: 'Invalid input data',
+          details: validation.error.issues.map((err) => ({
+            field: err.path.join('.'),
+            message: err.message,
+          })),
+        },
+        { status: 400 }
+      );
+    }
+
+    const { decision, comment } = validation.data;
+
+    // Constraints may have changed since the request was submitted
+    if (decision === 'approve') {
+      const { data: changeRequest } = await supabase
+        .from('change_requests')
+        .select('operation, resource_id, payload')
+        .eq('id', id)
+        .single();
+
+      if (changeRequest?.operation === 'create_association') {
+        const { role_id, permission_id } = changeRequest.payload as {
+          role_id: string;
+          permission_id: string;
+        };
+        const sodResponse = await checkSodChange(supabase, {
+          rolePermissions: [{ role_id, permission_id }],
+        });
+        if (sodResponse) {
+          return sodResponse;
+        }
+      }
+
+      // So may the role a new parent is given to
+      const { name, parent_role_id } = (changeRequest?.payload ?? {}) as {
+        name?: string;
+        parent_role_id?: string | null;
+      };
+      if (
+        parent_role_id &&
+        (changeRequest?.operation === 'create_role' ||
+          changeRequest?.operation === 'update_role')
+      ) {
+        const { data: existingRole } = changeRequest.resource_id
+          ? await supabase
+              .from('roles')
+              .select('*')
+              .eq('id', changeRequest.resource_id)
+              .maybeSingle()
+          : { data: null };
+        const sodResponse = await checkSodChange(supabase, {
+          roles: [
+            existingRole
+              ? { ...existingRole, ...(name ? { name } : {}), parent_role_id }
+              : {
+                  id: crypto.randomUUID(),
+                  name: name ?? '',
+                  parent_role_id,
+                  created_at: new Date().toISOString(),
+                },
+          ],
+        });
+        if (sodResponse) {
+          return sodResponse;
+        }
+      }
+    }
+
+    const { data, error } = await supabase
+      .rpc('review_change_request', {
+        request_id: id,
+        approve: decision === 'approve',
+        comment,
+      })
+      .single();
+
+    if (error) {
+      const status = REVIEW_ERROR_STATUS[error.code];
+      if (!status) {
+        throw handleDatabaseError(error);
+      }
+      return NextResponse.json({ error: error.message }, { status });
+    }
+
+    return NextResponse.json({
+      data,
+      message:
+        decision === 'approve'
+          ? 'Change approved and applied'
+          : 'Change rejected',
+    });
+  } catch (error) {
+    console.error('Error reviewing change request:', error);
+    return NextResponse.json(
+      { error: 'Failed to review change request' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,74 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@/lib/supabase/server';
+import { requireUser } from '@/lib/supabase/authorization';
+import { handleDatabaseError } from '@/lib/supabase/errors';
+import { isChangeApprovalRequired } from '@/lib/supabase/change-requests';
+import { changeRequestQuerySchema } from '@/lib/validations/rbac';
+
+// GET /api/change-requests - List change requests, newest first.
+// RLS limits the results to administrators and approvers.
+export async function GET(request: NextRequest) {
+  try {
+    const supabase = await createClient();
+    const auth = await requireUser(supabase);
+    if (auth.response) {
+      return auth.response;
+    }
+
+    const { searchParams } = new URL(request.url);
+
+    // Validate query parameters
+    const validation = changeRequestQuerySchema.safeParse({
+      status: searchParams.get('status') || undefined,
+      page: parseInt(searchParams.get('page') || '1'),
+      limit: parseInt(searchParams.get('limit') || '20'),
+    });
+    if (!validation.success) {
+      return NextResponse.json(
+        {
+          error: 'Invalid query parameters',
+          details: validation.error.issues,
+        },
+        { status: 400 }
+      );
+    }
+
+    const { status, page, limit } = validation.data;
+
+    let queryBuilder = supabase
+      .from('change_requests')
+      .select('*', { count: 'exact' })
+      .order('requested_at', { ascending: false });
+
+    if (status) {
+      queryBuilder = queryBuilder.eq('status', status);
+    }
+
+    // Apply pagination
+    const offset = (page - 1) * limit;
+    queryBuilder = queryBuilder.range(offset, offset + limit - 1);
+
+    const { data, error, count } = await queryBuilder;
+
+    if (error) {
+      throw handleDatabaseError(error);
+    }
+
+    return NextResponse.json({
+      data: data || [],
+      approval_required: isChangeApprovalRequired(),
+      pagination: {
+        page,
+        pageSize: limit,
+        total: count || 0,
+        totalPages: Math.ceil((count || 0) / limit),
+      },
+    });
+  } catch (error) {
+    console.error('Error fetching change requests:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch change requests' },
+      { status: 500 }
+    );
+  }
+}
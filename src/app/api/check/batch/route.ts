@@ -0,0 +1,83 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@/lib/supabase/server';
+import {
+  RBAC_CHECK_PERMISSION,
+  requirePermission,
+  requireUser,
+} from '@/lib/supabase/authorization';
+import {
+  getPermissions,
+  getRolePermissions,
+  getRoles,
+  getUserRoles,
+} from '@/lib/supabase/database';
+import { checkMultiplePermissionsSchema } from '@/lib/validations/rbac';
+import { evaluatePermission } from '@/lib/rbac-utils';
+
+// POST /api/check/batch - Decide several permissions for one user
+export async function POST(request: NextRequest) {
+  try {
+    const supabase = await createClient();
+    const auth = await requireUser(supabase);
+    if (auth.response) {
+      return auth.response;
+    }
+
+    const body = await request.json();
+
+    // Validate input data
+    const validation = checkMultiplePermissionsSchema.safeParse(body);
+    if (!validation.success) {
+      return NextResponse.json(
+        {
+          error: 'Invalid input data',
+          details: validation.error.issues.map((err) => ({
+            field: err.path.join('.'),
+            message: err.message,
+          })),
+        },
+        { status: 400 }
+      );
+    }
+
+    const { user_id, permissions: checks } = validation.data;
+
+    // Checking someone else's access requires the check permission
+    if (user_id !== auth.user.id) {
+      const checker = await requirePermission(supabase, RBAC_CHECK_PERMISSION);
+      if (checker.response) {
+        return checker.response;
+      }
+    }
+
+    const [roles, permissions, userRoles, rolePermissions] = await Promise.all([
+      getRoles(true),
+      getPermissions(true),
+      getUserRoles(user_id, true),
+      getRolePermissions(true),
+    ]);
+
+    const decisions = checks.map((check) =>
+      evaluatePermission(
+        user_id,
+        check.permission_name,
+        roles,
+        permissions,
+        userRoles,
+        rolePermissions,
+        { resource_type: check.resource_type, resource_id: check.resource_id }
+      )
+    );
+
+    return NextResponse.json({
+      data: decisions,
+      allowed: decisions.every((decision) => decision.allowed),
+    });
+  } catch (error) {
+    console.error('Error checking permissions:', error);
+    return NextResponse.json(
+      { error: 'Failed to check permissions' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,79 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@/lib/supabase/server';
+import {
+  RBAC_CHECK_PERMISSION,
+  requirePermission,
+  requireUser,
+} from '@/lib/supabase/authorization';
+import {
+  getPermissions,
+  getRolePermissions,
+  getRoles,
+  getUserRoles,
+} from '@/lib/supabase/database';
+import { checkPermissionSchema } from '@/lib/validations/rbac';
+import { evaluatePermission } from '@/lib/rbac-utils';
+
+// POST /api/check - Decide whether a user holds a permission
+export async function POST(request: NextRequest) {
+  try {
+    const supabase = await createClient();
+    const auth = await requireUser(supabase);
+    if (auth.response) {
+      return auth.response;
+    }
+
+    const body = await request.json();
+
+    // Validate input data
+    const validation = checkPermissionSchema.safeParse(body);
+    if (!validation.success) {
+      return NextResponse.json(
+        {
+          error: 'Invalid input data',
+          details: validation.error.issues.map((err) => ({
+            field: err.path.join('.'),
+            message: err.message,
+          })),
+        },
+        { status: 400 }
+      );
+    }
+
+    const { user_id, permission_name, resource_type, resource_id } =
+      validation.data;
+
+    // Checking someone else's access requires the check permission
+    if (user_id !== auth.user.id) {
+      const checker = await requirePermission(supabase, RBAC_CHECK_PERMISSION);
+      if (checker.response) {
+        return checker.response;
+      }
+    }
+
+    const [roles, permissions, userRoles, rolePermissions] = await Promise.all([
+      getRoles(true),
+      getPermissions(true),
+      getUserRoles(user_id, true),
+      getRolePermissions(true),
+    ]);
+
+    const decision = evaluatePermission(
+      user_id,
+      permission_name,
+      roles,
+      permissions,
+      userRoles,
+      rolePermissions,
+      { resource_type, resource_id }
+    );
+
+    return NextResponse.json({ data: decision });
+  } catch (error) {
+    console.error('Error checking permission:', error);
+    return NextResponse.json(
+      { error: 'Failed to check permission' },
+      { status: 500 }
+    );
+  }
+}
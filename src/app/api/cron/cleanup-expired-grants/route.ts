@@ -0,0 +1,42 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@/lib/supabase/admin';
+import { handleDatabaseError } from '@/lib/supabase/errors';
+
+// GET /api/cron/cleanup-expired-grants - Delete expired role assignments.
+// Called by Vercel Cron (see vercel.json), which sends
+// `Authorization: Bearer $CRON_SECRET`.
+export async function GET(request: NextRequest) {
+  try {
+    const cronSecret = process.env.CRON_SECRET;
+    if (!cronSecret) {
+      return NextResponse.json(
+        { error: 'CRON_SECRET is not configured' },
+        { status: 503 }
+      );
+    }
+
+    if (request.headers.get('authorization') !== `Bearer ${cronSecret}`) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const supabase = createClient();
+    const { data: removed, error } = await supabase.rpc(
+      'cleanup_expired_user_roles'
+    );
+
+    if (error) {
+      throw handleDatabaseError(error);
+    }
+
+    return NextResponse.json({
+      data: { removed },
+      message: `Removed ${removed} expired role assignment${removed === 1 ? '' : 's'}`,
+    });
+  } catch (error) {
+    console.error('Error cleaning up expired grants:', error);
+    return NextResponse.json(
+      { error: 'Failed to clean up expired grants' },
+      { status: 500 }
+    );
+  }
+}
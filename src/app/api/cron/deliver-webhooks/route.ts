@@ -0,0 +1,34 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { deliverDueWebhooks } from '@/lib/supabase/webhooks';
+
+// GET /api/cron/deliver-webhooks - Send queued webhook deliveries and retry
+// failed ones that are due. Called by Vercel Cron (see vercel.json), which
+// sends `Authorization: Bearer $CRON_SECRET`.
+export async function GET(request: NextRequest) {
+  try {
+    const cronSecret = process.env.CRON_SECRET;
+    if (!cronSecret) {
+      return NextResponse.json(
+        { error: 'CRON_SECRET is not configured' },
+        { status: 503 }
+      );
+    }
+
+    if (request.headers.get('authorization') !== `Bearer ${cronSecret}`) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const result = await deliverDueWebhooks();
+
+    return NextResponse.json({
+      data: result,
+      message: `Attempted ${result.attempted} webhook deliver${result.attempted === 1 ? 'y' : 'ies'}: ${result.succeeded} succeeded, ${result.rescheduled} will be retried, ${result.failed} failed`,
+    });
+  } catch (error) {
+    console.error('Error delivering webhooks:', error);
+    return NextResponse.json(
+      { error: 'Failed to deliver webhooks' },
+      { status: 500 }
+    );
+  }
+}
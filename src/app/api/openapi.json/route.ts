@@ -0,0 +1,20 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { buildOpenApiDocument } from '@/lib/openapi';
+
+// GET /api/openapi.json - OpenAPI description of this API. Public so that
+// tooling can fetch it without a session.
+export async function GET(request: NextRequest) {
+  try {
+    const document = buildOpenApiDocument(`${request.nextUrl.origin}/api`);
+
+    return NextResponse.json(document, {
+      headers: { 'Cache-Control': 'public, max-age=300' },
+    });
+  } catch (error) {
+    console.error('Error building OpenAPI document:', error);
+    return NextResponse.json(
+      { error: 'Failed to build OpenAPI document' },
+      { status: 500 }
+    );
+  }
+}
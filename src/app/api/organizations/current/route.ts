@@ -0,0 +1,66 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@/lib/supabase/server';
+import { requireUser } from '@/lib/supabase/authorization';
+import { handleDatabaseError } from '@/lib/supabase/errors';
+import { setOrganizationCookie } from '@/lib/supabase/organizations';
+import { switchOrganizationSchema } from '@/lib/validations/rbac';
+
+// PUT /api/organizations/current - Switch the organization this browser's
+// requests work on
+export async function PUT(request: NextRequest) {
+  try {
+    const supabase = await createClient();
+    const auth = await requireUser(supabase);
+    if (auth.response) {
+      return auth.response;
+    }
+
+    const body = await request.json();
+
+    // Validate input data
+    const validation = switchOrganizationSchema.safeParse(body);
+    if (!validation.success) {
+      return NextResponse.json(
+        {
+          error: 'Invalid input data',
+          details: validation.error.issues.map((err) => ({
+            field: err.path.join('.'),
+            message: err.message,
+          })),
+        },
+        { status: 400 }
+      );
+    }
+
+    // Only organizations the user belongs to are visible
+    const { data: organization, error } = await supabase
+      .from('organizations')
+      .select('*')
+      .eq('id', validation.data.organization_id)
+      .maybeSingle();
+
+    if (error) {
+      throw handleDatabaseError(error);
+    }
+
+    if (!organization) {
+      return NextResponse.json(
+        { error: 'Organization not found' },
+        { status: 404 }
+      );
+    }
+
+    const response = NextResponse.json({
+      data: organization,
+      message: `Switched to organization "${organization.name}"`,
+    });
+    setOrganizationCookie(response, organization.id);
+    return response;
+  } catch (error) {
+    console.error('Error switching organization:', error);
+    return NextResponse.json(
+      { error: 'Failed to switch organization' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,59 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@/lib/supabase/server';
+import { requireAdmin } from '@/lib/supabase/authorization';
+import { handleDatabaseError } from '@/lib/supabase/errors';
+import { idSchema } from '@/lib/validations/common';
+
+// DELETE /api/organizations/members/[id] - Remove a user from the current
+// organization, together with the roles they hold in it
+export async function DELETE(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const supabase = await createClient();
+    const auth = await requireAdmin(supabase);
+    if (auth.response) {
+      return auth.response;
+    }
+
+    const { id } = await params;
+
+    // Validate ID parameter
+    const idValidation = idSchema.safeParse(id);
+    if (!idValidation.success) {
+      return NextResponse.json({ error: 'Invalid user ID' }, { status: 400 });
+    }
+
+    if (id === auth.user.id) {
+      return NextResponse.json(
+        { error: 'You cannot remove yourself from the organization' },
+        { status: 400 }
+      );
+    }
+
+    const { data, error } = await supabase
+      .from('organization_members')
+      .delete()
+      .eq('user_id', id)
+      .select();
+
+    if (error) {
+      throw handleDatabaseError(error);
+    }
+
+    if (!data || data.length === 0) {
+      return NextResponse.json({ error: 'Member not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({
+      message: 'Member removed from the organization',
+    });
+  } catch (error) {
+    console.error('Error removing organization member:', error);
+    return NextResponse.json(
+      { error: 'Failed to remove organization member' },
+      { status: 500 }
+    );
+  }
+}
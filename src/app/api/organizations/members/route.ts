@@ -0,0 +1,135 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@/lib/supabase/server';
+import { requireAdmin } from '@/lib/supabase/authorization';
+import { listAuthUsers } from '@/lib/supabase/admin';
+import { handleDatabaseError } from '@/lib/supabase/errors';
+import { addOrganizationMemberSchema } from '@/lib/validations/rbac';
+import type { OrganizationMember } from '@/lib/types';
+
+// HTTP status for errors raised by add_organization_member
+const ADD_MEMBER_ERROR_STATUS: Record<string, number> = {
+  '42501': 403, // insufficient_privilege
+  P0002: 404, // no_data_found, no user with that email
+};
+
+// GET /api/organizations/members - List the members of the current
+// organization with the roles they hold in it
+export async function GET() {
+  try {
+    const supabase = await createClient();
+    const auth = await requireAdmin(supabase);
+    if (auth.response) {
+      return auth.response;
+    }
+
+    const [
+      { data: members, error: membersError },
+      { data: userRoles, error: userRolesError },
+      { data: roles, error: rolesError },
+      users,
+    ] = await Promise.all([
+      supabase.from('organization_members').select('*'),
+      supabase.from('user_roles').select('user_id, role_id'),
+      supabase.from('roles').select('id, name'),
+      listAuthUsers(),
+    ]);
+
+    const queryError = membersError || userRolesError || rolesError;
+    if (queryError) {
+      throw handleDatabaseError(queryError);
+    }
+
+    const emails = new Map(users.map((user) => [user.id, user.email ?? null]));
+    const rolesById = new Map((roles || []).map((role) => [role.id, role]));
+
+    const data: OrganizationMember[] = (members || [])
+      .map((member) => ({
+        user_id: member.user_id,
+        email: emails.get(member.user_id) ?? null,
+        roles: [
+          ...new Map(
+            (userRoles || [])
+              .filter((ur) => ur.user_id === member.user_id)
+              .flatMap((ur) => rolesById.get(ur.role_id) ?? [])
+              .map((role) => [role.id, role])
+          ).values(),
+        ].sort((a, b) => a.name.localeCompare(b.name)),
+        created_at: member.created_at,
+      }))
+      .sort((a, b) =>
+        (a.email ?? a.user_id).localeCompare(b.email ?? b.user_id)
+      );
+
+    return NextResponse.json({ data });
+  } catch (error) {
+    console.error('Error fetching organization members:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch organization members' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/organizations/members - Add a signed-up user to the current
+// organization by email
+export async function POST(request: NextRequest) {
+  try {
+    const supabase = await createClient();
+    const auth = await requireAdmin(supabase);
+    if (auth.response) {
+      return auth.response;
+    }
+
+    const body = await request.json();
+
+    // Validate input data
+    const validation = addOrganizationMemberSchema.safeParse(body);
+    if (!validation.success) {
+      return NextResponse.json(
+        {
+          error: 'Invalid input data',
+          details: validation.error.issues.map((err) => ({
+            field: err.path.join('.'),
+            message: err.message,
+          })),
+        },
+        { status: 400 }
+      );
+    }
+
+    const { email } = validation.data;
+
+    const { data: userId, error } = await supabase.rpc(
+      'add_organization_member',
+      { member_email: email }
+    );
+
+    if (error) {
+      if (error.code === '23505') {
+        return NextResponse.json(
+          { error: `${email} is already a member` },
+          { status: 409 }
+        );
+      }
+      const status = ADD_MEMBER_ERROR_STATUS[error.code];
+      if (!status) {
+        throw handleDatabaseError(error);
+      }
+      return NextResponse.json({ error: error.message }, { status });
+    }
+
+    return NextResponse.json(
+      {
+        data: { user_id: userId },
+        message: `${email} added to the organization`,
+      },
+      { status: 201 }
+    );
+  } catch (error) {
+    console.error('Error adding organization member:', error);
+    return NextResponse.json(
+      { error: 'Failed to add organization member' },
+      { status: 500 }
+    );
+  }
+}
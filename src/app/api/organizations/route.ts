@@ -0,0 +1,97 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@/lib/supabase/server';
+import { requireUser } from '@/lib/supabase/authorization';
+import { handleDatabaseError } from '@/lib/supabase/errors';
+import { setOrganizationCookie } from '@/lib/supabase/organizations';
+import { createOrganizationSchema } from '@/lib/validations/rbac';
+
+// GET /api/organizations - List the organizations the user belongs to and
+// the one requests currently work on
+export async function GET() {
+  try {
+    const supabase = await createClient();
+    const auth = await requireUser(supabase);
+    if (auth.response) {
+      return auth.response;
+    }
+
+    const [
+      { data: organizations, error: organizationsError },
+      { data: currentOrganizationId, error: currentError },
+    ] = await Promise.all([
+      supabase.from('organizations').select('*').order('name'),
+      supabase.rpc('current_organization_id'),
+    ]);
+
+    const queryError = organizationsError || currentError;
+    if (queryError) {
+      throw handleDatabaseError(queryError);
+    }
+
+    return NextResponse.json({
+      data: organizations || [],
+      current_organization_id: currentOrganizationId,
+    });
+  } catch (error) {
+    console.error('Error fetching organizations:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch organizations' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/organizations - Create an organization with the built-in roles,
+// make the user its administrator and switch to it
+export async function POST(request: NextRequest) {
+  try {
+    const supabase = await createClient();
+    const auth = await requireUser(supabase);
+    if (auth.response) {
+      return auth.response;
+    }
+
+    const body = await request.json();
+
+    // Validate input data
+    const validation = createOrganizationSchema.safeParse(body);
+    if (!validation.success) {
+      return NextResponse.json(
+        {
+          error: 'Invalid input data',
+          details: validation.error.issues.map((err) => ({
+            field: err.path.join('.'),
+            message: err.message,
+          })),
+        },
+        { status: 400 }
+      );
+    }
+
+    const { data: organization, error } = await supabase
+      .rpc('create_organization', {
+        organization_name: validation.data.name,
+      })
+      .single();
+
+    if (error) {
+      throw handleDatabaseError(error);
+    }
+
+    const response = NextResponse.json(
+      {
+        data: organization,
+        message: `Organization "${organization.name}" created successfully`,
+      },
+      { status: 201 }
+    );
+    setOrganizationCookie(response, organization.id);
+    return response;
+  } catch (error) {
+    console.error('Error creating organization:', error);
+    return NextResponse.json(
+      { error: 'Failed to create organization' },
+      { status: 500 }
+    );
+  }
+}
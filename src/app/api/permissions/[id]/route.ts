@@ -1,6 +1,11 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { createClient } from '@/lib/supabase/server';
+import { requireAdmin, requireUser } from '@/lib/supabase/authorization';
 import { handleDatabaseError } from '@/lib/supabase/errors';
+import {
+  isChangeApprovalRequired,
+  submitChangeRequest,
+} from '@/lib/supabase/change-requests';
 import { updatePermissionSchema, idSchema } from '@/lib/validations';
 
 export async function GET(
@@ -9,6 +14,11 @@ export async function GET(
 ) {
   try {
     const supabase = await createClient();
+    const auth = await requireUser(supabase);
+    if (auth.response) {
+      return auth.response;
+    }
+
     const { id } = await params;
 
     // Validate ID parameter
@@ -52,6 +62,11 @@ export async function PUT(
 ) {
   try {
     const supabase = await createClient();
+    const auth = await requireAdmin(supabase);
+    if (auth.response) {
+      return auth.response;
+    }
+
     const body = await request.json();
     const { id } = await params;
 
@@ -113,6 +128,15 @@ export async function PUT(
       }
     }
 
+    if (isChangeApprovalRequired()) {
+      return submitChangeRequest(supabase, auth.user, {
+        operation: 'update_permission',
+        resource_id: id,
+        payload: validation.data,
+        summary: `Update permission "${existingPermission.name}"`,
+      });
+    }
+
     const { data, error } = await supabase
       .from('permissions')
       .update(validation.data)
@@ -160,6 +184,11 @@ export async function DELETE(
 ) {
   try {
     const supabase = await createClient();
+    const auth = await requireAdmin(supabase);
+    if (auth.response) {
+      return auth.response;
+    }
+
     const { id } = await params;
 
     // Validate ID parameter
@@ -172,9 +201,9 @@ export async function DELETE(
     }
 
     // First check if the permission exists
-    const { error: fetchError } = await supabase
+    const { data: existingPermission, error: fetchError } = await supabase
       .from('permissions')
-      .select('id')
+      .select('id, name')
       .eq('id', id)
       .single();
 
@@ -210,6 +239,15 @@ export async function DELETE(
       );
     }
 
+    if (isChangeApprovalRequired()) {
+      return submitChangeRequest(supabase, auth.user, {
+        operation: 'delete_permission',
+        resource_id: id,
+        payload: {},
+        summary: `Delete permission "${existingPermission.name}"`,
+      });
+    }
+
     // Delete the permission
     const { error } = await supabase.from('permissions').delete().eq('id', id);
 
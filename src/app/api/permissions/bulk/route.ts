@@ -0,0 +1,148 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@/lib/supabase/server';
+import { requireAdmin } from '@/lib/supabase/authorization';
+import { bulkCreate, bulkDelete, bulkUpdate } from '@/lib/supabase/bulk';
+import {
+  changeApprovalRequiredResponse,
+  isChangeApprovalRequired,
+} from '@/lib/supabase/change-requests';
+import {
+  bulkCreatePermissionsSchema,
+  bulkDeletePermissionsSchema,
+  bulkUpdatePermissionsSchema,
+} from '@/lib/validations/rbac';
+
+// POST /api/permissions/bulk - Create several permissions
+export async function POST(request: NextRequest) {
+  try {
+    const supabase = await createClient();
+    const auth = await requireAdmin(supabase);
+    if (auth.response) {
+      return auth.response;
+    }
+
+    if (isChangeApprovalRequired()) {
+      return changeApprovalRequiredResponse();
+    }
+
+    const body = await request.json();
+
+    // Validate input data
+    const validation = bulkCreatePermissionsSchema.safeParse(body);
+    if (!validation.success) {
+      return NextResponse.json(
+        {
+          error: 'Invalid input data',
+          details: validation.error.issues.map((err) => ({
+            field: err.path.join('.'),
+            message: err.message,
+          })),
+        },
+        { status: 400 }
+      );
+    }
+
+    const { permissions, mode } = validation.data;
+    return await bulkCreate(supabase, 'permissions', permissions, mode);
+  } catch (error) {
+    console.error('Error creating permissions:', error);
+    return NextResponse.json(
+      { error: 'Failed to create permissions' },
+      { status: 500 }
+    );
+  }
+}
+
+// PUT /api/permissions/bulk - Update several permissions
+export async function PUT(request: NextRequest) {
+  try {
+    const supabase = await createClient();
+    const auth = await requireAdmin(supabase);
+    if (auth.response) {
+      return auth.response;
+    }
+
+    if (isChangeApprovalRequired()) {
+      return changeApprovalRequiredResponse();
+    }
+
+    const body = await request.json();
+
+    // Validate input data
+    const validation = bulkUpdatePermissionsSchema.safeParse(body);
+    if (!validation.success) {
+      return NextResponse.json(
+        {
+          error: 'Invalid input data',
+          details: validation.error.issues.map((err) => ({
+            field: err.path.join('.'),
+            message: err.message,
+          })),
+        },
+        { status: 400 }
+      );
+    }
+
+    const { updates, mode } = validation.data;
+    return await bulkUpdate(
+      supabase,
+      'permissions',
+      updates,
+      mode,
+      // Omitted fields keep their current value
+      (update, current, index) => ({
+        description:
+          'description' in (body.updates?.[index] ?? {})
+            ? (update.description ?? null)
+            : current.description,
+      })
+    );
+  } catch (error) {
+    console.error('Error updating permissions:', error);
+    return NextResponse.json(
+      { error: 'Failed to update permissions' },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE /api/permissions/bulk - Delete several permissions
+export async function DELETE(request: NextRequest) {
+  try {
+    const supabase = await createClient();
+    const auth = await requireAdmin(supabase);
+    if (auth.response) {
+      return auth.response;
+    }
+
+    if (isChangeApprovalRequired()) {
+      return changeApprovalRequiredResponse();
+    }
+
+    const body = await request.json();
+
+    // Validate input data
+    const validation = bulkDeletePermissionsSchema.safeParse(body);
+    if (!validation.success) {
+      return NextResponse.json(
+        {
+          error: 'Invalid input data',
+          details: validation.error.issues.map((err) => ({
+            field: err.path.join('.'),
+            message: err.message,
+          })),
+        },
+        { status: 400 }
+      );
+    }
+
+    const { ids, mode } = validation.data;
+    return await bulkDelete(supabase, 'permissions', ids, mode);
+  } catch (error) {
+    console.error('Error deleting permissions:', error);
+    return NextResponse.json(
+      { error: 'Failed to delete permissions' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,11 +1,21 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { createClient } from '@/lib/supabase/server';
+import { requireAdmin, requireUser } from '@/lib/supabase/authorization';
 import { handleDatabaseError } from '@/lib/supabase/errors';
+import {
+  isChangeApprovalRequired,
+  submitChangeRequest,
+} from '@/lib/supabase/change-requests';
 import { createPermissionSchema, searchSchema } from '@/lib/validations';
 
 export async function GET(request: NextRequest) {
   try {
     const supabase = await createClient();
+    const auth = await requireUser(supabase);
+    if (auth.response) {
+      return auth.response;
+    }
+
     const { searchParams } = new URL(request.url);
 
     // Parse search parameters
@@ -67,6 +77,11 @@ export async function GET(request: NextRequest) {
 export async function POST(request: NextRequest) {
   try {
     const supabase = await createClient();
+    const auth = await requireAdmin(supabase);
+    if (auth.response) {
+      return auth.response;
+    }
+
     const body = await request.json();
 
     // Validate request body
@@ -95,6 +110,14 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    if (isChangeApprovalRequired()) {
+      return submitChangeRequest(supabase, auth.user, {
+        operation: 'create_permission',
+        payload: validation.data,
+        summary: `Create permission "${validation.data.name}"`,
+      });
+    }
+
     const { data, error } = await supabase
       .from('permissions')
       .insert(validation.data)
@@ -0,0 +1,84 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@/lib/supabase/server';
+import { requireAdmin } from '@/lib/supabase/authorization';
+import { loadLiveRbacState } from '@/lib/supabase/snapshots';
+import { exportRbacSchema } from '@/lib/validations/rbac';
+import { buildRbacExport, rbacExportToCsvFiles } from '@/lib/rbac-export';
+import { createZip } from '@/lib/zip';
+
+// Query flags arrive as strings; absent flags fall back to schema defaults
+function parseFlag(value: string | null): boolean | undefined {
+  if (value === null) return undefined;
+  return value === 'true' || value === '1';
+}
+
+// GET /api/rbac/export - Download the RBAC model as JSON or a zip of CSVs
+export async function GET(request: NextRequest) {
+  try {
+    const supabase = await createClient();
+    const auth = await requireAdmin(supabase);
+    if (auth.response) {
+      return auth.response;
+    }
+
+    const { searchParams } = new URL(request.url);
+
+    // Validate query parameters
+    const validation = exportRbacSchema.safeParse({
+      include_permissions: parseFlag(searchParams.get('include_permissions')),
+      include_roles: parseFlag(searchParams.get('include_roles')),
+      include_associations: parseFlag(searchParams.get('include_associations')),
+      include_user_roles: parseFlag(searchParams.get('include_user_roles')),
+      format: searchParams.get('format') || undefined,
+    });
+    if (!validation.success) {
+      return NextResponse.json(
+        {
+          error: 'Invalid query parameters',
+          details: validation.error.issues,
+        },
+        { status: 400 }
+      );
+    }
+
+    const { format, ...options } = validation.data;
+
+    const state = await loadLiveRbacState(supabase, {
+      userRoles: options.include_user_roles,
+    });
+    const document = buildRbacExport(
+      {
+        permissions: state.permissions,
+        roles: state.roles,
+        rolePermissions: state.role_permissions,
+        userRoles: state.user_roles,
+      },
+      options
+    );
+
+    const filename = `rbac-export-${document.exported_at.slice(0, 10)}`;
+
+    if (format === 'csv') {
+      const archive = createZip(rbacExportToCsvFiles(document));
+      return new NextResponse(archive, {
+        headers: {
+          'Content-Type': 'application/zip',
+          'Content-Disposition': `attachment; filename="${filename}.zip"`,
+        },
+      });
+    }
+
+    return new NextResponse(JSON.stringify(document, null, 2), {
+      headers: {
+        'Content-Type': 'application/json',
+        'Content-Disposition': `attachment; filename="${filename}.json"`,
+      },
+    });
+  } catch (error) {
+    console.error('Error exporting RBAC data:', error);
+    return NextResponse.json(
+      { error: 'Failed to export RBAC data' },
+      { status: 500 }
+    );
+  }
+}
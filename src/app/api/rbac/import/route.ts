@@ -0,0 +1,124 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@/lib/supabase/server';
+import { listOrganizationUsers } from '@/lib/supabase/organizations';
+import { requireAdmin } from '@/lib/supabase/authorization';
+import {
+  changeApprovalRequiredResponse,
+  isChangeApprovalRequired,
+} from '@/lib/supabase/change-requests';
+import { loadLiveRbacState } from '@/lib/supabase/snapshots';
+import { importRbacSchema } from '@/lib/validations/rbac';
+import {
+  countImportChanges,
+  isImportPlanBlocked,
+  planRbacImport,
+} from '@/lib/rbac-import';
+
+// POST /api/rbac/import - Plan (dry run) or apply an RBAC import document
+export async function POST(request: NextRequest) {
+  try {
+    const supabase = await createClient();
+    const auth = await requireAdmin(supabase);
+    if (auth.response) {
+      return auth.response;
+    }
+
+    const body = await request.json();
+
+    // Validate input data
+    const validation = importRbacSchema.safeParse(body);
+    if (!validation.success) {
+      return NextResponse.json(
+        {
+          error: 'Invalid input data',
+          details: validation.error.issues.map((err) => ({
+            field: err.path.join('.'),
+            message: err.message,
+          })),
+        },
+        { status: 400 }
+      );
+    }
+
+    const { data: document, options } = validation.data;
+
+    const state = await loadLiveRbacState(supabase);
+
+    // Only look up the user directory when the document assigns roles
+    const userIds = document.user_roles
+      ? new Set((await listOrganizationUsers(supabase)).map((user) => user.id))
+      : undefined;
+
+    const plan = planRbacImport(
+      document,
+      {
+        permissions: state.permissions,
+        roles: state.roles,
+        rolePermissions: state.role_permissions,
+        userRoles: state.user_roles,
+        userIds,
+      },
+      options
+    );
+    const blocked = isImportPlanBlocked(plan, options);
+    const changes = countImportChanges(plan);
+    const result = { plan, blocked, changes, applied: false };
+
+    if (options.dry_run) {
+      return NextResponse.json({
+        data: result,
+        message: blocked
+          ? 'Import cannot be applied until conflicts and unresolved references are fixed'
+          : `Import would make ${changes} change${changes === 1 ? '' : 's'}`,
+      });
+    }
+
+    if (blocked) {
+      return NextResponse.json(
+        {
+          error: 'Import has conflicts or unresolved references',
+          data: result,
+        },
+        { status: 409 }
+      );
+    }
+
+    if (changes === 0) {
+      return NextResponse.json({
+        data: result,
+        message: 'Nothing to import',
+      });
+    }
+
+    if (isChangeApprovalRequired()) {
+      return changeApprovalRequiredResponse();
+    }
+
+    // Apply every change in one transaction
+    const { error: applyError } = await supabase.rpc('apply_rbac_import', {
+      plan,
+    });
+
+    if (applyError) {
+      console.error('Error applying RBAC import:', applyError);
+      return NextResponse.json(
+        {
+          error: 'Failed to apply import',
+          details: applyError.message,
+        },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json({
+      data: { ...result, applied: true },
+      message: `Import applied with ${changes} change${changes === 1 ? '' : 's'}`,
+    });
+  } catch (error) {
+    console.error('Error importing RBAC data:', error);
+    return NextResponse.json(
+      { error: 'Failed to import RBAC data' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,7 +1,14 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { createClient } from '@/lib/supabase/server';
+import { requireAdmin, requireUser } from '@/lib/supabase/authorization';
 import { handleDatabaseError } from '@/lib/supabase/errors';
+import {
+  isChangeApprovalRequired,
+  submitChangeRequest,
+} from '@/lib/supabase/change-requests';
+import { checkSodChange } from '@/lib/supabase/sod';
 import { updateRoleSchema, idSchema } from '@/lib/validations';
+import { wouldCreateRoleCycle } from '@/lib/rbac-utils';
 
 export async function GET(
   _request: NextRequest,
@@ -9,6 +16,11 @@ export async function GET(
 ) {
   try {
     const supabase = await createClient();
+    const auth = await requireUser(supabase);
+    if (auth.response) {
+      return auth.response;
+    }
+
     const { id } = await params;
 
     // Validate ID parameter
@@ -46,6 +58,11 @@ export async function PUT(
 ) {
   try {
     const supabase = await createClient();
+    const auth = await requireAdmin(supabase);
+    if (auth.response) {
+      return auth.response;
+    }
+
     const body = await request.json();
     const { id } = await params;
 
@@ -98,6 +115,62 @@ export async function PUT(
       }
     }
 
+    // Check that the new parent exists and is not one of the role's descendants
+    if (validation.data.parent_role_id) {
+      const { data: roles, error: rolesError } = await supabase
+        .from('roles')
+        .select('*');
+
+      if (rolesError) {
+        throw handleDatabaseError(rolesError);
+      }
+
+      if (!roles.some((r) => r.id === validation.data.parent_role_id)) {
+        return NextResponse.json(
+          {
+            error: 'Parent role not found',
+            message: 'The selected parent role does not exist.',
+          },
+          { status: 400 }
+        );
+      }
+
+      if (wouldCreateRoleCycle(id, validation.data.parent_role_id, roles)) {
+        return NextResponse.json(
+          {
+            error: 'Role hierarchy cannot contain cycles',
+            message:
+              'A role cannot inherit from itself or from a role that inherits from it.',
+          },
+          { status: 400 }
+        );
+      }
+    }
+
+    // A new parent brings its permissions to the role and its holders
+    if (
+      validation.data.parent_role_id !== undefined &&
+      validation.data.parent_role_id !== existingRole.parent_role_id
+    ) {
+      const sodResponse = await checkSodChange(supabase, {
+        roles: [
+          { ...existingRole, parent_role_id: validation.data.parent_role_id },
+        ],
+      });
+      if (sodResponse) {
+        return sodResponse;
+      }
+    }
+
+    if (isChangeApprovalRequired()) {
+      return submitChangeRequest(supabase, auth.user, {
+        operation: 'update_role',
+        resource_id: id,
+        payload: validation.data,
+        summary: `Update role "${existingRole.name}"`,
+      });
+    }
+
     const { data, error } = await supabase
       .from('roles')
       .update(validation.data)
@@ -145,6 +218,11 @@ export async function DELETE(
 ) {
   try {
     const supabase = await createClient();
+    const auth = await requireAdmin(supabase);
+    if (auth.response) {
+      return auth.response;
+    }
+
     const { id } = await params;
 
     // Validate ID parameter
@@ -154,9 +232,9 @@ export async function DELETE(
     }
 
     // First check if the role exists
-    const { error: fetchError } = await supabase
+    const { data: existingRole, error: fetchError } = await supabase
       .from('roles')
-      .select('id')
+      .select('id, name')
       .eq('id', id)
       .single();
 
@@ -202,6 +280,15 @@ export async function DELETE(
       );
     }
 
+    if (isChangeApprovalRequired()) {
+      return submitChangeRequest(supabase, auth.user, {
+        operation: 'delete_role',
+        resource_id: id,
+        payload: {},
+        summary: `Delete role "${existingRole.name}"`,
+      });
+    }
+
     // Delete the role (CASCADE will handle related records)
     const { error } = await supabase.from('roles').delete().eq('id', id);
 
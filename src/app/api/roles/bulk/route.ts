@@ -0,0 +1,136 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@/lib/supabase/server';
+import { requireAdmin } from '@/lib/supabase/authorization';
+import { bulkCreate, bulkDelete, bulkUpdate } from '@/lib/supabase/bulk';
+import {
+  changeApprovalRequiredResponse,
+  isChangeApprovalRequired,
+} from '@/lib/supabase/change-requests';
+import {
+  bulkCreateRolesSchema,
+  bulkDeleteRolesSchema,
+  bulkUpdateRolesSchema,
+} from '@/lib/validations/rbac';
+
+// POST /api/roles/bulk - Create several roles
+export async function POST(request: NextRequest) {
+  try {
+    const supabase = await createClient();
+    const auth = await requireAdmin(supabase);
+    if (auth.response) {
+      return auth.response;
+    }
+
+    if (isChangeApprovalRequired()) {
+      return changeApprovalRequiredResponse();
+    }
+
+    const body = await request.json();
+
+    // Validate input data
+    const validation = bulkCreateRolesSchema.safeParse(body);
+    if (!validation.success) {
+      return NextResponse.json(
+        {
+          error: 'Invalid input data',
+          details: validation.error.issues.map((err) => ({
+            field: err.path.join('.'),
+            message: err.message,
+          })),
+        },
+        { status: 400 }
+      );
+    }
+
+    const { roles, mode } = validation.data;
+    return await bulkCreate(supabase, 'roles', roles, mode);
+  } catch (error) {
+    console.error('Error creating roles:', error);
+    return NextResponse.json(
+      { error: 'Failed to create roles' },
+      { status: 500 }
+    );
+  }
+}
+
+// PUT /api/roles/bulk - Update several roles
+export async function PUT(request: NextRequest) {
+  try {
+    const supabase = await createClient();
+    const auth = await requireAdmin(supabase);
+    if (auth.response) {
+      return auth.response;
+    }
+
+    if (isChangeApprovalRequired()) {
+      return changeApprovalRequiredResponse();
+    }
+
+    const body = await request.json();
+
+    // Validate input data
+    const validation = bulkUpdateRolesSchema.safeParse(body);
+    if (!validation.success) {
+      return NextResponse.json(
+        {
+          error: 'Invalid input data',
+          details: validation.error.issues.map((err) => ({
+            field: err.path.join('.'),
+            message: err.message,
+          })),
+        },
+        { status: 400 }
+      );
+    }
+
+    const { updates, mode } = validation.data;
+    return await bulkUpdate(supabase, 'roles', updates, mode);
+  } catch (error) {
+    console.error('Error updating roles:', error);
+    return NextResponse.json(
+      { error: 'Failed to update roles' },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE /api/roles/bulk - Delete several roles
+export async function DELETE(request: NextRequest) {
+  try {
+    const supabase = await createClient();
+    const auth = await requireAdmin(supabase);
+    if (auth.response) {
+      return auth.response;
+    }
+
+    if (isChangeApprovalRequired()) {
+      return changeApprovalRequiredResponse();
+    }
+
+    const body = await request.json();
+
+    // Validate input data
+    const validation = bulkDeleteRolesSchema.safeParse(body);
+    if (!validation.success) {
+      return NextResponse.json(
+        {
+          error: 'Invalid input data',
+          details: validation.error.issues.map((err) => ({
+            field: err.path.join('.'),
+            message: err.message,
+          })),
+        },
+        { status: 400 }
+      );
+    }
+
+    const { ids, mode } = validation.data;
+    return await bulkDelete(supabase, 'roles', ids, mode);
+  } catch (error) {
+    console.error('Error deleting roles:', error);
+    return NextResponse.json(
+      { error: 'Failed to delete roles' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,45 @@
+import { NextResponse } from 'next/server';
+import { createClient } from '@/lib/supabase/server';
+import { requireUser } from '@/lib/supabase/authorization';
+import { handleDatabaseError } from '@/lib/supabase/errors';
+import { buildRoleHierarchy } from '@/lib/rbac-utils';
+
+// GET /api/roles/hierarchy - Role tree with direct and inherited permissions
+export async function GET() {
+  try {
+    const supabase = await createClient();
+    const auth = await requireUser(supabase);
+    if (auth.response) {
+      return auth.response;
+    }
+
+    const [
+      { data: roles, error: rolesError },
+      { data: permissions, error: permissionsError },
+      { data: rolePermissions, error: rolePermissionsError },
+    ] = await Promise.all([
+      supabase.from('roles').select('*'),
+      supabase.from('permissions').select('*'),
+      supabase.from('role_permissions').select('*'),
+    ]);
+
+    const queryError = rolesError || permissionsError || rolePermissionsError;
+    if (queryError) {
+      throw handleDatabaseError(queryError);
+    }
+
+    return NextResponse.json({
+      data: buildRoleHierarchy(
+        roles || [],
+        rolePermissions || [],
+        permissions || []
+      ),
+    });
+  } catch (error) {
+    console.error('Error fetching role hierarchy:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch role hierarchy' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,11 +1,22 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { createClient } from '@/lib/supabase/server';
+import { requireAdmin, requireUser } from '@/lib/supabase/authorization';
 import { handleDatabaseError } from '@/lib/supabase/errors';
+import {
+  isChangeApprovalRequired,
+  submitChangeRequest,
+} from '@/lib/supabase/change-requests';
+import { checkSodChange } from '@/lib/supabase/sod';
 import { createRoleSchema, searchSchema } from '@/lib/validations';
 
 export async function GET(request: NextRequest) {
   try {
     const supabase = await createClient();
+    const auth = await requireUser(supabase);
+    if (auth.response) {
+      return auth.response;
+    }
+
     const { searchParams } = new URL(request.url);
 
     // Parse search parameters
@@ -65,6 +76,11 @@ export async function GET(request: NextRequest) {
 export async function POST(request: NextRequest) {
   try {
     const supabase = await createClient();
+    const auth = await requireAdmin(supabase);
+    if (auth.response) {
+      return auth.response;
+    }
+
     const body = await request.json();
 
     // Validate request body
@@ -93,6 +109,48 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    // Check that the parent role exists
+    if (validation.data.parent_role_id) {
+      const { data: parentRole } = await supabase
+        .from('roles')
+        .select('id')
+        .eq('id', validation.data.parent_role_id)
+        .single();
+
+      if (!parentRole) {
+        return NextResponse.json(
+          {
+            error: 'Parent role not found',
+            message: 'The selected parent role does not exist.',
+          },
+          { status: 400 }
+        );
+      }
+
+      // The new role holds its parent's permissions from the start
+      const sodResponse = await checkSodChange(supabase, {
+        roles: [
+          {
+            id: crypto.randomUUID(),
+            name: validation.data.name,
+            parent_role_id: validation.data.parent_role_id,
+            created_at: new Date().toISOString(),
+          },
+        ],
+      });
+      if (sodResponse) {
+        return sodResponse;
+      }
+    }
+
+    if (isChangeApprovalRequired()) {
+      return submitChangeRequest(supabase, auth.user, {
+        operation: 'create_role',
+        payload: validation.data,
+        summary: `Create role "${validation.data.name}"`,
+      });
+    }
+
     const { data, error } = await supabase
       .from('roles')
       .insert(validation.data)
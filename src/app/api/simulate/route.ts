@@ -0,0 +1,75 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@/lib/supabase/server';
+import { requireAdmin } from '@/lib/supabase/authorization';
+import { handleDatabaseError } from '@/lib/supabase/errors';
+import { listOrganizationUsers } from '@/lib/supabase/organizations';
+import { simulateChangesSchema } from '@/lib/validations/rbac';
+import { simulateChanges } from '@/lib/rbac-simulation';
+
+// POST /api/simulate - Report who would gain or lose which permissions if
+// the given changes were made. Nothing is written.
+export async function POST(request: NextRequest) {
+  try {
+    const supabase = await createClient();
+    const auth = await requireAdmin(supabase);
+    if (auth.response) {
+      return auth.response;
+    }
+
+    const body = await request.json();
+
+    // Validate input data
+    const validation = simulateChangesSchema.safeParse(body);
+    if (!validation.success) {
+      return NextResponse.json(
+        {
+          error: 'Invalid input data',
+          details: validation.error.issues.map((err) => ({
+            field: err.path.join('.'),
+            message: err.message,
+          })),
+        },
+        { status: 400 }
+      );
+    }
+
+    const [
+      { data: roles, error: rolesError },
+      { data: permissions, error: permissionsError },
+      { data: rolePermissions, error: rolePermissionsError },
+      { data: userRoles, error: userRolesError },
+      users,
+    ] = await Promise.all([
+      supabase.from('roles').select('*'),
+      supabase.from('permissions').select('*'),
+      supabase.from('role_permissions').select('*'),
+      supabase.from('user_roles').select('*'),
+      listOrganizationUsers(supabase),
+    ]);
+
+    const queryError =
+      rolesError || permissionsError || rolePermissionsError || userRolesError;
+    if (queryError) {
+      throw handleDatabaseError(queryError);
+    }
+
+    const result = simulateChanges(
+      {
+        roles: roles || [],
+        permissions: permissions || [],
+        rolePermissions: rolePermissions || [],
+        userRoles: userRoles || [],
+      },
+      validation.data.changes,
+      new Map(users.map((user) => [user.id, user.email ?? null]))
+    );
+
+    return NextResponse.json({ data: result });
+  } catch (error) {
+    console.error('Error simulating changes:', error);
+    return NextResponse.json(
+      { error: 'Failed to simulate changes' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,94 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@/lib/supabase/server';
+import { requireAdmin } from '@/lib/supabase/authorization';
+import { handleDatabaseError } from '@/lib/supabase/errors';
+import {
+  changeApprovalRequiredResponse,
+  isChangeApprovalRequired,
+} from '@/lib/supabase/change-requests';
+import { loadLiveRbacState, loadRbacState } from '@/lib/supabase/snapshots';
+import { diffRbacStates } from '@/lib/rbac-snapshots';
+import { idSchema } from '@/lib/validations/common';
+
+// HTTP status for errors raised by restore_rbac_snapshot
+const RESTORE_ERROR_STATUS: Record<string, number> = {
+  '42501': 403, // insufficient_privilege
+  P0002: 404, // no_data_found
+  '23505': 409, // unique_violation, e.g. a name taken by another row
+  '23514': 409, // check_violation
+};
+
+// POST /api/snapshots/[id]/restore - Make the live state match a snapshot.
+// The state before the restore is snapshotted automatically.
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const supabase = await createClient();
+    const auth = await requireAdmin(supabase);
+    if (auth.response) {
+      return auth.response;
+    }
+
+    if (isChangeApprovalRequired()) {
+      return changeApprovalRequiredResponse();
+    }
+
+    const { id } = await params;
+
+    // Validate ID parameter
+    const idValidation = idSchema.safeParse(id);
+    if (!idValidation.success) {
+      return NextResponse.json(
+        { error: 'Invalid snapshot ID' },
+        { status: 400 }
+      );
+    }
+
+    const [liveState, snapshotState] = await Promise.all([
+      loadLiveRbacState(supabase),
+      loadRbacState(supabase, id),
+    ]);
+
+    if (!snapshotState) {
+      return NextResponse.json(
+        { error: 'Snapshot not found' },
+        { status: 404 }
+      );
+    }
+
+    const diff = diffRbacStates(liveState, snapshotState);
+
+    const { data, error } = await supabase.rpc('restore_rbac_snapshot', {
+      snapshot_id: id,
+    });
+
+    if (error) {
+      const status = RESTORE_ERROR_STATUS[error.code];
+      if (!status) {
+        throw handleDatabaseError(error);
+      }
+      return NextResponse.json({ error: error.message }, { status });
+    }
+
+    const result = data as {
+      backup_snapshot_id: string;
+      skipped_user_roles: number;
+    };
+
+    return NextResponse.json({
+      data: { ...result, diff },
+      message:
+        result.skipped_user_roles > 0
+          ? `Snapshot restored (${diff.total} changes); ${result.skipped_user_roles} assignments of users who are no longer members were skipped`
+          : `Snapshot restored (${diff.total} changes)`,
+    });
+  } catch (error) {
+    console.error('Error restoring snapshot:', error);
+    return NextResponse.json(
+      { error: 'Failed to restore snapshot' },
+      { status: 500 }
+    );
+  }
+}
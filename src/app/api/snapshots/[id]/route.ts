@@ -0,0 +1,107 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@/lib/supabase/server';
+import { requireAdmin } from '@/lib/supabase/authorization';
+import { handleDatabaseError } from '@/lib/supabase/errors';
+import { idSchema } from '@/lib/validations/common';
+
+// GET /api/snapshots/[id] - Get a snapshot with the state it captured
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const supabase = await createClient();
+    const auth = await requireAdmin(supabase);
+    if (auth.response) {
+      return auth.response;
+    }
+
+    const { id } = await params;
+
+    // Validate ID parameter
+    const idValidation = idSchema.safeParse(id);
+    if (!idValidation.success) {
+      return NextResponse.json(
+        { error: 'Invalid snapshot ID' },
+        { status: 400 }
+      );
+    }
+
+    const { data, error } = await supabase
+      .from('rbac_snapshots')
+      .select('*')
+      .eq('id', id)
+      .maybeSingle();
+
+    if (error) {
+      throw handleDatabaseError(error);
+    }
+
+    if (!data) {
+      return NextResponse.json(
+        { error: 'Snapshot not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ data });
+  } catch (error) {
+    console.error('Error fetching snapshot:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch snapshot' },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE /api/snapshots/[id] - Delete a snapshot
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const supabase = await createClient();
+    const auth = await requireAdmin(supabase);
+    if (auth.response) {
+      return auth.response;
+    }
+
+    const { id } = await params;
+
+    // Validate ID parameter
+    const idValidation = idSchema.safeParse(id);
+    if (!idValidation.success) {
+      return NextResponse.json(
+        { error: 'Invalid snapshot ID' },
+        { status: 400 }
+      );
+    }
+
+    const { data, error } = await supabase
+      .from('rbac_snapshots')
+      .delete()
+      .eq('id', id)
+      .select('id, name');
+
+    if (error) {
+      throw handleDatabaseError(error);
+    }
+
+    if (!data || data.length === 0) {
+      return NextResponse.json(
+        { error: 'Snapshot not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      message: `Snapshot "${data[0].name}" deleted successfully`,
+    });
+  } catch (error) {
+    console.error('Error deleting snapshot:', error);
+    return NextResponse.json(
+      { error: 'Failed to delete snapshot' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,59 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@/lib/supabase/server';
+import { requireAdmin } from '@/lib/supabase/authorization';
+import { loadRbacState } from '@/lib/supabase/snapshots';
+import { diffRbacStates } from '@/lib/rbac-snapshots';
+import { snapshotDiffQuerySchema } from '@/lib/validations/rbac';
+
+// GET /api/snapshots/diff?from=<id|live>&to=<id|live> - What changes when
+// going from one state to the other. `to` defaults to the live state.
+export async function GET(request: NextRequest) {
+  try {
+    const supabase = await createClient();
+    const auth = await requireAdmin(supabase);
+    if (auth.response) {
+      return auth.response;
+    }
+
+    const { searchParams } = new URL(request.url);
+
+    // Validate query parameters
+    const validation = snapshotDiffQuerySchema.safeParse({
+      from: searchParams.get('from') || undefined,
+      to: searchParams.get('to') || undefined,
+    });
+    if (!validation.success) {
+      return NextResponse.json(
+        {
+          error: 'Invalid query parameters',
+          details: validation.error.issues,
+        },
+        { status: 400 }
+      );
+    }
+
+    const { from, to } = validation.data;
+
+    const [fromState, toState] = await Promise.all([
+      loadRbacState(supabase, from),
+      loadRbacState(supabase, to),
+    ]);
+
+    if (!fromState || !toState) {
+      return NextResponse.json(
+        { error: 'Snapshot not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      data: { from, to, diff: diffRbacStates(fromState, toState) },
+    });
+  } catch (error) {
+    console.error('Error comparing snapshots:', error);
+    return NextResponse.json(
+      { error: 'Failed to compare snapshots' },
+      { status: 500 }
+    );
+  }
+}
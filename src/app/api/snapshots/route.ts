@@ -0,0 +1,92 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@/lib/supabase/server';
+import { requireAdmin } from '@/lib/supabase/authorization';
+import { handleDatabaseError } from '@/lib/supabase/errors';
+import { createSnapshotSchema } from '@/lib/validations/rbac';
+
+// GET /api/snapshots - List snapshots, newest first, without their data
+export async function GET() {
+  try {
+    const supabase = await createClient();
+    const auth = await requireAdmin(supabase);
+    if (auth.response) {
+      return auth.response;
+    }
+
+    const { data, error } = await supabase
+      .from('rbac_snapshots')
+      .select(
+        'id, name, description, counts, created_by, created_by_email, created_at'
+      )
+      .order('created_at', { ascending: false });
+
+    if (error) {
+      throw handleDatabaseError(error);
+    }
+
+    return NextResponse.json({ data: data || [] });
+  } catch (error) {
+    console.error('Error fetching snapshots:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch snapshots' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/snapshots - Snapshot the current permissions, roles,
+// associations and user role assignments
+export async function POST(request: NextRequest) {
+  try {
+    const supabase = await createClient();
+    const auth = await requireAdmin(supabase);
+    if (auth.response) {
+      return auth.response;
+    }
+
+    const body = await request.json();
+
+    // Validate input data
+    const validation = createSnapshotSchema.safeParse(body);
+    if (!validation.success) {
+      return NextResponse.json(
+        {
+          error: 'Invalid input data',
+          details: validation.error.issues.map((err) => ({
+            field: err.path.join('.'),
+            message: err.message,
+          })),
+        },
+        { status: 400 }
+      );
+    }
+
+    const { data: snapshot, error } = await supabase
+      .rpc('create_rbac_snapshot', {
+        snapshot_name: validation.data.name,
+        snapshot_description: validation.data.description,
+      })
+      .select(
+        'id, name, description, counts, created_by, created_by_email, created_at'
+      )
+      .single();
+
+    if (error) {
+      throw handleDatabaseError(error);
+    }
+
+    return NextResponse.json(
+      {
+        data: snapshot,
+        message: `Snapshot "${snapshot.name}" created successfully`,
+      },
+      { status: 201 }
+    );
+  } catch (error) {
+    console.error('Error creating snapshot:', error);
+    return NextResponse.json(
+      { error: 'Failed to create snapshot' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,58 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@/lib/supabase/server';
+import { requireAdmin } from '@/lib/supabase/authorization';
+import { handleDatabaseError } from '@/lib/supabase/errors';
+import { idSchema } from '@/lib/validations/common';
+
+// DELETE /api/sod-constraints/[id] - Remove a separation-of-duties constraint
+export async function DELETE(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const supabase = await createClient();
+    const auth = await requireAdmin(supabase);
+    if (auth.response) {
+      return auth.response;
+    }
+
+    const { id } = await params;
+
+    // Validate ID parameter
+    const idValidation = idSchema.safeParse(id);
+    if (!idValidation.success) {
+      return NextResponse.json(
+        { error: 'Invalid constraint ID' },
+        { status: 400 }
+      );
+    }
+
+    const { data, error } = await supabase
+      .from('sod_constraints')
+      .delete()
+      .eq('id', id)
+      .select('id');
+
+    if (error) {
+      throw handleDatabaseError(error);
+    }
+
+    if (!data || data.length === 0) {
+      return NextResponse.json(
+        { error: 'SoD constraint not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      message: 'SoD constraint deleted successfully',
+      data: { id },
+    });
+  } catch (error) {
+    console.error('Error deleting SoD constraint:', error);
+    return NextResponse.json(
+      { error: 'Failed to delete SoD constraint' },
+      { status: 500 }
+    );
+  }
+}
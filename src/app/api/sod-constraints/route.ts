@@ -0,0 +1,139 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@/lib/supabase/server';
+import { requireAdmin, requireUser } from '@/lib/supabase/authorization';
+import { handleDatabaseError } from '@/lib/supabase/errors';
+import { createSodConstraintSchema } from '@/lib/validations/rbac';
+
+// GET /api/sod-constraints - List separation-of-duties constraints
+export async function GET() {
+  try {
+    const supabase = await createClient();
+    const auth = await requireUser(supabase);
+    if (auth.response) {
+      return auth.response;
+    }
+
+    const { data, error } = await supabase
+      .from('sod_constraints')
+      .select('*')
+      .order('name');
+
+    if (error) {
+      throw handleDatabaseError(error);
+    }
+
+    return NextResponse.json({ data: data || [] });
+  } catch (error) {
+    console.error('Error fetching SoD constraints:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch SoD constraints' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/sod-constraints - Declare two roles or two permissions mutually
+// exclusive
+export async function POST(request: NextRequest) {
+  try {
+    const supabase = await createClient();
+    const auth = await requireAdmin(supabase);
+    if (auth.response) {
+      return auth.response;
+    }
+
+    const body = await request.json();
+
+    // Validate input data
+    const validation = createSodConstraintSchema.safeParse(body);
+    if (!validation.success) {
+      return NextResponse.json(
+        {
+          error: 'Invalid input data',
+          details: validation.error.issues.map((err) => ({
+            field: err.path.join('.'),
+            message: err.message,
+          })),
+        },
+        { status: 400 }
+      );
+    }
+
+    const { constraint_type, first_id, second_id } = validation.data;
+    const table = constraint_type === 'role' ? 'roles' : 'permissions';
+
+    // Verify that both sides exist
+    const { data: existing, error: existingError } = await supabase
+      .from(table)
+      .select('id')
+      .in('id', [first_id, second_id]);
+
+    if (existingError) {
+      throw handleDatabaseError(existingError);
+    }
+
+    if ((existing || []).length < 2) {
+      return NextResponse.json(
+        {
+          error:
+            constraint_type === 'role'
+              ? 'Role not found'
+              : 'Permission not found',
+        },
+        { status: 404 }
+      );
+    }
+
+    // The same pair can only be declared once, in either order
+    const { data: duplicate } = await supabase
+      .from('sod_constraints')
+      .select('name')
+      .eq('constraint_type', constraint_type)
+      .or(
+        `and(first_id.eq.${first_id},second_id.eq.${second_id}),and(first_id.eq.${second_id},second_id.eq.${first_id})`
+      )
+      .maybeSingle();
+
+    if (duplicate) {
+      return NextResponse.json(
+        {
+          error: `Constraint "${duplicate.name}" already covers this pair`,
+        },
+        { status: 409 }
+      );
+    }
+
+    const { data, error } = await supabase
+      .from('sod_constraints')
+      .insert(validation.data)
+      .select()
+      .single();
+
+    if (error) {
+      throw handleDatabaseError(error);
+    }
+
+    return NextResponse.json(
+      {
+        data,
+        message: 'SoD constraint created successfully',
+      },
+      { status: 201 }
+    );
+  } catch (error) {
+    console.error('Error creating SoD constraint:', error);
+
+    // Handle duplicate name error from database constraint
+    if (error instanceof Error && error.message.includes('already exists')) {
+      return NextResponse.json(
+        { error: 'A constraint with this name already exists' },
+        { status: 409 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: 'Failed to create SoD constraint' },
+      { status: 500 }
+    );
+  }
+}
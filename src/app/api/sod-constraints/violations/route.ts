@@ -0,0 +1,24 @@
+import { NextResponse } from 'next/server';
+import { createClient } from '@/lib/supabase/server';
+import { requireAdmin } from '@/lib/supabase/authorization';
+import { listSodViolations } from '@/lib/supabase/sod';
+
+// GET /api/sod-constraints/violations - Roles and users that currently hold
+// both sides of a separation-of-duties constraint
+export async function GET() {
+  try {
+    const supabase = await createClient();
+    const auth = await requireAdmin(supabase);
+    if (auth.response) {
+      return auth.response;
+    }
+
+    return NextResponse.json({ data: await listSodViolations(supabase) });
+  } catch (error) {
+    console.error('Error fetching SoD violations:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch SoD violations' },
+      { status: 500 }
+    );
+  }
+}
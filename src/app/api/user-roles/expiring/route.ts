@@ -0,0 +1,87 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@/lib/supabase/server';
+import { requireAdmin } from '@/lib/supabase/authorization';
+import { listAuthUsers } from '@/lib/supabase/admin';
+import { handleDatabaseError } from '@/lib/supabase/errors';
+import { expiringGrantsQuerySchema } from '@/lib/validations/rbac';
+import type { ExpiringGrant } from '@/lib/types';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// GET /api/user-roles/expiring - Time-bound role assignments that expire
+// within the next `within_days` days, including expired ones not yet cleaned up
+export async function GET(request: NextRequest) {
+  try {
+    const supabase = await createClient();
+    const auth = await requireAdmin(supabase);
+    if (auth.response) {
+      return auth.response;
+    }
+
+    const { searchParams } = new URL(request.url);
+
+    const validation = expiringGrantsQuerySchema.safeParse({
+      within_days: searchParams.get('within_days') ?? undefined,
+    });
+    if (!validation.success) {
+      return NextResponse.json(
+        {
+          error: 'Invalid query parameters',
+          details: validation.error.issues,
+        },
+        { status: 400 }
+      );
+    }
+
+    const now = new Date();
+    const horizon = new Date(
+      now.getTime() + validation.data.within_days * DAY_MS
+    );
+
+    const [
+      { data: userRoles, error: userRolesError },
+      { data: roles, error: rolesError },
+    ] = await Promise.all([
+      supabase
+        .from('user_roles')
+        .select('*')
+        .not('valid_until', 'is', null)
+        .lte('valid_until', horizon.toISOString())
+        .order('valid_until'),
+      supabase.from('roles').select('id, name'),
+    ]);
+
+    const queryError = userRolesError || rolesError;
+    if (queryError) {
+      throw handleDatabaseError(queryError);
+    }
+
+    const roleNames = new Map(
+      (roles || []).map((role) => [role.id, role.name])
+    );
+    const emails = new Map(
+      (userRoles || []).length > 0
+        ? (await listAuthUsers()).map((user) => [user.id, user.email ?? null])
+        : []
+    );
+
+    const data: ExpiringGrant[] = (userRoles || []).map((ur) => ({
+      user_id: ur.user_id,
+      user_email: emails.get(ur.user_id) ?? null,
+      role: { id: ur.role_id, name: roleNames.get(ur.role_id) ?? ur.role_id },
+      scope_type: ur.scope_type,
+      scope_id: ur.scope_id,
+      valid_from: ur.valid_from,
+      valid_until: ur.valid_until!,
+      expired: new Date(ur.valid_until!) <= now,
+    }));
+
+    return NextResponse.json({ data });
+  } catch (error) {
+    console.error('Error fetching expiring grants:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch expiring grants' },
+      { status: 500 }
+    );
+  }
+}
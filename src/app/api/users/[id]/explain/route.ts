@@ -0,0 +1,107 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@/lib/supabase/server';
+import { requireAdmin } from '@/lib/supabase/authorization';
+import { getOrganizationUserById } from '@/lib/supabase/organizations';
+import { handleDatabaseError } from '@/lib/supabase/errors';
+import { idSchema } from '@/lib/validations';
+import { explainUserAccessQuerySchema } from '@/lib/validations/rbac';
+import { evaluatePermission, explainUserPermissions } from '@/lib/rbac-utils';
+import type { UserAccessExplanation } from '@/lib/types';
+
+// GET /api/users/[id]/explain - List the user's effective permissions with
+// the roles that grant them. With ?permission_name (and optionally
+// resource_type/resource_id) also explain why that check is allowed or denied.
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const supabase = await createClient();
+    const auth = await requireAdmin(supabase);
+    if (auth.response) {
+      return auth.response;
+    }
+
+    const { id } = await params;
+
+    // Validate ID parameter
+    const idValidation = idSchema.safeParse(id);
+    if (!idValidation.success) {
+      return NextResponse.json({ error: 'Invalid user ID' }, { status: 400 });
+    }
+
+    const { searchParams } = new URL(request.url);
+
+    // Validate query parameters
+    const validation = explainUserAccessQuerySchema.safeParse({
+      permission_name: searchParams.get('permission_name') || undefined,
+      resource_type: searchParams.get('resource_type') || undefined,
+      resource_id: searchParams.get('resource_id') || undefined,
+    });
+    if (!validation.success) {
+      return NextResponse.json(
+        {
+          error: 'Invalid query parameters',
+          details: validation.error.issues,
+        },
+        { status: 400 }
+      );
+    }
+
+    const user = await getOrganizationUserById(supabase, id);
+    if (!user) {
+      return NextResponse.json({ error: 'User not found' }, { status: 404 });
+    }
+
+    const [
+      { data: userRoles, error: userRolesError },
+      { data: roles, error: rolesError },
+      { data: permissions, error: permissionsError },
+      { data: rolePermissions, error: rolePermissionsError },
+    ] = await Promise.all([
+      supabase.from('user_roles').select('*').eq('user_id', id),
+      supabase.from('roles').select('*'),
+      supabase.from('permissions').select('*'),
+      supabase.from('role_permissions').select('*'),
+    ]);
+
+    const queryError =
+      userRolesError || rolesError || permissionsError || rolePermissionsError;
+    if (queryError) {
+      throw handleDatabaseError(queryError);
+    }
+
+    const { permission_name, resource_type, resource_id } = validation.data;
+
+    const data: UserAccessExplanation = {
+      user_id: user.id,
+      email: user.email ?? null,
+      permissions: explainUserPermissions(
+        user.id,
+        userRoles || [],
+        rolePermissions || [],
+        permissions || [],
+        roles || []
+      ),
+      decision: permission_name
+        ? evaluatePermission(
+            user.id,
+            permission_name,
+            roles || [],
+            permissions || [],
+            userRoles || [],
+            rolePermissions || [],
+            { resource_type, resource_id }
+          )
+        : null,
+    };
+
+    return NextResponse.json({ data });
+  } catch (error) {
+    console.error('Error explaining user access:', error);
+    return NextResponse.json(
+      { error: 'Failed to explain user access' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,220 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@/lib/supabase/server';
+import { requireAdmin } from '@/lib/supabase/authorization';
+import { getOrganizationUserById } from '@/lib/supabase/organizations';
+import { checkSodChange } from '@/lib/supabase/sod';
+import {
+  assignUserRoleSchema,
+  unassignUserRoleSchema,
+} from '@/lib/validations/rbac';
+import { formatScope } from '@/lib/rbac-utils';
+
+// POST /api/users/[id]/roles - Assign a role to a user, optionally scoped to
+// a resource with scope_type/scope_id and limited in time with
+// valid_from/valid_until
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const supabase = await createClient();
+    const auth = await requireAdmin(supabase);
+    if (auth.response) {
+      return auth.response;
+    }
+
+    const body = await request.json();
+    const { id } = await params;
+
+    // Validate input data
+    const validation = assignUserRoleSchema.safeParse({
+      user_id: id,
+      role_id: body?.role_id,
+      scope_type: body?.scope_type,
+      scope_id: body?.scope_id,
+      valid_from: body?.valid_from,
+      valid_until: body?.valid_until,
+    });
+    if (!validation.success) {
+      return NextResponse.json(
+        {
+          error: 'Invalid input data',
+          details: validation.error.issues.map((err) => ({
+            field: err.path.join('.'),
+            message: err.message,
+          })),
+        },
+        { status: 400 }
+      );
+    }
+
+    const { user_id, role_id, scope_type, scope_id, valid_from, valid_until } =
+      validation.data;
+
+    // Verify that user and role exist
+    const [user, roleCheck] = await Promise.all([
+      getOrganizationUserById(supabase, user_id),
+      supabase.from('roles').select('id, name').eq('id', role_id).single(),
+    ]);
+
+    if (!user) {
+      return NextResponse.json({ error: 'User not found' }, { status: 404 });
+    }
+
+    if (roleCheck.error) {
+      return NextResponse.json({ error: 'Role not found' }, { status: 404 });
+    }
+
+    // Check if assignment already exists
+    const { data: existing } = await supabase
+      .from('user_roles')
+      .select('*')
+      .eq('user_id', user_id)
+      .eq('role_id', role_id)
+      .eq('scope_type', scope_type)
+      .eq('scope_id', scope_id)
+      .single();
+
+    // An expired assignment that has not been cleaned up yet is replaced
+    const expired =
+      existing?.valid_until && new Date(existing.valid_until) <= new Date();
+    if (existing && !expired) {
+      return NextResponse.json(
+        { error: 'User already has this role for this scope' },
+        { status: 409 }
+      );
+    }
+
+    // Reject toxic combinations of roles and permissions for this user
+    const sodResponse = await checkSodChange(supabase, {
+      userRoles: [
+        { user_id, role_id, scope_type, scope_id, valid_from, valid_until },
+      ],
+    });
+    if (sodResponse) {
+      return sodResponse;
+    }
+
+    const { data: assignment, error } = await supabase
+      .from('user_roles')
+      .upsert({
+        user_id,
+        role_id,
+        scope_type,
+        scope_id,
+        valid_from: valid_from ?? null,
+        valid_until: valid_until ?? null,
+      })
+      .select()
+      .single();
+
+    if (error) {
+      console.error('Error assigning role to user:', error);
+      return NextResponse.json(
+        { error: 'Failed to assign role' },
+        { status: 500 }
+      );
+    }
+
+    const scope = formatScope(assignment);
+    return NextResponse.json(
+      {
+        data: assignment,
+        message: `Role "${roleCheck.data.name}" assigned${
+          scope ? ` on ${scope}` : ''
+        } successfully`,
+      },
+      { status: 201 }
+    );
+  } catch (error) {
+    console.error('Unexpected error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE /api/users/[id]/roles?role_id=...&scope_type=...&scope_id=... -
+// Remove a role assignment from a user (the global one when no scope is given)
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const supabase = await createClient();
+    const auth = await requireAdmin(supabase);
+    if (auth.response) {
+      return auth.response;
+    }
+
+    const { searchParams } = new URL(request.url);
+    const { id } = await params;
+
+    // Validate input data
+    const validation = unassignUserRoleSchema.safeParse({
+      user_id: id,
+      role_id: searchParams.get('role_id'),
+      scope_type: searchParams.get('scope_type') ?? undefined,
+      scope_id: searchParams.get('scope_id') ?? undefined,
+    });
+    if (!validation.success) {
+      return NextResponse.json(
+        {
+          error: 'Invalid input data',
+          details: validation.error.issues.map((err) => ({
+            field: err.path.join('.'),
+            message: err.message,
+          })),
+        },
+        { status: 400 }
+      );
+    }
+
+    const { user_id, role_id, scope_type, scope_id } = validation.data;
+
+    // Check if assignment exists before attempting to delete
+    const { data: existing } = await supabase
+      .from('user_roles')
+      .select('*')
+      .eq('user_id', user_id)
+      .eq('role_id', role_id)
+      .eq('scope_type', scope_type)
+      .eq('scope_id', scope_id)
+      .single();
+
+    if (!existing) {
+      return NextResponse.json(
+        { error: 'Role assignment not found' },
+        { status: 404 }
+      );
+    }
+
+    const { error } = await supabase
+      .from('user_roles')
+      .delete()
+      .eq('user_id', user_id)
+      .eq('role_id', role_id)
+      .eq('scope_type', scope_type)
+      .eq('scope_id', scope_id);
+
+    if (error) {
+      console.error('Error removing role from user:', error);
+      return NextResponse.json(
+        { error: 'Failed to remove role' },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json({
+      message: 'Role removed successfully',
+      data: { user_id, role_id, scope_type, scope_id },
+    });
+  } catch (error) {
+    console.error('Unexpected error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,68 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@/lib/supabase/server';
+import { requireAdmin } from '@/lib/supabase/authorization';
+import { getOrganizationUserById } from '@/lib/supabase/organizations';
+import { handleDatabaseError } from '@/lib/supabase/errors';
+import { idSchema } from '@/lib/validations';
+import { enrichUsersWithRoles } from '@/lib/rbac-utils';
+
+// GET /api/users/[id] - Get a single user with roles and effective permissions
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const supabase = await createClient();
+    const auth = await requireAdmin(supabase);
+    if (auth.response) {
+      return auth.response;
+    }
+
+    const { id } = await params;
+
+    // Validate ID parameter
+    const idValidation = idSchema.safeParse(id);
+    if (!idValidation.success) {
+      return NextResponse.json({ error: 'Invalid user ID' }, { status: 400 });
+    }
+
+    const user = await getOrganizationUserById(supabase, id);
+    if (!user) {
+      return NextResponse.json({ error: 'User not found' }, { status: 404 });
+    }
+
+    const [
+      { data: userRoles, error: userRolesError },
+      { data: roles, error: rolesError },
+      { data: permissions, error: permissionsError },
+      { data: rolePermissions, error: rolePermissionsError },
+    ] = await Promise.all([
+      supabase.from('user_roles').select('*').eq('user_id', id),
+      supabase.from('roles').select('*').order('name'),
+      supabase.from('permissions').select('*').order('name'),
+      supabase.from('role_permissions').select('*'),
+    ]);
+
+    const queryError =
+      userRolesError || rolesError || permissionsError || rolePermissionsError;
+    if (queryError) {
+      throw handleDatabaseError(queryError);
+    }
+
+    const [data] = enrichUsersWithRoles(
+      [user],
+      roles || [],
+      permissions || [],
+      userRoles || [],
+      rolePermissions || []
+    );
+
+    return NextResponse.json({ data });
+  } catch (error) {
+    console.error('Error fetching user:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch user' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,93 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@/lib/supabase/server';
+import { requireAdmin } from '@/lib/supabase/authorization';
+import { listOrganizationUsers } from '@/lib/supabase/organizations';
+import { handleDatabaseError } from '@/lib/supabase/errors';
+import { searchSchema } from '@/lib/validations';
+import { enrichUsersWithRoles } from '@/lib/rbac-utils';
+
+// GET /api/users - List auth users with their roles and effective permissions
+export async function GET(request: NextRequest) {
+  try {
+    const supabase = await createClient();
+    const auth = await requireAdmin(supabase);
+    if (auth.response) {
+      return auth.response;
+    }
+
+    const { searchParams } = new URL(request.url);
+
+    // Parse search parameters
+    const query = searchParams.get('query') || '';
+    const limit = parseInt(searchParams.get('limit') || '50');
+    const offset = parseInt(searchParams.get('offset') || '0');
+
+    // Validate search parameters
+    const searchValidation = searchSchema.safeParse({ query, limit, offset });
+    if (!searchValidation.success) {
+      return NextResponse.json(
+        {
+          error: 'Invalid search parameters',
+          details: searchValidation.error.issues,
+        },
+        { status: 400 }
+      );
+    }
+
+    const users = await listOrganizationUsers(supabase);
+
+    // Apply search filter if query is provided
+    const normalizedQuery = query.trim().toLowerCase();
+    const matchingUsers = users
+      .filter(
+        (user) =>
+          !normalizedQuery ||
+          user.email?.toLowerCase().includes(normalizedQuery)
+      )
+      .sort((a, b) => (a.email || '').localeCompare(b.email || ''));
+
+    // Apply pagination
+    const pageUsers = matchingUsers.slice(offset, offset + limit);
+    const userIds = pageUsers.map((user) => user.id);
+
+    const [
+      { data: userRoles, error: userRolesError },
+      { data: roles, error: rolesError },
+      { data: permissions, error: permissionsError },
+      { data: rolePermissions, error: rolePermissionsError },
+    ] = await Promise.all([
+      supabase.from('user_roles').select('*').in('user_id', userIds),
+      supabase.from('roles').select('*').order('name'),
+      supabase.from('permissions').select('*').order('name'),
+      supabase.from('role_permissions').select('*'),
+    ]);
+
+    const queryError =
+      userRolesError || rolesError || permissionsError || rolePermissionsError;
+    if (queryError) {
+      throw handleDatabaseError(queryError);
+    }
+
+    return NextResponse.json({
+      data: enrichUsersWithRoles(
+        pageUsers,
+        roles || [],
+        permissions || [],
+        userRoles || [],
+        rolePermissions || []
+      ),
+      pagination: {
+        page: Math.floor(offset / limit) + 1,
+        pageSize: limit,
+        total: matchingUsers.length,
+        totalPages: Math.ceil(matchingUsers.length / limit),
+      },
+    });
+  } catch (error) {
+    console.error('Error fetching users:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch users' },
+      { status: 500 }
+    );
+  }
+}
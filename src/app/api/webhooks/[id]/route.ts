@@ -0,0 +1,138 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@/lib/supabase/server';
+import { requireAdmin } from '@/lib/supabase/authorization';
+import { handleDatabaseError } from '@/lib/supabase/errors';
+import {
+  WEBHOOK_SUBSCRIPTION_COLUMNS,
+  checkWebhookDestination,
+} from '@/lib/supabase/webhooks';
+import { idSchema } from '@/lib/validations/common';
+import { updateWebhookSchema } from '@/lib/validations/rbac';
+
+// PUT /api/webhooks/[id] - Change the URL, events, description or secret of
+// a webhook, or pause and resume it with `active`
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const supabase = await createClient();
+    const auth = await requireAdmin(supabase);
+    if (auth.response) {
+      return auth.response;
+    }
+
+    const body = await request.json();
+    const { id } = await params;
+
+    // Validate ID parameter
+    const idValidation = idSchema.safeParse(id);
+    if (!idValidation.success) {
+      return NextResponse.json(
+        { error: 'Invalid webhook ID' },
+        { status: 400 }
+      );
+    }
+
+    // Validate input data
+    const validation = updateWebhookSchema.safeParse(body);
+    if (!validation.success) {
+      return NextResponse.json(
+        {
+          error: 'Invalid input data',
+          details: validation.error.issues.map((err) => ({
+            field: err.path.join('.'),
+            message: err.message,
+          })),
+        },
+        { status: 400 }
+      );
+    }
+
+    const { url } = validation.data;
+    const refused = url ? await checkWebhookDestination(url) : null;
+    if (refused) {
+      return NextResponse.json(
+        {
+          error: 'Invalid input data',
+          details: [{ field: 'url', message: refused }],
+        },
+        { status: 400 }
+      );
+    }
+
+    const { data, error } = await supabase
+      .from('webhook_subscriptions')
+      .update(validation.data)
+      .eq('id', id)
+      .select(WEBHOOK_SUBSCRIPTION_COLUMNS);
+
+    if (error) {
+      throw handleDatabaseError(error);
+    }
+
+    if (!data || data.length === 0) {
+      return NextResponse.json({ error: 'Webhook not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({
+      data: data[0],
+      message: 'Webhook updated successfully',
+    });
+  } catch (error) {
+    console.error('Error updating webhook:', error);
+    return NextResponse.json(
+      { error: 'Failed to update webhook' },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE /api/webhooks/[id] - Delete a webhook and its delivery log
+export async function DELETE(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const supabase = await createClient();
+    const auth = await requireAdmin(supabase);
+    if (auth.response) {
+      return auth.response;
+    }
+
+    const { id } = await params;
+
+    // Validate ID parameter
+    const idValidation = idSchema.safeParse(id);
+    if (!idValidation.success) {
+      return NextResponse.json(
+        { error: 'Invalid webhook ID' },
+        { status: 400 }
+      );
+    }
+
+    const { data, error } = await supabase
+      .from('webhook_subscriptions')
+      .delete()
+      .eq('id', id)
+      .select('id, url');
+
+    if (error) {
+      throw handleDatabaseError(error);
+    }
+
+    if (!data || data.length === 0) {
+      return NextResponse.json({ error: 'Webhook not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({
+      message: `Webhook for ${data[0].url} deleted successfully`,
+    });
+  } catch (error) {
+    console.error('Error deleting webhook:', error);
+    return NextResponse.json(
+      { error: 'Failed to delete webhook' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,66 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@/lib/supabase/server';
+import { requireAdmin } from '@/lib/supabase/authorization';
+import { handleDatabaseError } from '@/lib/supabase/errors';
+import { sendTestWebhook } from '@/lib/supabase/webhooks';
+import { idSchema } from '@/lib/validations/common';
+
+// POST /api/webhooks/[id]/test - Send a signed test event to the endpoint
+// now and report how it responded
+export async function POST(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const supabase = await createClient();
+    const auth = await requireAdmin(supabase);
+    if (auth.response) {
+      return auth.response;
+    }
+
+    const { id } = await params;
+
+    // Validate ID parameter
+    const idValidation = idSchema.safeParse(id);
+    if (!idValidation.success) {
+      return NextResponse.json(
+        { error: 'Invalid webhook ID' },
+        { status: 400 }
+      );
+    }
+
+    // The delivery is sent with the service role, so check access first
+    const { data: subscription, error } = await supabase
+      .from('webhook_subscriptions')
+      .select('id')
+      .eq('id', id)
+      .maybeSingle();
+
+    if (error) {
+      throw handleDatabaseError(error);
+    }
+
+    if (!subscription) {
+      return NextResponse.json({ error: 'Webhook not found' }, { status: 404 });
+    }
+
+    const delivery = await sendTestWebhook(id, {
+      id: auth.user.id,
+      email: auth.user.email ?? null,
+    });
+
+    return NextResponse.json({
+      data: delivery,
+      message:
+        delivery.status === 'succeeded'
+          ? `Test delivery succeeded (${delivery.response_status})`
+          : `Test delivery failed: ${delivery.last_error}`,
+    });
+  } catch (error) {
+    console.error('Error sending test webhook:', error);
+    return NextResponse.json(
+      { error: 'Failed to send test webhook' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,62 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@/lib/supabase/server';
+import { requireAdmin } from '@/lib/supabase/authorization';
+import { handleDatabaseError } from '@/lib/supabase/errors';
+import { WEBHOOK_DELIVERY_COLUMNS } from '@/lib/supabase/webhooks';
+import { webhookDeliveryQuerySchema } from '@/lib/validations/rbac';
+
+// GET /api/webhooks/deliveries - Delivery log, newest first, optionally for
+// one subscription or status
+export async function GET(request: NextRequest) {
+  try {
+    const supabase = await createClient();
+    const auth = await requireAdmin(supabase);
+    if (auth.response) {
+      return auth.response;
+    }
+
+    const { searchParams } = new URL(request.url);
+
+    const validation = webhookDeliveryQuerySchema.safeParse(
+      Object.fromEntries(searchParams)
+    );
+    if (!validation.success) {
+      return NextResponse.json(
+        {
+          error: 'Invalid query parameters',
+          details: validation.error.issues,
+        },
+        { status: 400 }
+      );
+    }
+
+    const { subscription_id, status, limit } = validation.data;
+
+    let query = supabase
+      .from('webhook_deliveries')
+      .select(WEBHOOK_DELIVERY_COLUMNS)
+      .order('created_at', { ascending: false })
+      .limit(limit);
+
+    if (subscription_id) {
+      query = query.eq('subscription_id', subscription_id);
+    }
+    if (status) {
+      query = query.eq('status', status);
+    }
+
+    const { data, error } = await query;
+
+    if (error) {
+      throw handleDatabaseError(error);
+    }
+
+    return NextResponse.json({ data: data || [] });
+  } catch (error) {
+    console.error('Error fetching webhook deliveries:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch webhook deliveries' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,105 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@/lib/supabase/server';
+import { requireAdmin } from '@/lib/supabase/authorization';
+import { handleDatabaseError } from '@/lib/supabase/errors';
+import {
+  WEBHOOK_SUBSCRIPTION_COLUMNS,
+  checkWebhookDestination,
+  generateWebhookSecret,
+} from '@/lib/supabase/webhooks';
+import { createWebhookSchema } from '@/lib/validations/rbac';
+
+// GET /api/webhooks - List webhook subscriptions, without their secrets
+export async function GET() {
+  try {
+    const supabase = await createClient();
+    const auth = await requireAdmin(supabase);
+    if (auth.response) {
+      return auth.response;
+    }
+
+    const { data, error } = await supabase
+      .from('webhook_subscriptions')
+      .select(WEBHOOK_SUBSCRIPTION_COLUMNS)
+      .order('created_at', { ascending: false });
+
+    if (error) {
+      throw handleDatabaseError(error);
+    }
+
+    return NextResponse.json({ data: data || [] });
+  } catch (error) {
+    console.error('Error fetching webhooks:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch webhooks' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/webhooks - Subscribe an endpoint to RBAC change events. The
+// signing secret is only returned in this response.
+export async function POST(request: NextRequest) {
+  try {
+    const supabase = await createClient();
+    const auth = await requireAdmin(supabase);
+    if (auth.response) {
+      return auth.response;
+    }
+
+    const body = await request.json();
+
+    // Validate input data
+    const validation = createWebhookSchema.safeParse(body);
+    if (!validation.success) {
+      return NextResponse.json(
+        {
+          error: 'Invalid input data',
+          details: validation.error.issues.map((err) => ({
+            field: err.path.join('.'),
+            message: err.message,
+          })),
+        },
+        { status: 400 }
+      );
+    }
+
+    const { secret = generateWebhookSecret(), ...subscription } =
+      validation.data;
+
+    const refused = await checkWebhookDestination(subscription.url);
+    if (refused) {
+      return NextResponse.json(
+        {
+          error: 'Invalid input data',
+          details: [{ field: 'url', message: refused }],
+        },
+        { status: 400 }
+      );
+    }
+
+    const { data, error } = await supabase
+      .from('webhook_subscriptions')
+      .insert({ ...subscription, secret, created_by: auth.user.id })
+      .select(WEBHOOK_SUBSCRIPTION_COLUMNS)
+      .single();
+
+    if (error) {
+      throw handleDatabaseError(error);
+    }
+
+    return NextResponse.json(
+      {
+        data: { ...data, secret },
+        message: `Webhook for ${data.url} created successfully`,
+      },
+      { status: 201 }
+    );
+  } catch (error) {
+    console.error('Error creating webhook:', error);
+    return NextResponse.json(
+      { error: 'Failed to create webhook' },
+      { status: 500 }
+    );
+  }
+}
@@ -9,8 +9,10 @@ import {
   CardTitle,
 } from '@/components/ui/card';
 import { DashboardStats } from '@/components/dashboard/dashboard-stats';
+import { ExportRbacButton } from '@/components/dashboard/export-rbac-button';
 import Link from 'next/link';
-import { Shield, Users, Link2, MessageSquare } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Shield, Users, Link2, MessageSquare, Upload } from 'lucide-react';
 
 export default async function Home() {
   const supabase = await createClient();
@@ -25,11 +27,22 @@ export default async function Home() {
   return (
     <div className="space-y-8">
       {/* Header */}
-      <div className="space-y-2">
-        <h1 className="text-3xl font-bold tracking-tight">Dashboard</h1>
-        <p className="text-muted-foreground">
-          Overview of your role-based access control system
-        </p>
+      <div className="flex items-start justify-between gap-4">
+        <div className="space-y-2">
+          <h1 className="text-3xl font-bold tracking-tight">Dashboard</h1>
+          <p className="text-muted-foreground">
+            Overview of your role-based access control system
+          </p>
+        </div>
+        <div className="flex items-center gap-2">
+          <Button variant="outline" asChild>
+            <Link href="/import">
+              <Upload className="h-4 w-4 mr-2" />
+              Import
+            </Link>
+          </Button>
+          <ExportRbacButton />
+        </div>
       </div>
 
       {/* Statistics */}
@@ -0,0 +1,514 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import Link from 'next/link';
+import {
+  ArrowLeft,
+  Check,
+  Download,
+  Loader2,
+  Lock,
+  ShieldCheck,
+  X,
+} from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from '@/components/ui/card';
+import { ConfirmationDialog } from '@/components/ui/confirmation-dialog';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { LoadingState } from '@/components/ui/loading';
+import { useToast } from '@/hooks/use-toast';
+import { createClient } from '@/lib/supabase/client';
+import { formatScope } from '@/lib/rbac-utils';
+import type {
+  AccessReviewCampaign,
+  AccessReviewDecision,
+  AccessReviewItem,
+} from '@/lib/types';
+
+interface ReportSummary {
+  signature: string;
+  algorithm: string;
+  verified: boolean;
+}
+
+interface AccessReviewDetailProps {
+  campaignId: string;
+  className?: string;
+}
+
+export function AccessReviewDetail({
+  campaignId,
+  className,
+}: AccessReviewDetailProps) {
+  const [campaign, setCampaign] = useState<AccessReviewCampaign | null>(null);
+  const [items, setItems] = useState<AccessReviewItem[]>([]);
+  const [currentUserId, setCurrentUserId] = useState<string | null>(null);
+  const [report, setReport] = useState<ReportSummary | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [deciding, setDeciding] = useState<string | null>(null);
+  const [isCloseOpen, setIsCloseOpen] = useState(false);
+  const [closing, setClosing] = useState(false);
+  const { toast } = useToast();
+
+  const supabase = createClient();
+
+  const fetchCampaign = useCallback(async () => {
+    try {
+      setError(null);
+
+      const response = await fetch(`/api/access-reviews/${campaignId}`);
+      const result = await response.json();
+
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to fetch access review');
+      }
+
+      const { items: campaignItems, ...campaignData } = result.data;
+      setCampaign(campaignData);
+      setItems(campaignItems || []);
+      setCurrentUserId(result.current_user_id);
+
+      if (campaignData.status === 'closed') {
+        const reportResponse = await fetch(
+          `/api/access-reviews/${campaignId}/report`
+        );
+        const reportResult = await reportResponse.json();
+        setReport(reportResponse.ok ? reportResult.data : null);
+      }
+    } catch (err) {
+      console.error('Error fetching access review:', err);
+      setError(
+        err instanceof Error ? err.message : 'Failed to fetch access review'
+      );
+    } finally {
+      setLoading(false);
+    }
+  }, [campaignId]);
+
+  useEffect(() => {
+    fetchCampaign();
+
+    const channel = supabase
+      .channel(`access-review-items-${campaignId}`)
+      .on(
+        'postgres_changes',
+        {
+          event: '*',
+          schema: 'public',
+          table: 'access_review_items',
+          filter: `campaign_id=eq.${campaignId}`,
+        },
+        () => {
+          fetchCampaign();
+        }
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [campaignId, fetchCampaign, supabase]);
+
+  const recordDecisions = async (
+    itemIds: string[],
+    decision: AccessReviewDecision,
+    key: string
+  ) => {
+    try {
+      setDeciding(key);
+
+      const response = await fetch(
+        `/api/access-reviews/${campaignId}/decisions`,
+        {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+          },
+          body: JSON.stringify({
+            decisions: itemIds.map((item_id) => ({ item_id, decision })),
+          }),
+        }
+      );
+
+      const result = await response.json();
+
+      if (!response.ok) {
+        const details = Array.isArray(result.details)
+          ? result.details
+              .map((detail: { message: string }) => detail.message)
+              .join(', ')
+          : null;
+        throw new Error(
+          details || result.error || 'Failed to record decisions'
+        );
+      }
+
+      if (result.data.skipped.length > 0) {
+        toast({
+          title: 'Partially completed',
+          description: result.message,
+          variant: 'destructive',
+        });
+      }
+
+      await fetchCampaign();
+    } catch (err) {
+      console.error('Error recording access review decisions:', err);
+      toast({
+        title: 'Error',
+        description:
+          err instanceof Error ? err.message : 'Failed to record decisions',
+        variant: 'destructive',
+      });
+    } finally {
+      setDeciding(null);
+    }
+  };
+
+  const handleClose = async () => {
+    try {
+      setClosing(true);
+
+      const response = await fetch(`/api/access-reviews/${campaignId}/close`, {
+        method: 'POST',
+      });
+
+      const result = await response.json();
+
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to close access review');
+      }
+
+      toast({
+        title: 'Success',
+        description: result.message,
+        variant: 'success',
+      });
+
+      setIsCloseOpen(false);
+      await fetchCampaign();
+    } catch (err) {
+      console.error('Error closing access review:', err);
+      toast({
+        title: 'Error',
+        description:
+          err instanceof Error ? err.message : 'Failed to close access review',
+        variant: 'destructive',
+      });
+    } finally {
+      setClosing(false);
+    }
+  };
+
+  const isOpen = campaign?.status === 'open';
+  const reviewable = items.filter((item) => item.user_id !== currentUserId);
+  const undecided = items.filter((item) => item.decision === null);
+  const undecidedReviewable = reviewable.filter(
+    (item) => item.decision === null
+  );
+  const toRevoke = items.filter((item) => item.decision === 'revoke');
+
+  const formatDate = (dateString: string) =>
+    new Date(dateString).toLocaleString('en-US', {
+      year: 'numeric',
+      month: 'short',
+      day: 'numeric',
+      hour: '2-digit',
+      minute: '2-digit',
+    });
+
+  return (
+    <div className={`space-y-6 ${className || ''}`}>
+      <Button variant="ghost" size="sm" asChild>
+        <Link href="/access-reviews">
+          <ArrowLeft className="h-4 w-4 mr-2" />
+          Back to access reviews
+        </Link>
+      </Button>
+
+      <LoadingState
+        isLoading={loading}
+        error={error}
+        isEmpty={!campaign}
+        loadingMessage="Loading access review..."
+        emptyMessage="Access review not found."
+      >
+        {campaign && (
+          <div className="space-y-6">
+            <div className="flex flex-wrap items-start justify-between gap-4">
+              <div>
+                <h1 className="text-3xl font-bold tracking-tight">
+                  {campaign.name}
+                </h1>
+                <p className="text-muted-foreground">
+                  {campaign.description ||
+                    `Review of ${campaign.roles.map((role) => role.name).join(', ')}`}
+                </p>
+                <p className="text-sm text-muted-foreground mt-1">
+                  Launched {formatDate(campaign.created_at)}
+                  {campaign.created_by_email &&
+                    ` by ${campaign.created_by_email}`}
+                  {campaign.due_at && ` · due ${formatDate(campaign.due_at)}`}
+                </p>
+              </div>
+              <div className="flex items-center gap-2">
+                <Badge variant={isOpen ? 'outline' : 'secondary'}>
+                  {campaign.status}
+                </Badge>
+                {isOpen && (
+                  <Button
+                    onClick={() => setIsCloseOpen(true)}
+                    disabled={undecided.length > 0}
+                    title={
+                      undecided.length > 0
+                        ? `${undecided.length} items still need a decision`
+                        : undefined
+                    }
+                  >
+                    <Lock className="mr-2 h-4 w-4" />
+                    Close Review
+                  </Button>
+                )}
+              </div>
+            </div>
+
+            {campaign.status === 'closed' && campaign.report && (
+              <Card>
+                <CardHeader>
+                  <CardTitle className="flex items-center gap-2">
+                    <ShieldCheck className="h-5 w-5" />
+                    Signed Report
+                  </CardTitle>
+                  <CardDescription>
+                    Closed{' '}
+                    {campaign.closed_at && formatDate(campaign.closed_at)}
+                    {campaign.closed_by_email &&
+                      ` by ${campaign.closed_by_email}`}
+                    . {campaign.report.totals.kept} kept,{' '}
+                    {campaign.report.totals.revoked} revoked.
+                  </CardDescription>
+                </CardHeader>
+                <CardContent className="flex flex-wrap items-center justify-between gap-4">
+                  <div className="space-y-1 text-sm">
+                    <div>
+                      {report?.verified ? (
+                        <Badge>Signature verified</Badge>
+                      ) : (
+                        <Badge variant="destructive">
+                          Signature not verified
+                        </Badge>
+                      )}
+                    </div>
+                    <div className="font-mono text-xs text-muted-foreground break-all">
+                      {report?.algorithm} {campaign.report_signature}
+                    </div>
+                  </div>
+                  <Button variant="outline" asChild>
+                    <a
+                      href={`/api/access-reviews/${campaign.id}/report?download=true`}
+                    >
+                      <Download className="mr-2 h-4 w-4" />
+                      Download Report
+                    </a>
+                  </Button>
+                </CardContent>
+              </Card>
+            )}
+
+            <Card>
+              <CardHeader className="flex flex-row items-start justify-between gap-4">
+                <div className="space-y-1.5">
+                  <CardTitle>Assignments</CardTitle>
+                  <CardDescription>
+                    {items.length - undecided.length}/{items.length} decided,{' '}
+                    {toRevoke.length} marked for revocation. You cannot review
+                    your own assignments.
+                  </CardDescription>
+                </div>
+                {isOpen && undecidedReviewable.length > 0 && (
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() =>
+                      recordDecisions(
+                        undecidedReviewable.map((item) => item.id),
+                        'keep',
+                        'all'
+                      )
+                    }
+                    disabled={deciding !== null}
+                  >
+                    {deciding === 'all' ? (
+                      <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                    ) : (
+                      <Check className="mr-2 h-4 w-4" />
+                    )}
+                    Keep remaining
+                  </Button>
+                )}
+              </CardHeader>
+              <CardContent>
+                {items.length === 0 ? (
+                  <p className="text-sm text-muted-foreground">
+                    Nobody held these roles when the review was launched.
+                  </p>
+                ) : (
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>User</TableHead>
+                        <TableHead>Role</TableHead>
+                        <TableHead>Decision</TableHead>
+                        <TableHead className="w-[200px]" />
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {items.map((item) => {
+                        const scope = formatScope(item);
+                        const isOwn = item.user_id === currentUserId;
+
+                        return (
+                          <TableRow key={item.id}>
+                            <TableCell>
+                              <Link
+                                href={`/users/${item.user_id}`}
+                                className="hover:underline"
+                              >
+                                {item.user_email || item.user_id}
+                              </Link>
+                            </TableCell>
+                            <TableCell className="text-sm">
+                              {item.role_name}
+                              {scope && (
+                                <span className="font-mono text-muted-foreground">
+                                  {' '}
+                                  on {scope}
+                                </span>
+                              )}
+                              {item.valid_until && (
+                                <div className="text-xs text-muted-foreground">
+                                  until {formatDate(item.valid_until)}
+                                </div>
+                              )}
+                            </TableCell>
+                            <TableCell className="text-sm">
+                              {item.decision ? (
+                                <>
+                                  <Badge
+                                    variant={
+                                      item.decision === 'revoke'
+                                        ? 'destructive'
+                                        : 'secondary'
+                                    }
+                                  >
+                                    {item.decision}
+                                  </Badge>
+                                  <div className="text-xs text-muted-foreground mt-1">
+                                    {item.decided_by_email}
+                                    {item.decided_at &&
+                                      ` · ${formatDate(item.decided_at)}`}
+                                  </div>
+                                </>
+                              ) : (
+                                <span className="text-muted-foreground">
+                                  Pending
+                                </span>
+                              )}
+                            </TableCell>
+                            <TableCell>
+                              {isOpen && !isOwn && (
+                                <div className="flex justify-end gap-2">
+                                  <Button
+                                    size="sm"
+                                    variant={
+                                      item.decision === 'keep'
+                                        ? 'default'
+                                        : 'outline'
+                                    }
+                                    onClick={() =>
+                                      recordDecisions(
+                                        [item.id],
+                                        'keep',
+                                        `${item.id}:keep`
+                                      )
+                                    }
+                                    disabled={deciding !== null}
+                                  >
+                                    {deciding === `${item.id}:keep` ? (
+                                      <Loader2 className="mr-1 h-4 w-4 animate-spin" />
+                                    ) : (
+                                      <Check className="mr-1 h-4 w-4" />
+                                    )}
+                                    Keep
+                                  </Button>
+                                  <Button
+                                    size="sm"
+                                    variant={
+                                      item.decision === 'revoke'
+                                        ? 'destructive'
+                                        : 'outline'
+                                    }
+                                    onClick={() =>
+                                      recordDecisions(
+                                        [item.id],
+                                        'revoke',
+                                        `${item.id}:revoke`
+                                      )
+                                    }
+                                    disabled={deciding !== null}
+                                  >
+                                    {deciding === `${item.id}:revoke` ? (
+                                      <Loader2 className="mr-1 h-4 w-4 animate-spin" />
+                                    ) : (
+                                      <X className="mr-1 h-4 w-4" />
+                                    )}
+                                    Revoke
+                                  </Button>
+                                </div>
+                              )}
+                              {isOpen && isOwn && (
+                                <span className="text-xs text-muted-foreground">
+                                  Your own assignment
+                                </span>
+                              )}
+                            </TableCell>
+                          </TableRow>
+                        );
+                      })}
+                    </TableBody>
+                  </Table>
+                )}
+              </CardContent>
+            </Card>
+          </div>
+        )}
+      </LoadingState>
+
+      <ConfirmationDialog
+        isOpen={isCloseOpen}
+        onClose={() => setIsCloseOpen(false)}
+        onConfirm={handleClose}
+        title="Close Access Review"
+        description={`Closing revokes ${toRevoke.length} assignments and produces the signed report. Decisions cannot be changed afterwards.`}
+        confirmText="Close Review"
+        variant="destructive"
+        isLoading={closing}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,339 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import Link from 'next/link';
+import { ClipboardList, Loader2, Plus } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { LoadingState } from '@/components/ui/loading';
+import { useToast } from '@/hooks/use-toast';
+import { createClient } from '@/lib/supabase/client';
+import type {
+  AccessReviewCampaign,
+  AccessReviewProgress,
+  Role,
+} from '@/lib/types';
+
+type CampaignSummary = Omit<
+  AccessReviewCampaign,
+  'created_by' | 'closed_by' | 'report' | 'report_signature'
+> & { progress: AccessReviewProgress };
+
+const emptyForm = {
+  name: '',
+  description: '',
+  due_at: '',
+  role_ids: [] as string[],
+};
+
+interface AccessReviewListProps {
+  className?: string;
+}
+
+export function AccessReviewList({ className }: AccessReviewListProps) {
+  const [campaigns, setCampaigns] = useState<CampaignSummary[]>([]);
+  const [roles, setRoles] = useState<Role[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [form, setForm] = useState(emptyForm);
+  const [saving, setSaving] = useState(false);
+  const { toast } = useToast();
+
+  const supabase = createClient();
+
+  const fetchData = useCallback(async () => {
+    try {
+      setError(null);
+
+      const [campaignsResponse, rolesResponse] = await Promise.all([
+        fetch('/api/access-reviews'),
+        fetch('/api/roles?limit=100'),
+      ]);
+
+      const [campaignsResult, rolesResult] = await Promise.all([
+        campaignsResponse.json(),
+        rolesResponse.json(),
+      ]);
+
+      if (!campaignsResponse.ok) {
+        throw new Error(
+          campaignsResult.error || 'Failed to fetch access reviews'
+        );
+      }
+
+      if (!rolesResponse.ok) {
+        throw new Error('Failed to load roles');
+      }
+
+      setCampaigns(campaignsResult.data || []);
+      setRoles(rolesResult.data || []);
+    } catch (err) {
+      console.error('Error fetching access reviews:', err);
+      setError(
+        err instanceof Error ? err.message : 'Failed to fetch access reviews'
+      );
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchData();
+
+    const channel = supabase
+      .channel('access-review-campaigns-changes')
+      .on(
+        'postgres_changes',
+        { event: '*', schema: 'public', table: 'access_review_campaigns' },
+        () => {
+          fetchData();
+        }
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [fetchData, supabase]);
+
+  const toggleRole = (roleId: string) => {
+    setForm((prev) => ({
+      ...prev,
+      role_ids: prev.role_ids.includes(roleId)
+        ? prev.role_ids.filter((id) => id !== roleId)
+        : [...prev.role_ids, roleId],
+    }));
+  };
+
+  const handleLaunch = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    try {
+      setSaving(true);
+
+      const response = await fetch('/api/access-reviews', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          name: form.name,
+          description: form.description || null,
+          role_ids: form.role_ids,
+          due_at: form.due_at ? new Date(form.due_at).toISOString() : null,
+        }),
+      });
+
+      const result = await response.json();
+
+      if (!response.ok) {
+        const details = Array.isArray(result.details)
+          ? result.details
+              .map((detail: { message: string }) => detail.message)
+              .join(', ')
+          : null;
+        throw new Error(
+          details || result.error || 'Failed to launch access review'
+        );
+      }
+
+      toast({
+        title: 'Success',
+        description: result.message || 'Access review launched',
+        variant: 'success',
+      });
+
+      setForm(emptyForm);
+      await fetchData();
+    } catch (err) {
+      console.error('Error launching access review:', err);
+      toast({
+        title: 'Error',
+        description:
+          err instanceof Error ? err.message : 'Failed to launch access review',
+        variant: 'destructive',
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const formatDate = (dateString: string) =>
+    new Date(dateString).toLocaleDateString('en-US', {
+      year: 'numeric',
+      month: 'short',
+      day: 'numeric',
+    });
+
+  return (
+    <div className={className}>
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <ClipboardList className="h-5 w-5" />
+            Access Reviews
+          </CardTitle>
+          <CardDescription>
+            Launch a campaign for a set of roles. Reviewers confirm or revoke
+            each user&apos;s assignment, and closing the campaign applies the
+            revocations and produces a signed report.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          <form
+            onSubmit={handleLaunch}
+            className="grid gap-3 md:grid-cols-2 border rounded-lg p-4"
+          >
+            <div className="space-y-1">
+              <Label htmlFor="review-name">Name</Label>
+              <Input
+                id="review-name"
+                placeholder="e.g., Q4 2026 certification"
+                value={form.name}
+                onChange={(e) => setForm({ ...form, name: e.target.value })}
+                disabled={saving}
+                required
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="review-due">Due (optional)</Label>
+              <Input
+                id="review-due"
+                type="datetime-local"
+                value={form.due_at}
+                onChange={(e) => setForm({ ...form, due_at: e.target.value })}
+                disabled={saving}
+              />
+            </div>
+            <div className="space-y-1 md:col-span-2">
+              <Label htmlFor="review-description">Description (optional)</Label>
+              <Input
+                id="review-description"
+                placeholder="Scope or reason for this review"
+                value={form.description}
+                onChange={(e) =>
+                  setForm({ ...form, description: e.target.value })
+                }
+                disabled={saving}
+              />
+            </div>
+            <fieldset className="space-y-2 md:col-span-2">
+              <legend className="text-sm font-medium">Roles to review</legend>
+              <div className="grid gap-2 sm:grid-cols-2 lg:grid-cols-3 max-h-48 overflow-y-auto">
+                {roles.map((role) => (
+                  <label
+                    key={role.id}
+                    className="flex items-center gap-2 text-sm"
+                  >
+                    <input
+                      type="checkbox"
+                      checked={form.role_ids.includes(role.id)}
+                      onChange={() => toggleRole(role.id)}
+                      disabled={saving}
+                      className="h-4 w-4 rounded border-input"
+                    />
+                    {role.name}
+                  </label>
+                ))}
+              </div>
+            </fieldset>
+            <div className="md:col-span-2 flex justify-end">
+              <Button
+                type="submit"
+                disabled={saving || form.role_ids.length === 0}
+              >
+                {saving ? (
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                ) : (
+                  <Plus className="mr-2 h-4 w-4" />
+                )}
+                Launch Review
+              </Button>
+            </div>
+          </form>
+
+          <LoadingState
+            isLoading={loading}
+            error={error}
+            isEmpty={campaigns.length === 0}
+            loadingMessage="Loading access reviews..."
+            emptyMessage="No access reviews yet."
+          >
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Name</TableHead>
+                  <TableHead>Roles</TableHead>
+                  <TableHead>Progress</TableHead>
+                  <TableHead>Due</TableHead>
+                  <TableHead>Status</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {campaigns.map((campaign) => (
+                  <TableRow key={campaign.id}>
+                    <TableCell className="font-medium">
+                      <Link
+                        href={`/access-reviews/${campaign.id}`}
+                        className="hover:underline"
+                      >
+                        {campaign.name}
+                      </Link>
+                      <div className="text-xs text-muted-foreground">
+                        Launched {formatDate(campaign.created_at)}
+                        {campaign.created_by_email &&
+                          ` by ${campaign.created_by_email}`}
+                      </div>
+                    </TableCell>
+                    <TableCell className="text-sm">
+                      {campaign.roles.map((role) => role.name).join(', ')}
+                    </TableCell>
+                    <TableCell className="text-sm">
+                      {campaign.progress.decided}/{campaign.progress.total}{' '}
+                      decided
+                      {campaign.progress.revoke > 0 && (
+                        <span className="text-muted-foreground">
+                          {' '}
+                          ({campaign.progress.revoke} to revoke)
+                        </span>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-sm">
+                      {campaign.due_at ? formatDate(campaign.due_at) : '—'}
+                    </TableCell>
+                    <TableCell>
+                      <Badge
+                        variant={
+                          campaign.status === 'open' ? 'outline' : 'secondary'
+                        }
+                      >
+                        {campaign.status}
+                      </Badge>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </LoadingState>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,2 @@
+export { AccessReviewList } from './access-review-list';
+export { AccessReviewDetail } from './access-review-detail';
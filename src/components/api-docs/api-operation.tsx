@@ -0,0 +1,343 @@
+'use client';
+
+import { useState } from 'react';
+import { ChevronDown, ChevronRight, Loader2, Send } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import {
+  Collapsible,
+  CollapsibleContent,
+  CollapsibleTrigger,
+} from '@/components/ui/collapsible';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+
+// The parts of JSON Schema the explorer reads
+export interface JsonSchema {
+  $ref?: string;
+  type?: string;
+  format?: string;
+  enum?: unknown[];
+  default?: unknown;
+  anyOf?: JsonSchema[];
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  items?: JsonSchema;
+  minimum?: number;
+}
+
+export interface ApiParameter {
+  name: string;
+  in: 'path' | 'query' | 'header';
+  required?: boolean;
+  description?: string;
+  schema?: JsonSchema;
+}
+
+export interface ApiOperation {
+  method: string;
+  path: string;
+  tags?: string[];
+  summary?: string;
+  description?: string;
+  parameters: ApiParameter[];
+  requestBody?: {
+    content: Record<string, { schema: JsonSchema }>;
+  };
+  responses: Record<
+    string,
+    { description: string; content?: Record<string, { schema: JsonSchema }> }
+  >;
+}
+
+const methodStyles: Record<string, string> = {
+  get: 'bg-blue-100 text-blue-800 dark:bg-blue-900/40 dark:text-blue-300',
+  post: 'bg-green-100 text-green-800 dark:bg-green-900/40 dark:text-green-300',
+  put: 'bg-yellow-100 text-yellow-800 dark:bg-yellow-900/40 dark:text-yellow-300',
+  delete: 'bg-red-100 text-red-800 dark:bg-red-900/40 dark:text-red-300',
+};
+
+const refName = (ref: string) => ref.split('/').pop() as string;
+
+// Sample value for a schema, used to prefill request bodies
+function buildExample(
+  schema: JsonSchema | undefined,
+  components: Record<string, JsonSchema>,
+  depth = 0
+): unknown {
+  if (!schema || depth > 6) return null;
+  if (schema.$ref) {
+    return buildExample(components[refName(schema.$ref)], components, depth);
+  }
+  if (schema.default !== undefined) return schema.default;
+  if (schema.enum) return schema.enum[0];
+  if (schema.anyOf) {
+    const option = schema.anyOf.find((candidate) => candidate.type !== 'null');
+    return buildExample(option, components, depth + 1);
+  }
+
+  switch (schema.type) {
+    case 'object':
+      return Object.fromEntries(
+        Object.entries(schema.properties ?? {})
+          .filter(
+            ([name]) => depth === 0 || (schema.required ?? []).includes(name)
+          )
+          .map(([name, property]) => [
+            name,
+            buildExample(property, components, depth + 1),
+          ])
+      );
+    case 'array':
+      return [buildExample(schema.items, components, depth + 1)];
+    case 'string':
+      if (schema.format === 'uuid')
+        return '00000000-0000-0000-0000-000000000000';
+      if (schema.format === 'date-time') return new Date().toISOString();
+      if (schema.format === 'email') return 'user@example.com';
+      return 'string';
+    case 'integer':
+    case 'number':
+      return schema.minimum ?? 0;
+    case 'boolean':
+      return false;
+    default:
+      return null;
+  }
+}
+
+function SchemaView({ schema }: { schema: JsonSchema }) {
+  if (schema.$ref) {
+    return (
+      <p className="text-sm">
+        See the{' '}
+        <span className="font-mono font-medium">{refName(schema.$ref)}</span>{' '}
+        schema
+      </p>
+    );
+  }
+
+  return (
+    <pre className="text-xs bg-muted rounded-md p-3 overflow-x-auto max-h-80">
+      {JSON.stringify(schema, null, 2)}
+    </pre>
+  );
+}
+
+interface ApiOperationItemProps {
+  operation: ApiOperation;
+  components: Record<string, JsonSchema>;
+  serverUrl: string;
+}
+
+export function ApiOperationItem({
+  operation,
+  components,
+  serverUrl,
+}: ApiOperationItemProps) {
+  const [open, setOpen] = useState(false);
+  const [values, setValues] = useState<Record<string, string>>({});
+  const bodySchema = operation.requestBody?.content['application/json']?.schema;
+  const [body, setBody] = useState(() =>
+    bodySchema
+      ? JSON.stringify(buildExample(bodySchema, components), null, 2)
+      : ''
+  );
+  const [sending, setSending] = useState(false);
+  const [result, setResult] = useState<{
+    status: number;
+    body: string;
+  } | null>(null);
+
+  const parameters = operation.parameters.filter(
+    (parameter) => parameter.in !== 'header'
+  );
+
+  const handleSend = async () => {
+    try {
+      setSending(true);
+
+      let path = operation.path;
+      const query = new URLSearchParams();
+      parameters.forEach((parameter) => {
+        const value = values[parameter.name];
+        if (!value) return;
+        if (parameter.in === 'path') {
+          path = path.replace(`{${parameter.name}}`, encodeURIComponent(value));
+        } else {
+          query.append(parameter.name, value);
+        }
+      });
+
+      const queryString = query.toString();
+      const response = await fetch(
+        `${serverUrl}${path}${queryString ? `?${queryString}` : ''}`,
+        {
+          method: operation.method.toUpperCase(),
+          ...(bodySchema && {
+            headers: { 'Content-Type': 'application/json' },
+            body,
+          }),
+        }
+      );
+
+      const text = await response.text();
+      let formatted = text;
+      try {
+        formatted = JSON.stringify(JSON.parse(text), null, 2);
+      } catch {
+        // Not JSON, e.g. a CSV export
+      }
+
+      setResult({ status: response.status, body: formatted });
+    } catch (err) {
+      setResult({
+        status: 0,
+        body: err instanceof Error ? err.message : 'Request failed',
+      });
+    } finally {
+      setSending(false);
+    }
+  };
+
+  return (
+    <Collapsible
+      open={open}
+      onOpenChange={setOpen}
+      className="border rounded-lg"
+    >
+      <CollapsibleTrigger asChild>
+        <button
+          type="button"
+          className="flex w-full items-center gap-3 p-3 text-left hover:bg-muted/50"
+        >
+          {open ? (
+            <ChevronDown className="h-4 w-4 shrink-0" />
+          ) : (
+            <ChevronRight className="h-4 w-4 shrink-0" />
+          )}
+          <span
+            className={`w-16 shrink-0 rounded px-2 py-0.5 text-center text-xs font-semibold uppercase ${methodStyles[operation.method] ?? ''}`}
+          >
+            {operation.method}
+          </span>
+          <span className="font-mono text-sm">{operation.path}</span>
+          <span className="text-sm text-muted-foreground truncate">
+            {operation.summary}
+          </span>
+        </button>
+      </CollapsibleTrigger>
+      <CollapsibleContent className="space-y-4 border-t p-4">
+        {operation.description && (
+          <p className="text-sm text-muted-foreground whitespace-pre-line">
+            {operation.description}
+          </p>
+        )}
+
+        {parameters.length > 0 && (
+          <div className="space-y-2">
+            <h4 className="text-sm font-semibold">Parameters</h4>
+            <div className="grid gap-3 md:grid-cols-2">
+              {parameters.map((parameter) => (
+                <div
+                  key={`${parameter.in}-${parameter.name}`}
+                  className="space-y-1"
+                >
+                  <Label
+                    htmlFor={`${operation.method}-${operation.path}-${parameter.name}`}
+                    className="flex items-center gap-2"
+                  >
+                    <span className="font-mono">{parameter.name}</span>
+                    <Badge variant="outline">{parameter.in}</Badge>
+                    {parameter.required && (
+                      <span className="text-xs text-destructive">required</span>
+                    )}
+                  </Label>
+                  <Input
+                    id={`${operation.method}-${operation.path}-${parameter.name}`}
+                    placeholder={
+                      parameter.schema?.enum?.join(' | ') ??
+                      parameter.schema?.format ??
+                      parameter.schema?.type
+                    }
+                    value={values[parameter.name] ?? ''}
+                    onChange={(e) =>
+                      setValues({ ...values, [parameter.name]: e.target.value })
+                    }
+                  />
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {bodySchema && (
+          <div className="space-y-2">
+            <h4 className="text-sm font-semibold">Request body</h4>
+            <div className="grid gap-3 lg:grid-cols-2">
+              <Textarea
+                value={body}
+                onChange={(e) => setBody(e.target.value)}
+                className="font-mono text-xs min-h-[200px]"
+                spellCheck={false}
+              />
+              <SchemaView schema={bodySchema} />
+            </div>
+          </div>
+        )}
+
+        <div className="space-y-2">
+          <h4 className="text-sm font-semibold">Responses</h4>
+          <div className="space-y-2">
+            {Object.entries(operation.responses).map(([status, response]) => {
+              const schema = response.content?.['application/json']?.schema;
+              return (
+                <div key={status} className="space-y-1">
+                  <div className="flex items-center gap-2 text-sm">
+                    <Badge
+                      variant={status.startsWith('2') ? 'default' : 'secondary'}
+                    >
+                      {status}
+                    </Badge>
+                    {response.description}
+                  </div>
+                  {schema && status.startsWith('2') && (
+                    <SchemaView schema={schema} />
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        </div>
+
+        <div className="space-y-2">
+          <Button size="sm" onClick={handleSend} disabled={sending}>
+            {sending ? (
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+            ) : (
+              <Send className="mr-2 h-4 w-4" />
+            )}
+            Send request
+          </Button>
+          {result && (
+            <div className="space-y-1">
+              <Badge
+                variant={
+                  result.status >= 200 && result.status < 300
+                    ? 'default'
+                    : 'destructive'
+                }
+              >
+                {result.status || 'Network error'}
+              </Badge>
+              <pre className="text-xs bg-muted rounded-md p-3 overflow-x-auto max-h-96">
+                {result.body}
+              </pre>
+            </div>
+          )}
+        </div>
+      </CollapsibleContent>
+    </Collapsible>
+  );
+}
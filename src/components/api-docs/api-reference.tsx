@@ -0,0 +1,180 @@
+'use client';
+
+import { useState, useEffect, useMemo } from 'react';
+import { FileJson } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from '@/components/ui/card';
+import { SearchInput } from '@/components/ui/search-input';
+import { LoadingState } from '@/components/ui/loading';
+import {
+  ApiOperationItem,
+  type ApiOperation,
+  type ApiParameter,
+  type JsonSchema,
+} from './api-operation';
+
+const OPENAPI_URL = '/api/openapi.json';
+
+interface OpenApiDocument {
+  info: { title: string; version: string; description?: string };
+  servers: { url: string }[];
+  tags: { name: string; description?: string }[];
+  paths: Record<
+    string,
+    Record<
+      string,
+      Omit<ApiOperation, 'method' | 'path' | 'parameters'> & {
+        parameters?: (ApiParameter | { $ref: string })[];
+      }
+    >
+  >;
+  components: {
+    schemas: Record<string, JsonSchema>;
+    parameters: Record<string, ApiParameter>;
+  };
+}
+
+// Flatten the paths into operations with their shared parameters resolved
+function listOperations(document: OpenApiDocument): ApiOperation[] {
+  return Object.entries(document.paths).flatMap(([path, methods]) =>
+    Object.entries(methods).map(([method, operation]) => ({
+      ...operation,
+      method,
+      path,
+      parameters: (operation.parameters ?? []).map((parameter) =>
+        '$ref' in parameter
+          ? document.components.parameters[
+              parameter.$ref.split('/').pop() as string
+            ]
+          : parameter
+      ),
+    }))
+  );
+}
+
+interface ApiReferenceProps {
+  className?: string;
+}
+
+export function ApiReference({ className }: ApiReferenceProps) {
+  const [document, setDocument] = useState<OpenApiDocument | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [search, setSearch] = useState('');
+
+  useEffect(() => {
+    const fetchDocument = async () => {
+      try {
+        const response = await fetch(OPENAPI_URL);
+        const result = await response.json();
+
+        if (!response.ok) {
+          throw new Error(result.error || 'Failed to load API description');
+        }
+
+        setDocument(result);
+      } catch (err) {
+        console.error('Error loading API description:', err);
+        setError(
+          err instanceof Error ? err.message : 'Failed to load API description'
+        );
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchDocument();
+  }, []);
+
+  const operations = useMemo(
+    () => (document ? listOperations(document) : []),
+    [document]
+  );
+
+  const normalizedSearch = search.trim().toLowerCase();
+  const groups = (document?.tags ?? [])
+    .map((tag) => ({
+      ...tag,
+      operations: operations.filter(
+        (operation) =>
+          operation.tags?.includes(tag.name) &&
+          (!normalizedSearch ||
+            `${operation.method} ${operation.path} ${operation.summary ?? ''}`
+              .toLowerCase()
+              .includes(normalizedSearch))
+      ),
+    }))
+    .filter((group) => group.operations.length > 0);
+
+  return (
+    <div className={`space-y-6 ${className || ''}`}>
+      <LoadingState
+        isLoading={loading}
+        error={error}
+        loadingMessage="Loading API description..."
+      >
+        {document && (
+          <>
+            <Card>
+              <CardHeader>
+                <div className="flex items-start justify-between gap-4">
+                  <div className="space-y-1.5">
+                    <CardTitle>
+                      {document.info.title}{' '}
+                      <span className="text-sm font-normal text-muted-foreground">
+                        v{document.info.version}
+                      </span>
+                    </CardTitle>
+                    <CardDescription className="whitespace-pre-line">
+                      {document.info.description}
+                    </CardDescription>
+                  </div>
+                  <Button variant="outline" size="sm" asChild>
+                    <a href={OPENAPI_URL} target="_blank" rel="noreferrer">
+                      <FileJson className="mr-2 h-4 w-4" />
+                      openapi.json
+                    </a>
+                  </Button>
+                </div>
+              </CardHeader>
+              <CardContent>
+                <SearchInput
+                  value={search}
+                  onChange={setSearch}
+                  placeholder="Filter by method, path or summary..."
+                />
+              </CardContent>
+            </Card>
+
+            {groups.map((group) => (
+              <Card key={group.name}>
+                <CardHeader>
+                  <CardTitle>{group.name}</CardTitle>
+                  {group.description && (
+                    <CardDescription>{group.description}</CardDescription>
+                  )}
+                </CardHeader>
+                <CardContent className="space-y-2">
+                  {group.operations.map((operation) => (
+                    <ApiOperationItem
+                      key={`${operation.method} ${operation.path}`}
+                      operation={operation}
+                      components={document.components.schemas}
+                      serverUrl={document.servers[0]?.url ?? '/api'}
+                    />
+                  ))}
+                </CardContent>
+              </Card>
+            ))}
+          </>
+        )}
+      </LoadingState>
+    </div>
+  );
+}
@@ -0,0 +1,2 @@
+export { ApiReference } from './api-reference';
+export { ApiOperationItem } from './api-operation';
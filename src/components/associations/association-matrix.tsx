@@ -102,6 +102,15 @@ export function AssociationMatrix({ className }: AssociationMatrixProps) {
           throw new Error('Failed to remove association');
         }
 
+        if (response.status === 202) {
+          const result = await response.json();
+          toast({
+            title: 'Submitted for approval',
+            description: result.message,
+          });
+          return;
+        }
+
         // Update local state
         setData((prev) => ({
           ...prev,
@@ -123,11 +132,26 @@ export function AssociationMatrix({ className }: AssociationMatrixProps) {
           }),
         });
 
+        const result = await response.json();
+
         if (!response.ok) {
-          throw new Error('Failed to create association');
+          const details = Array.isArray(result.details)
+            ? result.details
+                .map((detail: { message: string }) => detail.message)
+                .join(', ')
+            : null;
+          throw new Error(
+            details || result.error || 'Failed to create association'
+          );
         }
 
-        const result = await response.json();
+        if (response.status === 202) {
+          toast({
+            title: 'Submitted for approval',
+            description: result.message,
+          });
+          return;
+        }
 
         // Update local state
         setData((prev) => ({
@@ -137,7 +161,9 @@ export function AssociationMatrix({ className }: AssociationMatrixProps) {
       }
     } catch (err) {
       console.error('Error toggling association:', err);
-      setError('Failed to update association');
+      setError(
+        err instanceof Error ? err.message : 'Failed to update association'
+      );
     } finally {
       setUpdatingAssociation(null);
     }
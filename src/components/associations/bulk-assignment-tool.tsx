@@ -138,8 +138,17 @@ export function BulkAssignmentTool({ className }: BulkAssignmentToolProps) {
         }),
       });
 
+      const result = await response.json();
+
       if (!response.ok) {
-        throw new Error('Failed to bulk assign permissions');
+        const details = Array.isArray(result.details)
+          ? result.details
+              .map((detail: { message: string }) => detail.message)
+              .join(', ')
+          : null;
+        throw new Error(
+          details || result.error || 'Failed to bulk assign permissions'
+        );
       }
 
       // Reload data to get updated associations
@@ -147,7 +156,9 @@ export function BulkAssignmentTool({ className }: BulkAssignmentToolProps) {
       setSelectedPermissions(new Set());
     } catch (err) {
       console.error('Error bulk assigning permissions:', err);
-      setError('Failed to bulk assign permissions');
+      setError(
+        err instanceof Error ? err.message : 'Failed to bulk assign permissions'
+      );
     } finally {
       setBulkOperationLoading(false);
     }
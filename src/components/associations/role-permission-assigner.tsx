@@ -7,6 +7,7 @@ import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { Loader2, Plus, Minus, Search } from 'lucide-react';
 import { Input } from '@/components/ui/input';
+import { useToast } from '@/hooks/use-toast';
 
 interface RolePermissionAssignerProps {
   selectedRole?: Role;
@@ -31,6 +32,7 @@ export function RolePermissionAssigner({
   const [currentRole, setCurrentRole] = useState<Role | null>(
     selectedRole || null
   );
+  const { toast } = useToast();
 
   useEffect(() => {
     loadData();
@@ -117,6 +119,15 @@ export function RolePermissionAssigner({
           throw new Error('Failed to remove permission');
         }
 
+        if (response.status === 202) {
+          const result = await response.json();
+          toast({
+            title: 'Submitted for approval',
+            description: result.message,
+          });
+          return;
+        }
+
         // Update local state
         setAssociations((prev) =>
           prev.filter(
@@ -138,18 +149,37 @@ export function RolePermissionAssigner({
           }),
         });
 
+        const result = await response.json();
+
         if (!response.ok) {
-          throw new Error('Failed to assign permission');
+          const details = Array.isArray(result.details)
+            ? result.details
+                .map((detail: { message: string }) => detail.message)
+                .join(', ')
+            : null;
+          throw new Error(
+            details || result.error || 'Failed to assign permission'
+          );
         }
 
-        const result = await response.json();
+        if (response.status === 202) {
+          toast({
+            title: 'Submitted for approval',
+            description: result.message,
+          });
+          return;
+        }
 
         // Update local state
         setAssociations((prev) => [...prev, result.data]);
       }
     } catch (err) {
       console.error('Error toggling permission:', err);
-      setError('Failed to update permission assignment');
+      setError(
+        err instanceof Error
+          ? err.message
+          : 'Failed to update permission assignment'
+      );
     } finally {
       setUpdatingPermission(null);
     }
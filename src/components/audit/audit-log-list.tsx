@@ -0,0 +1,311 @@
+'use client';
+
+import { Fragment, useState, useEffect, useCallback } from 'react';
+import { ChevronDown, ChevronLeft, ChevronRight } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { LoadingState } from '@/components/ui/loading';
+import { useToast } from '@/hooks/use-toast';
+import type { AuditLog, EntityType, PaginationInfo } from '@/lib/types';
+
+const PAGE_SIZE = 20;
+
+const resourceTypeFilters: Array<{ value: EntityType | ''; label: string }> = [
+  { value: '', label: 'All' },
+  { value: 'permission', label: 'Permissions' },
+  { value: 'role', label: 'Roles' },
+  { value: 'association', label: 'Associations' },
+  { value: 'user_role', label: 'User Roles' },
+];
+
+interface AuditLogListProps {
+  className?: string;
+}
+
+export function AuditLogList({ className }: AuditLogListProps) {
+  const [logs, setLogs] = useState<AuditLog[]>([]);
+  const [pagination, setPagination] = useState<PaginationInfo | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [page, setPage] = useState(1);
+  const [resourceType, setResourceType] = useState<EntityType | ''>('');
+  const [startDate, setStartDate] = useState('');
+  const [endDate, setEndDate] = useState('');
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const { toast } = useToast();
+
+  const fetchLogs = useCallback(async () => {
+    try {
+      setLoading(true);
+      setError(null);
+
+      const params = new URLSearchParams({
+        page: String(page),
+        limit: String(PAGE_SIZE),
+      });
+      if (resourceType) {
+        params.append('resource_type', resourceType);
+      }
+      if (startDate) {
+        params.append('start_date', new Date(startDate).toISOString());
+      }
+      if (endDate) {
+        // Include the whole end day
+        const end = new Date(endDate);
+        end.setDate(end.getDate() + 1);
+        params.append('end_date', end.toISOString());
+      }
+
+      const response = await fetch(`/api/audit-logs?${params.toString()}`);
+      const result = await response.json();
+
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to fetch audit logs');
+      }
+
+      setLogs(result.data || []);
+      setPagination(result.pagination || null);
+    } catch (err) {
+      console.error('Error fetching audit logs:', err);
+      const errorMessage =
+        err instanceof Error ? err.message : 'Failed to fetch audit logs';
+      setError(errorMessage);
+      toast({
+        title: 'Error',
+        description: errorMessage,
+        variant: 'destructive',
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [page, resourceType, startDate, endDate, toast]);
+
+  useEffect(() => {
+    fetchLogs();
+  }, [fetchLogs]);
+
+  const formatDate = (dateString: string) => {
+    return new Date(dateString).toLocaleString('en-US', {
+      year: 'numeric',
+      month: 'short',
+      day: 'numeric',
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit',
+    });
+  };
+
+  const getActionVariant = (action: AuditLog['action']) => {
+    if (action.startsWith('delete') || action.startsWith('unassign')) {
+      return 'destructive' as const;
+    }
+    if (action.startsWith('update')) {
+      return 'secondary' as const;
+    }
+    return 'default' as const;
+  };
+
+  // Name of the affected record, taken from whichever snapshot exists
+  const getResourceLabel = (log: AuditLog) => {
+    const values = log.new_values || log.old_values || {};
+    return typeof values.name === 'string' ? values.name : log.resource_id;
+  };
+
+  const handleFilterChange = (update: () => void) => {
+    update();
+    setPage(1);
+  };
+
+  return (
+    <div className={className}>
+      <Card>
+        <CardHeader>
+          <CardTitle>Activity</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {/* Filters */}
+          <div className="flex flex-col gap-4 md:flex-row md:items-end md:justify-between">
+            <div className="flex flex-wrap gap-2">
+              {resourceTypeFilters.map((filter) => (
+                <Button
+                  key={filter.value || 'all'}
+                  variant={
+                    resourceType === filter.value ? 'default' : 'outline'
+                  }
+                  size="sm"
+                  onClick={() =>
+                    handleFilterChange(() => setResourceType(filter.value))
+                  }
+                >
+                  {filter.label}
+                </Button>
+              ))}
+            </div>
+            <div className="flex items-center gap-2">
+              <Input
+                type="date"
+                value={startDate}
+                onChange={(e) =>
+                  handleFilterChange(() => setStartDate(e.target.value))
+                }
+                aria-label="From date"
+                className="w-40"
+              />
+              <span className="text-sm text-muted-foreground">to</span>
+              <Input
+                type="date"
+                value={endDate}
+                onChange={(e) =>
+                  handleFilterChange(() => setEndDate(e.target.value))
+                }
+                aria-label="To date"
+                className="w-40"
+              />
+            </div>
+          </div>
+
+          <LoadingState
+            isLoading={loading}
+            error={error}
+            isEmpty={logs.length === 0}
+            loadingMessage="Loading audit logs..."
+            emptyMessage="No changes have been recorded for these filters."
+          >
+            {logs.length > 0 && (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>When</TableHead>
+                    <TableHead>Who</TableHead>
+                    <TableHead>Action</TableHead>
+                    <TableHead>Resource</TableHead>
+                    <TableHead className="text-right">Details</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {logs.map((log) => (
+                    <Fragment key={log.id}>
+                      <TableRow>
+                        <TableCell className="whitespace-nowrap">
+                          {formatDate(log.timestamp)}
+                        </TableCell>
+                        <TableCell>
+                          {log.user_email || log.user_id || (
+                            <span className="text-muted-foreground">
+                              System
+                            </span>
+                          )}
+                        </TableCell>
+                        <TableCell>
+                          <Badge variant={getActionVariant(log.action)}>
+                            {log.action.replace(/_/g, ' ')}
+                          </Badge>
+                        </TableCell>
+                        <TableCell>
+                          <div className="flex items-center gap-2">
+                            <Badge variant="outline">
+                              {log.resource_type.replace(/_/g, ' ')}
+                            </Badge>
+                            <span className="text-sm truncate max-w-[200px]">
+                              {getResourceLabel(log)}
+                            </span>
+                          </div>
+                        </TableCell>
+                        <TableCell className="text-right">
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() =>
+                              setExpandedId(
+                                expandedId === log.id ? null : log.id
+                              )
+                            }
+                            aria-label="Toggle details"
+                          >
+                            <ChevronDown
+                              className={`h-4 w-4 transition-transform ${
+                                expandedId === log.id ? 'rotate-180' : ''
+                              }`}
+                            />
+                          </Button>
+                        </TableCell>
+                      </TableRow>
+                      {expandedId === log.id && (
+                        <TableRow>
+                          <TableCell colSpan={5}>
+                            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                              <div className="space-y-1">
+                                <span className="text-sm font-medium">
+                                  Before
+                                </span>
+                                <pre className="bg-muted p-2 rounded text-xs font-mono whitespace-pre-wrap">
+                                  {log.old_values
+                                    ? JSON.stringify(log.old_values, null, 2)
+                                    : '—'}
+                                </pre>
+                              </div>
+                              <div className="space-y-1">
+                                <span className="text-sm font-medium">
+                                  After
+                                </span>
+                                <pre className="bg-muted p-2 rounded text-xs font-mono whitespace-pre-wrap">
+                                  {log.new_values
+                                    ? JSON.stringify(log.new_values, null, 2)
+                                    : '—'}
+                                </pre>
+                              </div>
+                            </div>
+                          </TableCell>
+                        </TableRow>
+                      )}
+                    </Fragment>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </LoadingState>
+
+          {/* Pagination */}
+          {pagination && pagination.totalPages > 1 && (
+            <div className="flex items-center justify-between pt-2">
+              <span className="text-sm text-muted-foreground">
+                Page {pagination.page} of {pagination.totalPages} (
+                {pagination.total} entries)
+              </span>
+              <div className="flex gap-2">
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setPage(page - 1)}
+                  disabled={page <= 1 || loading}
+                >
+                  <ChevronLeft className="h-4 w-4" />
+                  Previous
+                </Button>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setPage(page + 1)}
+                  disabled={page >= pagination.totalPages || loading}
+                >
+                  Next
+                  <ChevronRight className="h-4 w-4" />
+                </Button>
+              </div>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
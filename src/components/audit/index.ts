@@ -0,0 +1 @@
+export { AuditLogList } from './audit-log-list';
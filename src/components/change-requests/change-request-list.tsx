@@ -0,0 +1,262 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { Check, ClipboardCheck, X } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from '@/components/ui/card';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { LoadingState } from '@/components/ui/loading';
+import { useToast } from '@/hooks/use-toast';
+import { createClient } from '@/lib/supabase/client';
+import type { ChangeRequest, ChangeRequestStatus } from '@/lib/types';
+import {
+  ReviewChangeRequestDialog,
+  type ReviewDecision,
+} from './review-change-request-dialog';
+
+const selectClassName =
+  'border-input flex h-9 w-full rounded-md border bg-transparent px-3 py-1 text-base shadow-xs outline-none focus-visible:border-ring focus-visible:ring-ring/50 focus-visible:ring-[3px] disabled:cursor-not-allowed disabled:opacity-50 md:text-sm';
+
+const statusVariants: Record<
+  ChangeRequestStatus,
+  'default' | 'secondary' | 'destructive' | 'outline'
+> = {
+  pending: 'outline',
+  approved: 'default',
+  rejected: 'destructive',
+};
+
+interface ChangeRequestListProps {
+  className?: string;
+}
+
+export function ChangeRequestList({ className }: ChangeRequestListProps) {
+  const [changeRequests, setChangeRequests] = useState<ChangeRequest[]>([]);
+  const [approvalRequired, setApprovalRequired] = useState(false);
+  const [status, setStatus] = useState<ChangeRequestStatus | ''>('pending');
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [reviewing, setReviewing] = useState<ChangeRequest | null>(null);
+  const [decision, setDecision] = useState<ReviewDecision>('approve');
+  const { toast } = useToast();
+
+  const supabase = createClient();
+
+  const fetchChangeRequests = useCallback(async () => {
+    try {
+      setError(null);
+
+      const params = new URLSearchParams({ limit: '100' });
+      if (status) {
+        params.set('status', status);
+      }
+
+      const response = await fetch(`/api/change-requests?${params}`);
+      const result = await response.json();
+
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to fetch change requests');
+      }
+
+      setChangeRequests(result.data || []);
+      setApprovalRequired(result.approval_required === true);
+    } catch (err) {
+      console.error('Error fetching change requests:', err);
+      setError(
+        err instanceof Error ? err.message : 'Failed to fetch change requests'
+      );
+    } finally {
+      setLoading(false);
+    }
+  }, [status]);
+
+  useEffect(() => {
+    fetchChangeRequests();
+
+    const channel = supabase
+      .channel('change-requests-changes')
+      .on(
+        'postgres_changes',
+        { event: '*', schema: 'public', table: 'change_requests' },
+        () => {
+          fetchChangeRequests();
+        }
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [fetchChangeRequests, supabase]);
+
+  const openReview = (
+    changeRequest: ChangeRequest,
+    reviewDecision: ReviewDecision
+  ) => {
+    setDecision(reviewDecision);
+    setReviewing(changeRequest);
+  };
+
+  const handleReviewSuccess = (message: string) => {
+    setReviewing(null);
+    toast({
+      title: 'Success',
+      description: message,
+      variant: 'success',
+    });
+    fetchChangeRequests();
+  };
+
+  const formatDate = (dateString: string) =>
+    new Date(dateString).toLocaleString('en-US', {
+      year: 'numeric',
+      month: 'short',
+      day: 'numeric',
+      hour: '2-digit',
+      minute: '2-digit',
+    });
+
+  return (
+    <div className={className}>
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <ClipboardCheck className="h-5 w-5" />
+            Change Requests
+          </CardTitle>
+          <CardDescription>
+            {approvalRequired
+              ? 'Changes to permissions, roles and associations wait here until a reviewer approves them.'
+              : 'Change approval is turned off, so changes apply immediately. Earlier requests stay in the history.'}
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="w-48">
+            <select
+              aria-label="Filter by status"
+              value={status}
+              onChange={(e) => {
+                setLoading(true);
+                setStatus(e.target.value as ChangeRequestStatus | '');
+              }}
+              className={selectClassName}
+            >
+              <option value="pending">Pending</option>
+              <option value="approved">Approved</option>
+              <option value="rejected">Rejected</option>
+              <option value="">All</option>
+            </select>
+          </div>
+
+          <LoadingState
+            isLoading={loading}
+            error={error}
+            isEmpty={changeRequests.length === 0}
+            loadingMessage="Loading change requests..."
+            emptyMessage={
+              status === 'pending'
+                ? 'No changes are waiting for approval.'
+                : 'No change requests found.'
+            }
+          >
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Change</TableHead>
+                  <TableHead>Requested</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead>Review</TableHead>
+                  <TableHead className="w-[180px]" />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {changeRequests.map((changeRequest) => (
+                  <TableRow key={changeRequest.id}>
+                    <TableCell className="font-medium">
+                      {changeRequest.summary}
+                    </TableCell>
+                    <TableCell className="text-sm">
+                      <div>
+                        {changeRequest.requested_by_email || 'Unknown user'}
+                      </div>
+                      <div className="text-muted-foreground">
+                        {formatDate(changeRequest.requested_at)}
+                      </div>
+                    </TableCell>
+                    <TableCell>
+                      <Badge variant={statusVariants[changeRequest.status]}>
+                        {changeRequest.status}
+                      </Badge>
+                    </TableCell>
+                    <TableCell className="text-sm">
+                      {changeRequest.reviewed_at ? (
+                        <>
+                          <div>
+                            {changeRequest.reviewed_by_email || 'Unknown user'}
+                          </div>
+                          <div className="text-muted-foreground">
+                            {formatDate(changeRequest.reviewed_at)}
+                          </div>
+                          {changeRequest.review_comment && (
+                            <div className="text-muted-foreground italic">
+                              {changeRequest.review_comment}
+                            </div>
+                          )}
+                        </>
+                      ) : (
+                        <span className="text-muted-foreground">—</span>
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      {changeRequest.status === 'pending' && (
+                        <div className="flex justify-end gap-2">
+                          <Button
+                            size="sm"
+                            onClick={() => openReview(changeRequest, 'approve')}
+                          >
+                            <Check className="mr-1 h-4 w-4" />
+                            Approve
+                          </Button>
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            onClick={() => openReview(changeRequest, 'reject')}
+                          >
+                            <X className="mr-1 h-4 w-4" />
+                            Reject
+                          </Button>
+                        </div>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </LoadingState>
+        </CardContent>
+      </Card>
+
+      <ReviewChangeRequestDialog
+        isOpen={reviewing !== null}
+        onClose={() => setReviewing(null)}
+        changeRequest={reviewing}
+        decision={decision}
+        onSuccess={handleReviewSuccess}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,2 @@
+export { ChangeRequestList } from './change-request-list';
+export { ReviewChangeRequestDialog } from './review-change-request-dialog';
@@ -0,0 +1,168 @@
+'use client';
+
+import { useState } from 'react';
+import { Check, Loader2, X } from 'lucide-react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import type { ChangeRequest } from '@/lib/types';
+
+export type ReviewDecision = 'approve' | 'reject';
+
+interface ReviewChangeRequestDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  changeRequest: ChangeRequest | null;
+  decision: ReviewDecision;
+  onSuccess: (message: string) => void;
+}
+
+export function ReviewChangeRequestDialog({
+  isOpen,
+  onClose,
+  changeRequest,
+  decision,
+  onSuccess,
+}: ReviewChangeRequestDialogProps) {
+  const [comment, setComment] = useState('');
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleReview = async () => {
+    if (!changeRequest) return;
+
+    try {
+      setLoading(true);
+      setError(null);
+
+      const response = await fetch(
+        `/api/change-requests/${changeRequest.id}/review`,
+        {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+          },
+          body: JSON.stringify({
+            decision,
+            comment: comment.trim() || null,
+          }),
+        }
+      );
+
+      const result = await response.json();
+
+      if (!response.ok) {
+        const details = Array.isArray(result.details)
+          ? result.details
+              .map((detail: { message: string }) => detail.message)
+              .join(', ')
+          : null;
+        throw new Error(
+          details || result.error || 'Failed to review change request'
+        );
+      }
+
+      setComment('');
+      onSuccess(result.message);
+    } catch (err) {
+      console.error('Error reviewing change request:', err);
+      setError(
+        err instanceof Error ? err.message : 'Failed to review change request'
+      );
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleClose = () => {
+    if (!loading) {
+      setComment('');
+      setError(null);
+      onClose();
+    }
+  };
+
+  if (!changeRequest) return null;
+
+  const approving = decision === 'approve';
+
+  return (
+    <Dialog open={isOpen} onOpenChange={handleClose}>
+      <DialogContent className="sm:max-w-[480px]">
+        <DialogHeader>
+          <DialogTitle>
+            {approving ? 'Approve Change' : 'Reject Change'}
+          </DialogTitle>
+          <DialogDescription>
+            {approving
+              ? 'The change is applied as soon as you approve it.'
+              : 'The change is discarded and kept in the history as rejected.'}
+          </DialogDescription>
+        </DialogHeader>
+
+        {/* Error Display */}
+        {error && (
+          <div className="bg-red-50 dark:bg-red-950/20 border border-red-200 dark:border-red-800 text-red-700 dark:text-red-300 px-4 py-3 rounded">
+            {error}
+          </div>
+        )}
+
+        <div className="bg-muted/50 p-4 rounded-lg space-y-1">
+          <div className="text-sm text-foreground">{changeRequest.summary}</div>
+          <div className="text-xs text-muted-foreground">
+            Requested by {changeRequest.requested_by_email || 'unknown user'}
+          </div>
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="review-comment">Comment (optional)</Label>
+          <Textarea
+            id="review-comment"
+            placeholder={
+              approving
+                ? 'Why this change is fine'
+                : 'Why this change is refused'
+            }
+            value={comment}
+            onChange={(e) => setComment(e.target.value)}
+            disabled={loading}
+          />
+        </div>
+
+        <DialogFooter>
+          <Button
+            type="button"
+            variant="outline"
+            onClick={handleClose}
+            disabled={loading}
+          >
+            Cancel
+          </Button>
+          <Button
+            type="button"
+            variant={approving ? 'default' : 'destructive'}
+            onClick={handleReview}
+            disabled={loading}
+          >
+            {loading ? (
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+            ) : approving ? (
+              <Check className="mr-2 h-4 w-4" />
+            ) : (
+              <X className="mr-2 h-4 w-4" />
+            )}
+            {approving ? 'Approve' : 'Reject'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
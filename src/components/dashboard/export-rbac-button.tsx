@@ -0,0 +1,104 @@
+'use client';
+
+import { useState } from 'react';
+import { Download, FileJson, FileSpreadsheet, Loader2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import {
+  DropdownMenu,
+  DropdownMenuCheckboxItem,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { useToast } from '@/hooks/use-toast';
+
+type ExportFormat = 'json' | 'csv';
+
+export function ExportRbacButton() {
+  const [exporting, setExporting] = useState(false);
+  const [includeUserRoles, setIncludeUserRoles] = useState(false);
+  const { toast } = useToast();
+
+  const handleExport = async (format: ExportFormat) => {
+    try {
+      setExporting(true);
+
+      const params = new URLSearchParams({
+        format,
+        include_user_roles: String(includeUserRoles),
+      });
+      const response = await fetch(`/api/rbac/export?${params.toString()}`);
+
+      if (!response.ok) {
+        const result = await response.json();
+        throw new Error(result.error || 'Failed to export');
+      }
+
+      // Use the server-provided file name for the download
+      const disposition = response.headers.get('Content-Disposition') || '';
+      const filename =
+        disposition.match(/filename="(.+)"/)?.[1] ||
+        `rbac-export.${format === 'csv' ? 'zip' : 'json'}`;
+
+      const blob = await response.blob();
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = filename;
+      link.click();
+      URL.revokeObjectURL(url);
+
+      toast({
+        title: 'Success',
+        description: `Exported ${filename}`,
+        variant: 'success',
+      });
+    } catch (err) {
+      console.error('Error exporting RBAC data:', err);
+      toast({
+        title: 'Error',
+        description: err instanceof Error ? err.message : 'Failed to export',
+        variant: 'destructive',
+      });
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="outline" disabled={exporting}>
+          {exporting ? (
+            <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+          ) : (
+            <Download className="h-4 w-4 mr-2" />
+          )}
+          Export
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end" className="w-56">
+        <DropdownMenuLabel>Export configuration</DropdownMenuLabel>
+        <DropdownMenuSeparator />
+        <DropdownMenuItem onClick={() => handleExport('json')}>
+          <FileJson className="h-4 w-4 mr-2" />
+          JSON document
+        </DropdownMenuItem>
+        <DropdownMenuItem onClick={() => handleExport('csv')}>
+          <FileSpreadsheet className="h-4 w-4 mr-2" />
+          CSV files (zip)
+        </DropdownMenuItem>
+        <DropdownMenuSeparator />
+        <DropdownMenuCheckboxItem
+          checked={includeUserRoles}
+          onCheckedChange={(checked) => setIncludeUserRoles(checked === true)}
+          onSelect={(event) => event.preventDefault()}
+        >
+          Include user role assignments
+        </DropdownMenuCheckboxItem>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
@@ -0,0 +1,2 @@
+export { SodConstraints } from './sod-constraints';
+export { SodViolations } from './sod-violations';
@@ -0,0 +1,401 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { Loader2, Plus, Scale, Trash2 } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from '@/components/ui/card';
+import { ConfirmationDialog } from '@/components/ui/confirmation-dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { LoadingState } from '@/components/ui/loading';
+import { useToast } from '@/hooks/use-toast';
+import { createClient } from '@/lib/supabase/client';
+import type {
+  Permission,
+  Role,
+  SodConstraint,
+  SodConstraintType,
+} from '@/lib/types';
+
+const selectClassName =
+  'border-input flex h-9 w-full rounded-md border bg-transparent px-3 py-1 text-base shadow-xs outline-none focus-visible:border-ring focus-visible:ring-ring/50 focus-visible:ring-[3px] disabled:cursor-not-allowed disabled:opacity-50 md:text-sm';
+
+const emptyForm = {
+  name: '',
+  description: '',
+  constraint_type: 'permission' as SodConstraintType,
+  first_id: '',
+  second_id: '',
+};
+
+interface SodConstraintsProps {
+  className?: string;
+}
+
+export function SodConstraints({ className }: SodConstraintsProps) {
+  const [constraints, setConstraints] = useState<SodConstraint[]>([]);
+  const [roles, setRoles] = useState<Role[]>([]);
+  const [permissions, setPermissions] = useState<Permission[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [form, setForm] = useState(emptyForm);
+  const [saving, setSaving] = useState(false);
+  const [deleting, setDeleting] = useState<SodConstraint | null>(null);
+  const [deleteLoading, setDeleteLoading] = useState(false);
+  const { toast } = useToast();
+
+  const supabase = createClient();
+
+  const fetchData = useCallback(async () => {
+    try {
+      setError(null);
+
+      const [constraintsResponse, rolesResponse, permissionsResponse] =
+        await Promise.all([
+          fetch('/api/sod-constraints'),
+          fetch('/api/roles?limit=100'),
+          fetch('/api/permissions?limit=100'),
+        ]);
+
+      const [constraintsResult, rolesResult, permissionsResult] =
+        await Promise.all([
+          constraintsResponse.json(),
+          rolesResponse.json(),
+          permissionsResponse.json(),
+        ]);
+
+      if (!constraintsResponse.ok) {
+        throw new Error(
+          constraintsResult.error || 'Failed to fetch SoD constraints'
+        );
+      }
+
+      if (!rolesResponse.ok || !permissionsResponse.ok) {
+        throw new Error('Failed to load roles and permissions');
+      }
+
+      setConstraints(constraintsResult.data || []);
+      setRoles(rolesResult.data || []);
+      setPermissions(permissionsResult.data || []);
+    } catch (err) {
+      console.error('Error fetching SoD constraints:', err);
+      setError(
+        err instanceof Error ? err.message : 'Failed to fetch SoD constraints'
+      );
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchData();
+
+    const channel = supabase
+      .channel('sod-constraints-changes')
+      .on(
+        'postgres_changes',
+        { event: '*', schema: 'public', table: 'sod_constraints' },
+        () => {
+          fetchData();
+        }
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [fetchData, supabase]);
+
+  const options = form.constraint_type === 'role' ? roles : permissions;
+  const nameOf = (type: SodConstraintType, id: string) =>
+    (type === 'role' ? roles : permissions).find((item) => item.id === id)
+      ?.name ?? id;
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    try {
+      setSaving(true);
+
+      const response = await fetch('/api/sod-constraints', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          ...form,
+          description: form.description || null,
+        }),
+      });
+
+      const result = await response.json();
+
+      if (!response.ok) {
+        const details = Array.isArray(result.details)
+          ? result.details
+              .map((detail: { message: string }) => detail.message)
+              .join(', ')
+          : null;
+        throw new Error(
+          details || result.error || 'Failed to create SoD constraint'
+        );
+      }
+
+      toast({
+        title: 'Success',
+        description: result.message || 'SoD constraint created',
+        variant: 'success',
+      });
+
+      setForm(emptyForm);
+      await fetchData();
+    } catch (err) {
+      console.error('Error creating SoD constraint:', err);
+      toast({
+        title: 'Error',
+        description:
+          err instanceof Error
+            ? err.message
+            : 'Failed to create SoD constraint',
+        variant: 'destructive',
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!deleting) return;
+
+    try {
+      setDeleteLoading(true);
+
+      const response = await fetch(`/api/sod-constraints/${deleting.id}`, {
+        method: 'DELETE',
+      });
+
+      const result = await response.json();
+
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to delete SoD constraint');
+      }
+
+      toast({
+        title: 'Success',
+        description: `Constraint "${deleting.name}" deleted`,
+        variant: 'success',
+      });
+
+      setDeleting(null);
+      await fetchData();
+    } catch (err) {
+      console.error('Error deleting SoD constraint:', err);
+      toast({
+        title: 'Error',
+        description:
+          err instanceof Error
+            ? err.message
+            : 'Failed to delete SoD constraint',
+        variant: 'destructive',
+      });
+    } finally {
+      setDeleteLoading(false);
+    }
+  };
+
+  return (
+    <div className={className}>
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Scale className="h-5 w-5" />
+            Separation of Duties
+          </CardTitle>
+          <CardDescription>
+            Declare roles or permissions that nobody may hold together, such as
+            creating and approving payments. Changes that would combine them are
+            rejected.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          <form
+            onSubmit={handleCreate}
+            className="grid gap-3 md:grid-cols-2 border rounded-lg p-4"
+          >
+            <div className="space-y-1">
+              <Label htmlFor="sod-name">Name</Label>
+              <Input
+                id="sod-name"
+                placeholder="e.g., payments_four_eyes"
+                value={form.name}
+                onChange={(e) => setForm({ ...form, name: e.target.value })}
+                disabled={saving}
+                required
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="sod-type">Applies to</Label>
+              <select
+                id="sod-type"
+                value={form.constraint_type}
+                onChange={(e) =>
+                  setForm({
+                    ...form,
+                    constraint_type: e.target.value as SodConstraintType,
+                    first_id: '',
+                    second_id: '',
+                  })
+                }
+                disabled={saving}
+                className={selectClassName}
+              >
+                <option value="permission">Permissions</option>
+                <option value="role">Roles</option>
+              </select>
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="sod-first">First</Label>
+              <select
+                id="sod-first"
+                value={form.first_id}
+                onChange={(e) => setForm({ ...form, first_id: e.target.value })}
+                disabled={saving}
+                className={selectClassName}
+                required
+              >
+                <option value="">Select...</option>
+                {options.map((item) => (
+                  <option key={item.id} value={item.id}>
+                    {item.name}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="sod-second">Cannot be combined with</Label>
+              <select
+                id="sod-second"
+                value={form.second_id}
+                onChange={(e) =>
+                  setForm({ ...form, second_id: e.target.value })
+                }
+                disabled={saving}
+                className={selectClassName}
+                required
+              >
+                <option value="">Select...</option>
+                {options
+                  .filter((item) => item.id !== form.first_id)
+                  .map((item) => (
+                    <option key={item.id} value={item.id}>
+                      {item.name}
+                    </option>
+                  ))}
+              </select>
+            </div>
+            <div className="space-y-1 md:col-span-2">
+              <Label htmlFor="sod-description">Description (optional)</Label>
+              <Input
+                id="sod-description"
+                placeholder="Why these must stay separate"
+                value={form.description}
+                onChange={(e) =>
+                  setForm({ ...form, description: e.target.value })
+                }
+                disabled={saving}
+              />
+            </div>
+            <div className="md:col-span-2 flex justify-end">
+              <Button type="submit" disabled={saving}>
+                {saving ? (
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                ) : (
+                  <Plus className="mr-2 h-4 w-4" />
+                )}
+                Add Constraint
+              </Button>
+            </div>
+          </form>
+
+          <LoadingState
+            isLoading={loading}
+            error={error}
+            isEmpty={constraints.length === 0}
+            loadingMessage="Loading SoD constraints..."
+            emptyMessage="No separation-of-duties constraints yet."
+          >
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Name</TableHead>
+                  <TableHead>Type</TableHead>
+                  <TableHead>Mutually Exclusive</TableHead>
+                  <TableHead>Description</TableHead>
+                  <TableHead className="w-[60px]" />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {constraints.map((constraint) => (
+                  <TableRow key={constraint.id}>
+                    <TableCell className="font-medium">
+                      {constraint.name}
+                    </TableCell>
+                    <TableCell>
+                      <Badge variant="outline">
+                        {constraint.constraint_type}
+                      </Badge>
+                    </TableCell>
+                    <TableCell className="font-mono text-sm">
+                      {nameOf(constraint.constraint_type, constraint.first_id)}{' '}
+                      ✕{' '}
+                      {nameOf(constraint.constraint_type, constraint.second_id)}
+                    </TableCell>
+                    <TableCell className="text-muted-foreground">
+                      {constraint.description || '—'}
+                    </TableCell>
+                    <TableCell>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => setDeleting(constraint)}
+                        aria-label={`Delete ${constraint.name}`}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </LoadingState>
+        </CardContent>
+      </Card>
+
+      <ConfirmationDialog
+        isOpen={deleting !== null}
+        onClose={() => setDeleting(null)}
+        onConfirm={handleDelete}
+        title="Delete Constraint"
+        description={`Delete "${deleting?.name}"? Roles and permissions it covers can then be combined again.`}
+        confirmText="Delete"
+        variant="destructive"
+        isLoading={deleteLoading}
+      />
+    </div>
+  );
+}
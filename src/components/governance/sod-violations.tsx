@@ -0,0 +1,156 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import Link from 'next/link';
+import { ShieldAlert } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from '@/components/ui/card';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { LoadingState } from '@/components/ui/loading';
+import { useToast } from '@/hooks/use-toast';
+import { createClient } from '@/lib/supabase/client';
+import type { SodViolation } from '@/lib/types';
+
+interface SodViolationsProps {
+  className?: string;
+}
+
+export function SodViolations({ className }: SodViolationsProps) {
+  const [violations, setViolations] = useState<SodViolation[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const { toast } = useToast();
+
+  const supabase = createClient();
+
+  const fetchViolations = useCallback(async () => {
+    try {
+      setLoading(true);
+      setError(null);
+
+      const response = await fetch('/api/sod-constraints/violations');
+      const result = await response.json();
+
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to fetch SoD violations');
+      }
+
+      setViolations(result.data || []);
+    } catch (err) {
+      console.error('Error fetching SoD violations:', err);
+      const errorMessage =
+        err instanceof Error ? err.message : 'Failed to fetch SoD violations';
+      setError(errorMessage);
+      toast({
+        title: 'Error',
+        description: errorMessage,
+        variant: 'destructive',
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [toast]);
+
+  // Refresh when constraints or who holds what change
+  useEffect(() => {
+    fetchViolations();
+
+    const channel = supabase.channel('sod-violations-changes');
+    ['sod_constraints', 'roles', 'role_permissions', 'user_roles'].forEach(
+      (table) =>
+        channel.on(
+          'postgres_changes',
+          { event: '*', schema: 'public', table },
+          () => {
+            fetchViolations();
+          }
+        )
+    );
+    channel.subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [fetchViolations, supabase]);
+
+  return (
+    <div className={className}>
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <ShieldAlert className="h-5 w-5" />
+            Existing Violations
+          </CardTitle>
+          <CardDescription>
+            Roles and users that already hold both sides of a constraint, for
+            example because they were granted before it was declared.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <LoadingState
+            isLoading={loading}
+            error={error}
+            isEmpty={violations.length === 0}
+            loadingMessage="Checking for violations..."
+            emptyMessage="No violations found."
+          >
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Constraint</TableHead>
+                  <TableHead>Held By</TableHead>
+                  <TableHead>Conflicting</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {violations.map((violation) => (
+                  <TableRow
+                    key={`${violation.constraint.id}:${violation.subject_type}:${violation.subject_id}`}
+                  >
+                    <TableCell className="font-medium">
+                      {violation.constraint.name}
+                    </TableCell>
+                    <TableCell>
+                      <div className="flex items-center gap-2">
+                        <Badge variant="outline">
+                          {violation.subject_type}
+                        </Badge>
+                        {violation.subject_type === 'user' ? (
+                          <Link
+                            href={`/users/${violation.subject_id}`}
+                            className="hover:underline"
+                          >
+                            {violation.subject_name || violation.subject_id}
+                          </Link>
+                        ) : (
+                          violation.subject_name
+                        )}
+                      </div>
+                    </TableCell>
+                    <TableCell className="font-mono text-sm">
+                      {violation.conflicting[0].name} +{' '}
+                      {violation.conflicting[1].name}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </LoadingState>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1 @@
+export { RbacImport } from './rbac-import';
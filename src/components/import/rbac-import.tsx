@@ -0,0 +1,380 @@
+'use client';
+
+import { useState } from 'react';
+import {
+  AlertTriangle,
+  FileUp,
+  Loader2,
+  Minus,
+  Pencil,
+  Plus,
+  SkipForward,
+} from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from '@/components/ui/card';
+import { ConfirmationDialog } from '@/components/ui/confirmation-dialog';
+import { useToast } from '@/hooks/use-toast';
+import { formatUserRoleLabel } from '@/lib/rbac-utils';
+import type { RbacImportPlan } from '@/lib/types';
+
+interface ImportOptions {
+  overwrite_existing: boolean;
+  skip_duplicates: boolean;
+  validate_references: boolean;
+}
+
+interface ImportResult {
+  plan: RbacImportPlan;
+  blocked: boolean;
+  changes: number;
+  applied: boolean;
+}
+
+const optionLabels: Array<{
+  key: keyof ImportOptions;
+  label: string;
+  description: string;
+}> = [
+  {
+    key: 'overwrite_existing',
+    label: 'Overwrite existing',
+    description:
+      'Update changed items and delete items missing from the file (for the sections it contains)',
+  },
+  {
+    key: 'skip_duplicates',
+    label: 'Skip duplicates',
+    description: 'Leave items that already exist untouched instead of failing',
+  },
+  {
+    key: 'validate_references',
+    label: 'Validate references',
+    description:
+      'Refuse the import when it links to roles, permissions or users that do not exist',
+  },
+];
+
+interface PlanSectionProps {
+  title: string;
+  icon: React.ReactNode;
+  items: string[];
+  className?: string;
+}
+
+function PlanSection({ title, icon, items, className }: PlanSectionProps) {
+  if (items.length === 0) return null;
+
+  return (
+    <div className="space-y-2">
+      <h4 className="text-sm font-medium flex items-center gap-2">
+        {icon}
+        {title}
+        <Badge variant="outline">{items.length}</Badge>
+      </h4>
+      <ul className={`text-sm space-y-1 pl-6 ${className || ''}`}>
+        {items.map((item, index) => (
+          <li key={index} className="font-mono text-xs">
+            {item}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
+
+export function RbacImport() {
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [importDocument, setImportDocument] = useState<unknown>(null);
+  const [options, setOptions] = useState<ImportOptions>({
+    overwrite_existing: false,
+    skip_duplicates: true,
+    validate_references: true,
+  });
+  const [result, setResult] = useState<ImportResult | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [confirmOpen, setConfirmOpen] = useState(false);
+  const { toast } = useToast();
+
+  const handleFileChange = async (
+    event: React.ChangeEvent<HTMLInputElement>
+  ) => {
+    const file = event.target.files?.[0];
+    setResult(null);
+
+    if (!file) {
+      setFileName(null);
+      setImportDocument(null);
+      return;
+    }
+
+    try {
+      setImportDocument(JSON.parse(await file.text()));
+      setFileName(file.name);
+    } catch {
+      setFileName(null);
+      setImportDocument(null);
+      toast({
+        title: 'Error',
+        description: 'The selected file is not valid JSON',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const submitImport = async (dryRun: boolean) => {
+    try {
+      setLoading(true);
+
+      const response = await fetch('/api/rbac/import', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          data: importDocument,
+          options: { ...options, dry_run: dryRun },
+        }),
+      });
+
+      const body = await response.json();
+
+      if (body.data) {
+        setResult(body.data);
+      }
+
+      if (!response.ok) {
+        const details = Array.isArray(body.details)
+          ? body.details
+              .map(
+                (detail: { field: string; message: string }) =>
+                  `${detail.field}: ${detail.message}`
+              )
+              .join(', ')
+          : null;
+        throw new Error(details || body.error || 'Failed to import');
+      }
+
+      if (!dryRun) {
+        toast({
+          title: 'Success',
+          description: body.message || 'Import applied',
+          variant: 'success',
+        });
+      }
+    } catch (err) {
+      console.error('Error importing RBAC data:', err);
+      toast({
+        title: 'Error',
+        description: err instanceof Error ? err.message : 'Failed to import',
+        variant: 'destructive',
+      });
+    } finally {
+      setLoading(false);
+      setConfirmOpen(false);
+    }
+  };
+
+  const updateOption = (key: keyof ImportOptions, value: boolean) => {
+    setOptions((prev) => ({ ...prev, [key]: value }));
+    setResult(null);
+  };
+
+  const plan = result?.plan;
+  const deleteCount = plan
+    ? plan.permissions.delete.length +
+      plan.roles.delete.length +
+      plan.associations.delete.length +
+      plan.user_roles.delete.length
+    : 0;
+
+  return (
+    <div className="space-y-6">
+      {/* Upload */}
+      <Card>
+        <CardHeader>
+          <CardTitle>Upload</CardTitle>
+          <CardDescription>
+            Choose a JSON file produced by the dashboard export
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          <Input
+            type="file"
+            accept="application/json,.json"
+            onChange={handleFileChange}
+            disabled={loading}
+          />
+
+          <div className="space-y-3">
+            {optionLabels.map((option) => (
+              <div key={option.key} className="flex items-start gap-3">
+                <input
+                  id={option.key}
+                  type="checkbox"
+                  checked={options[option.key]}
+                  onChange={(e) => updateOption(option.key, e.target.checked)}
+                  disabled={loading}
+                  className="mt-0.5 h-4 w-4 rounded border-input"
+                />
+                <div className="space-y-1">
+                  <Label htmlFor={option.key}>{option.label}</Label>
+                  <p className="text-xs text-muted-foreground">
+                    {option.description}
+                  </p>
+                </div>
+              </div>
+            ))}
+          </div>
+
+          <Button
+            onClick={() => submitImport(true)}
+            disabled={!importDocument || loading}
+          >
+            {loading ? (
+              <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+            ) : (
+              <FileUp className="h-4 w-4 mr-2" />
+            )}
+            Review changes
+          </Button>
+        </CardContent>
+      </Card>
+
+      {/* Review */}
+      {plan && result && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center justify-between">
+              <span>{result.applied ? 'Applied changes' : 'Review'}</span>
+              <Badge variant={result.blocked ? 'destructive' : 'secondary'}>
+                {result.changes} change{result.changes === 1 ? '' : 's'}
+              </Badge>
+            </CardTitle>
+            {fileName && <CardDescription>{fileName}</CardDescription>}
+          </CardHeader>
+          <CardContent className="space-y-6">
+            {result.blocked && (
+              <Alert variant="destructive">
+                <AlertTriangle className="h-4 w-4" />
+                <AlertDescription>
+                  This import cannot be applied. Resolve the conflicts and
+                  unresolved references below, or adjust the options.
+                </AlertDescription>
+              </Alert>
+            )}
+
+            <PlanSection
+              title="Conflicts"
+              icon={<AlertTriangle className="h-4 w-4 text-red-500" />}
+              items={plan.conflicts.map(
+                (item) => `${item.type} ${item.name}: ${item.reason}`
+              )}
+              className="text-red-600"
+            />
+            <PlanSection
+              title="Unresolved references"
+              icon={<AlertTriangle className="h-4 w-4 text-yellow-500" />}
+              items={plan.unresolved.map(
+                (item) => `${item.type} ${item.name}: ${item.reason}`
+              )}
+              className="text-yellow-700"
+            />
+            <PlanSection
+              title="Create"
+              icon={<Plus className="h-4 w-4 text-green-500" />}
+              items={[
+                ...plan.permissions.create.map((p) => `permission ${p.name}`),
+                ...plan.roles.create.map(
+                  (r) =>
+                    `role ${r.name}${r.parent ? ` (inherits ${r.parent})` : ''}`
+                ),
+                ...plan.associations.create.map(
+                  (a) => `association ${a.role} → ${a.permission}`
+                ),
+                ...plan.user_roles.create.map(
+                  (ur) => `user role ${formatUserRoleLabel(ur)}`
+                ),
+              ]}
+              className="text-green-700"
+            />
+            <PlanSection
+              title="Update"
+              icon={<Pencil className="h-4 w-4 text-blue-500" />}
+              items={[
+                ...plan.permissions.update.map(
+                  (p) =>
+                    `permission ${p.name}: "${p.previous_description ?? ''}" → "${p.description ?? ''}"`
+                ),
+                ...plan.roles.update.map(
+                  (r) =>
+                    `role ${r.name}: parent ${r.previous_parent ?? 'none'} → ${r.parent ?? 'none'}`
+                ),
+              ]}
+              className="text-blue-700"
+            />
+            <PlanSection
+              title="Delete"
+              icon={<Minus className="h-4 w-4 text-red-500" />}
+              items={[
+                ...plan.permissions.delete.map((name) => `permission ${name}`),
+                ...plan.roles.delete.map((name) => `role ${name}`),
+                ...plan.associations.delete.map(
+                  (a) => `association ${a.role} → ${a.permission}`
+                ),
+                ...plan.user_roles.delete.map(
+                  (ur) => `user role ${formatUserRoleLabel(ur)}`
+                ),
+              ]}
+              className="text-red-700"
+            />
+            <PlanSection
+              title="Skipped"
+              icon={<SkipForward className="h-4 w-4 text-muted-foreground" />}
+              items={plan.skipped.map(
+                (item) => `${item.type} ${item.name}: ${item.reason}`
+              )}
+              className="text-muted-foreground"
+            />
+
+            {!result.applied && (
+              <div className="flex justify-end pt-2 border-t">
+                <Button
+                  onClick={() => setConfirmOpen(true)}
+                  disabled={result.blocked || result.changes === 0 || loading}
+                  variant={deleteCount > 0 ? 'destructive' : 'default'}
+                >
+                  Apply import
+                </Button>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      )}
+
+      <ConfirmationDialog
+        isOpen={confirmOpen}
+        onClose={() => setConfirmOpen(false)}
+        onConfirm={() => submitImport(false)}
+        title="Apply import"
+        description={
+          deleteCount > 0
+            ? `This will make ${result?.changes} changes, including ${deleteCount} deletions. All changes are applied together or not at all.`
+            : `This will make ${result?.changes} changes. All changes are applied together or not at all.`
+        }
+        confirmText="Apply"
+        variant={deleteCount > 0 ? 'destructive' : 'warning'}
+        isLoading={loading}
+      />
+    </div>
+  );
+}
@@ -4,6 +4,14 @@ import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
 import { Alert, AlertDescription } from '@/components/ui/alert';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
 import {
   CheckCircle,
   XCircle,
@@ -37,8 +45,10 @@ export function AIResponseDisplay({
 
   const handleCopyResponse = async () => {
     try {
-      const textToCopy = `Command: ${response.command?.type || 'Unknown'}
-Parameters: ${JSON.stringify(response.command?.parameters || {}, null, 2)}
+      const textToCopy = `Command: ${
+        response.command?.steps.map((step) => step.type).join(', ') || 'Unknown'
+      }
+Steps: ${JSON.stringify(response.command?.steps || [], null, 2)}
 Message: ${response.message}
 ${response.error ? `Error: ${response.error}` : ''}
 ${response.suggestions ? `Suggestions: ${response.suggestions.join(', ')}` : ''}`;
@@ -138,8 +148,17 @@ ${response.suggestions ? `Suggestions: ${response.suggestions.join(', ')}` : ''}
             <h4 className="font-medium text-sm">Command Details:</h4>
             <div className="bg-muted p-3 rounded-md space-y-2">
               <div className="flex items-center justify-between">
-                <span className="text-sm font-medium">Type:</span>
-                <Badge variant="outline">{response.command.type}</Badge>
+                <span className="text-sm font-medium">
+                  {response.command.steps.length > 1 ? 'Steps:' : 'Type:'}
+                </span>
+                <div className="flex flex-wrap justify-end gap-1">
+                  {response.command.steps.map((step, index, steps) => (
+                    <Badge key={index} variant="outline">
+                      {steps.length > 1 && `${index + 1}. `}
+                      {step.type}
+                    </Badge>
+                  ))}
+                </div>
               </div>
               <div className="flex items-center justify-between">
                 <span className="text-sm font-medium">Confidence:</span>
@@ -156,12 +175,22 @@ ${response.suggestions ? `Suggestions: ${response.suggestions.join(', ')}` : ''}
                   {Math.round(response.command.confidence * 100)}%
                 </Badge>
               </div>
-              {Object.keys(response.command.parameters).length > 0 && (
+              {response.command.steps.some(
+                (step) => Object.keys(step.parameters).length > 0
+              ) && (
                 <div className="space-y-1">
                   <span className="text-sm font-medium">Parameters:</span>
                   <div className="bg-background p-2 rounded border">
                     <pre className="text-xs font-mono whitespace-pre-wrap">
-                      {JSON.stringify(response.command.parameters, null, 2)}
+                      {JSON.stringify(
+                        response.command.steps.length > 1
+                          ? response.command.steps.map(
+                              (step) => step.parameters
+                            )
+                          : response.command.steps[0].parameters,
+                        null,
+                        2
+                      )}
                     </pre>
                   </div>
                 </div>
@@ -170,6 +199,40 @@ ${response.suggestions ? `Suggestions: ${response.suggestions.join(', ')}` : ''}
           </div>
         )}
 
+        {/* Query Results */}
+        {response.results?.map((result, index) => (
+          <div key={index} className="space-y-2">
+            <div>
+              <h4 className="font-medium text-sm">{result.title}</h4>
+              <p className="text-sm text-muted-foreground">{result.summary}</p>
+            </div>
+            {result.rows.length > 0 && (
+              <div className="rounded-md border bg-background">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      {result.columns.map((column) => (
+                        <TableHead key={column.key}>{column.label}</TableHead>
+                      ))}
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {result.rows.map((row, rowIndex) => (
+                      <TableRow key={rowIndex}>
+                        {result.columns.map((column) => (
+                          <TableCell key={column.key}>
+                            {row[column.key]}
+                          </TableCell>
+                        ))}
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+            )}
+          </div>
+        ))}
+
         {/* Error Details */}
         {response.error && (
           <Alert variant="destructive">
@@ -208,7 +271,7 @@ ${response.suggestions ? `Suggestions: ${response.suggestions.join(', ')}` : ''}
         )}
 
         {/* Success Actions */}
-        {response.success && (
+        {response.success && !response.results && (
           <div className="flex items-center justify-between pt-2 border-t">
             <div className="flex items-center space-x-2 text-sm text-muted-foreground">
               <CheckCircle className="h-4 w-4 text-green-500" />
@@ -14,8 +14,12 @@ import {
   Users,
   Link2,
   Trash2,
+  UserCog,
+  Search,
+  CheckCircle2,
+  XCircle,
 } from 'lucide-react';
-import { AICommand } from '@/lib/gemini/types';
+import { AICommand, AICommandStep, StepValidation } from '@/lib/gemini/types';
 
 interface CommandPreviewProps {
   command: AICommand | null;
@@ -24,6 +28,8 @@ interface CommandPreviewProps {
   onCancel: () => void;
   isExecuting: boolean;
   suggestions?: string[];
+  // Validation status of each step, when the command was validated
+  validation?: StepValidation[];
 }
 
 export function CommandPreview({
@@ -33,6 +39,7 @@ export function CommandPreview({
   onCancel,
   isExecuting,
   suggestions = [],
+  validation,
 }: CommandPreviewProps) {
   if (!command) {
     return null;
@@ -49,6 +56,15 @@ export function CommandPreview({
       case 'assign_permission':
       case 'remove_permission':
         return Link2;
+      case 'assign_role_to_user':
+      case 'remove_role_from_user':
+      case 'list_user_roles':
+        return UserCog;
+      case 'find_roles_with_permission':
+      case 'list_role_permissions':
+      case 'list_unused_permissions':
+      case 'find_users_with_permission':
+        return Search;
       default:
         return Info;
     }
@@ -64,54 +80,100 @@ export function CommandPreview({
         return 'text-red-600 bg-red-50 border-red-200';
       case 'assign_permission':
       case 'remove_permission':
+      case 'assign_role_to_user':
+      case 'remove_role_from_user':
         return 'text-blue-600 bg-blue-50 border-blue-200';
       default:
         return 'text-gray-600 bg-gray-50 border-gray-200';
     }
   };
 
-  const getActionDescription = (command: AICommand) => {
-    switch (command.type) {
+  const getActionDescription = (step: AICommandStep) => {
+    switch (step.type) {
       case 'create_permission':
         return {
           title: 'Create Permission',
-          description: `Create a new permission named "${command.parameters.name}"`,
-          details: command.parameters.description
-            ? `Description: ${command.parameters.description}`
+          description: `Create a new permission named "${step.parameters.name}"`,
+          details: step.parameters.description
+            ? `Description: ${step.parameters.description}`
             : 'No description provided',
         };
       case 'create_role':
         return {
           title: 'Create Role',
-          description: `Create a new role named "${command.parameters.name}"`,
+          description: `Create a new role named "${step.parameters.name}"`,
           details: 'Role will be created with no permissions assigned',
         };
       case 'assign_permission':
         return {
           title: 'Assign Permission',
-          description: `Assign permission "${command.parameters.permission_name}" to role "${command.parameters.role_name}"`,
+          description: `Assign permission "${step.parameters.permission_name}" to role "${step.parameters.role_name}"`,
           details: 'This will create a new role-permission association',
         };
       case 'remove_permission':
         return {
           title: 'Remove Permission',
-          description: `Remove permission "${command.parameters.permission_name}" from role "${command.parameters.role_name}"`,
+          description: `Remove permission "${step.parameters.permission_name}" from role "${step.parameters.role_name}"`,
           details: 'This will delete the role-permission association',
         };
       case 'delete_permission':
         return {
           title: 'Delete Permission',
-          description: `Delete permission "${command.parameters.name}"`,
+          description: `Delete permission "${step.parameters.name}"`,
           details:
             'This will also remove all role associations for this permission',
         };
       case 'delete_role':
         return {
           title: 'Delete Role',
-          description: `Delete role "${command.parameters.name}"`,
+          description: `Delete role "${step.parameters.name}"`,
           details:
             'This will also remove all permission associations for this role',
         };
+      case 'assign_role_to_user':
+        return {
+          title: 'Assign Role to User',
+          description: `Give user "${step.parameters.user_email}" the role "${step.parameters.role_name}"`,
+          details: 'The role is granted globally, with no expiry',
+        };
+      case 'remove_role_from_user':
+        return {
+          title: 'Remove Role from User',
+          description: `Remove role "${step.parameters.role_name}" from user "${step.parameters.user_email}"`,
+          details:
+            'Only the global assignment is removed; resource-scoped ones are kept',
+        };
+      case 'list_user_roles':
+        return {
+          title: 'List User Roles',
+          description: `Show the roles of user "${step.parameters.user_email}"`,
+          details: 'Nothing will be changed',
+        };
+      case 'find_roles_with_permission':
+        return {
+          title: 'Find Roles with Permission',
+          description: `Show the roles that have permission "${step.parameters.permission_name}"`,
+          details: 'Includes roles that inherit it; nothing will be changed',
+        };
+      case 'list_role_permissions':
+        return {
+          title: 'List Role Permissions',
+          description: `Show the permissions of role "${step.parameters.role_name}"`,
+          details: 'Includes inherited permissions; nothing will be changed',
+        };
+      case 'list_unused_permissions':
+        return {
+          title: 'List Unused Permissions',
+          description: 'Show the permissions no user currently holds',
+          details: 'Nothing will be changed',
+        };
+      case 'find_users_with_permission':
+        return {
+          title: 'Find Users with Permission',
+          description: `Show the users who have permission "${step.parameters.permission_name}"`,
+          details:
+            'Includes inherited and scoped grants; nothing will be changed',
+        };
       default:
         return {
           title: 'Unknown Action',
@@ -133,9 +195,11 @@ export function CommandPreview({
     return 'Low';
   };
 
-  const Icon = getCommandIcon(command.type);
-  const actionInfo = getActionDescription(command);
-  const colorClasses = getCommandColor(command.type);
+  const isMultiStep = command.steps.length > 1;
+  const isDestructive = command.steps.some((step) =>
+    step.type.includes('delete')
+  );
+  const hasInvalidStep = validation?.some((step) => !step.valid) ?? false;
 
   return (
     <Card className="border-2 border-dashed">
@@ -144,6 +208,9 @@ export function CommandPreview({
           <div className="flex items-center space-x-2">
             <Eye className="h-5 w-5" />
             <span>Command Preview</span>
+            {isMultiStep && (
+              <Badge variant="secondary">{command.steps.length} steps</Badge>
+            )}
           </div>
           <div className="flex items-center space-x-2">
             <Badge
@@ -158,17 +225,62 @@ export function CommandPreview({
       </CardHeader>
 
       <CardContent className="space-y-4">
-        {/* Action Summary */}
-        <div className={`p-4 rounded-lg border ${colorClasses}`}>
-          <div className="flex items-start space-x-3">
-            <Icon className="h-6 w-6 flex-shrink-0 mt-0.5" />
-            <div className="flex-1">
-              <h3 className="font-semibold text-lg">{actionInfo.title}</h3>
-              <p className="text-sm mt-1">{actionInfo.description}</p>
-              <p className="text-xs mt-2 opacity-75">{actionInfo.details}</p>
-            </div>
-          </div>
-        </div>
+        {/* Action Summary, one block per step */}
+        {isMultiStep && (
+          <p className="text-sm text-muted-foreground">
+            The steps are applied in order, in a single transaction. If any step
+            fails, none of the changes are kept.
+          </p>
+        )}
+        <ol className="space-y-3">
+          {command.steps.map((step, index) => {
+            const Icon = getCommandIcon(step.type);
+            const actionInfo = getActionDescription(step);
+            const stepValidation = validation?.[index];
+
+            return (
+              <li
+                key={index}
+                className={`p-4 rounded-lg border ${getCommandColor(step.type)}`}
+              >
+                <div className="flex items-start space-x-3">
+                  <Icon className="h-6 w-6 flex-shrink-0 mt-0.5" />
+                  <div className="flex-1">
+                    <div className="flex items-center justify-between gap-2">
+                      <h3 className="font-semibold text-lg">
+                        {isMultiStep && `${index + 1}. `}
+                        {actionInfo.title}
+                      </h3>
+                      {stepValidation &&
+                        (stepValidation.valid ? (
+                          <Badge variant="outline" className="bg-background">
+                            <CheckCircle2 className="h-3 w-3 mr-1 text-green-600" />
+                            Valid
+                          </Badge>
+                        ) : (
+                          <Badge variant="destructive">
+                            <XCircle className="h-3 w-3 mr-1" />
+                            Invalid
+                          </Badge>
+                        ))}
+                    </div>
+                    <p className="text-sm mt-1">{actionInfo.description}</p>
+                    <p className="text-xs mt-2 opacity-75">
+                      {actionInfo.details}
+                    </p>
+                    {stepValidation && stepValidation.errors.length > 0 && (
+                      <ul className="list-disc list-inside text-xs mt-2 text-red-700">
+                        {stepValidation.errors.map((error) => (
+                          <li key={error}>{error}</li>
+                        ))}
+                      </ul>
+                    )}
+                  </div>
+                </div>
+              </li>
+            );
+          })}
+        </ol>
 
         {/* AI Interpretation */}
         <Alert>
@@ -183,7 +295,13 @@ export function CommandPreview({
           <h4 className="font-medium text-sm">Command Parameters:</h4>
           <div className="bg-muted p-3 rounded-md">
             <pre className="text-xs font-mono">
-              {JSON.stringify(command.parameters, null, 2)}
+              {JSON.stringify(
+                isMultiStep
+                  ? command.steps.map((step) => step.parameters)
+                  : command.steps[0]?.parameters,
+                null,
+                2
+              )}
             </pre>
           </div>
         </div>
@@ -225,12 +343,8 @@ export function CommandPreview({
           </Button>
           <Button
             onClick={onExecute}
-            disabled={isExecuting || command.confidence < 0.3}
-            className={
-              command.type.includes('delete')
-                ? 'bg-red-600 hover:bg-red-700'
-                : ''
-            }
+            disabled={isExecuting || hasInvalidStep || command.confidence < 0.3}
+            className={isDestructive ? 'bg-red-600 hover:bg-red-700' : ''}
           >
             {isExecuting ? (
               <>
@@ -239,12 +353,12 @@ export function CommandPreview({
               </>
             ) : (
               <>
-                {command.type.includes('delete') ? (
+                {isDestructive ? (
                   <Trash2 className="h-4 w-4 mr-2" />
                 ) : (
                   <Play className="h-4 w-4 mr-2" />
                 )}
-                Execute Command
+                {isMultiStep ? 'Execute All Steps' : 'Execute Command'}
               </>
             )}
           </Button>
@@ -30,9 +30,19 @@ import {
   Link2,
   MessageSquare,
   User,
+  UserCog,
+  History,
+  Scale,
+  ClipboardCheck,
+  ClipboardList,
+  Camera,
+  FlaskConical,
+  Webhook,
+  BookOpen,
   LogOut,
 } from 'lucide-react';
 import { ThemeToggle } from '@/components/theme/theme-toggle';
+import { OrganizationSwitcher } from '@/components/organizations';
 
 const navigationItems = [
   {
@@ -59,12 +69,66 @@ const navigationItems = [
     icon: Link2,
     description: 'Link permissions to roles',
   },
+  {
+    name: 'Users',
+    href: '/users',
+    icon: UserCog,
+    description: 'Grant roles to people',
+  },
+  {
+    name: 'Governance',
+    href: '/governance',
+    icon: Scale,
+    description: 'Separation-of-duties rules',
+  },
+  {
+    name: 'Approvals',
+    href: '/change-requests',
+    icon: ClipboardCheck,
+    description: 'Review pending changes',
+  },
+  {
+    name: 'Access Reviews',
+    href: '/access-reviews',
+    icon: ClipboardList,
+    description: 'Certify user role assignments',
+  },
+  {
+    name: 'Snapshots',
+    href: '/snapshots',
+    icon: Camera,
+    description: 'Save and restore the RBAC model',
+  },
+  {
+    name: 'What-If',
+    href: '/simulate',
+    icon: FlaskConical,
+    description: 'Preview the impact of changes',
+  },
+  {
+    name: 'Webhooks',
+    href: '/webhooks',
+    icon: Webhook,
+    description: 'Notify services of changes',
+  },
+  {
+    name: 'Audit Log',
+    href: '/audit',
+    icon: History,
+    description: 'Review recorded changes',
+  },
   {
     name: 'Natural Language',
     href: '/natural-language',
     icon: MessageSquare,
     description: 'AI-powered configuration',
   },
+  {
+    name: 'API Docs',
+    href: '/api-docs',
+    icon: BookOpen,
+    description: 'Explore the REST API',
+  },
 ];
 
 export function MainNavigation() {
@@ -186,6 +250,7 @@ export function MainNavigation() {
             </Link>
           </div>
           <nav className="flex items-center space-x-2">
+            <OrganizationSwitcher />
             <ThemeToggle />
             <DropdownMenu>
               <DropdownMenuTrigger asChild>
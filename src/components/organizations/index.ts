@@ -0,0 +1,2 @@
+export { OrganizationSwitcher } from './organization-switcher';
+export { OrganizationMembers } from './organization-members';
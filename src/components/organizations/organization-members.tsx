@@ -0,0 +1,253 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { Loader2, Trash2, UserPlus } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from '@/components/ui/card';
+import { ConfirmationDialog } from '@/components/ui/confirmation-dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { LoadingState } from '@/components/ui/loading';
+import { useAuth } from '@/components/auth/auth-provider';
+import { useToast } from '@/hooks/use-toast';
+import type { OrganizationMember } from '@/lib/types';
+
+interface OrganizationMembersProps {
+  className?: string;
+}
+
+export function OrganizationMembers({ className }: OrganizationMembersProps) {
+  const [members, setMembers] = useState<OrganizationMember[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [email, setEmail] = useState('');
+  const [adding, setAdding] = useState(false);
+  const [removing, setRemoving] = useState<OrganizationMember | null>(null);
+  const [removeLoading, setRemoveLoading] = useState(false);
+  const { user } = useAuth();
+  const { toast } = useToast();
+
+  const fetchMembers = useCallback(async () => {
+    try {
+      setError(null);
+
+      const response = await fetch('/api/organizations/members');
+      const result = await response.json();
+
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to fetch members');
+      }
+
+      setMembers(result.data || []);
+    } catch (err) {
+      console.error('Error fetching members:', err);
+      setError(err instanceof Error ? err.message : 'Failed to fetch members');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchMembers();
+  }, [fetchMembers]);
+
+  const showError = (err: unknown, fallback: string) => {
+    toast({
+      title: 'Error',
+      description: err instanceof Error ? err.message : fallback,
+      variant: 'destructive',
+    });
+  };
+
+  const handleAdd = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    try {
+      setAdding(true);
+
+      const response = await fetch('/api/organizations/members', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ email: email.trim() }),
+      });
+
+      const result = await response.json();
+
+      if (!response.ok) {
+        const details = Array.isArray(result.details)
+          ? result.details
+              .map((detail: { message: string }) => detail.message)
+              .join(', ')
+          : null;
+        throw new Error(details || result.error || 'Failed to add member');
+      }
+
+      toast({ title: 'Success', description: result.message });
+      setEmail('');
+      await fetchMembers();
+    } catch (err) {
+      console.error('Error adding member:', err);
+      showError(err, 'Failed to add member');
+    } finally {
+      setAdding(false);
+    }
+  };
+
+  const handleRemove = async () => {
+    if (!removing) return;
+
+    try {
+      setRemoveLoading(true);
+
+      const response = await fetch(
+        `/api/organizations/members/${removing.user_id}`,
+        { method: 'DELETE' }
+      );
+
+      const result = await response.json();
+
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to remove member');
+      }
+
+      toast({ title: 'Success', description: result.message });
+      setRemoving(null);
+      await fetchMembers();
+    } catch (err) {
+      console.error('Error removing member:', err);
+      showError(err, 'Failed to remove member');
+    } finally {
+      setRemoveLoading(false);
+    }
+  };
+
+  return (
+    <div className={className}>
+      <Card>
+        <CardHeader>
+          <CardTitle>Members</CardTitle>
+          <CardDescription>
+            Only members can be granted roles in this organization. Removing a
+            member also removes the roles they hold here.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          <form onSubmit={handleAdd} className="flex items-end gap-3">
+            <div className="flex-1 space-y-1">
+              <Label htmlFor="member-email">Add a member</Label>
+              <Input
+                id="member-email"
+                type="email"
+                placeholder="Email of a signed-up user"
+                value={email}
+                onChange={(e) => setEmail(e.target.value)}
+                required
+              />
+            </div>
+            <Button type="submit" disabled={adding || !email.trim()}>
+              {adding ? (
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              ) : (
+                <UserPlus className="mr-2 h-4 w-4" />
+              )}
+              Add
+            </Button>
+          </form>
+
+          <LoadingState
+            isLoading={loading}
+            error={error}
+            isEmpty={members.length === 0}
+            loadingMessage="Loading members..."
+            emptyMessage="This organization has no members."
+          >
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>User</TableHead>
+                  <TableHead>Roles</TableHead>
+                  <TableHead>Member since</TableHead>
+                  <TableHead className="w-[80px]" />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {members.map((member) => (
+                  <TableRow key={member.user_id}>
+                    <TableCell className="font-medium">
+                      {member.email ?? (
+                        <span className="font-mono text-xs">
+                          {member.user_id}
+                        </span>
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      <div className="flex flex-wrap gap-1">
+                        {member.roles.length === 0 ? (
+                          <span className="text-sm text-muted-foreground">
+                            None
+                          </span>
+                        ) : (
+                          member.roles.map((role) => (
+                            <Badge key={role.id} variant="secondary">
+                              {role.name}
+                            </Badge>
+                          ))
+                        )}
+                      </div>
+                    </TableCell>
+                    <TableCell className="text-sm text-muted-foreground">
+                      {new Date(member.created_at).toLocaleDateString()}
+                    </TableCell>
+                    <TableCell>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => setRemoving(member)}
+                        disabled={member.user_id === user?.id}
+                        title={
+                          member.user_id === user?.id
+                            ? 'You cannot remove yourself'
+                            : 'Remove member'
+                        }
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </LoadingState>
+        </CardContent>
+      </Card>
+
+      <ConfirmationDialog
+        isOpen={removing !== null}
+        onClose={() => setRemoving(null)}
+        onConfirm={handleRemove}
+        title="Remove Member"
+        description={`Remove ${removing?.email ?? removing?.user_id} from this organization? The roles they hold here are removed too.`}
+        confirmText="Remove"
+        variant="destructive"
+        isLoading={removeLoading}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,233 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import Link from 'next/link';
+import {
+  Building2,
+  Check,
+  ChevronsUpDown,
+  Loader2,
+  Plus,
+  UserCog,
+} from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { useToast } from '@/hooks/use-toast';
+import type { Organization } from '@/lib/types';
+
+export function OrganizationSwitcher() {
+  const [organizations, setOrganizations] = useState<Organization[]>([]);
+  const [currentId, setCurrentId] = useState<string | null>(null);
+  const [switching, setSwitching] = useState(false);
+  const [creating, setCreating] = useState(false);
+  const [name, setName] = useState('');
+  const [saving, setSaving] = useState(false);
+  const { toast } = useToast();
+
+  const fetchOrganizations = useCallback(async () => {
+    try {
+      const response = await fetch('/api/organizations');
+      const result = await response.json();
+
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to fetch organizations');
+      }
+
+      setOrganizations(result.data || []);
+      setCurrentId(result.current_organization_id);
+    } catch (err) {
+      console.error('Error fetching organizations:', err);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchOrganizations();
+  }, [fetchOrganizations]);
+
+  const showError = (err: unknown, fallback: string) => {
+    toast({
+      title: 'Error',
+      description: err instanceof Error ? err.message : fallback,
+      variant: 'destructive',
+    });
+  };
+
+  // Every page shows data of the current organization, so reload them all
+  const handleSwitch = async (organization: Organization) => {
+    if (organization.id === currentId) return;
+
+    try {
+      setSwitching(true);
+
+      const response = await fetch('/api/organizations/current', {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ organization_id: organization.id }),
+      });
+
+      const result = await response.json();
+
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to switch organization');
+      }
+
+      window.location.reload();
+    } catch (err) {
+      console.error('Error switching organization:', err);
+      showError(err, 'Failed to switch organization');
+      setSwitching(false);
+    }
+  };
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    try {
+      setSaving(true);
+
+      const response = await fetch('/api/organizations', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ name }),
+      });
+
+      const result = await response.json();
+
+      if (!response.ok) {
+        const details = Array.isArray(result.details)
+          ? result.details
+              .map((detail: { message: string }) => detail.message)
+              .join(', ')
+          : null;
+        throw new Error(
+          details || result.error || 'Failed to create organization'
+        );
+      }
+
+      window.location.reload();
+    } catch (err) {
+      console.error('Error creating organization:', err);
+      showError(err, 'Failed to create organization');
+      setSaving(false);
+    }
+  };
+
+  const current = organizations.find((org) => org.id === currentId);
+
+  return (
+    <>
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button
+            variant="outline"
+            size="sm"
+            className="max-w-[200px]"
+            disabled={switching}
+          >
+            {switching ? (
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+            ) : (
+              <Building2 className="mr-2 h-4 w-4" />
+            )}
+            <span className="truncate">
+              {current?.name ?? 'No organization'}
+            </span>
+            <ChevronsUpDown className="ml-2 h-4 w-4 opacity-50" />
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent className="w-56" align="end">
+          <DropdownMenuLabel>Organizations</DropdownMenuLabel>
+          {organizations.map((organization) => (
+            <DropdownMenuItem
+              key={organization.id}
+              onClick={() => handleSwitch(organization)}
+            >
+              <Check
+                className={`mr-2 h-4 w-4 ${
+                  organization.id === currentId ? 'opacity-100' : 'opacity-0'
+                }`}
+              />
+              <span className="truncate">{organization.name}</span>
+            </DropdownMenuItem>
+          ))}
+          <DropdownMenuSeparator />
+          <DropdownMenuItem asChild>
+            <Link href="/organization">
+              <UserCog className="mr-2 h-4 w-4" />
+              <span>Manage members</span>
+            </Link>
+          </DropdownMenuItem>
+          <DropdownMenuItem onClick={() => setCreating(true)}>
+            <Plus className="mr-2 h-4 w-4" />
+            <span>Create organization</span>
+          </DropdownMenuItem>
+        </DropdownMenuContent>
+      </DropdownMenu>
+
+      <Dialog
+        open={creating}
+        onOpenChange={(open) => {
+          if (!saving) setCreating(open);
+        }}
+      >
+        <DialogContent className="sm:max-w-[425px]">
+          <form onSubmit={handleCreate}>
+            <DialogHeader>
+              <DialogTitle>Create Organization</DialogTitle>
+              <DialogDescription>
+                The organization starts with the built-in roles and you as its
+                administrator. Its permissions, roles and assignments are
+                separate from every other organization.
+              </DialogDescription>
+            </DialogHeader>
+            <div className="space-y-2 py-4">
+              <Label htmlFor="organization-name">Name</Label>
+              <Input
+                id="organization-name"
+                placeholder="e.g., Acme Inc."
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                required
+              />
+            </div>
+            <DialogFooter>
+              <Button
+                type="button"
+                variant="outline"
+                onClick={() => setCreating(false)}
+                disabled={saving}
+              >
+                Cancel
+              </Button>
+              <Button type="submit" disabled={saving || !name.trim()}>
+                {saving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                Create
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
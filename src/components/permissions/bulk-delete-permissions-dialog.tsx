@@ -0,0 +1,181 @@
+'use client';
+
+import { useState } from 'react';
+import { Loader2, AlertTriangle } from 'lucide-react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import type {
+  BulkItemResult,
+  BulkOperationResult,
+  Permission,
+} from '@/lib/types';
+
+interface BulkDeletePermissionsDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  permissions: Permission[];
+  onSuccess: (result: BulkOperationResult) => void;
+}
+
+export function BulkDeletePermissionsDialog({
+  isOpen,
+  onClose,
+  permissions,
+  onSuccess,
+}: BulkDeletePermissionsDialogProps) {
+  const [loading, setLoading] = useState(false);
+  const [atomic, setAtomic] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [failures, setFailures] = useState<BulkItemResult[]>([]);
+
+  const handleDelete = async () => {
+    if (permissions.length === 0) return;
+
+    try {
+      setLoading(true);
+      setError(null);
+      setFailures([]);
+
+      const response = await fetch('/api/permissions/bulk', {
+        method: 'DELETE',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          ids: permissions.map((permission) => permission.id),
+          mode: atomic ? 'atomic' : 'best_effort',
+        }),
+      });
+
+      const result = await response.json();
+      const bulkResult: BulkOperationResult | undefined = result.data;
+
+      if (bulkResult) {
+        setFailures(
+          bulkResult.results.filter((item) => item.status === 'failed')
+        );
+      }
+
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to delete permissions');
+      }
+
+      onSuccess(result.data);
+    } catch (err) {
+      console.error('Error deleting permissions:', err);
+      setError(
+        err instanceof Error ? err.message : 'Failed to delete permissions'
+      );
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleClose = () => {
+    if (!loading) {
+      setError(null);
+      setFailures([]);
+      onClose();
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={handleClose}>
+      <DialogContent className="sm:max-w-[480px]">
+        <DialogHeader>
+          <div className="flex items-center space-x-2">
+            <AlertTriangle className="h-5 w-5 text-red-500" />
+            <DialogTitle>Delete {permissions.length} Permissions</DialogTitle>
+          </div>
+          <DialogDescription>
+            Are you sure you want to delete the selected permissions? This
+            action cannot be undone and will remove all role associations with
+            these permissions.
+          </DialogDescription>
+        </DialogHeader>
+
+        {/* Error Display */}
+        {error && (
+          <div className="bg-red-50 dark:bg-red-950/20 border border-red-200 dark:border-red-800 text-red-700 dark:text-red-300 px-4 py-3 rounded">
+            {error}
+          </div>
+        )}
+
+        {/* Per-item failures */}
+        {failures.length > 0 && (
+          <ul className="text-sm space-y-1 text-red-700 dark:text-red-300">
+            {failures.map((failure) => (
+              <li key={failure.index}>
+                <span className="font-medium">
+                  {failure.name || failure.id}
+                </span>
+                : {failure.reason}
+              </li>
+            ))}
+          </ul>
+        )}
+
+        {/* Selected permissions */}
+        <div className="bg-muted/50 p-4 rounded-lg max-h-48 overflow-y-auto">
+          <div className="flex flex-wrap gap-2">
+            {permissions.map((permission) => (
+              <span
+                key={permission.id}
+                className="text-sm font-mono bg-background border rounded px-2 py-0.5"
+              >
+                {permission.name}
+              </span>
+            ))}
+          </div>
+        </div>
+
+        <div className="flex items-start gap-3">
+          <input
+            id="bulk-delete-permissions-atomic"
+            type="checkbox"
+            checked={atomic}
+            onChange={(e) => setAtomic(e.target.checked)}
+            disabled={loading}
+            className="mt-0.5 h-4 w-4 rounded border-input"
+          />
+          <div className="space-y-1">
+            <Label htmlFor="bulk-delete-permissions-atomic">
+              All or nothing
+            </Label>
+            <p className="text-xs text-muted-foreground">
+              Delete nothing if any permission cannot be deleted
+            </p>
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button
+            type="button"
+            variant="outline"
+            onClick={handleClose}
+            disabled={loading}
+          >
+            Cancel
+          </Button>
+          <Button
+            type="button"
+            variant="destructive"
+            onClick={handleDelete}
+            disabled={loading || permissions.length === 0}
+          >
+            {loading && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Delete Permissions
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -18,7 +18,8 @@ interface DeletePermissionDialogProps {
   isOpen: boolean;
   onClose: () => void;
   permission: Permission | null;
-  onSuccess: () => void;
+  // Receives the server message when the deletion awaits approval
+  onSuccess: (pendingMessage?: string) => void;
 }
 
 export function DeletePermissionDialog({
@@ -94,7 +95,7 @@ export function DeletePermissionDialog({
         throw new Error(result.error || 'Failed to delete permission');
       }
 
-      onSuccess();
+      onSuccess(response.status === 202 ? result.message : undefined);
     } catch (err) {
       console.error('Error deleting permission:', err);
       setError(
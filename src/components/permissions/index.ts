@@ -1,3 +1,4 @@
 export { PermissionList } from './permission-list';
 export { PermissionForm } from './permission-form';
 export { DeletePermissionDialog } from './delete-permission-dialog';
+export { BulkDeletePermissionsDialog } from './bulk-delete-permissions-dialog';
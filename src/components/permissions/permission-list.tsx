@@ -18,8 +18,10 @@ import { SearchBar } from '@/components/ui/search-input';
 import { useToast } from '@/hooks/use-toast';
 import { PermissionForm } from './permission-form';
 import { DeletePermissionDialog } from './delete-permission-dialog';
+import { BulkDeletePermissionsDialog } from './bulk-delete-permissions-dialog';
 import { createClient } from '@/lib/supabase/client';
-import type { Permission } from '@/lib/types';
+import { describeDeleteImpact } from '@/lib/rbac-utils';
+import type { BulkOperationResult, Permission } from '@/lib/types';
 
 interface PermissionListProps {
   className?: string;
@@ -33,6 +35,8 @@ export function PermissionList({ className }: PermissionListProps) {
   const [isDeleteDialogOpen, setIsDeleteDialogOpen] = useState(false);
   const [selectedPermission, setSelectedPermission] =
     useState<Permission | null>(null);
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const [isBulkDeleteOpen, setIsBulkDeleteOpen] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const { toast } = useToast();
 
@@ -117,9 +121,61 @@ export function PermissionList({ className }: PermissionListProps) {
     fetchPermissions();
   };
 
-  const handleDeleteSuccess = () => {
+  const handleDeleteSuccess = (pendingMessage?: string) => {
     setIsDeleteDialogOpen(false);
     setSelectedPermission(null);
+    if (pendingMessage) {
+      toast({ title: 'Submitted for approval', description: pendingMessage });
+    }
+    fetchPermissions();
+  };
+
+  const selectedPermissions = permissions.filter((permission) =>
+    selectedIds.has(permission.id)
+  );
+  const allSelected =
+    permissions.length > 0 && selectedPermissions.length === permissions.length;
+
+  const toggleSelected = (id: string) => {
+    setSelectedIds((prev) => {
+      const next = new Set(prev);
+      if (next.has(id)) {
+        next.delete(id);
+      } else {
+        next.add(id);
+      }
+      return next;
+    });
+  };
+
+  const toggleAll = () => {
+    setSelectedIds(
+      allSelected
+        ? new Set()
+        : new Set(permissions.map((permission) => permission.id))
+    );
+  };
+
+  const handleBulkDeleteSuccess = (result: BulkOperationResult) => {
+    // Keep failed items selected so they can be retried
+    const deleted = result.results
+      .filter((item) => item.status === 'deleted')
+      .map((item) => item.id);
+    setSelectedIds(
+      (prev) => new Set([...prev].filter((id) => !deleted.includes(id)))
+    );
+    if (result.failed === 0) {
+      setIsBulkDeleteOpen(false);
+    }
+
+    toast({
+      title: result.failed === 0 ? 'Success' : 'Partially completed',
+      description:
+        result.failed === 0
+          ? `${result.succeeded} permissions deleted${describeDeleteImpact(result.results)}`
+          : `${result.succeeded} permissions deleted${describeDeleteImpact(result.results)}, ${result.failed} failed`,
+      variant: result.failed === 0 ? 'success' : 'destructive',
+    });
     fetchPermissions();
   };
 
@@ -157,6 +213,32 @@ export function PermissionList({ className }: PermissionListProps) {
             className="mb-4"
           />
 
+          {/* Bulk Actions */}
+          {selectedPermissions.length > 0 && (
+            <div className="flex items-center justify-between mb-4 px-4 py-2 rounded-md bg-muted/50">
+              <span className="text-sm">
+                {selectedPermissions.length} selected
+              </span>
+              <div className="flex items-center space-x-2">
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setSelectedIds(new Set())}
+                >
+                  Clear
+                </Button>
+                <Button
+                  variant="destructive"
+                  size="sm"
+                  onClick={() => setIsBulkDeleteOpen(true)}
+                >
+                  <Trash2 className="h-4 w-4 mr-2" />
+                  Delete selected
+                </Button>
+              </div>
+            </div>
+          )}
+
           <LoadingState
             isLoading={loading}
             error={error}
@@ -172,6 +254,15 @@ export function PermissionList({ className }: PermissionListProps) {
               <Table>
                 <TableHeader>
                   <TableRow>
+                    <TableHead className="w-10">
+                      <input
+                        type="checkbox"
+                        aria-label="Select all permissions"
+                        checked={allSelected}
+                        onChange={toggleAll}
+                        className="h-4 w-4 rounded border-input"
+                      />
+                    </TableHead>
                     <TableHead>Name</TableHead>
                     <TableHead>Description</TableHead>
                     <TableHead>Created</TableHead>
@@ -181,6 +272,15 @@ export function PermissionList({ className }: PermissionListProps) {
                 <TableBody>
                   {permissions.map((permission) => (
                     <TableRow key={permission.id}>
+                      <TableCell>
+                        <input
+                          type="checkbox"
+                          aria-label={`Select ${permission.name}`}
+                          checked={selectedIds.has(permission.id)}
+                          onChange={() => toggleSelected(permission.id)}
+                          className="h-4 w-4 rounded border-input"
+                        />
+                      </TableCell>
                       <TableCell className="font-medium">
                         {permission.name}
                       </TableCell>
@@ -234,6 +334,14 @@ export function PermissionList({ className }: PermissionListProps) {
         permission={selectedPermission}
         onSuccess={handleDeleteSuccess}
       />
+
+      {/* Bulk Delete Dialog */}
+      <BulkDeletePermissionsDialog
+        isOpen={isBulkDeleteOpen}
+        onClose={() => setIsBulkDeleteOpen(false)}
+        permissions={selectedPermissions}
+        onSuccess={handleBulkDeleteSuccess}
+      />
     </div>
   );
 }
@@ -17,7 +17,8 @@ interface DeleteRoleDialogProps {
   isOpen: boolean;
   onClose: () => void;
   role: Role | null;
-  onSuccess: () => void;
+  // Receives the server message when the deletion awaits approval
+  onSuccess: (pendingMessage?: string) => void;
 }
 
 export function DeleteRoleDialog({
@@ -46,7 +47,7 @@ export function DeleteRoleDialog({
         throw new Error(result.error || 'Failed to delete role');
       }
 
-      onSuccess();
+      onSuccess(response.status === 202 ? result.message : undefined);
     } catch (err) {
       console.error('Error deleting role:', err);
       setError(err instanceof Error ? err.message : 'Failed to delete role');
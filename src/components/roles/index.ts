@@ -1,3 +1,5 @@
 export { RoleList } from './role-list';
 export { RoleForm } from './role-form';
 export { DeleteRoleDialog } from './delete-role-dialog';
+export { BulkDeleteRolesDialog } from './bulk-delete-roles-dialog';
+export { RoleHierarchy } from './role-hierarchy';
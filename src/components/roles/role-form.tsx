@@ -17,6 +17,7 @@ import { Input } from '@/components/ui/input';
 import {
   Form,
   FormControl,
+  FormDescription,
   FormField,
   FormItem,
   FormLabel,
@@ -24,6 +25,7 @@ import {
 } from '@/components/ui/form';
 import { useToast } from '@/hooks/use-toast';
 import { z } from 'zod';
+import { wouldCreateRoleCycle } from '@/lib/rbac-utils';
 import type { Role } from '@/lib/types';
 
 // Form-specific schema that matches the form's expected types
@@ -32,8 +34,12 @@ const roleFormSchema = z.object({
     .string()
     .min(1, 'Role name is required')
     .max(100, 'Role name must be less than 100 characters'),
+  // Empty string means the role has no parent
+  parent_role_id: z.string(),
 });
 
+type RoleFormValues = z.infer<typeof roleFormSchema>;
+
 interface RoleFormProps {
   isOpen: boolean;
   onClose: () => void;
@@ -44,6 +50,7 @@ interface RoleFormProps {
 export function RoleForm({ isOpen, onClose, role, onSuccess }: RoleFormProps) {
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [roles, setRoles] = useState<Role[]>([]);
   const { toast } = useToast();
 
   const isEditing = !!role;
@@ -52,6 +59,7 @@ export function RoleForm({ isOpen, onClose, role, onSuccess }: RoleFormProps) {
     resolver: zodResolver(roleFormSchema),
     defaultValues: {
       name: '',
+      parent_role_id: '',
     },
   });
 
@@ -61,17 +69,52 @@ export function RoleForm({ isOpen, onClose, role, onSuccess }: RoleFormProps) {
       if (role) {
         form.reset({
           name: role.name,
+          parent_role_id: role.parent_role_id ?? '',
         });
       } else {
         form.reset({
           name: '',
+          parent_role_id: '',
         });
       }
       setError(null);
     }
   }, [isOpen, role, form]);
 
-  const onSubmit = async (data: { name: string }) => {
+  // Load candidate parent roles
+  useEffect(() => {
+    if (!isOpen) return;
+
+    const fetchRoles = async () => {
+      try {
+        const response = await fetch('/api/roles?limit=100');
+        const result = await response.json();
+
+        if (!response.ok) {
+          throw new Error(result.error || 'Failed to fetch roles');
+        }
+
+        setRoles(result.data || []);
+      } catch (err) {
+        console.error('Error fetching roles:', err);
+        setRoles([]);
+      }
+    };
+
+    fetchRoles();
+  }, [isOpen]);
+
+  // A role cannot inherit from itself or from roles that inherit from it
+  const parentOptions = roles.filter(
+    (candidate) => !role || !wouldCreateRoleCycle(role.id, candidate.id, roles)
+  );
+
+  const onSubmit = async (values: RoleFormValues) => {
+    const data = {
+      name: values.name,
+      parent_role_id: values.parent_role_id || null,
+    };
+
     try {
       setLoading(true);
       setError(null);
@@ -165,6 +208,35 @@ export function RoleForm({ isOpen, onClose, role, onSuccess }: RoleFormProps) {
               )}
             />
 
+            {/* Parent Role Field */}
+            <FormField
+              control={form.control}
+              name="parent_role_id"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Inherits From</FormLabel>
+                  <FormControl>
+                    <select
+                      {...field}
+                      disabled={loading}
+                      className="border-input flex h-9 w-full rounded-md border bg-transparent px-3 py-1 text-base shadow-xs outline-none focus-visible:border-ring focus-visible:ring-ring/50 focus-visible:ring-[3px] disabled:cursor-not-allowed disabled:opacity-50 md:text-sm"
+                    >
+                      <option value="">No parent role</option>
+                      {parentOptions.map((option) => (
+                        <option key={option.id} value={option.id}>
+                          {option.name}
+                        </option>
+                      ))}
+                    </select>
+                  </FormControl>
+                  <FormDescription>
+                    The role also gets every permission of its parent role.
+                  </FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
             <DialogFooter>
               <Button
                 type="button"
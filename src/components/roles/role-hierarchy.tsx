@@ -0,0 +1,183 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { ChevronDown, ChevronRight, GitBranch } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from '@/components/ui/card';
+import { LoadingState } from '@/components/ui/loading';
+import { useToast } from '@/hooks/use-toast';
+import { createClient } from '@/lib/supabase/client';
+import type { RoleHierarchyNode } from '@/lib/types';
+
+interface RoleHierarchyProps {
+  className?: string;
+}
+
+function RoleTreeNode({ node }: { node: RoleHierarchyNode }) {
+  const [expanded, setExpanded] = useState(false);
+
+  const direct = node.permissions.filter((p) => !p.inherited_from);
+  const inherited = node.permissions.filter((p) => p.inherited_from);
+
+  return (
+    <li className="space-y-2">
+      <div className="flex items-center gap-2">
+        <Button
+          variant="ghost"
+          size="sm"
+          className="h-6 w-6 p-0"
+          onClick={() => setExpanded((prev) => !prev)}
+          aria-label={expanded ? 'Collapse' : 'Expand'}
+        >
+          {expanded ? (
+            <ChevronDown className="h-4 w-4" />
+          ) : (
+            <ChevronRight className="h-4 w-4" />
+          )}
+        </Button>
+        <span className="font-medium">{node.name}</span>
+        <Badge variant="secondary">{direct.length} direct</Badge>
+        {inherited.length > 0 && (
+          <Badge variant="outline">{inherited.length} inherited</Badge>
+        )}
+      </div>
+
+      {expanded && (
+        <div className="ml-8">
+          {node.permissions.length === 0 ? (
+            <p className="text-sm text-gray-400 italic">No permissions</p>
+          ) : (
+            <ul className="space-y-1">
+              {node.permissions.map((permission) => (
+                <li
+                  key={permission.id}
+                  className="flex items-center gap-2 text-sm"
+                >
+                  <span className="font-mono">{permission.name}</span>
+                  {permission.inherited_from ? (
+                    <span className="text-xs text-muted-foreground">
+                      inherited from {permission.inherited_from.name}
+                    </span>
+                  ) : (
+                    <span className="text-xs text-green-600">direct</span>
+                  )}
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+
+      {node.children.length > 0 && (
+        <ul className="ml-3 border-l pl-4 space-y-2">
+          {node.children.map((child) => (
+            <RoleTreeNode key={child.id} node={child} />
+          ))}
+        </ul>
+      )}
+    </li>
+  );
+}
+
+export function RoleHierarchy({ className }: RoleHierarchyProps) {
+  const [hierarchy, setHierarchy] = useState<RoleHierarchyNode[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const { toast } = useToast();
+
+  const supabase = createClient();
+
+  const fetchHierarchy = useCallback(async () => {
+    try {
+      setLoading(true);
+      setError(null);
+
+      const response = await fetch('/api/roles/hierarchy');
+      const result = await response.json();
+
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to fetch role hierarchy');
+      }
+
+      setHierarchy(result.data || []);
+    } catch (err) {
+      console.error('Error fetching role hierarchy:', err);
+      const errorMessage =
+        err instanceof Error ? err.message : 'Failed to fetch role hierarchy';
+      setError(errorMessage);
+      toast({
+        title: 'Error',
+        description: errorMessage,
+        variant: 'destructive',
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [toast]);
+
+  // Refresh when roles or their permissions change
+  useEffect(() => {
+    fetchHierarchy();
+
+    const channel = supabase
+      .channel('role-hierarchy-changes')
+      .on(
+        'postgres_changes',
+        { event: '*', schema: 'public', table: 'roles' },
+        () => {
+          fetchHierarchy();
+        }
+      )
+      .on(
+        'postgres_changes',
+        { event: '*', schema: 'public', table: 'role_permissions' },
+        () => {
+          fetchHierarchy();
+        }
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [fetchHierarchy, supabase]);
+
+  return (
+    <div className={className}>
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <GitBranch className="h-5 w-5" />
+            Role Hierarchy
+          </CardTitle>
+          <CardDescription>
+            Child roles inherit every permission of their parent. Expand a role
+            to see which permissions are direct and which are inherited.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <LoadingState
+            isLoading={loading}
+            error={error}
+            isEmpty={hierarchy.length === 0}
+            loadingMessage="Loading role hierarchy..."
+            emptyMessage="No roles created yet."
+          >
+            <ul className="space-y-3">
+              {hierarchy.map((node) => (
+                <RoleTreeNode key={node.id} node={node} />
+              ))}
+            </ul>
+          </LoadingState>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
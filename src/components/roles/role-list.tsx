@@ -18,8 +18,10 @@ import { SearchBar } from '@/components/ui/search-input';
 import { useToast } from '@/hooks/use-toast';
 import { RoleForm } from './role-form';
 import { DeleteRoleDialog } from './delete-role-dialog';
+import { BulkDeleteRolesDialog } from './bulk-delete-roles-dialog';
 import { createClient } from '@/lib/supabase/client';
-import type { Role } from '@/lib/types';
+import { describeDeleteImpact } from '@/lib/rbac-utils';
+import type { BulkOperationResult, Role } from '@/lib/types';
 
 interface RoleListProps {
   className?: string;
@@ -32,6 +34,8 @@ export function RoleList({ className }: RoleListProps) {
   const [isFormOpen, setIsFormOpen] = useState(false);
   const [isDeleteDialogOpen, setIsDeleteDialogOpen] = useState(false);
   const [selectedRole, setSelectedRole] = useState<Role | null>(null);
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const [isBulkDeleteOpen, setIsBulkDeleteOpen] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const { toast } = useToast();
 
@@ -116,9 +120,56 @@ export function RoleList({ className }: RoleListProps) {
     fetchRoles();
   };
 
-  const handleDeleteSuccess = () => {
+  const handleDeleteSuccess = (pendingMessage?: string) => {
     setIsDeleteDialogOpen(false);
     setSelectedRole(null);
+    if (pendingMessage) {
+      toast({ title: 'Submitted for approval', description: pendingMessage });
+    }
+    fetchRoles();
+  };
+
+  const selectedRoles = roles.filter((role) => selectedIds.has(role.id));
+  const allSelected = roles.length > 0 && selectedRoles.length === roles.length;
+
+  const toggleSelected = (id: string) => {
+    setSelectedIds((prev) => {
+      const next = new Set(prev);
+      if (next.has(id)) {
+        next.delete(id);
+      } else {
+        next.add(id);
+      }
+      return next;
+    });
+  };
+
+  const toggleAll = () => {
+    setSelectedIds(
+      allSelected ? new Set() : new Set(roles.map((role) => role.id))
+    );
+  };
+
+  const handleBulkDeleteSuccess = (result: BulkOperationResult) => {
+    // Keep failed items selected so they can be retried
+    const deleted = result.results
+      .filter((item) => item.status === 'deleted')
+      .map((item) => item.id);
+    setSelectedIds(
+      (prev) => new Set([...prev].filter((id) => !deleted.includes(id)))
+    );
+    if (result.failed === 0) {
+      setIsBulkDeleteOpen(false);
+    }
+
+    toast({
+      title: result.failed === 0 ? 'Success' : 'Partially completed',
+      description:
+        result.failed === 0
+          ? `${result.succeeded} roles deleted${describeDeleteImpact(result.results)}`
+          : `${result.succeeded} roles deleted${describeDeleteImpact(result.results)}, ${result.failed} failed`,
+      variant: result.failed === 0 ? 'success' : 'destructive',
+    });
     fetchRoles();
   };
 
@@ -156,6 +207,30 @@ export function RoleList({ className }: RoleListProps) {
             className="mb-4"
           />
 
+          {/* Bulk Actions */}
+          {selectedRoles.length > 0 && (
+            <div className="flex items-center justify-between mb-4 px-4 py-2 rounded-md bg-muted/50">
+              <span className="text-sm">{selectedRoles.length} selected</span>
+              <div className="flex items-center space-x-2">
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setSelectedIds(new Set())}
+                >
+                  Clear
+                </Button>
+                <Button
+                  variant="destructive"
+                  size="sm"
+                  onClick={() => setIsBulkDeleteOpen(true)}
+                >
+                  <Trash2 className="h-4 w-4 mr-2" />
+                  Delete selected
+                </Button>
+              </div>
+            </div>
+          )}
+
           <LoadingState
             isLoading={loading}
             error={error}
@@ -171,6 +246,15 @@ export function RoleList({ className }: RoleListProps) {
               <Table>
                 <TableHeader>
                   <TableRow>
+                    <TableHead className="w-10">
+                      <input
+                        type="checkbox"
+                        aria-label="Select all roles"
+                        checked={allSelected}
+                        onChange={toggleAll}
+                        className="h-4 w-4 rounded border-input"
+                      />
+                    </TableHead>
                     <TableHead>Name</TableHead>
                     <TableHead>Created</TableHead>
                     <TableHead className="text-right">Actions</TableHead>
@@ -179,6 +263,15 @@ export function RoleList({ className }: RoleListProps) {
                 <TableBody>
                   {roles.map((role) => (
                     <TableRow key={role.id}>
+                      <TableCell>
+                        <input
+                          type="checkbox"
+                          aria-label={`Select ${role.name}`}
+                          checked={selectedIds.has(role.id)}
+                          onChange={() => toggleSelected(role.id)}
+                          className="h-4 w-4 rounded border-input"
+                        />
+                      </TableCell>
                       <TableCell className="font-medium">{role.name}</TableCell>
                       <TableCell>{formatDate(role.created_at)}</TableCell>
                       <TableCell className="text-right">
@@ -223,6 +316,14 @@ export function RoleList({ className }: RoleListProps) {
         role={selectedRole}
         onSuccess={handleDeleteSuccess}
       />
+
+      {/* Bulk Delete Dialog */}
+      <BulkDeleteRolesDialog
+        isOpen={isBulkDeleteOpen}
+        onClose={() => setIsBulkDeleteOpen(false)}
+        roles={selectedRoles}
+        onSuccess={handleBulkDeleteSuccess}
+      />
     </div>
   );
 }
@@ -0,0 +1 @@
+export { PolicySimulator } from './policy-simulator';
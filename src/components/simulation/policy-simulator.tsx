@@ -0,0 +1,486 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { FlaskConical, Loader2, Plus, X } from 'lucide-react';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { LoadingState } from '@/components/ui/loading';
+import { useToast } from '@/hooks/use-toast';
+import { formatScope } from '@/lib/rbac-utils';
+import type {
+  EffectiveGrant,
+  Permission,
+  Role,
+  SimulatedChange,
+  SimulationResult,
+  UserWithRoles,
+} from '@/lib/types';
+
+const selectClassName =
+  'border-input flex h-9 w-full rounded-md border bg-transparent px-3 py-1 text-base shadow-xs outline-none focus-visible:border-ring focus-visible:ring-ring/50 focus-visible:ring-[3px] disabled:cursor-not-allowed disabled:opacity-50 md:text-sm';
+
+type ChangeType = SimulatedChange['type'];
+
+const changeTypes: { value: ChangeType; label: string }[] = [
+  { value: 'unassign_permission', label: 'Remove permission from role' },
+  { value: 'assign_permission', label: 'Add permission to role' },
+  { value: 'unassign_role', label: 'Remove role from user' },
+  { value: 'assign_role', label: 'Give role to user' },
+  { value: 'delete_role', label: 'Delete role' },
+  { value: 'delete_permission', label: 'Delete permission' },
+];
+
+const needsRole = (type: ChangeType) => type !== 'delete_permission';
+const needsPermission = (type: ChangeType) =>
+  type === 'assign_permission' ||
+  type === 'unassign_permission' ||
+  type === 'delete_permission';
+const needsUser = (type: ChangeType) =>
+  type === 'assign_role' || type === 'unassign_role';
+
+const emptyDraft = {
+  type: 'unassign_permission' as ChangeType,
+  role_id: '',
+  permission_id: '',
+  user_id: '',
+  scope_type: '*',
+  scope_id: '*',
+};
+
+const grantLabel = (grant: EffectiveGrant) => {
+  const scope = formatScope(grant);
+  return `${grant.permission.name}${scope ? ` on ${scope}` : ''}`;
+};
+
+interface PolicySimulatorProps {
+  className?: string;
+}
+
+export function PolicySimulator({ className }: PolicySimulatorProps) {
+  const [roles, setRoles] = useState<Role[]>([]);
+  const [permissions, setPermissions] = useState<Permission[]>([]);
+  const [users, setUsers] = useState<UserWithRoles[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [draft, setDraft] = useState(emptyDraft);
+  const [changes, setChanges] = useState<SimulatedChange[]>([]);
+  const [result, setResult] = useState<SimulationResult | null>(null);
+  const [simulating, setSimulating] = useState(false);
+  const { toast } = useToast();
+
+  const fetchData = useCallback(async () => {
+    try {
+      setError(null);
+
+      const responses = await Promise.all([
+        fetch('/api/roles?limit=100'),
+        fetch('/api/permissions?limit=100'),
+        fetch('/api/users?limit=100'),
+      ]);
+      const [rolesResult, permissionsResult, usersResult] = await Promise.all(
+        responses.map((response) => response.json())
+      );
+
+      if (responses.some((response) => !response.ok)) {
+        throw new Error('Failed to load roles, permissions and users');
+      }
+
+      setRoles(rolesResult.data || []);
+      setPermissions(permissionsResult.data || []);
+      setUsers(usersResult.data || []);
+    } catch (err) {
+      console.error('Error loading simulator data:', err);
+      setError(
+        err instanceof Error ? err.message : 'Failed to load simulator data'
+      );
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchData();
+  }, [fetchData]);
+
+  const roleName = (id: string) =>
+    roles.find((role) => role.id === id)?.name ?? id;
+  const permissionName = (id: string) =>
+    permissions.find((permission) => permission.id === id)?.name ?? id;
+  const userLabel = (id: string) =>
+    users.find((user) => user.id === id)?.email ?? id;
+
+  const describeChange = (change: SimulatedChange) => {
+    switch (change.type) {
+      case 'assign_permission':
+        return `Add "${permissionName(change.permission_id)}" to "${roleName(change.role_id)}"`;
+      case 'unassign_permission':
+        return `Remove "${permissionName(change.permission_id)}" from "${roleName(change.role_id)}"`;
+      case 'assign_role':
+      case 'unassign_role': {
+        const scope = formatScope(change);
+        const role = `"${roleName(change.role_id)}"${scope ? ` on ${scope}` : ''}`;
+        return change.type === 'assign_role'
+          ? `Give ${role} to ${userLabel(change.user_id)}`
+          : `Remove ${role} from ${userLabel(change.user_id)}`;
+      }
+      case 'delete_role':
+        return `Delete role "${roleName(change.role_id)}"`;
+      case 'delete_permission':
+        return `Delete permission "${permissionName(change.permission_id)}"`;
+    }
+  };
+
+  const isDraftComplete =
+    (!needsRole(draft.type) || draft.role_id) &&
+    (!needsPermission(draft.type) || draft.permission_id) &&
+    (!needsUser(draft.type) || draft.user_id);
+
+  const addChange = () => {
+    let change: SimulatedChange;
+    switch (draft.type) {
+      case 'assign_permission':
+      case 'unassign_permission':
+        change = {
+          type: draft.type,
+          role_id: draft.role_id,
+          permission_id: draft.permission_id,
+        };
+        break;
+      case 'assign_role':
+      case 'unassign_role':
+        change = {
+          type: draft.type,
+          user_id: draft.user_id,
+          role_id: draft.role_id,
+          scope_type: draft.scope_type.trim() || '*',
+          scope_id: draft.scope_id.trim() || '*',
+        };
+        break;
+      case 'delete_role':
+        change = { type: draft.type, role_id: draft.role_id };
+        break;
+      case 'delete_permission':
+        change = { type: draft.type, permission_id: draft.permission_id };
+        break;
+    }
+
+    setChanges((prev) => [...prev, change]);
+    setDraft({ ...emptyDraft, type: draft.type });
+    setResult(null);
+  };
+
+  const removeChange = (index: number) => {
+    setChanges((prev) => prev.filter((_, i) => i !== index));
+    setResult(null);
+  };
+
+  const handleSimulate = async () => {
+    try {
+      setSimulating(true);
+
+      const response = await fetch('/api/simulate', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ changes }),
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        const details = Array.isArray(data.details)
+          ? data.details
+              .map((detail: { message: string }) => detail.message)
+              .join(', ')
+          : null;
+        throw new Error(details || data.error || 'Failed to simulate changes');
+      }
+
+      setResult(data.data);
+    } catch (err) {
+      console.error('Error simulating changes:', err);
+      toast({
+        title: 'Error',
+        description:
+          err instanceof Error ? err.message : 'Failed to simulate changes',
+        variant: 'destructive',
+      });
+    } finally {
+      setSimulating(false);
+    }
+  };
+
+  return (
+    <div className={`space-y-6 ${className || ''}`}>
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <FlaskConical className="h-5 w-5" />
+            Hypothetical Changes
+          </CardTitle>
+          <CardDescription>
+            Changes are applied in order to a copy of the current roles,
+            associations and user assignments. Nothing is saved.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <LoadingState
+            isLoading={loading}
+            error={error}
+            loadingMessage="Loading roles, permissions and users..."
+          >
+            <div className="grid gap-3 md:grid-cols-2 border rounded-lg p-4">
+              <div className="space-y-1">
+                <Label htmlFor="change-type">Change</Label>
+                <select
+                  id="change-type"
+                  value={draft.type}
+                  onChange={(e) =>
+                    setDraft({
+                      ...draft,
+                      type: e.target.value as ChangeType,
+                    })
+                  }
+                  className={selectClassName}
+                >
+                  {changeTypes.map((changeType) => (
+                    <option key={changeType.value} value={changeType.value}>
+                      {changeType.label}
+                    </option>
+                  ))}
+                </select>
+              </div>
+
+              {needsUser(draft.type) && (
+                <div className="space-y-1">
+                  <Label htmlFor="change-user">User</Label>
+                  <select
+                    id="change-user"
+                    value={draft.user_id}
+                    onChange={(e) =>
+                      setDraft({ ...draft, user_id: e.target.value })
+                    }
+                    className={selectClassName}
+                  >
+                    <option value="">Select...</option>
+                    {users.map((user) => (
+                      <option key={user.id} value={user.id}>
+                        {user.email ?? user.id}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+              )}
+
+              {needsRole(draft.type) && (
+                <div className="space-y-1">
+                  <Label htmlFor="change-role">Role</Label>
+                  <select
+                    id="change-role"
+                    value={draft.role_id}
+                    onChange={(e) =>
+                      setDraft({ ...draft, role_id: e.target.value })
+                    }
+                    className={selectClassName}
+                  >
+                    <option value="">Select...</option>
+                    {roles.map((role) => (
+                      <option key={role.id} value={role.id}>
+                        {role.name}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+              )}
+
+              {needsPermission(draft.type) && (
+                <div className="space-y-1">
+                  <Label htmlFor="change-permission">Permission</Label>
+                  <select
+                    id="change-permission"
+                    value={draft.permission_id}
+                    onChange={(e) =>
+                      setDraft({ ...draft, permission_id: e.target.value })
+                    }
+                    className={selectClassName}
+                  >
+                    <option value="">Select...</option>
+                    {permissions.map((permission) => (
+                      <option key={permission.id} value={permission.id}>
+                        {permission.name}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+              )}
+
+              {needsUser(draft.type) && (
+                <div className="grid grid-cols-2 gap-3">
+                  <div className="space-y-1">
+                    <Label htmlFor="change-scope-type">Scope type</Label>
+                    <Input
+                      id="change-scope-type"
+                      value={draft.scope_type}
+                      onChange={(e) =>
+                        setDraft({ ...draft, scope_type: e.target.value })
+                      }
+                    />
+                  </div>
+                  <div className="space-y-1">
+                    <Label htmlFor="change-scope-id">Scope ID</Label>
+                    <Input
+                      id="change-scope-id"
+                      value={draft.scope_id}
+                      onChange={(e) =>
+                        setDraft({ ...draft, scope_id: e.target.value })
+                      }
+                    />
+                  </div>
+                </div>
+              )}
+
+              <div className="md:col-span-2 flex justify-end">
+                <Button
+                  type="button"
+                  variant="outline"
+                  onClick={addChange}
+                  disabled={!isDraftComplete}
+                >
+                  <Plus className="mr-2 h-4 w-4" />
+                  Add Change
+                </Button>
+              </div>
+            </div>
+
+            {changes.length > 0 && (
+              <ol className="space-y-2">
+                {changes.map((change, index) => (
+                  <li
+                    key={index}
+                    className="flex items-center justify-between rounded-md border px-3 py-2 text-sm"
+                  >
+                    <span>
+                      {index + 1}. {describeChange(change)}
+                    </span>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => removeChange(index)}
+                      aria-label={`Remove change ${index + 1}`}
+                    >
+                      <X className="h-4 w-4" />
+                    </Button>
+                  </li>
+                ))}
+              </ol>
+            )}
+
+            <div className="flex justify-end">
+              <Button
+                onClick={handleSimulate}
+                disabled={changes.length === 0 || simulating}
+              >
+                {simulating && (
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                )}
+                Simulate
+              </Button>
+            </div>
+          </LoadingState>
+        </CardContent>
+      </Card>
+
+      {result && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Impact</CardTitle>
+            <CardDescription>
+              {result.summary.users_affected === 0
+                ? 'No user would gain or lose a permission.'
+                : `${result.summary.users_affected} users affected: ${result.summary.grants_gained} permissions gained, ${result.summary.grants_lost} lost.`}
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {result.warnings.length > 0 && (
+              <Alert>
+                <AlertDescription>
+                  <ul className="list-disc pl-4">
+                    {result.warnings.map((warning) => (
+                      <li key={warning}>{warning}</li>
+                    ))}
+                  </ul>
+                </AlertDescription>
+              </Alert>
+            )}
+
+            {result.users.length > 0 && (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>User</TableHead>
+                    <TableHead>Gains</TableHead>
+                    <TableHead>Loses</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {result.users.map((user) => (
+                    <TableRow key={user.user_id}>
+                      <TableCell className="font-medium">
+                        {user.user_email ?? user.user_id}
+                      </TableCell>
+                      <TableCell>
+                        <div className="flex flex-wrap gap-1">
+                          {user.gained.map((grant) => (
+                            <Badge
+                              key={grantLabel(grant)}
+                              variant="outline"
+                              className="text-green-700 dark:text-green-400"
+                            >
+                              + {grantLabel(grant)}
+                            </Badge>
+                          ))}
+                        </div>
+                      </TableCell>
+                      <TableCell>
+                        <div className="flex flex-wrap gap-1">
+                          {user.lost.map((grant) => (
+                            <Badge
+                              key={grantLabel(grant)}
+                              variant="outline"
+                              className="text-red-700 dark:text-red-400"
+                            >
+                              − {grantLabel(grant)}
+                            </Badge>
+                          ))}
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,2 @@
+export { SnapshotList } from './snapshot-list';
+export { SnapshotDiff } from './snapshot-diff';
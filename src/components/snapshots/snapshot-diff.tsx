@@ -0,0 +1,143 @@
+'use client';
+
+import { Badge } from '@/components/ui/badge';
+import { formatScope } from '@/lib/rbac-utils';
+import type { RbacDiff, UserRoleRef } from '@/lib/types';
+
+interface DiffLine {
+  kind: 'added' | 'removed' | 'changed';
+  text: string;
+}
+
+const kindStyles: Record<DiffLine['kind'], string> = {
+  added: 'text-green-700 dark:text-green-400',
+  removed: 'text-red-700 dark:text-red-400',
+  changed: 'text-yellow-700 dark:text-yellow-400',
+};
+
+const kindMarks: Record<DiffLine['kind'], string> = {
+  added: '+',
+  removed: '−',
+  changed: '~',
+};
+
+const userRoleLabel = (userRole: UserRoleRef) => {
+  const scope = formatScope(userRole);
+  return `${userRole.user_id} → ${userRole.role_name}${scope ? ` on ${scope}` : ''}`;
+};
+
+const validityLabel = (userRole: UserRoleRef) =>
+  userRole.valid_until
+    ? `until ${new Date(userRole.valid_until).toLocaleString()}`
+    : 'no expiry';
+
+// Turn a diff into readable lines, grouped by table
+function describeDiff(diff: RbacDiff): { title: string; lines: DiffLine[] }[] {
+  return [
+    {
+      title: 'Permissions',
+      lines: [
+        ...diff.permissions.added.map((permission) => ({
+          kind: 'added' as const,
+          text: permission.name,
+        })),
+        ...diff.permissions.removed.map((permission) => ({
+          kind: 'removed' as const,
+          text: permission.name,
+        })),
+        ...diff.permissions.changed.map(({ before, after }) => ({
+          kind: 'changed' as const,
+          text:
+            before.name !== after.name
+              ? `${before.name} renamed to ${after.name}`
+              : `${after.name}: description changed`,
+        })),
+      ],
+    },
+    {
+      title: 'Roles',
+      lines: [
+        ...diff.roles.added.map((role) => ({
+          kind: 'added' as const,
+          text: role.name,
+        })),
+        ...diff.roles.removed.map((role) => ({
+          kind: 'removed' as const,
+          text: role.name,
+        })),
+        ...diff.roles.changed.map(({ before, after }) => ({
+          kind: 'changed' as const,
+          text:
+            before.name !== after.name
+              ? `${before.name} renamed to ${after.name}`
+              : `${after.name}: parent role changed`,
+        })),
+      ],
+    },
+    {
+      title: 'Associations',
+      lines: [
+        ...diff.role_permissions.added.map((association) => ({
+          kind: 'added' as const,
+          text: `${association.role_name} → ${association.permission_name}`,
+        })),
+        ...diff.role_permissions.removed.map((association) => ({
+          kind: 'removed' as const,
+          text: `${association.role_name} → ${association.permission_name}`,
+        })),
+      ],
+    },
+    {
+      title: 'User roles',
+      lines: [
+        ...diff.user_roles.added.map((userRole) => ({
+          kind: 'added' as const,
+          text: userRoleLabel(userRole),
+        })),
+        ...diff.user_roles.removed.map((userRole) => ({
+          kind: 'removed' as const,
+          text: userRoleLabel(userRole),
+        })),
+        ...diff.user_roles.changed.map(({ before, after }) => ({
+          kind: 'changed' as const,
+          text: `${userRoleLabel(after)}: ${validityLabel(before)} → ${validityLabel(after)}`,
+        })),
+      ],
+    },
+  ].filter((section) => section.lines.length > 0);
+}
+
+interface SnapshotDiffProps {
+  diff: RbacDiff;
+  className?: string;
+}
+
+export function SnapshotDiff({ diff, className }: SnapshotDiffProps) {
+  if (diff.total === 0) {
+    return (
+      <p className={`text-sm text-muted-foreground ${className || ''}`}>
+        No differences.
+      </p>
+    );
+  }
+
+  return (
+    <div className={`space-y-4 ${className || ''}`}>
+      {describeDiff(diff).map((section) => (
+        <div key={section.title} className="space-y-1">
+          <div className="flex items-center gap-2">
+            <h4 className="text-sm font-medium">{section.title}</h4>
+            <Badge variant="outline">{section.lines.length}</Badge>
+          </div>
+          <ul className="font-mono text-xs space-y-0.5">
+            {section.lines.map((line, index) => (
+              <li key={index} className={kindStyles[line.kind]}>
+                {kindMarks[line.kind]} {line.text}
+              </li>
+            ))}
+          </ul>
+        </div>
+      ))}
+    </div>
+  );
+}
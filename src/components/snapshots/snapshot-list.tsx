@@ -0,0 +1,516 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import {
+  Camera,
+  GitCompare,
+  Loader2,
+  Plus,
+  RotateCcw,
+  Trash2,
+} from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from '@/components/ui/card';
+import { ConfirmationDialog } from '@/components/ui/confirmation-dialog';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { LoadingState } from '@/components/ui/loading';
+import { useToast } from '@/hooks/use-toast';
+import type { RbacDiff, RbacSnapshot } from '@/lib/types';
+import { SnapshotDiff } from './snapshot-diff';
+
+const selectClassName =
+  'border-input flex h-9 w-full rounded-md border bg-transparent px-3 py-1 text-base shadow-xs outline-none focus-visible:border-ring focus-visible:ring-ring/50 focus-visible:ring-[3px] disabled:cursor-not-allowed disabled:opacity-50 md:text-sm';
+
+const LIVE_STATE = 'live';
+
+const emptyForm = { name: '', description: '' };
+
+async function fetchDiff(from: string, to: string): Promise<RbacDiff> {
+  const response = await fetch(
+    `/api/snapshots/diff?${new URLSearchParams({ from, to })}`
+  );
+  const result = await response.json();
+
+  if (!response.ok) {
+    throw new Error(result.error || 'Failed to compare snapshots');
+  }
+
+  return result.data.diff;
+}
+
+interface SnapshotListProps {
+  className?: string;
+}
+
+export function SnapshotList({ className }: SnapshotListProps) {
+  const [snapshots, setSnapshots] = useState<RbacSnapshot[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [form, setForm] = useState(emptyForm);
+  const [saving, setSaving] = useState(false);
+  const [compare, setCompare] = useState({ from: '', to: LIVE_STATE });
+  const [comparison, setComparison] = useState<RbacDiff | null>(null);
+  const [comparing, setComparing] = useState(false);
+  const [restoring, setRestoring] = useState<RbacSnapshot | null>(null);
+  const [restorePreview, setRestorePreview] = useState<RbacDiff | null>(null);
+  const [restoreLoading, setRestoreLoading] = useState(false);
+  const [deleting, setDeleting] = useState<RbacSnapshot | null>(null);
+  const [deleteLoading, setDeleteLoading] = useState(false);
+  const { toast } = useToast();
+
+  const fetchSnapshots = useCallback(async () => {
+    try {
+      setError(null);
+
+      const response = await fetch('/api/snapshots');
+      const result = await response.json();
+
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to fetch snapshots');
+      }
+
+      setSnapshots(result.data || []);
+    } catch (err) {
+      console.error('Error fetching snapshots:', err);
+      setError(
+        err instanceof Error ? err.message : 'Failed to fetch snapshots'
+      );
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchSnapshots();
+  }, [fetchSnapshots]);
+
+  const showError = (err: unknown, fallback: string) => {
+    toast({
+      title: 'Error',
+      description: err instanceof Error ? err.message : fallback,
+      variant: 'destructive',
+    });
+  };
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    try {
+      setSaving(true);
+
+      const response = await fetch('/api/snapshots', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          name: form.name,
+          description: form.description || null,
+        }),
+      });
+
+      const result = await response.json();
+
+      if (!response.ok) {
+        const details = Array.isArray(result.details)
+          ? result.details
+              .map((detail: { message: string }) => detail.message)
+              .join(', ')
+          : null;
+        throw new Error(details || result.error || 'Failed to create snapshot');
+      }
+
+      toast({
+        title: 'Success',
+        description: result.message || 'Snapshot created',
+        variant: 'success',
+      });
+
+      setForm(emptyForm);
+      await fetchSnapshots();
+    } catch (err) {
+      console.error('Error creating snapshot:', err);
+      showError(err, 'Failed to create snapshot');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleCompare = async () => {
+    try {
+      setComparing(true);
+      setComparison(await fetchDiff(compare.from, compare.to));
+    } catch (err) {
+      console.error('Error comparing snapshots:', err);
+      showError(err, 'Failed to compare snapshots');
+    } finally {
+      setComparing(false);
+    }
+  };
+
+  // Show what the restore would change before asking for confirmation
+  const openRestore = async (snapshot: RbacSnapshot) => {
+    setRestoring(snapshot);
+    setRestorePreview(null);
+
+    try {
+      setRestorePreview(await fetchDiff(LIVE_STATE, snapshot.id));
+    } catch (err) {
+      console.error('Error previewing restore:', err);
+      showError(err, 'Failed to preview restore');
+      setRestoring(null);
+    }
+  };
+
+  const handleRestore = async () => {
+    if (!restoring) return;
+
+    try {
+      setRestoreLoading(true);
+
+      const response = await fetch(`/api/snapshots/${restoring.id}/restore`, {
+        method: 'POST',
+      });
+
+      const result = await response.json();
+
+      if (!response.ok) {
+        throw new Error(
+          result.message || result.error || 'Failed to restore snapshot'
+        );
+      }
+
+      toast({
+        title: 'Success',
+        description: result.message,
+        variant: 'success',
+      });
+
+      setRestoring(null);
+      setComparison(null);
+      await fetchSnapshots();
+    } catch (err) {
+      console.error('Error restoring snapshot:', err);
+      showError(err, 'Failed to restore snapshot');
+    } finally {
+      setRestoreLoading(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!deleting) return;
+
+    try {
+      setDeleteLoading(true);
+
+      const response = await fetch(`/api/snapshots/${deleting.id}`, {
+        method: 'DELETE',
+      });
+
+      const result = await response.json();
+
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to delete snapshot');
+      }
+
+      toast({
+        title: 'Success',
+        description: result.message,
+        variant: 'success',
+      });
+
+      setDeleting(null);
+      await fetchSnapshots();
+    } catch (err) {
+      console.error('Error deleting snapshot:', err);
+      showError(err, 'Failed to delete snapshot');
+    } finally {
+      setDeleteLoading(false);
+    }
+  };
+
+  const formatDate = (dateString: string) =>
+    new Date(dateString).toLocaleString('en-US', {
+      year: 'numeric',
+      month: 'short',
+      day: 'numeric',
+      hour: '2-digit',
+      minute: '2-digit',
+    });
+
+  return (
+    <div className={`space-y-6 ${className || ''}`}>
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Camera className="h-5 w-5" />
+            Snapshots
+          </CardTitle>
+          <CardDescription>
+            Capture permissions, roles, associations and user role assignments.
+            Restoring a snapshot re-creates deleted rows with their original
+            IDs; the state before the restore is snapshotted automatically.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          <form
+            onSubmit={handleCreate}
+            className="grid gap-3 md:grid-cols-[1fr_2fr_auto] items-end border rounded-lg p-4"
+          >
+            <div className="space-y-1">
+              <Label htmlFor="snapshot-name">Name</Label>
+              <Input
+                id="snapshot-name"
+                placeholder="e.g., Before quarterly cleanup"
+                value={form.name}
+                onChange={(e) => setForm({ ...form, name: e.target.value })}
+                disabled={saving}
+                required
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="snapshot-description">
+                Description (optional)
+              </Label>
+              <Input
+                id="snapshot-description"
+                value={form.description}
+                onChange={(e) =>
+                  setForm({ ...form, description: e.target.value })
+                }
+                disabled={saving}
+              />
+            </div>
+            <Button type="submit" disabled={saving}>
+              {saving ? (
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              ) : (
+                <Plus className="mr-2 h-4 w-4" />
+              )}
+              Take Snapshot
+            </Button>
+          </form>
+
+          <LoadingState
+            isLoading={loading}
+            error={error}
+            isEmpty={snapshots.length === 0}
+            loadingMessage="Loading snapshots..."
+            emptyMessage="No snapshots yet."
+          >
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Name</TableHead>
+                  <TableHead>Created</TableHead>
+                  <TableHead>Contents</TableHead>
+                  <TableHead className="w-[140px]" />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {snapshots.map((snapshot) => (
+                  <TableRow key={snapshot.id}>
+                    <TableCell>
+                      <div className="font-medium">{snapshot.name}</div>
+                      {snapshot.description && (
+                        <div className="text-xs text-muted-foreground">
+                          {snapshot.description}
+                        </div>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-sm">
+                      <div>{formatDate(snapshot.created_at)}</div>
+                      {snapshot.created_by_email && (
+                        <div className="text-muted-foreground">
+                          {snapshot.created_by_email}
+                        </div>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-sm text-muted-foreground">
+                      {snapshot.counts.permissions} permissions,{' '}
+                      {snapshot.counts.roles} roles,{' '}
+                      {snapshot.counts.role_permissions} associations,{' '}
+                      {snapshot.counts.user_roles} user roles
+                    </TableCell>
+                    <TableCell>
+                      <div className="flex justify-end gap-1">
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => openRestore(snapshot)}
+                          aria-label={`Restore ${snapshot.name}`}
+                          title="Restore"
+                        >
+                          <RotateCcw className="h-4 w-4" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => setDeleting(snapshot)}
+                          aria-label={`Delete ${snapshot.name}`}
+                          title="Delete"
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </LoadingState>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <GitCompare className="h-5 w-5" />
+            Compare
+          </CardTitle>
+          <CardDescription>
+            See what changed between two snapshots, or between a snapshot and
+            the live state.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="grid gap-3 md:grid-cols-[1fr_1fr_auto] items-end">
+            <div className="space-y-1">
+              <Label htmlFor="compare-from">From</Label>
+              <select
+                id="compare-from"
+                value={compare.from}
+                onChange={(e) =>
+                  setCompare({ ...compare, from: e.target.value })
+                }
+                className={selectClassName}
+              >
+                <option value="">Select...</option>
+                <option value={LIVE_STATE}>Live state</option>
+                {snapshots.map((snapshot) => (
+                  <option key={snapshot.id} value={snapshot.id}>
+                    {snapshot.name} ({formatDate(snapshot.created_at)})
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="compare-to">To</Label>
+              <select
+                id="compare-to"
+                value={compare.to}
+                onChange={(e) => setCompare({ ...compare, to: e.target.value })}
+                className={selectClassName}
+              >
+                <option value={LIVE_STATE}>Live state</option>
+                {snapshots.map((snapshot) => (
+                  <option key={snapshot.id} value={snapshot.id}>
+                    {snapshot.name} ({formatDate(snapshot.created_at)})
+                  </option>
+                ))}
+              </select>
+            </div>
+            <Button
+              onClick={handleCompare}
+              disabled={!compare.from || comparing}
+            >
+              {comparing && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Compare
+            </Button>
+          </div>
+
+          {comparison && <SnapshotDiff diff={comparison} />}
+        </CardContent>
+      </Card>
+
+      <Dialog
+        open={restoring !== null}
+        onOpenChange={(open) => {
+          if (!open && !restoreLoading) setRestoring(null);
+        }}
+      >
+        <DialogContent className="sm:max-w-[600px]">
+          <DialogHeader>
+            <DialogTitle>Restore Snapshot</DialogTitle>
+            <DialogDescription>
+              Restoring &quot;{restoring?.name}&quot; makes these changes to the
+              live state. The current state is snapshotted first so you can undo
+              the restore.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="max-h-[50vh] overflow-y-auto">
+            {restorePreview ? (
+              <SnapshotDiff diff={restorePreview} />
+            ) : (
+              <div className="flex items-center text-sm text-muted-foreground">
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                Comparing with the live state...
+              </div>
+            )}
+          </div>
+
+          <DialogFooter>
+            <Button
+              type="button"
+              variant="outline"
+              onClick={() => setRestoring(null)}
+              disabled={restoreLoading}
+            >
+              Cancel
+            </Button>
+            <Button
+              type="button"
+              variant="destructive"
+              onClick={handleRestore}
+              disabled={
+                restoreLoading || !restorePreview || restorePreview.total === 0
+              }
+            >
+              {restoreLoading ? (
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              ) : (
+                <RotateCcw className="mr-2 h-4 w-4" />
+              )}
+              Restore
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <ConfirmationDialog
+        isOpen={deleting !== null}
+        onClose={() => setDeleting(null)}
+        onConfirm={handleDelete}
+        title="Delete Snapshot"
+        description={`Delete "${deleting?.name}"? You will no longer be able to restore or compare it.`}
+        confirmText="Delete"
+        variant="destructive"
+        isLoading={deleteLoading}
+      />
+    </div>
+  );
+}
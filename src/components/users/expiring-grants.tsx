@@ -0,0 +1,173 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import Link from 'next/link';
+import { Clock } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from '@/components/ui/card';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { LoadingState } from '@/components/ui/loading';
+import { useToast } from '@/hooks/use-toast';
+import { createClient } from '@/lib/supabase/client';
+import { formatScope } from '@/lib/rbac-utils';
+import type { ExpiringGrant } from '@/lib/types';
+
+const WINDOW_OPTIONS = [1, 7, 30, 90];
+
+interface ExpiringGrantsProps {
+  className?: string;
+}
+
+export function ExpiringGrants({ className }: ExpiringGrantsProps) {
+  const [grants, setGrants] = useState<ExpiringGrant[]>([]);
+  const [withinDays, setWithinDays] = useState(7);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const { toast } = useToast();
+
+  const supabase = createClient();
+
+  const fetchGrants = useCallback(async () => {
+    try {
+      setLoading(true);
+      setError(null);
+
+      const response = await fetch(
+        `/api/user-roles/expiring?within_days=${withinDays}`
+      );
+      const result = await response.json();
+
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to fetch expiring grants');
+      }
+
+      setGrants(result.data || []);
+    } catch (err) {
+      console.error('Error fetching expiring grants:', err);
+      const errorMessage =
+        err instanceof Error ? err.message : 'Failed to fetch expiring grants';
+      setError(errorMessage);
+      toast({
+        title: 'Error',
+        description: errorMessage,
+        variant: 'destructive',
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [withinDays, toast]);
+
+  // Refresh when assignments change
+  useEffect(() => {
+    fetchGrants();
+
+    const channel = supabase
+      .channel('expiring-grants-changes')
+      .on(
+        'postgres_changes',
+        { event: '*', schema: 'public', table: 'user_roles' },
+        () => {
+          fetchGrants();
+        }
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [fetchGrants, supabase]);
+
+  return (
+    <div className={className}>
+      <Card>
+        <CardHeader>
+          <div className="flex items-start justify-between gap-4">
+            <div className="space-y-1.5">
+              <CardTitle className="flex items-center gap-2">
+                <Clock className="h-5 w-5" />
+                Expiring Access
+              </CardTitle>
+              <CardDescription>
+                Time-bound role assignments ending soon. Expired assignments no
+                longer grant access and are removed by the nightly cleanup.
+              </CardDescription>
+            </div>
+            <select
+              value={withinDays}
+              onChange={(e) => setWithinDays(Number(e.target.value))}
+              className="border-input flex h-9 rounded-md border bg-transparent px-3 py-1 text-base shadow-xs outline-none focus-visible:border-ring focus-visible:ring-ring/50 focus-visible:ring-[3px] md:text-sm"
+              aria-label="Expiry window"
+            >
+              {WINDOW_OPTIONS.map((days) => (
+                <option key={days} value={days}>
+                  Next {days} {days === 1 ? 'day' : 'days'}
+                </option>
+              ))}
+            </select>
+          </div>
+        </CardHeader>
+        <CardContent>
+          <LoadingState
+            isLoading={loading}
+            error={error}
+            isEmpty={grants.length === 0}
+            loadingMessage="Loading expiring grants..."
+            emptyMessage="No assignments expire in this window."
+          >
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>User</TableHead>
+                  <TableHead>Role</TableHead>
+                  <TableHead>Scope</TableHead>
+                  <TableHead>Valid Until</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {grants.map((grant) => (
+                  <TableRow
+                    key={`${grant.user_id}:${grant.role.id}:${grant.scope_type}:${grant.scope_id}`}
+                  >
+                    <TableCell>
+                      <Link
+                        href={`/users/${grant.user_id}`}
+                        className="hover:underline"
+                      >
+                        {grant.user_email || grant.user_id}
+                      </Link>
+                    </TableCell>
+                    <TableCell>{grant.role.name}</TableCell>
+                    <TableCell className="font-mono text-sm">
+                      {formatScope(grant) || 'global'}
+                    </TableCell>
+                    <TableCell>
+                      <div className="flex items-center gap-2">
+                        {new Date(grant.valid_until).toLocaleString()}
+                        {grant.expired && (
+                          <Badge variant="destructive">Expired</Badge>
+                        )}
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </LoadingState>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,4 @@
+export { UserList } from './user-list';
+export { UserDetail } from './user-detail';
+export { ExpiringGrants } from './expiring-grants';
+export { PermissionExplainer } from './permission-explainer';
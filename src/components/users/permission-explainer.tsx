@@ -0,0 +1,253 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { CheckCircle2, Loader2, Search, XCircle } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { LoadingState } from '@/components/ui/loading';
+import { useToast } from '@/hooks/use-toast';
+import { formatScope } from '@/lib/rbac-utils';
+import type {
+  PermissionDecision,
+  PermissionGrantPath,
+  UserAccessExplanation,
+  UserRoleAssignment,
+} from '@/lib/types';
+
+// "user → Lead → Manager", with the scope and expiry of the assignment
+function GrantPath({ path }: { path: PermissionGrantPath }) {
+  const scope = formatScope(path);
+  return (
+    <div className="text-xs text-muted-foreground">
+      <span className="font-mono">
+        user → {path.roles.map((role) => role.name).join(' → ')}
+      </span>
+      {path.roles.length > 1 && <span> (inherited)</span>}
+      {scope && <span className="font-mono"> on {scope}</span>}
+      {path.valid_until && (
+        <span> until {new Date(path.valid_until).toLocaleString()}</span>
+      )}
+    </div>
+  );
+}
+
+interface PermissionExplainerProps {
+  userId: string;
+  // Re-explain whenever the user's assignments change
+  assignments: UserRoleAssignment[];
+  className?: string;
+}
+
+export function PermissionExplainer({
+  userId,
+  assignments,
+  className,
+}: PermissionExplainerProps) {
+  const [explanation, setExplanation] = useState<UserAccessExplanation | null>(
+    null
+  );
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [check, setCheck] = useState({
+    permission_name: '',
+    resource_type: '',
+    resource_id: '',
+  });
+  const [decision, setDecision] = useState<PermissionDecision | null>(null);
+  const [checking, setChecking] = useState(false);
+  const { toast } = useToast();
+
+  const fetchExplanation = useCallback(async () => {
+    try {
+      setError(null);
+
+      const response = await fetch(`/api/users/${userId}/explain`);
+      const result = await response.json();
+
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to explain permissions');
+      }
+
+      setExplanation(result.data);
+    } catch (err) {
+      console.error('Error explaining permissions:', err);
+      setError(
+        err instanceof Error ? err.message : 'Failed to explain permissions'
+      );
+    } finally {
+      setLoading(false);
+    }
+  }, [userId]);
+
+  useEffect(() => {
+    fetchExplanation();
+    setDecision(null);
+  }, [fetchExplanation, assignments]);
+
+  const handleCheck = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    try {
+      setChecking(true);
+
+      const params = new URLSearchParams({
+        permission_name: check.permission_name.trim(),
+      });
+      if (check.resource_type.trim()) {
+        params.append('resource_type', check.resource_type.trim());
+        params.append('resource_id', check.resource_id.trim() || '*');
+      }
+
+      const response = await fetch(`/api/users/${userId}/explain?${params}`);
+      const result = await response.json();
+
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to explain permission');
+      }
+
+      setDecision(result.data.decision);
+    } catch (err) {
+      console.error('Error explaining permission:', err);
+      toast({
+        title: 'Error',
+        description:
+          err instanceof Error ? err.message : 'Failed to explain permission',
+        variant: 'destructive',
+      });
+    } finally {
+      setChecking(false);
+    }
+  };
+
+  return (
+    <Card className={className}>
+      <CardHeader>
+        <CardTitle>Access Explainer</CardTitle>
+        <CardDescription>
+          Every permission this user holds and the roles it comes through,
+          including inherited and resource-scoped grants
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <form
+          onSubmit={handleCheck}
+          className="grid gap-3 md:grid-cols-[2fr_1fr_1fr_auto] items-end border rounded-lg p-4"
+        >
+          <div className="space-y-1">
+            <Label htmlFor="explain-permission" className="text-xs">
+              Why can or can&apos;t this user...
+            </Label>
+            <Input
+              id="explain-permission"
+              placeholder="e.g., write_users"
+              value={check.permission_name}
+              onChange={(e) =>
+                setCheck({ ...check, permission_name: e.target.value })
+              }
+              list="explain-permission-options"
+              required
+            />
+            <datalist id="explain-permission-options">
+              {explanation?.permissions.map((permission) => (
+                <option key={permission.id} value={permission.name} />
+              ))}
+            </datalist>
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="explain-resource-type" className="text-xs">
+              Resource type (optional)
+            </Label>
+            <Input
+              id="explain-resource-type"
+              placeholder="e.g., project"
+              value={check.resource_type}
+              onChange={(e) =>
+                setCheck({ ...check, resource_type: e.target.value })
+              }
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="explain-resource-id" className="text-xs">
+              Resource ID
+            </Label>
+            <Input
+              id="explain-resource-id"
+              placeholder="* for all"
+              value={check.resource_id}
+              onChange={(e) =>
+                setCheck({ ...check, resource_id: e.target.value })
+              }
+              disabled={!check.resource_type.trim()}
+            />
+          </div>
+          <Button
+            type="submit"
+            variant="outline"
+            disabled={checking || !check.permission_name.trim()}
+          >
+            {checking ? (
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+            ) : (
+              <Search className="mr-2 h-4 w-4" />
+            )}
+            Explain
+          </Button>
+
+          {decision && (
+            <div className="md:col-span-4 flex items-start gap-2 text-sm">
+              {decision.allowed ? (
+                <CheckCircle2 className="h-4 w-4 mt-0.5 text-green-600" />
+              ) : (
+                <XCircle className="h-4 w-4 mt-0.5 text-red-600" />
+              )}
+              <span>
+                <span className="font-medium">
+                  {decision.allowed ? 'Allowed' : 'Denied'}:
+                </span>{' '}
+                {decision.reason}
+              </span>
+            </div>
+          )}
+        </form>
+
+        <LoadingState
+          isLoading={loading}
+          error={error}
+          isEmpty={explanation?.permissions.length === 0}
+          loadingMessage="Explaining permissions..."
+          emptyMessage="This user has no active permissions."
+        >
+          <div className="space-y-2">
+            {explanation?.permissions.map((permission) => (
+              <div
+                key={permission.id}
+                className="py-2 border-b border-border last:border-b-0 space-y-1"
+              >
+                <div className="flex items-center gap-2">
+                  <span className="font-medium text-sm">{permission.name}</span>
+                  {permission.paths.length > 1 && (
+                    <Badge variant="outline">
+                      {permission.paths.length} paths
+                    </Badge>
+                  )}
+                </div>
+                {permission.paths.map((path, index) => (
+                  <GrantPath key={index} path={path} />
+                ))}
+              </div>
+            ))}
+          </div>
+        </LoadingState>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,420 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import Link from 'next/link';
+import { ArrowLeft, Loader2, Plus, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from '@/components/ui/card';
+import { LoadingState } from '@/components/ui/loading';
+import { useToast } from '@/hooks/use-toast';
+import { formatScope } from '@/lib/rbac-utils';
+import type { Role, UserRoleAssignment, UserWithRoles } from '@/lib/types';
+import { PermissionExplainer } from './permission-explainer';
+
+// Identifies an assignment while its request is in flight
+const assignmentKey = (roleId: string, scopeType: string, scopeId: string) =>
+  `${roleId}:${scopeType}:${scopeId}`;
+
+const isExpired = (assignment: UserRoleAssignment) =>
+  !!assignment.valid_until && new Date(assignment.valid_until) <= new Date();
+
+interface UserDetailProps {
+  userId: string;
+  className?: string;
+}
+
+export function UserDetail({ userId, className }: UserDetailProps) {
+  const [user, setUser] = useState<UserWithRoles | null>(null);
+  const [roles, setRoles] = useState<Role[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [pendingKey, setPendingKey] = useState<string | null>(null);
+  const [scopeType, setScopeType] = useState('');
+  const [scopeId, setScopeId] = useState('');
+  const [validUntil, setValidUntil] = useState('');
+  const { toast } = useToast();
+
+  const fetchUser = useCallback(async () => {
+    try {
+      setError(null);
+
+      const [userResponse, rolesResponse] = await Promise.all([
+        fetch(`/api/users/${userId}`),
+        fetch('/api/roles?limit=100'),
+      ]);
+
+      const [userResult, rolesResult] = await Promise.all([
+        userResponse.json(),
+        rolesResponse.json(),
+      ]);
+
+      if (!userResponse.ok) {
+        throw new Error(userResult.error || 'Failed to fetch user');
+      }
+
+      if (!rolesResponse.ok) {
+        throw new Error(rolesResult.error || 'Failed to fetch roles');
+      }
+
+      setUser(userResult.data);
+      setRoles(rolesResult.data || []);
+    } catch (err) {
+      console.error('Error fetching user:', err);
+      setError(err instanceof Error ? err.message : 'Failed to fetch user');
+    } finally {
+      setLoading(false);
+    }
+  }, [userId]);
+
+  useEffect(() => {
+    fetchUser();
+  }, [fetchUser]);
+
+  // Assignments are global unless a scope type is entered; an empty ID then
+  // covers every resource of that type
+  const scope = scopeType.trim()
+    ? { scope_type: scopeType.trim(), scope_id: scopeId.trim() || '*' }
+    : { scope_type: '*', scope_id: '*' };
+
+  const handleAssignRole = async (role: Role) => {
+    try {
+      setPendingKey(assignmentKey(role.id, scope.scope_type, scope.scope_id));
+
+      const response = await fetch(`/api/users/${userId}/roles`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          role_id: role.id,
+          ...scope,
+          // datetime-local values are in the browser's time zone
+          ...(validUntil && {
+            valid_until: new Date(validUntil).toISOString(),
+          }),
+        }),
+      });
+
+      const result = await response.json();
+
+      if (!response.ok) {
+        const details = Array.isArray(result.details)
+          ? result.details
+              .map((detail: { message: string }) => detail.message)
+              .join(', ')
+          : null;
+        throw new Error(details || result.error || 'Failed to assign role');
+      }
+
+      toast({
+        title: 'Success',
+        description: result.message || `Role "${role.name}" assigned`,
+        variant: 'success',
+      });
+
+      await fetchUser();
+    } catch (err) {
+      console.error('Error assigning role:', err);
+      toast({
+        title: 'Error',
+        description: err instanceof Error ? err.message : 'Failed to assign',
+        variant: 'destructive',
+      });
+    } finally {
+      setPendingKey(null);
+    }
+  };
+
+  const handleRemoveRole = async (assignment: UserRoleAssignment) => {
+    const { role } = assignment;
+    try {
+      setPendingKey(
+        assignmentKey(role.id, assignment.scope_type, assignment.scope_id)
+      );
+
+      const params = new URLSearchParams({
+        role_id: role.id,
+        scope_type: assignment.scope_type,
+        scope_id: assignment.scope_id,
+      });
+      const response = await fetch(
+        `/api/users/${userId}/roles?${params.toString()}`,
+        { method: 'DELETE' }
+      );
+
+      const result = await response.json();
+
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to remove role');
+      }
+
+      toast({
+        title: 'Success',
+        description: `Role "${role.name}" removed`,
+        variant: 'success',
+      });
+
+      await fetchUser();
+    } catch (err) {
+      console.error('Error removing role:', err);
+      toast({
+        title: 'Error',
+        description: err instanceof Error ? err.message : 'Failed to remove',
+        variant: 'destructive',
+      });
+    } finally {
+      setPendingKey(null);
+    }
+  };
+
+  // Roles not yet assigned for the selected scope; expired assignments can be
+  // granted again and are replaced
+  const assignedKeys = new Set(
+    user?.assignments
+      .filter((assignment) => !isExpired(assignment))
+      .map((assignment) =>
+        assignmentKey(
+          assignment.role.id,
+          assignment.scope_type,
+          assignment.scope_id
+        )
+      ) || []
+  );
+  const availableRoles = roles.filter(
+    (role) =>
+      !assignedKeys.has(
+        assignmentKey(role.id, scope.scope_type, scope.scope_id)
+      )
+  );
+
+  return (
+    <div className={`space-y-6 ${className || ''}`}>
+      <Button variant="ghost" size="sm" asChild>
+        <Link href="/users">
+          <ArrowLeft className="h-4 w-4 mr-2" />
+          Back to users
+        </Link>
+      </Button>
+
+      <LoadingState
+        isLoading={loading}
+        error={error}
+        isEmpty={!user}
+        loadingMessage="Loading user..."
+        emptyMessage="User not found."
+      >
+        {user && (
+          <div className="space-y-6">
+            <div>
+              <h1 className="text-3xl font-bold tracking-tight">
+                {user.email || user.id}
+              </h1>
+              <p className="text-muted-foreground">
+                Member since{' '}
+                {new Date(user.created_at).toLocaleDateString('en-US', {
+                  year: 'numeric',
+                  month: 'short',
+                  day: 'numeric',
+                })}
+              </p>
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+              {/* Assigned Roles */}
+              <Card>
+                <CardHeader>
+                  <CardTitle>Assigned Roles</CardTitle>
+                  <CardDescription>
+                    Roles granted directly to this user, globally or for a
+                    resource
+                  </CardDescription>
+                </CardHeader>
+                <CardContent className="space-y-4">
+                  {user.assignments.length === 0 ? (
+                    <p className="text-sm text-muted-foreground">
+                      This user has no roles yet.
+                    </p>
+                  ) : (
+                    <div className="flex flex-wrap gap-2">
+                      {user.assignments.map((assignment) => {
+                        const key = assignmentKey(
+                          assignment.role.id,
+                          assignment.scope_type,
+                          assignment.scope_id
+                        );
+                        const scopeLabel = formatScope(assignment);
+                        return (
+                          <Badge
+                            key={key}
+                            variant={scopeLabel ? 'outline' : 'secondary'}
+                            className={`flex items-center gap-1 ${
+                              assignment.active ? '' : 'opacity-60'
+                            }`}
+                            title={
+                              assignment.active
+                                ? undefined
+                                : isExpired(assignment)
+                                  ? 'Expired'
+                                  : 'Not yet active'
+                            }
+                          >
+                            {assignment.role.name}
+                            {scopeLabel && (
+                              <span className="font-mono text-muted-foreground">
+                                @{scopeLabel}
+                              </span>
+                            )}
+                            {assignment.valid_until && (
+                              <span className="text-muted-foreground">
+                                until{' '}
+                                {new Date(
+                                  assignment.valid_until
+                                ).toLocaleString()}
+                              </span>
+                            )}
+                            <button
+                              type="button"
+                              onClick={() => handleRemoveRole(assignment)}
+                              disabled={pendingKey !== null}
+                              className="ml-1 rounded-full hover:text-destructive"
+                              aria-label={`Remove ${assignment.role.name}`}
+                            >
+                              {pendingKey === key ? (
+                                <Loader2 className="h-3 w-3 animate-spin" />
+                              ) : (
+                                <X className="h-3 w-3" />
+                              )}
+                            </button>
+                          </Badge>
+                        );
+                      })}
+                    </div>
+                  )}
+
+                  <div className="space-y-3 pt-4 border-t">
+                    <h4 className="text-sm font-medium">Assign a role</h4>
+                    <div className="grid grid-cols-2 gap-2">
+                      <div className="space-y-1">
+                        <Label htmlFor="scope-type" className="text-xs">
+                          Resource type (optional)
+                        </Label>
+                        <Input
+                          id="scope-type"
+                          placeholder="e.g., project"
+                          value={scopeType}
+                          onChange={(e) => setScopeType(e.target.value)}
+                        />
+                      </div>
+                      <div className="space-y-1">
+                        <Label htmlFor="scope-id" className="text-xs">
+                          Resource ID
+                        </Label>
+                        <Input
+                          id="scope-id"
+                          placeholder="* for all"
+                          value={scopeId}
+                          onChange={(e) => setScopeId(e.target.value)}
+                          disabled={!scopeType.trim()}
+                        />
+                      </div>
+                      <div className="space-y-1 col-span-2">
+                        <Label htmlFor="valid-until" className="text-xs">
+                          Valid until (optional)
+                        </Label>
+                        <Input
+                          id="valid-until"
+                          type="datetime-local"
+                          value={validUntil}
+                          onChange={(e) => setValidUntil(e.target.value)}
+                        />
+                      </div>
+                    </div>
+                    {availableRoles.length === 0 ? (
+                      <p className="text-sm text-muted-foreground">
+                        Every role is already assigned for this scope.
+                      </p>
+                    ) : (
+                      <div className="flex flex-wrap gap-2">
+                        {availableRoles.map((role) => (
+                          <Button
+                            key={role.id}
+                            variant="outline"
+                            size="sm"
+                            onClick={() => handleAssignRole(role)}
+                            disabled={pendingKey !== null}
+                          >
+                            {pendingKey ===
+                            assignmentKey(
+                              role.id,
+                              scope.scope_type,
+                              scope.scope_id
+                            ) ? (
+                              <Loader2 className="h-4 w-4 mr-1 animate-spin" />
+                            ) : (
+                              <Plus className="h-4 w-4 mr-1" />
+                            )}
+                            {role.name}
+                          </Button>
+                        ))}
+                      </div>
+                    )}
+                  </div>
+                </CardContent>
+              </Card>
+
+              {/* Effective Permissions */}
+              <Card>
+                <CardHeader>
+                  <CardTitle>Effective Permissions</CardTitle>
+                  <CardDescription>
+                    Everything this user can do everywhere through their global
+                    roles
+                  </CardDescription>
+                </CardHeader>
+                <CardContent>
+                  {user.permissions.length === 0 ? (
+                    <p className="text-sm text-muted-foreground">
+                      This user has no permissions.
+                    </p>
+                  ) : (
+                    <div className="space-y-2">
+                      {user.permissions.map((permission) => (
+                        <div
+                          key={permission.id}
+                          className="flex items-center justify-between py-2 border-b border-border last:border-b-0"
+                        >
+                          <span className="font-medium text-sm">
+                            {permission.name}
+                          </span>
+                          {permission.description && (
+                            <span className="text-xs text-muted-foreground">
+                              {permission.description}
+                            </span>
+                          )}
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                </CardContent>
+              </Card>
+            </div>
+
+            <PermissionExplainer
+              userId={userId}
+              assignments={user.assignments}
+            />
+          </div>
+        )}
+      </LoadingState>
+    </div>
+  );
+}
@@ -0,0 +1,2 @@
+export { WebhookList } from './webhook-list';
+export { WebhookDeliveries } from './webhook-deliveries';
@@ -0,0 +1,186 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { RefreshCw, X } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from '@/components/ui/card';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { LoadingState } from '@/components/ui/loading';
+import type {
+  WebhookDelivery,
+  WebhookDeliveryStatus,
+  WebhookSubscription,
+} from '@/lib/types';
+
+const statusVariant: Record<
+  WebhookDeliveryStatus,
+  'default' | 'secondary' | 'destructive'
+> = {
+  succeeded: 'default',
+  pending: 'secondary',
+  failed: 'destructive',
+};
+
+interface WebhookDeliveriesProps {
+  // Show the deliveries of one subscription instead of all of them
+  subscription: WebhookSubscription | null;
+  onClearSubscription: () => void;
+  // Changing this reloads the log
+  version?: number;
+  className?: string;
+}
+
+export function WebhookDeliveries({
+  subscription,
+  onClearSubscription,
+  version,
+  className,
+}: WebhookDeliveriesProps) {
+  const [deliveries, setDeliveries] = useState<WebhookDelivery[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchDeliveries = useCallback(async () => {
+    try {
+      setError(null);
+
+      const params = new URLSearchParams();
+      if (subscription) {
+        params.append('subscription_id', subscription.id);
+      }
+
+      const response = await fetch(`/api/webhooks/deliveries?${params}`);
+      const result = await response.json();
+
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to fetch deliveries');
+      }
+
+      setDeliveries(result.data || []);
+    } catch (err) {
+      console.error('Error fetching deliveries:', err);
+      setError(
+        err instanceof Error ? err.message : 'Failed to fetch deliveries'
+      );
+    } finally {
+      setLoading(false);
+    }
+  }, [subscription]);
+
+  useEffect(() => {
+    fetchDeliveries();
+  }, [fetchDeliveries, version]);
+
+  const formatDate = (dateString: string) =>
+    new Date(dateString).toLocaleString('en-US', {
+      month: 'short',
+      day: 'numeric',
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit',
+    });
+
+  return (
+    <Card className={className}>
+      <CardHeader>
+        <div className="flex items-start justify-between gap-4">
+          <div className="space-y-1.5">
+            <CardTitle>Delivery Log</CardTitle>
+            <CardDescription>
+              {subscription ? (
+                <>
+                  Recent deliveries to{' '}
+                  <span className="font-mono">{subscription.url}</span>
+                </>
+              ) : (
+                'Recent deliveries to every webhook'
+              )}
+            </CardDescription>
+          </div>
+          <div className="flex gap-2">
+            {subscription && (
+              <Button variant="outline" size="sm" onClick={onClearSubscription}>
+                <X className="mr-2 h-4 w-4" />
+                All webhooks
+              </Button>
+            )}
+            <Button variant="outline" size="sm" onClick={fetchDeliveries}>
+              <RefreshCw className="mr-2 h-4 w-4" />
+              Refresh
+            </Button>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent>
+        <LoadingState
+          isLoading={loading}
+          error={error}
+          isEmpty={deliveries.length === 0}
+          loadingMessage="Loading deliveries..."
+          emptyMessage="No deliveries yet."
+        >
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Event</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead>Attempts</TableHead>
+                <TableHead>Response</TableHead>
+                <TableHead>Created</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {deliveries.map((delivery) => (
+                <TableRow key={delivery.id}>
+                  <TableCell className="font-mono text-xs">
+                    {delivery.event}
+                  </TableCell>
+                  <TableCell>
+                    <Badge variant={statusVariant[delivery.status]}>
+                      {delivery.status}
+                    </Badge>
+                    {delivery.status === 'pending' && delivery.attempts > 0 && (
+                      <div className="text-xs text-muted-foreground mt-1">
+                        retry at {formatDate(delivery.next_attempt_at)}
+                      </div>
+                    )}
+                  </TableCell>
+                  <TableCell>{delivery.attempts}</TableCell>
+                  <TableCell className="text-sm">
+                    {delivery.response_status && (
+                      <span className="font-mono">
+                        {delivery.response_status}
+                      </span>
+                    )}
+                    {delivery.last_error && (
+                      <div className="text-xs text-muted-foreground">
+                        {delivery.last_error}
+                      </div>
+                    )}
+                  </TableCell>
+                  <TableCell className="text-sm text-muted-foreground">
+                    {formatDate(delivery.created_at)}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </LoadingState>
+      </CardContent>
+    </Card>
+  );
+}
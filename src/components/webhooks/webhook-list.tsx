@@ -0,0 +1,509 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import {
+  Copy,
+  History,
+  Loader2,
+  Pause,
+  Play,
+  Plus,
+  Send,
+  Trash2,
+  Webhook,
+} from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from '@/components/ui/card';
+import { ConfirmationDialog } from '@/components/ui/confirmation-dialog';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { LoadingState } from '@/components/ui/loading';
+import { useToast } from '@/hooks/use-toast';
+import { ALL_WEBHOOK_EVENTS, WEBHOOK_EVENTS } from '@/lib/webhooks';
+import type { WebhookSubscription } from '@/lib/types';
+import { WebhookDeliveries } from './webhook-deliveries';
+
+const emptyForm = {
+  url: '',
+  description: '',
+  secret: '',
+  events: [ALL_WEBHOOK_EVENTS] as string[],
+};
+
+interface WebhookListProps {
+  className?: string;
+}
+
+export function WebhookList({ className }: WebhookListProps) {
+  const [webhooks, setWebhooks] = useState<WebhookSubscription[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [form, setForm] = useState(emptyForm);
+  const [saving, setSaving] = useState(false);
+  const [createdSecret, setCreatedSecret] = useState<string | null>(null);
+  const [selected, setSelected] = useState<WebhookSubscription | null>(null);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  // Bumped to reload the delivery log after a test delivery
+  const [deliveriesVersion, setDeliveriesVersion] = useState(0);
+  const [deleting, setDeleting] = useState<WebhookSubscription | null>(null);
+  const [deleteLoading, setDeleteLoading] = useState(false);
+  const { toast } = useToast();
+
+  const fetchWebhooks = useCallback(async () => {
+    try {
+      setError(null);
+
+      const response = await fetch('/api/webhooks');
+      const result = await response.json();
+
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to fetch webhooks');
+      }
+
+      setWebhooks(result.data || []);
+    } catch (err) {
+      console.error('Error fetching webhooks:', err);
+      setError(err instanceof Error ? err.message : 'Failed to fetch webhooks');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchWebhooks();
+  }, [fetchWebhooks]);
+
+  const showError = (err: unknown, fallback: string) => {
+    toast({
+      title: 'Error',
+      description: err instanceof Error ? err.message : fallback,
+      variant: 'destructive',
+    });
+  };
+
+  const allEvents = form.events.includes(ALL_WEBHOOK_EVENTS);
+
+  const toggleEvent = (event: string) => {
+    const events = form.events.filter((e) => e !== ALL_WEBHOOK_EVENTS);
+    setForm({
+      ...form,
+      events: events.includes(event)
+        ? events.filter((e) => e !== event)
+        : [...events, event],
+    });
+  };
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    try {
+      setSaving(true);
+
+      const response = await fetch('/api/webhooks', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          url: form.url.trim(),
+          events: form.events,
+          description: form.description || null,
+          ...(form.secret && { secret: form.secret }),
+        }),
+      });
+
+      const result = await response.json();
+
+      if (!response.ok) {
+        const details = Array.isArray(result.details)
+          ? result.details
+              .map((detail: { message: string }) => detail.message)
+              .join(', ')
+          : null;
+        throw new Error(details || result.error || 'Failed to create webhook');
+      }
+
+      setCreatedSecret(result.data.secret);
+      setForm(emptyForm);
+      await fetchWebhooks();
+    } catch (err) {
+      console.error('Error creating webhook:', err);
+      showError(err, 'Failed to create webhook');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleToggleActive = async (webhook: WebhookSubscription) => {
+    try {
+      setBusyId(webhook.id);
+
+      const response = await fetch(`/api/webhooks/${webhook.id}`, {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ active: !webhook.active }),
+      });
+
+      const result = await response.json();
+
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to update webhook');
+      }
+
+      await fetchWebhooks();
+    } catch (err) {
+      console.error('Error updating webhook:', err);
+      showError(err, 'Failed to update webhook');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleTest = async (webhook: WebhookSubscription) => {
+    try {
+      setBusyId(webhook.id);
+
+      const response = await fetch(`/api/webhooks/${webhook.id}/test`, {
+        method: 'POST',
+      });
+
+      const result = await response.json();
+
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to send test webhook');
+      }
+
+      toast({
+        title: result.data.status === 'succeeded' ? 'Success' : 'Error',
+        description: result.message,
+        variant: result.data.status === 'succeeded' ? 'success' : 'destructive',
+      });
+
+      setSelected(webhook);
+      setDeliveriesVersion((version) => version + 1);
+    } catch (err) {
+      console.error('Error sending test webhook:', err);
+      showError(err, 'Failed to send test webhook');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!deleting) return;
+
+    try {
+      setDeleteLoading(true);
+
+      const response = await fetch(`/api/webhooks/${deleting.id}`, {
+        method: 'DELETE',
+      });
+
+      const result = await response.json();
+
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to delete webhook');
+      }
+
+      toast({
+        title: 'Success',
+        description: result.message,
+        variant: 'success',
+      });
+
+      if (selected?.id === deleting.id) setSelected(null);
+      setDeleting(null);
+      await fetchWebhooks();
+    } catch (err) {
+      console.error('Error deleting webhook:', err);
+      showError(err, 'Failed to delete webhook');
+    } finally {
+      setDeleteLoading(false);
+    }
+  };
+
+  const copySecret = async () => {
+    if (!createdSecret) return;
+    await navigator.clipboard.writeText(createdSecret);
+    toast({ title: 'Copied', description: 'Secret copied to clipboard' });
+  };
+
+  return (
+    <div className={`space-y-6 ${className || ''}`}>
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Webhook className="h-5 w-5" />
+            Webhooks
+          </CardTitle>
+          <CardDescription>
+            Notify other services when permissions, roles, associations or user
+            role assignments change. Payloads are signed with HMAC-SHA256 and
+            failed deliveries are retried with increasing delays.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          <form
+            onSubmit={handleCreate}
+            className="space-y-4 border rounded-lg p-4"
+          >
+            <div className="grid gap-3 md:grid-cols-2">
+              <div className="space-y-1">
+                <Label htmlFor="webhook-url">Endpoint URL</Label>
+                <Input
+                  id="webhook-url"
+                  type="url"
+                  placeholder="https://example.com/hooks/rbac"
+                  value={form.url}
+                  onChange={(e) => setForm({ ...form, url: e.target.value })}
+                  disabled={saving}
+                  required
+                />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="webhook-description">
+                  Description (optional)
+                </Label>
+                <Input
+                  id="webhook-description"
+                  value={form.description}
+                  onChange={(e) =>
+                    setForm({ ...form, description: e.target.value })
+                  }
+                  disabled={saving}
+                />
+              </div>
+              <div className="space-y-1 md:col-span-2">
+                <Label htmlFor="webhook-secret">
+                  Signing secret (optional, generated when empty)
+                </Label>
+                <Input
+                  id="webhook-secret"
+                  type="password"
+                  autoComplete="new-password"
+                  value={form.secret}
+                  onChange={(e) => setForm({ ...form, secret: e.target.value })}
+                  disabled={saving}
+                />
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label>Events</Label>
+              <div className="flex flex-wrap gap-x-4 gap-y-2 text-sm">
+                <label className="flex items-center gap-2">
+                  <input
+                    type="checkbox"
+                    checked={allEvents}
+                    onChange={() =>
+                      setForm({
+                        ...form,
+                        events: allEvents ? [] : [ALL_WEBHOOK_EVENTS],
+                      })
+                    }
+                    className="h-4 w-4 rounded border-input"
+                    disabled={saving}
+                  />
+                  All events
+                </label>
+                {WEBHOOK_EVENTS.map((event) => (
+                  <label key={event} className="flex items-center gap-2">
+                    <input
+                      type="checkbox"
+                      checked={allEvents || form.events.includes(event)}
+                      onChange={() => toggleEvent(event)}
+                      className="h-4 w-4 rounded border-input"
+                      disabled={saving || allEvents}
+                    />
+                    <span className="font-mono text-xs">{event}</span>
+                  </label>
+                ))}
+              </div>
+            </div>
+
+            <Button type="submit" disabled={saving || form.events.length === 0}>
+              {saving ? (
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              ) : (
+                <Plus className="mr-2 h-4 w-4" />
+              )}
+              Add Webhook
+            </Button>
+          </form>
+
+          <LoadingState
+            isLoading={loading}
+            error={error}
+            isEmpty={webhooks.length === 0}
+            loadingMessage="Loading webhooks..."
+            emptyMessage="No webhooks yet."
+          >
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Endpoint</TableHead>
+                  <TableHead>Events</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead className="w-[180px]" />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {webhooks.map((webhook) => (
+                  <TableRow
+                    key={webhook.id}
+                    className={selected?.id === webhook.id ? 'bg-muted/50' : ''}
+                  >
+                    <TableCell>
+                      <div className="font-mono text-sm break-all">
+                        {webhook.url}
+                      </div>
+                      {webhook.description && (
+                        <div className="text-xs text-muted-foreground">
+                          {webhook.description}
+                        </div>
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      <div className="flex flex-wrap gap-1">
+                        {webhook.events.map((event) => (
+                          <Badge
+                            key={event}
+                            variant="outline"
+                            className="font-mono"
+                          >
+                            {event === ALL_WEBHOOK_EVENTS
+                              ? 'all events'
+                              : event}
+                          </Badge>
+                        ))}
+                      </div>
+                    </TableCell>
+                    <TableCell>
+                      <Badge variant={webhook.active ? 'default' : 'secondary'}>
+                        {webhook.active ? 'Active' : 'Paused'}
+                      </Badge>
+                    </TableCell>
+                    <TableCell>
+                      <div className="flex justify-end gap-1">
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => handleTest(webhook)}
+                          disabled={busyId === webhook.id}
+                          title="Send test event"
+                        >
+                          {busyId === webhook.id ? (
+                            <Loader2 className="h-4 w-4 animate-spin" />
+                          ) : (
+                            <Send className="h-4 w-4" />
+                          )}
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => setSelected(webhook)}
+                          title="Show deliveries"
+                        >
+                          <History className="h-4 w-4" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => handleToggleActive(webhook)}
+                          disabled={busyId === webhook.id}
+                          title={webhook.active ? 'Pause' : 'Resume'}
+                        >
+                          {webhook.active ? (
+                            <Pause className="h-4 w-4" />
+                          ) : (
+                            <Play className="h-4 w-4" />
+                          )}
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => setDeleting(webhook)}
+                          title="Delete"
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </LoadingState>
+        </CardContent>
+      </Card>
+
+      <WebhookDeliveries
+        subscription={selected}
+        onClearSubscription={() => setSelected(null)}
+        version={deliveriesVersion}
+      />
+
+      <Dialog
+        open={createdSecret !== null}
+        onOpenChange={(open) => {
+          if (!open) setCreatedSecret(null);
+        }}
+      >
+        <DialogContent className="sm:max-w-[500px]">
+          <DialogHeader>
+            <DialogTitle>Webhook Created</DialogTitle>
+            <DialogDescription>
+              Copy the signing secret now; it will not be shown again. Verify
+              the X-Nexus-Signature header of each delivery with it.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="flex items-center gap-2">
+            <Input value={createdSecret ?? ''} readOnly className="font-mono" />
+            <Button variant="outline" size="sm" onClick={copySecret}>
+              <Copy className="h-4 w-4" />
+            </Button>
+          </div>
+          <DialogFooter>
+            <Button onClick={() => setCreatedSecret(null)}>Done</Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <ConfirmationDialog
+        isOpen={deleting !== null}
+        onClose={() => setDeleting(null)}
+        onConfirm={handleDelete}
+        title="Delete Webhook"
+        description={`Stop sending events to ${deleting?.url}? Its delivery log is deleted too.`}
+        confirmText="Delete"
+        variant="destructive"
+        isLoading={deleteLoading}
+      />
+    </div>
+  );
+}
@@ -1,24 +1,41 @@
 import { CommandParser } from './command-parser';
-import { RBACContextManager } from './context-manager';
+import { loadRBACContext, loadRBACUsers, needsUsers } from './context-manager';
 import { AIErrorHandler } from './error-handler';
-import { AIResponse } from './types';
+import { getLLMProvider } from './providers';
+import { isQueryStep, QueryEngine } from './query-engine';
+import type { createClient } from '@/lib/supabase/server';
+import {
+  AICommand,
+  AICommandStep,
+  AIResponse,
+  CommandImpact,
+  QueryResult,
+  StepValidation,
+} from './types';
+
+type ServerClient = Awaited<ReturnType<typeof createClient>>;
 
 /**
  * Main AI service for processing natural language RBAC commands
  */
 export class AIService {
   private parser: CommandParser;
-  private contextManager: RBACContextManager;
+  private queryEngine: QueryEngine;
 
   constructor() {
     this.parser = new CommandParser();
-    this.contextManager = RBACContextManager.getInstance();
+    this.queryEngine = new QueryEngine();
   }
 
   /**
-   * Process a natural language command
+   * Process a natural language command against the RBAC model the client
+   * sees. Interpretation stops when the signal is aborted.
    */
-  public async processCommand(userInput: string): Promise<AIResponse> {
+  public async processCommand(
+    userInput: string,
+    supabase: ServerClient,
+    signal?: AbortSignal
+  ): Promise<AIResponse> {
     try {
       // Validate input
       if (!userInput || userInput.trim().length === 0) {
@@ -32,23 +49,32 @@ export class AIService {
         };
       }
 
-      // Refresh context before processing
-      await this.contextManager.refreshContext();
+      let context = await loadRBACContext(supabase);
 
       // Parse the command
-      const response = await this.parser.parseCommand(userInput.trim());
+      const response = await this.parser.parseCommand(
+        userInput.trim(),
+        context,
+        signal
+      );
 
       // If parsing failed, return the error response
       if (!response.success || !response.command) {
         return response;
       }
 
-      // Validate the parsed command
-      const validation = await this.parser.validateCommand(response.command);
+      // User emails are only read for commands about users
+      if (needsUsers(response.command.steps)) {
+        context = { ...context, ...(await loadRBACUsers(supabase)) };
+      }
+
+      // Validate the parsed command, step by step
+      const validation = this.parser.validateCommand(response.command, context);
       if (!validation.valid) {
         return {
           success: false,
           command: response.command,
+          validation: validation.steps,
           message: 'Command validation failed',
           error: validation.errors.join(', '),
           suggestions: [
@@ -59,10 +85,26 @@ export class AIService {
         };
       }
 
+      // Questions are answered right away, there is nothing to confirm
+      if (response.command.steps.every(isQueryStep)) {
+        const results = this.queryEngine.answer(
+          response.command.steps,
+          context
+        );
+        return {
+          success: true,
+          command: response.command,
+          validation: validation.steps,
+          results,
+          message: results.map((result) => result.summary).join('; '),
+        };
+      }
+
       // Return successful parsed and validated command
       return {
         success: true,
         command: response.command,
+        validation: validation.steps,
         message: response.message,
         suggestions: response.suggestions,
       };
@@ -72,12 +114,48 @@ export class AIService {
     }
   }
 
+  /**
+   * Answer read-only query steps from fresh RBAC data
+   */
+  public async answerQueries(
+    steps: AICommandStep[],
+    supabase: ServerClient
+  ): Promise<QueryResult[]> {
+    const context = await loadRBACContext(supabase, {
+      users: needsUsers(steps),
+    });
+    return this.queryEngine.answer(steps, context);
+  }
+
+  /**
+   * Validate a command against fresh RBAC data and work out what its
+   * deletions would remove, without applying anything
+   */
+  public async previewCommand(
+    command: AICommand,
+    supabase: ServerClient
+  ): Promise<{
+    valid: boolean;
+    errors: string[];
+    steps: StepValidation[];
+    impact: CommandImpact[];
+  }> {
+    const context = await loadRBACContext(supabase, {
+      users: needsUsers(command.steps),
+    });
+    const validation = this.parser.validateCommand(command, context);
+    const impact = this.queryEngine.describeImpact(command.steps, context);
+    return { ...validation, impact };
+  }
+
   /**
    * Get command suggestions based on current system state
    */
-  public async getCommandSuggestions(): Promise<string[]> {
+  public async getCommandSuggestions(
+    supabase: ServerClient
+  ): Promise<string[]> {
     try {
-      const context = await this.contextManager.getContext();
+      const context = await loadRBACContext(supabase);
       const suggestions: string[] = [];
 
       // Basic creation suggestions
@@ -94,6 +172,9 @@ export class AIService {
         suggestions.push(
           `Remove ${samplePermission} permission from ${sampleRole} role`
         );
+        suggestions.push(
+          `Create role auditor and give it the ${samplePermission} permission`
+        );
       }
 
       // Suggest specific permissions/roles if they exist
@@ -105,13 +186,24 @@ export class AIService {
         suggestions.push(`Delete the ${permission.name} permission`);
       }
 
+      if (context.roles.length > 0) {
+        const sampleRole = context.roles[0].name;
+        suggestions.push(`Give [user_email] the ${sampleRole} role`);
+        suggestions.push('What roles does [user_email] have?');
+      }
+
+      if (context.permissions.length > 0) {
+        suggestions.push(`Who can ${context.permissions[0].name}?`);
+        suggestions.push('List permissions nobody uses');
+      }
+
       if (context.roles.length > 0) {
         const role =
           context.roles[Math.floor(Math.random() * context.roles.length)];
         suggestions.push(`Delete the ${role.name} role`);
       }
 
-      return suggestions.slice(0, 6); // Limit to 6 suggestions
+      return suggestions.slice(0, 11); // Limit to 11 suggestions
     } catch (error) {
       console.error('Error getting command suggestions:', error);
       return [
@@ -121,6 +213,10 @@ export class AIService {
         'Remove write_posts permission from guest role',
         'Delete the old_permission permission',
         'Delete the unused_role role',
+        'Give alice@example.com the editor role',
+        'What roles does alice@example.com have?',
+        'Which roles have delete_users?',
+        'List permissions nobody uses',
       ];
     }
   }
@@ -143,6 +239,22 @@ MANAGING ASSOCIATIONS:
 • "Remove [permission_name] from [role_name]"
 • "Take away [permission_name] permission from [role_name]"
 
+COMBINING STEPS:
+• "Create role [role_name] and give it [permission_name] and [permission_name]"
+• Steps are applied in order, all together or not at all
+
+MANAGING USERS:
+• "Give [user_email] the [role_name] role"
+• "Remove the [role_name] role from [user_email]"
+• "What roles does [user_email] have?"
+
+ASKING QUESTIONS:
+• "Which roles have [permission_name]?"
+• "What can the [role_name] role do?"
+• "Who can [permission_name]?"
+• "List permissions nobody uses"
+• Questions are answered straight away and never change anything
+
 DELETING ITEMS:
 • "Delete the [permission_name] permission"
 • "Remove permission [permission_name]"
@@ -161,29 +273,12 @@ TIPS:
    */
   public async isAvailable(): Promise<boolean> {
     try {
-      const apiKey = process.env.GOOGLE_GEMINI_API_KEY;
-      return Boolean(apiKey && apiKey.trim().length > 0);
+      return getLLMProvider().isConfigured();
     } catch (error) {
       console.error('Error checking AI service availability:', error);
       return false;
     }
   }
-
-  /**
-   * Get current system context for display
-   */
-  public async getSystemContext() {
-    try {
-      return await this.contextManager.getContext();
-    } catch (error) {
-      console.error('Error getting system context:', error);
-      return {
-        permissions: [],
-        roles: [],
-        associations: [],
-      };
-    }
-  }
 }
 
 // Export singleton instance
@@ -1,30 +1,71 @@
-import { getGeminiModel } from './config';
-import { RBACContextManager } from './context-manager';
-import { AICommand, AIResponse } from './types';
+import { findUserByEmail, formatRBACContext } from './context-manager';
+import { findByName } from './names';
+import { getLLMProvider } from './providers';
+import { isQueryStep } from './query-engine';
+import {
+  AICommand,
+  AICommandStep,
+  AICommandType,
+  AIResponse,
+  RBACContext,
+  StepValidation,
+} from './types';
+import { SCOPE_WILDCARD } from '@/lib/validations/rbac';
+
+const COMMAND_TYPES: AICommandType[] = [
+  'create_permission',
+  'create_role',
+  'assign_permission',
+  'remove_permission',
+  'delete_permission',
+  'delete_role',
+  'assign_role_to_user',
+  'remove_role_from_user',
+  'list_user_roles',
+  'find_roles_with_permission',
+  'list_role_permissions',
+  'list_unused_permissions',
+  'find_users_with_permission',
+  'unknown',
+];
 
 /**
- * Command parser that uses Gemini AI to interpret natural language commands
+ * The RBAC model as a plan would leave it after the steps validated so far.
+ * Roles and permissions created by the plan get placeholder IDs.
  */
-export class CommandParser {
-  private contextManager: RBACContextManager;
+interface PlanState {
+  permissions: Array<{ id: string; name: string }>;
+  roles: Array<{ id: string; name: string }>;
+  associations: Set<string>;
+  userRoles: Set<string>;
+}
 
-  constructor() {
-    this.contextManager = RBACContextManager.getInstance();
-  }
+const pairKey = (first: string, second: string) =>
+  [first, second].join('\u0000');
 
+/**
+ * Command parser that uses the configured LLM provider to interpret natural
+ * language commands
+ */
+export class CommandParser {
   /**
    * Parse natural language command into structured AI command
    */
-  public async parseCommand(userInput: string): Promise<AIResponse> {
+  public async parseCommand(
+    userInput: string,
+    context: RBACContext,
+    signal?: AbortSignal
+  ): Promise<AIResponse> {
     try {
-      const model = getGeminiModel();
-      const contextString = await this.contextManager.getContextString();
+      const provider = getLLMProvider();
+      const prompt = this.buildPrompt(userInput, formatRBACContext(context));
 
-      const prompt = this.buildPrompt(userInput, contextString);
-
-      const result = await model.generateContent(prompt);
-      const response = result.response;
-      const text = response.text();
+      const text = await provider.complete({
+        prompt,
+        userInput,
+        context,
+        signal,
+      });
 
       return this.parseAIResponse(text);
     } catch (error) {
@@ -57,21 +98,45 @@ SUPPORTED COMMANDS:
 4. Remove permission from role: "Remove permission [permission_name] from role [role_name]"
 5. Delete permission: "Delete permission [permission_name]"
 6. Delete role: "Delete role [role_name]"
+7. Assign role to user: "Give [user_email] the [role_name] role" or "Make [user_email] a [role_name]"
+8. Remove role from user: "Remove the [role_name] role from [user_email]" or "Revoke [role_name] from [user_email]"
+9. List user roles: "What roles does [user_email] have?" or "Show roles for [user_email]"
+10. Find roles with a permission: "Which roles have [permission_name]?"
+11. List role permissions: "What can the [role_name] role do?" or "Show permissions of [role_name]"
+12. List unused permissions: "List permissions nobody uses"
+13. Find users with a permission: "Who can [action] [resource]?" or "Which users have [permission_name]?"
+
+Commands 9-13 are questions: they only read the system and never change it. For questions phrased in plain words (e.g. "who can write reports?"), use the closest existing permission name from the list above.
+
+Users are identified by their email address. They are not listed above; the system checks that they exist.
+
+A single command can ask for several of these actions, e.g. "Create role auditor and give it read_users and read_reports". Return one step per action, in the order they must be applied. Later steps may refer to roles and permissions created by earlier steps.
 
 USER COMMAND: "${userInput}"
 
 Please analyze the command and respond with a JSON object in this exact format:
 {
-  "type": "create_permission|create_role|assign_permission|remove_permission|delete_permission|delete_role|unknown",
-  "parameters": {
-    // Include relevant parameters based on command type
-    // For create_permission: {"name": "permission_name", "description": "optional_description"}
-    // For create_role: {"name": "role_name"}
-    // For assign_permission: {"role_name": "role_name", "permission_name": "permission_name"}
-    // For remove_permission: {"role_name": "role_name", "permission_name": "permission_name"}
-    // For delete_permission: {"name": "permission_name"}
-    // For delete_role: {"name": "role_name"}
-  },
+  "steps": [
+    {
+      "type": "create_permission|create_role|assign_permission|remove_permission|delete_permission|delete_role|assign_role_to_user|remove_role_from_user|list_user_roles|find_roles_with_permission|list_role_permissions|list_unused_permissions|find_users_with_permission|unknown",
+      "parameters": {
+        // Include relevant parameters based on step type
+        // For create_permission: {"name": "permission_name", "description": "optional_description"}
+        // For create_role: {"name": "role_name"}
+        // For assign_permission: {"role_name": "role_name", "permission_name": "permission_name"}
+        // For remove_permission: {"role_name": "role_name", "permission_name": "permission_name"}
+        // For delete_permission: {"name": "permission_name"}
+        // For delete_role: {"name": "role_name"}
+        // For assign_role_to_user: {"user_email": "user@example.com", "role_name": "role_name"}
+        // For remove_role_from_user: {"user_email": "user@example.com", "role_name": "role_name"}
+        // For list_user_roles: {"user_email": "user@example.com"}
+        // For find_roles_with_permission: {"permission_name": "permission_name"}
+        // For list_role_permissions: {"role_name": "role_name"}
+        // For list_unused_permissions: {}
+        // For find_users_with_permission: {"permission_name": "permission_name"}
+      }
+    }
+  ],
   "confidence": 0.0-1.0,
   "message": "Human-readable explanation of what will be done",
   "validation_errors": ["array of any validation issues found"],
@@ -79,7 +144,8 @@ Please analyze the command and respond with a JSON object in this exact format:
 }
 
 VALIDATION RULES:
-- Check if referenced permissions/roles exist in the current system
+- Check if referenced permissions/roles exist in the current system or are created by an earlier step
+- Copy user emails exactly as written in the command
 - Prevent duplicate creation of permissions/roles
 - Ensure role-permission associations don't already exist when assigning
 - Ensure associations exist when removing
@@ -101,39 +167,44 @@ Respond ONLY with the JSON object, no additional text.`;
 
       const parsed = JSON.parse(jsonMatch[0]);
 
+      // A single action may still come back without the steps wrapper
+      const rawSteps = Array.isArray(parsed.steps)
+        ? parsed.steps
+        : parsed.type
+          ? [{ type: parsed.type, parameters: parsed.parameters }]
+          : null;
+
       // Validate required fields
       if (
-        !parsed.type ||
-        !parsed.parameters ||
+        !rawSteps ||
+        rawSteps.length === 0 ||
         typeof parsed.confidence !== 'number'
       ) {
         throw new Error('Invalid AI response structure');
       }
 
-      // Validate command type
-      const validTypes = [
-        'create_permission',
-        'create_role',
-        'assign_permission',
-        'remove_permission',
-        'delete_permission',
-        'delete_role',
-        'unknown',
-      ];
-      if (!validTypes.includes(parsed.type)) {
-        parsed.type = 'unknown';
-      }
+      // Validate step types
+      const steps: AICommandStep[] = rawSteps.map(
+        (step: { type?: string; parameters?: Record<string, string> }) => ({
+          type: COMMAND_TYPES.includes(step.type as AICommandType)
+            ? (step.type as AICommandType)
+            : 'unknown',
+          parameters: step.parameters || {},
+        })
+      );
+      const understood = steps.every((step) => step.type !== 'unknown');
 
       const command: AICommand = {
-        type: parsed.type,
-        parameters: parsed.parameters,
+        steps,
         confidence: Math.max(0, Math.min(1, parsed.confidence)),
       };
 
       return {
-        success: parsed.type !== 'unknown' && parsed.confidence > 0.5,
+        success: understood && parsed.confidence > 0.5,
         command,
-        message: parsed.message || `Interpreted as: ${parsed.type}`,
+        message:
+          parsed.message ||
+          `Interpreted as: ${steps.map((step) => step.type).join(', ')}`,
         suggestions:
           parsed.validation_errors?.length > 0
             ? parsed.validation_errors
@@ -157,160 +228,227 @@ Respond ONLY with the JSON object, no additional text.`;
   }
 
   /**
-   * Validate command against current system state
+   * Validate every step of a command against the given system state, as
+   * left by the steps before it
    */
-  public async validateCommand(
-    command: AICommand
-  ): Promise<{ valid: boolean; errors: string[] }> {
-    const errors: string[] = [];
+  public validateCommand(
+    command: AICommand,
+    context: RBACContext
+  ): {
+    valid: boolean;
+    errors: string[];
+    steps: StepValidation[];
+  } {
+    const state = this.buildPlanState(context);
+    const steps: StepValidation[] = command.steps.map((step) => {
+      const errors = this.validateStep(step, state, context);
+      return { valid: errors.length === 0, errors };
+    });
+
+    const errors = steps.flatMap((step, index) =>
+      steps.length > 1
+        ? step.errors.map((error) => `Step ${index + 1}: ${error}`)
+        : step.errors
+    );
+
+    // Questions are answered straight away, changes only after confirmation
+    const queries = command.steps.filter(isQueryStep).length;
+    if (queries > 0 && queries < command.steps.length) {
+      errors.push(
+        'Questions cannot be combined with changes; ask them separately'
+      );
+    }
 
-    try {
-      switch (command.type) {
-        case 'create_permission':
-          if (!command.parameters.name) {
-            errors.push('Permission name is required');
-          } else {
-            const existing = await this.contextManager.findPermissionByName(
-              command.parameters.name
-            );
-            if (existing) {
-              errors.push(
-                `Permission "${command.parameters.name}" already exists`
-              );
-            }
-          }
-          break;
+    return {
+      valid: command.steps.length > 0 && errors.length === 0,
+      errors,
+      steps,
+    };
+  }
 
-        case 'create_role':
-          if (!command.parameters.name) {
-            errors.push('Role name is required');
-          } else {
-            const existing = await this.contextManager.findRoleByName(
-              command.parameters.name
-            );
-            if (existing) {
-              errors.push(`Role "${command.parameters.name}" already exists`);
-            }
-          }
-          break;
+  private buildPlanState(context: RBACContext): PlanState {
+    const now = new Date();
 
-        case 'assign_permission':
-          if (
-            !command.parameters.role_name ||
-            !command.parameters.permission_name
-          ) {
-            errors.push('Both role name and permission name are required');
-          } else {
-            const role = await this.contextManager.findRoleByName(
-              command.parameters.role_name
-            );
-            const permission = await this.contextManager.findPermissionByName(
-              command.parameters.permission_name
-            );
+    return {
+      permissions: context.permissions.map(({ id, name }) => ({ id, name })),
+      roles: context.roles.map(({ id, name }) => ({ id, name })),
+      associations: new Set(
+        context.associations.map((a) => pairKey(a.role_id, a.permission_id))
+      ),
+      // Only current global assignments, which are the ones commands manage
+      userRoles: new Set(
+        context.userRoles
+          .filter(
+            (ur) =>
+              ur.scope_type === SCOPE_WILDCARD &&
+              (!ur.valid_until || new Date(ur.valid_until) > now)
+          )
+          .map((ur) => pairKey(ur.user_id, ur.role_id))
+      ),
+    };
+  }
 
-            if (!role) {
-              errors.push(
-                `Role "${command.parameters.role_name}" does not exist`
-              );
-            }
-            if (!permission) {
-              errors.push(
-                `Permission "${command.parameters.permission_name}" does not exist`
-              );
-            }
-
-            if (role && permission) {
-              const hasPermission = await this.contextManager.hasRolePermission(
-                role.id,
-                permission.id
-              );
-              if (hasPermission) {
-                errors.push(
-                  `Role "${command.parameters.role_name}" already has permission "${command.parameters.permission_name}"`
-                );
-              }
-            }
-          }
+  /**
+   * Validate one step and, when it is valid, apply it to the plan state.
+   * References are resolved with findByName, like the database does, while
+   * new names only clash with an identical one, like its unique constraints.
+   */
+  private validateStep(
+    step: AICommandStep,
+    state: PlanState,
+    context: RBACContext
+  ): string[] {
+    const errors: string[] = [];
+    const { name, role_name, permission_name, user_email } = step.parameters;
+
+    switch (step.type) {
+      case 'create_permission':
+        if (!name) {
+          errors.push('Permission name is required');
+        } else if (state.permissions.some((p) => p.name === name)) {
+          errors.push(`Permission "${name}" already exists`);
+        } else {
+          state.permissions.push({ id: `new-permission:${name}`, name });
+        }
+        break;
+
+      case 'create_role':
+        if (!name) {
+          errors.push('Role name is required');
+        } else if (state.roles.some((r) => r.name === name)) {
+          errors.push(`Role "${name}" already exists`);
+        } else {
+          state.roles.push({ id: `new-role:${name}`, name });
+        }
+        break;
+
+      case 'assign_permission':
+      case 'remove_permission': {
+        if (!role_name || !permission_name) {
+          errors.push('Both role name and permission name are required');
           break;
-
-        case 'remove_permission':
-          if (
-            !command.parameters.role_name ||
-            !command.parameters.permission_name
-          ) {
-            errors.push('Both role name and permission name are required');
-          } else {
-            const role = await this.contextManager.findRoleByName(
-              command.parameters.role_name
+        }
+
+        const roleId = findByName(state.roles, role_name)?.id;
+        const permissionId = findByName(state.permissions, permission_name)?.id;
+        if (!roleId) {
+          errors.push(`Role "${role_name}" does not exist`);
+        }
+        if (!permissionId) {
+          errors.push(`Permission "${permission_name}" does not exist`);
+        }
+        if (!roleId || !permissionId) break;
+
+        const key = pairKey(roleId, permissionId);
+        if (step.type === 'assign_permission') {
+          if (state.associations.has(key)) {
+            errors.push(
+              `Role "${role_name}" already has permission "${permission_name}"`
             );
-            const permission = await this.contextManager.findPermissionByName(
-              command.parameters.permission_name
-            );
-
-            if (!role) {
-              errors.push(
-                `Role "${command.parameters.role_name}" does not exist`
-              );
-            }
-            if (!permission) {
-              errors.push(
-                `Permission "${command.parameters.permission_name}" does not exist`
-              );
-            }
-
-            if (role && permission) {
-              const hasPermission = await this.contextManager.hasRolePermission(
-                role.id,
-                permission.id
-              );
-              if (!hasPermission) {
-                errors.push(
-                  `Role "${command.parameters.role_name}" does not have permission "${command.parameters.permission_name}"`
-                );
-              }
-            }
+          } else {
+            state.associations.add(key);
           }
+        } else if (!state.associations.has(key)) {
+          errors.push(
+            `Role "${role_name}" does not have permission "${permission_name}"`
+          );
+        } else {
+          state.associations.delete(key);
+        }
+        break;
+      }
+
+      case 'delete_permission':
+      case 'delete_role': {
+        const kind = step.type === 'delete_role' ? 'Role' : 'Permission';
+        if (!name) {
+          errors.push(`${kind} name is required`);
           break;
+        }
 
-        case 'delete_permission':
-          if (!command.parameters.name) {
-            errors.push('Permission name is required');
-          } else {
-            const existing = await this.contextManager.findPermissionByName(
-              command.parameters.name
-            );
-            if (!existing) {
-              errors.push(
-                `Permission "${command.parameters.name}" does not exist`
-              );
-            }
-          }
+        const items =
+          step.type === 'delete_role' ? state.roles : state.permissions;
+        const item = findByName(items, name);
+        if (!item) {
+          errors.push(`${kind} "${name}" does not exist`);
           break;
+        }
+
+        // Associations and assignments go with it
+        const { id } = item;
+        items.splice(items.indexOf(item), 1);
+        [state.associations, state.userRoles].forEach((pairs) =>
+          pairs.forEach((pair) => {
+            if (pair.split('\u0000').includes(id)) pairs.delete(pair);
+          })
+        );
+        break;
+      }
 
-        case 'delete_role':
-          if (!command.parameters.name) {
-            errors.push('Role name is required');
+      case 'assign_role_to_user':
+      case 'remove_role_from_user': {
+        if (!user_email || !role_name) {
+          errors.push('Both user email and role name are required');
+          break;
+        }
+
+        const user = findUserByEmail(context, user_email);
+        const roleId = findByName(state.roles, role_name)?.id;
+        if (!user) {
+          errors.push(`User "${user_email}" does not exist`);
+        }
+        if (!roleId) {
+          errors.push(`Role "${role_name}" does not exist`);
+        }
+        if (!user || !roleId) break;
+
+        const key = pairKey(user.id, roleId);
+        if (step.type === 'assign_role_to_user') {
+          if (state.userRoles.has(key)) {
+            errors.push(`User "${user_email}" already has role "${role_name}"`);
           } else {
-            const existing = await this.contextManager.findRoleByName(
-              command.parameters.name
-            );
-            if (!existing) {
-              errors.push(`Role "${command.parameters.name}" does not exist`);
-            }
+            state.userRoles.add(key);
           }
-          break;
-
-        default:
-          errors.push('Unknown command type');
+        } else if (!state.userRoles.has(key)) {
+          errors.push(`User "${user_email}" does not have role "${role_name}"`);
+        } else {
+          state.userRoles.delete(key);
+        }
+        break;
       }
-    } catch (error) {
-      console.error('Error validating command:', error);
-      errors.push('Failed to validate command against current system state');
+
+      case 'list_user_roles':
+        if (!user_email) {
+          errors.push('User email is required');
+        } else if (!findUserByEmail(context, user_email)) {
+          errors.push(`User "${user_email}" does not exist`);
+        }
+        break;
+
+      case 'find_roles_with_permission':
+      case 'find_users_with_permission':
+        if (!permission_name) {
+          errors.push('Permission name is required');
+        } else if (!findByName(state.permissions, permission_name)) {
+          errors.push(`Permission "${permission_name}" does not exist`);
+        }
+        break;
+
+      case 'list_role_permissions':
+        if (!role_name) {
+          errors.push('Role name is required');
+        } else if (!findByName(state.roles, role_name)) {
+          errors.push(`Role "${role_name}" does not exist`);
+        }
+        break;
+
+      case 'list_unused_permissions':
+        break;
+
+      default:
+        errors.push('Unknown command type');
     }
 
-    return {
-      valid: errors.length === 0,
-      errors,
-    };
+    return errors;
   }
 }
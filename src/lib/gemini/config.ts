@@ -3,25 +3,22 @@ import {
   HarmCategory,
   HarmBlockThreshold,
 } from '@google/generative-ai';
+import { LLMProviderName } from './types';
 
-// Initialize the Gemini API client
-const apiKey = process.env.GOOGLE_GEMINI_API_KEY;
+export const LLM_PROVIDERS: LLMProviderName[] = ['gemini', 'openai', 'rules'];
 
-if (!apiKey) {
-  throw new Error('GOOGLE_GEMINI_API_KEY environment variable is not set');
-}
-
-export const genAI = new GoogleGenerativeAI(apiKey);
+// Sampling settings shared by every model-backed provider
+export const GENERATION_CONFIG = {
+  temperature: 0.1, // Low temperature for more consistent responses
+  topK: 1,
+  topP: 1,
+  maxOutputTokens: 2048,
+};
 
 // Configuration for the Gemini model
 export const MODEL_CONFIG = {
   model: 'gemini-1.5-flash',
-  generationConfig: {
-    temperature: 0.1, // Low temperature for more consistent responses
-    topK: 1,
-    topP: 1,
-    maxOutputTokens: 2048,
-  },
+  generationConfig: GENERATION_CONFIG,
   safetySettings: [
     {
       category: HarmCategory.HARM_CATEGORY_HARASSMENT,
@@ -42,7 +39,45 @@ export const MODEL_CONFIG = {
   ],
 };
 
+/**
+ * Provider named by LLM_PROVIDER. Without it, Gemini is used when its API key
+ * is set and the offline rule-based parser otherwise.
+ */
+export function getProviderName(): LLMProviderName {
+  const name = process.env.LLM_PROVIDER?.trim().toLowerCase();
+  if (!name) {
+    return getGeminiApiKey() ? 'gemini' : 'rules';
+  }
+
+  if (!LLM_PROVIDERS.includes(name as LLMProviderName)) {
+    throw new Error(
+      `Unknown LLM_PROVIDER "${name}", expected one of ${LLM_PROVIDERS.join(', ')}`
+    );
+  }
+
+  return name as LLMProviderName;
+}
+
+export function getGeminiApiKey(): string | undefined {
+  return process.env.GOOGLE_GEMINI_API_KEY?.trim() || undefined;
+}
+
+// Endpoint of an OpenAI-compatible chat completions API, such as a local
+// model server
+export function getOpenAICompatibleConfig() {
+  return {
+    baseUrl: process.env.LLM_BASE_URL?.trim() || undefined,
+    model: process.env.LLM_MODEL?.trim() || undefined,
+    apiKey: process.env.LLM_API_KEY?.trim() || undefined,
+  };
+}
+
 // Get the configured model instance
 export const getGeminiModel = () => {
-  return genAI.getGenerativeModel(MODEL_CONFIG);
+  const apiKey = getGeminiApiKey();
+  if (!apiKey) {
+    throw new Error('GOOGLE_GEMINI_API_KEY environment variable is not set');
+  }
+
+  return new GoogleGenerativeAI(apiKey).getGenerativeModel(MODEL_CONFIG);
 };
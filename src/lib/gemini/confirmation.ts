@@ -0,0 +1,70 @@
+import { signPayload, verifySignature } from '@/lib/signing';
+import { AICommandStep } from './types';
+
+// How long a confirmation token for a destructive command stays valid
+const CONFIRMATION_TTL_MS = 5 * 60 * 1000;
+
+// Secret used to sign confirmation tokens, if configured
+export function getConfirmationSecret(): string | undefined {
+  return process.env.AI_COMMAND_CONFIRMATION_SECRET || undefined;
+}
+
+// Who a token is issued to: a user working on one organization
+export interface ConfirmationSubject {
+  userId: string;
+  organizationId: string;
+}
+
+const signedPayload = (
+  steps: AICommandStep[],
+  { userId, organizationId }: ConfirmationSubject,
+  expiresAt: number
+) => ({
+  steps,
+  user_id: userId,
+  organization_id: organizationId,
+  expires_at: expiresAt,
+});
+
+/**
+ * Issue a token confirming that a user may apply exactly these steps to one
+ * organization. The token is "<expiry in ms>.<HMAC-SHA256 of steps, user,
+ * organization and expiry>".
+ */
+export function createConfirmationToken(
+  steps: AICommandStep[],
+  subject: ConfirmationSubject,
+  secret: string,
+  now: number = Date.now()
+): { confirmation_token: string; expires_at: string } {
+  const expiresAt = now + CONFIRMATION_TTL_MS;
+  const signature = signPayload(
+    signedPayload(steps, subject, expiresAt),
+    secret
+  );
+
+  return {
+    confirmation_token: `${expiresAt}.${signature}`,
+    expires_at: new Date(expiresAt).toISOString(),
+  };
+}
+
+export function verifyConfirmationToken(
+  token: string,
+  steps: AICommandStep[],
+  subject: ConfirmationSubject,
+  secret: string,
+  now: number = Date.now()
+): boolean {
+  const [expiry, signature] = token.split('.');
+  const expiresAt = Number(expiry);
+  if (!signature || !Number.isSafeInteger(expiresAt) || expiresAt <= now) {
+    return false;
+  }
+
+  return verifySignature(
+    signedPayload(steps, subject, expiresAt),
+    signature,
+    secret
+  );
+}
@@ -1,116 +1,109 @@
 import { createClient } from '@/lib/supabase/server';
-import { RBACContext } from './types';
+import { handleDatabaseError } from '@/lib/supabase/errors';
+import { listOrganizationUsers } from '@/lib/supabase/organizations';
+import { AICommandStep, RBACContext } from './types';
+
+type ServerClient = Awaited<ReturnType<typeof createClient>>;
 
 /**
- * Context manager for providing current RBAC state to AI commands
+ * Load the RBAC model of the request's organization, as RLS shows it to the
+ * caller. A context belongs to one request and is never shared, so it cannot
+ * mix up organizations or outlive the request. Users and their roles are left
+ * empty unless asked for, see loadRBACUsers.
  */
-export class RBACContextManager {
-  private static instance: RBACContextManager;
-  private context: RBACContext | null = null;
-  private lastUpdated: number = 0;
-  private readonly CACHE_DURATION = 30000; // 30 seconds
-
-  private constructor() {}
-
-  public static getInstance(): RBACContextManager {
-    if (!RBACContextManager.instance) {
-      RBACContextManager.instance = new RBACContextManager();
-    }
-    return RBACContextManager.instance;
+export async function loadRBACContext(
+  supabase: ServerClient,
+  options: { users?: boolean } = {}
+): Promise<RBACContext> {
+  const [permissions, roles, associations, users] = await Promise.all([
+    supabase.from('permissions').select('id, name, description').order('name'),
+    supabase
+      .from('roles')
+      .select('id, name, parent_role_id, created_at')
+      .order('name'),
+    supabase.from('role_permissions').select('role_id, permission_id'),
+    options.users ? loadRBACUsers(supabase) : { users: [], userRoles: [] },
+  ]);
+
+  const error = permissions.error || roles.error || associations.error;
+  if (error) {
+    throw handleDatabaseError(error);
   }
 
-  /**
-   * Get current RBAC context with caching
-   */
-  public async getContext(): Promise<RBACContext> {
-    const now = Date.now();
-
-    // Return cached context if still valid
-    if (this.context && now - this.lastUpdated < this.CACHE_DURATION) {
-      return this.context;
-    }
+  return {
+    permissions: (permissions.data || []).map((p) => ({
+      ...p,
+      description: p.description || undefined,
+    })),
+    roles: roles.data || [],
+    associations: associations.data || [],
+    ...users,
+  };
+}
 
-    // Fetch fresh context
-    await this.refreshContext();
-    return this.context!;
+/**
+ * The organization's users and their role assignments, for the commands
+ * that need them (see needsUsers)
+ */
+export async function loadRBACUsers(
+  supabase: ServerClient
+): Promise<Pick<RBACContext, 'users' | 'userRoles'>> {
+  const [userRoles, users] = await Promise.all([
+    supabase
+      .from('user_roles')
+      .select(
+        'user_id, role_id, scope_type, scope_id, valid_from, valid_until'
+      ),
+    listOrganizationUsers(supabase),
+  ]);
+
+  if (userRoles.error) {
+    throw handleDatabaseError(userRoles.error);
   }
 
-  /**
-   * Force refresh of the context
-   */
-  public async refreshContext(): Promise<void> {
-    try {
-      const supabase = await createClient();
-
-      // Fetch all permissions
-      const { data: permissions, error: permError } = await supabase
-        .from('permissions')
-        .select('id, name, description')
-        .order('name');
-
-      if (permError) throw permError;
-
-      // Fetch all roles
-      const { data: roles, error: roleError } = await supabase
-        .from('roles')
-        .select('id, name')
-        .order('name');
-
-      if (roleError) throw roleError;
-
-      // Fetch all associations
-      const { data: associations, error: assocError } = await supabase
-        .from('role_permissions')
-        .select('role_id, permission_id');
-
-      if (assocError) throw assocError;
-
-      this.context = {
-        permissions: (permissions || []).map((p) => ({
-          ...p,
-          description: p.description || undefined,
-        })),
-        roles: roles || [],
-        associations: associations || [],
-      };
-
-      this.lastUpdated = Date.now();
-    } catch (error) {
-      console.error('Failed to refresh RBAC context:', error);
-      // Keep existing context if refresh fails
-      if (!this.context) {
-        this.context = {
-          permissions: [],
-          roles: [],
-          associations: [],
-        };
-      }
-    }
-  }
+  return {
+    users: users
+      .filter((u) => u.email)
+      .map((u) => ({ id: u.id, email: u.email as string })),
+    userRoles: userRoles.data || [],
+  };
+}
 
-  /**
-   * Get context as formatted string for AI prompt
-   */
-  public async getContextString(): Promise<string> {
-    const context = await this.getContext();
+/**
+ * Whether steps refer to users, ask about them or delete roles or
+ * permissions users may hold
+ */
+export function needsUsers(steps: AICommandStep[]): boolean {
+  return steps.some(
+    (step) =>
+      !!step.parameters.user_email ||
+      step.type === 'find_users_with_permission' ||
+      step.type === 'delete_role' ||
+      step.type === 'delete_permission'
+  );
+}
 
-    const permissionsList = context.permissions
-      .map((p) => `- ${p.name}${p.description ? ` (${p.description})` : ''}`)
-      .join('\n');
+/**
+ * The context as text for the AI prompt
+ */
+export function formatRBACContext(context: RBACContext): string {
+  const permissionsList = context.permissions
+    .map((p) => `- ${p.name}${p.description ? ` (${p.description})` : ''}`)
+    .join('\n');
 
-    const rolesList = context.roles.map((r) => `- ${r.name}`).join('\n');
+  const rolesList = context.roles.map((r) => `- ${r.name}`).join('\n');
 
-    const associationsList = context.associations
-      .map((a) => {
-        const role = context.roles.find((r) => r.id === a.role_id);
-        const permission = context.permissions.find(
-          (p) => p.id === a.permission_id
-        );
-        return `- ${role?.name || 'Unknown Role'} has ${permission?.name || 'Unknown Permission'}`;
-      })
-      .join('\n');
+  const associationsList = context.associations
+    .map((a) => {
+      const role = context.roles.find((r) => r.id === a.role_id);
+      const permission = context.permissions.find(
+        (p) => p.id === a.permission_id
+      );
+      return `- ${role?.name || 'Unknown Role'} has ${permission?.name || 'Unknown Permission'}`;
+    })
+    .join('\n');
 
-    return `Current RBAC System State:
+  return `Current RBAC System State:
 
 PERMISSIONS:
 ${permissionsList || 'No permissions defined'}
@@ -120,38 +113,13 @@ ${rolesList || 'No roles defined'}
 
 ROLE-PERMISSION ASSOCIATIONS:
 ${associationsList || 'No associations defined'}`;
-  }
-
-  /**
-   * Find permission by name (case-insensitive)
-   */
-  public async findPermissionByName(name: string) {
-    const context = await this.getContext();
-    return context.permissions.find(
-      (p) => p.name.toLowerCase() === name.toLowerCase()
-    );
-  }
-
-  /**
-   * Find role by name (case-insensitive)
-   */
-  public async findRoleByName(name: string) {
-    const context = await this.getContext();
-    return context.roles.find(
-      (r) => r.name.toLowerCase() === name.toLowerCase()
-    );
-  }
+}
 
-  /**
-   * Check if role has permission
-   */
-  public async hasRolePermission(
-    roleId: string,
-    permissionId: string
-  ): Promise<boolean> {
-    const context = await this.getContext();
-    return context.associations.some(
-      (a) => a.role_id === roleId && a.permission_id === permissionId
-    );
-  }
+/**
+ * Find user by email (case-insensitive)
+ */
+export function findUserByEmail(context: RBACContext, email: string) {
+  return context.users.find(
+    (u) => u.email.toLowerCase() === email.toLowerCase()
+  );
 }
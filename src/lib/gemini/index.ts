@@ -1,14 +1,48 @@
-// Main exports for Gemini AI integration
+// Main exports for the AI integration
 export { aiService, AIService } from './ai-service';
 export { CommandParser } from './command-parser';
-export { RBACContextManager } from './context-manager';
+export {
+  findUserByEmail,
+  formatRBACContext,
+  loadRBACContext,
+  loadRBACUsers,
+  needsUsers,
+} from './context-manager';
+export { QueryEngine, QUERY_TYPES, isQueryStep } from './query-engine';
+export { findByName } from './names';
 export { AIErrorHandler } from './error-handler';
-export { getGeminiModel, genAI, MODEL_CONFIG } from './config';
+export {
+  getConfirmationSecret,
+  createConfirmationToken,
+  verifyConfirmationToken,
+} from './confirmation';
+export type { ConfirmationSubject } from './confirmation';
+export {
+  getGeminiModel,
+  getProviderName,
+  LLM_PROVIDERS,
+  MODEL_CONFIG,
+} from './config';
+export {
+  getLLMProvider,
+  GeminiProvider,
+  OpenAICompatibleProvider,
+  RuleBasedProvider,
+} from './providers';
 
 // Type exports
 export type {
   AICommand,
+  AICommandStep,
+  AICommandType,
   AIResponse,
+  QueryResult,
+  StepValidation,
   RBACContext,
   CommandExecutionResult,
+  CommandImpact,
+  CommandConfirmation,
+  LLMProvider,
+  LLMProviderName,
+  LLMRequest,
 } from './types';
@@ -0,0 +1,17 @@
+/**
+ * The role or permission a command means by `name`: the one named exactly
+ * so, or else the first whose name matches ignoring case, in code point
+ * order. apply_ai_command_plan resolves names the same way, so validation,
+ * previews and the database agree on what a step refers to.
+ */
+export function findByName<T extends { name: string }>(
+  items: T[],
+  name: string
+): T | undefined {
+  return (
+    items.find((item) => item.name === name) ??
+    items
+      .filter((item) => item.name.toLowerCase() === name.toLowerCase())
+      .sort((a, b) => (a.name < b.name ? -1 : a.name > b.name ? 1 : 0))[0]
+  );
+}
@@ -0,0 +1,19 @@
+import { getGeminiApiKey, getGeminiModel } from '../config';
+import { LLMProvider, LLMRequest } from '../types';
+
+/**
+ * Google Gemini, configured by GOOGLE_GEMINI_API_KEY
+ */
+export class GeminiProvider implements LLMProvider {
+  public readonly name = 'gemini' as const;
+
+  public isConfigured(): boolean {
+    return Boolean(getGeminiApiKey());
+  }
+
+  public async complete({ prompt, signal }: LLMRequest): Promise<string> {
+    const model = getGeminiModel();
+    const result = await model.generateContent(prompt, { signal });
+    return result.response.text();
+  }
+}
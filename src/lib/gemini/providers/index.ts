@@ -0,0 +1,21 @@
+import { getProviderName } from '../config';
+import { LLMProvider } from '../types';
+import { GeminiProvider } from './gemini';
+import { OpenAICompatibleProvider } from './openai-compatible';
+import { RuleBasedProvider } from './rule-based';
+
+export { GeminiProvider, OpenAICompatibleProvider, RuleBasedProvider };
+
+/**
+ * The provider selected by configuration, see getProviderName
+ */
+export function getLLMProvider(): LLMProvider {
+  switch (getProviderName()) {
+    case 'gemini':
+      return new GeminiProvider();
+    case 'openai':
+      return new OpenAICompatibleProvider();
+    case 'rules':
+      return new RuleBasedProvider();
+  }
+}
@@ -0,0 +1,56 @@
+import { GENERATION_CONFIG, getOpenAICompatibleConfig } from '../config';
+import { LLMProvider, LLMRequest } from '../types';
+
+/**
+ * Any server implementing the OpenAI chat completions API, including local
+ * model servers. Configured by LLM_BASE_URL, LLM_MODEL and, when the server
+ * needs one, LLM_API_KEY.
+ */
+export class OpenAICompatibleProvider implements LLMProvider {
+  public readonly name = 'openai' as const;
+
+  public isConfigured(): boolean {
+    const { baseUrl, model } = getOpenAICompatibleConfig();
+    return Boolean(baseUrl && model);
+  }
+
+  public async complete({ prompt, signal }: LLMRequest): Promise<string> {
+    const { baseUrl, model, apiKey } = getOpenAICompatibleConfig();
+    if (!baseUrl || !model) {
+      throw new Error('LLM_BASE_URL and LLM_MODEL must be set');
+    }
+
+    const response = await fetch(
+      `${baseUrl.replace(/\/+$/, '')}/chat/completions`,
+      {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {}),
+        },
+        body: JSON.stringify({
+          model,
+          messages: [{ role: 'user', content: prompt }],
+          temperature: GENERATION_CONFIG.temperature,
+          top_p: GENERATION_CONFIG.topP,
+          max_tokens: GENERATION_CONFIG.maxOutputTokens,
+        }),
+        signal,
+      }
+    );
+
+    if (!response.ok) {
+      throw new Error(
+        `LLM endpoint responded with ${response.status} ${response.statusText}`
+      );
+    }
+
+    const body = await response.json();
+    const content = body?.choices?.[0]?.message?.content;
+    if (typeof content !== 'string') {
+      throw new Error('LLM endpoint returned no completion');
+    }
+
+    return content;
+  }
+}
@@ -0,0 +1,272 @@
+import { findByName } from '../names';
+import {
+  AICommandStep,
+  AICommandType,
+  LLMProvider,
+  LLMRequest,
+  RBACContext,
+} from '../types';
+
+const EMAIL = '([^\\s@]+@[^\\s@]+\\.[^\\s@]+)';
+
+// Words that start a new clause after "and", "then", ";" or a full stop
+const CLAUSE_START =
+  'create|add|give|assign|remove|take|delete|revoke|make|what|which|who|show|list';
+
+const CLAUSE_SEPARATOR = new RegExp(
+  `(?:\\s*;\\s*|\\.\\s+|,?\\s+(?:and\\s+then|then|and)\\s+)(?=(?:${CLAUSE_START})\\b)`,
+  'i'
+);
+
+/**
+ * A clause phrasing and the steps it stands for. `it` is the role mentioned
+ * last, which "it" and "them" refer to.
+ */
+interface Rule {
+  pattern: RegExp;
+  build: (groups: string[], it?: string) => AICommandStep[] | null;
+}
+
+const step = (
+  type: AICommandType,
+  parameters: Record<string, string>
+): AICommandStep => ({ type, parameters });
+
+// Strip the article, the kind of item and quotes around a name
+const clean = (text: string, kind: 'role' | 'permission') =>
+  text
+    .trim()
+    .replace(/^the\s+/i, '')
+    .replace(new RegExp(`^${kind}s?\\s+`, 'i'), '')
+    .replace(new RegExp(`\\s+${kind}s?$`, 'i'), '')
+    .replace(/^["'`](.*)["'`]$/, '$1')
+    .trim();
+
+// "a, b and c" as a list of names
+const names = (text: string, kind: 'role' | 'permission') =>
+  clean(text, kind)
+    .split(/\s*,\s*(?:and\s+)?|\s+and\s+/i)
+    .map((name) => clean(name, kind))
+    .filter(Boolean);
+
+const roleName = (text: string, it?: string) =>
+  /^(it|them)$/i.test(text.trim()) ? it : clean(text, 'role');
+
+// The existing permission a plain-words phrase stands for, e.g. write_reports
+// or reports:write for "write reports". Names that match nothing are kept.
+const permissionName = (
+  text: string,
+  permissions: RBACContext['permissions']
+) => {
+  const words = text.trim().split(/\s+/);
+  const candidates = [
+    text,
+    ...[words, [...words].reverse()].flatMap((order) =>
+      ['_', '.', ':', '-'].map((separator) => order.join(separator))
+    ),
+  ];
+
+  for (const candidate of candidates) {
+    const permission = findByName(permissions, candidate);
+    if (permission) return permission.name;
+  }
+  return text;
+};
+
+const rule = (pattern: string, build: Rule['build']): Rule => ({
+  pattern: new RegExp(`^${pattern}$`, 'i'),
+  build,
+});
+
+// Steps giving or taking permissions from one role
+const rolePermissions =
+  (type: 'assign_permission' | 'remove_permission') =>
+  (role: string, permissions: string, it?: string) => {
+    const role_name = roleName(role, it);
+    return role_name
+      ? names(permissions, 'permission').map((permission_name) =>
+          step(type, { role_name, permission_name })
+        )
+      : null;
+  };
+
+const assignPermissions = rolePermissions('assign_permission');
+const removePermissions = rolePermissions('remove_permission');
+
+const listRolePermissions = ([role]: string[], it?: string) => {
+  const role_name = roleName(role, it);
+  return role_name ? [step('list_role_permissions', { role_name })] : null;
+};
+
+// The documented phrasings, most specific first
+const RULES: Rule[] = [
+  // Questions
+  rule(`what roles does ${EMAIL} have`, ([user_email]) => [
+    step('list_user_roles', { user_email }),
+  ]),
+  rule(`(?:show|list) (?:the )?roles (?:for|of) ${EMAIL}`, ([user_email]) => [
+    step('list_user_roles', { user_email }),
+  ]),
+  rule('which roles have (.+)', ([permissions]) =>
+    names(permissions, 'permission').map((permission_name) =>
+      step('find_roles_with_permission', { permission_name })
+    )
+  ),
+  rule('what can (.+) do', listRolePermissions),
+  rule(
+    '(?:show|list) (?:the )?permissions (?:of|for) (.+)',
+    listRolePermissions
+  ),
+  rule(
+    '(?:show|list) (?:the )?(?:permissions (?:that )?nobody uses|unused permissions)',
+    () => [step('list_unused_permissions', {})]
+  ),
+  rule('(?:who can|which users have) (.+)', ([permissions]) =>
+    names(permissions, 'permission').map((permission_name) =>
+      step('find_users_with_permission', { permission_name })
+    )
+  ),
+
+  // User roles
+  rule(`(?:give|assign) ${EMAIL} (.+)`, ([user_email, roles]) =>
+    names(roles, 'role').map((role_name) =>
+      step('assign_role_to_user', { user_email, role_name })
+    )
+  ),
+  rule(`assign (.+) to ${EMAIL}`, ([roles, user_email]) =>
+    names(roles, 'role').map((role_name) =>
+      step('assign_role_to_user', { user_email, role_name })
+    )
+  ),
+  rule(`make ${EMAIL} an? (.+)`, ([user_email, role]) => [
+    step('assign_role_to_user', { user_email, role_name: clean(role, 'role') }),
+  ]),
+  rule(
+    `(?:remove|revoke|take away) (.+) from ${EMAIL}`,
+    ([roles, user_email]) =>
+      names(roles, 'role').map((role_name) =>
+        step('remove_role_from_user', { user_email, role_name })
+      )
+  ),
+
+  // Creation
+  rule(
+    '(?:create|add) (?:a )?(?:new )?permission(?: called| named)? (\\S+)(?: with (?:the )?description (.+))?',
+    ([name, description]) => [
+      step('create_permission', {
+        name: clean(name, 'permission'),
+        ...(description ? { description: description.trim() } : {}),
+      }),
+    ]
+  ),
+  rule(
+    '(?:create|add) (?:a )?(?:new )?role(?: called| named)? (.+)',
+    ([name]) => [step('create_role', { name: clean(name, 'role') })]
+  ),
+
+  // Role permissions
+  rule('give (.+?) the (.+)', ([role, permissions], it) =>
+    assignPermissions(role, permissions, it)
+  ),
+  rule('give (\\S+) (.+)', ([role, permissions], it) =>
+    assignPermissions(role, permissions, it)
+  ),
+  rule('assign (.+) to (.+)', ([permissions, role], it) =>
+    assignPermissions(role, permissions, it)
+  ),
+  rule('(?:remove|take away) (.+) from (.+)', ([permissions, role], it) =>
+    removePermissions(role, permissions, it)
+  ),
+
+  // Deletion, of whichever kind of item is named
+  rule('(?:delete|remove) (.+)', ([target]) => {
+    const text = target.trim().replace(/^the\s+/i, '');
+    const kind = /^roles?\s|\sroles?$/i.test(text)
+      ? 'role'
+      : /^permissions?\s|\spermissions?$/i.test(text)
+        ? 'permission'
+        : null;
+    if (!kind) return null;
+
+    return names(text, kind).map((name) =>
+      step(kind === 'role' ? 'delete_role' : 'delete_permission', { name })
+    );
+  }),
+];
+
+/**
+ * Deterministic parser for the documented command phrasings. It needs no
+ * network or API key, so it also works offline, but it only understands
+ * those phrasings. Names are used as written, except permissions given in
+ * plain words, which are matched to an existing permission when one fits.
+ */
+export class RuleBasedProvider implements LLMProvider {
+  public readonly name = 'rules' as const;
+
+  public isConfigured(): boolean {
+    return true;
+  }
+
+  public async complete({ userInput, context }: LLMRequest): Promise<string> {
+    const steps: AICommandStep[] = [];
+    let it: string | undefined;
+
+    const clauses = userInput
+      .split(CLAUSE_SEPARATOR)
+      .map((clause) =>
+        clause
+          .trim()
+          .replace(/^please\s+/i, '')
+          .replace(/[.?!]+$/, '')
+          .trim()
+      )
+      .filter(Boolean);
+
+    for (const clause of clauses) {
+      const clauseSteps = this.parseClause(clause, it);
+      if (!clauseSteps) {
+        return JSON.stringify({
+          steps: [step('unknown', {})],
+          confidence: 0,
+          message: `I couldn't match "${clause}" to a supported command.`,
+          suggestions: [
+            'Use one of the phrasings listed in the help',
+            'Or: "Give the admin role the read_users permission"',
+          ],
+        });
+      }
+
+      clauseSteps.forEach((clauseStep) => {
+        const { permission_name } = clauseStep.parameters;
+        if (permission_name && context) {
+          clauseStep.parameters.permission_name = permissionName(
+            permission_name,
+            context.permissions
+          );
+        }
+
+        it =
+          clauseStep.type === 'create_role'
+            ? clauseStep.parameters.name
+            : (clauseStep.parameters.role_name ?? it);
+      });
+      steps.push(...clauseSteps);
+    }
+
+    return JSON.stringify({ steps, confidence: 1 });
+  }
+
+  private parseClause(clause: string, it?: string): AICommandStep[] | null {
+    for (const { pattern, build } of RULES) {
+      const match = clause.match(pattern);
+      if (!match) continue;
+
+      const steps = build(match.slice(1), it);
+      if (steps && steps.length > 0) {
+        return steps;
+      }
+    }
+
+    return null;
+  }
+}
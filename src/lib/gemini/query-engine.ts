@@ -0,0 +1,337 @@
+import { findByName } from './names';
+import {
+  AICommandStep,
+  AICommandType,
+  CommandImpact,
+  QueryResult,
+  RBACContext,
+} from './types';
+import {
+  expandRoleIds,
+  formatScope,
+  isAssignmentActive,
+} from '@/lib/rbac-utils';
+
+// Step types that only read the RBAC model
+export const QUERY_TYPES: AICommandType[] = [
+  'list_user_roles',
+  'find_roles_with_permission',
+  'list_role_permissions',
+  'list_unused_permissions',
+  'find_users_with_permission',
+];
+
+export const isQueryStep = (step: AICommandStep) =>
+  QUERY_TYPES.includes(step.type);
+
+const plural = (count: number, noun: string) =>
+  `${count} ${noun}${count === 1 ? '' : 's'}`;
+
+/**
+ * Answers read-only questions about the RBAC model from the context of the
+ * request, without touching the database
+ */
+export class QueryEngine {
+  /**
+   * Answer each query step with a table
+   */
+  public answer(steps: AICommandStep[], context: RBACContext): QueryResult[] {
+    return steps.map((step) => this.answerStep(step, context));
+  }
+
+  /**
+   * What each deletion step would remove along with the role or permission.
+   * Roles and permissions the command creates itself have nothing to remove.
+   */
+  public describeImpact(
+    steps: AICommandStep[],
+    context: RBACContext
+  ): CommandImpact[] {
+    const roleNames = new Map(context.roles.map((r) => [r.id, r.name]));
+    const permissionNames = new Map(
+      context.permissions.map((p) => [p.id, p.name])
+    );
+    const emails = new Map(context.users.map((u) => [u.id, u.email]));
+
+    return steps.flatMap((step, index) => {
+      if (step.type !== 'delete_role' && step.type !== 'delete_permission') {
+        return [];
+      }
+
+      const { name } = step.parameters;
+      const impact: CommandImpact = {
+        step: index + 1,
+        type: step.type,
+        name,
+        associations: [],
+        user_assignments: [],
+      };
+
+      if (step.type === 'delete_role') {
+        const role = findByName(context.roles, name);
+        if (!role) return [impact];
+
+        impact.associations = context.associations
+          .filter((a) => a.role_id === role.id)
+          .map((a) => ({
+            role: role.name,
+            permission: permissionNames.get(a.permission_id) ?? a.permission_id,
+          }));
+        impact.user_assignments = context.userRoles
+          .filter((ur) => ur.role_id === role.id)
+          .map((ur) => ({
+            user: emails.get(ur.user_id) ?? ur.user_id,
+            role: role.name,
+            scope: formatScope(ur) || 'Global',
+          }));
+      } else {
+        const permission = findByName(context.permissions, name);
+        if (!permission) return [impact];
+
+        impact.associations = context.associations
+          .filter((a) => a.permission_id === permission.id)
+          .map((a) => ({
+            role: roleNames.get(a.role_id) ?? a.role_id,
+            permission: permission.name,
+          }));
+      }
+
+      return [impact];
+    });
+  }
+
+  private answerStep(step: AICommandStep, context: RBACContext): QueryResult {
+    switch (step.type) {
+      case 'find_roles_with_permission':
+        return this.findRolesWithPermission(step.parameters, context);
+      case 'list_role_permissions':
+        return this.listRolePermissions(step.parameters, context);
+      case 'list_unused_permissions':
+        return this.listUnusedPermissions(context);
+      case 'find_users_with_permission':
+        return this.findUsersWithPermission(step.parameters, context);
+      case 'list_user_roles':
+        return this.listUserRoles(step.parameters, context);
+      default:
+        throw new Error(`Unsupported query type: ${step.type}`);
+    }
+  }
+
+  /**
+   * Role IDs that hold each permission, directly or through inheritance
+   */
+  private getRolesByPermission(context: RBACContext): Map<string, string[]> {
+    const rolesByPermission = new Map<string, string[]>();
+    context.roles.forEach((role) => {
+      const roleIds = new Set(expandRoleIds([role.id], context.roles));
+      context.associations
+        .filter((a) => roleIds.has(a.role_id))
+        .forEach((a) => {
+          const holders = rolesByPermission.get(a.permission_id) ?? [];
+          if (!holders.includes(role.id)) holders.push(role.id);
+          rolesByPermission.set(a.permission_id, holders);
+        });
+    });
+    return rolesByPermission;
+  }
+
+  /**
+   * How a role gets a permission: "Direct", or the ancestor it inherits from
+   */
+  private describeGrant(
+    roleId: string,
+    permissionId: string,
+    context: RBACContext
+  ): string {
+    const sourceId = expandRoleIds([roleId], context.roles).find((id) =>
+      context.associations.some(
+        (a) => a.role_id === id && a.permission_id === permissionId
+      )
+    );
+    if (sourceId === roleId) return 'Direct';
+    const source = context.roles.find((r) => r.id === sourceId);
+    return `Inherited from ${source?.name ?? 'unknown role'}`;
+  }
+
+  private findRolesWithPermission(
+    { permission_name }: Record<string, string>,
+    context: RBACContext
+  ): QueryResult {
+    const permission = findByName(context.permissions, permission_name);
+    if (!permission) {
+      throw new Error(`Permission "${permission_name}" does not exist`);
+    }
+
+    const roleIds = this.getRolesByPermission(context).get(permission.id) ?? [];
+    const rows = context.roles
+      .filter((role) => roleIds.includes(role.id))
+      .map((role) => ({
+        role: role.name,
+        grant: this.describeGrant(role.id, permission.id, context),
+      }));
+
+    return {
+      title: `Roles with ${permission.name}`,
+      summary: `${plural(rows.length, 'role')} ${
+        rows.length === 1 ? 'has' : 'have'
+      } permission "${permission.name}"`,
+      columns: [
+        { key: 'role', label: 'Role' },
+        { key: 'grant', label: 'Granted' },
+      ],
+      rows,
+    };
+  }
+
+  private listRolePermissions(
+    { role_name }: Record<string, string>,
+    context: RBACContext
+  ): QueryResult {
+    const role = findByName(context.roles, role_name);
+    if (!role) {
+      throw new Error(`Role "${role_name}" does not exist`);
+    }
+
+    const roleIds = new Set(expandRoleIds([role.id], context.roles));
+    const permissionIds = new Set(
+      context.associations
+        .filter((a) => roleIds.has(a.role_id))
+        .map((a) => a.permission_id)
+    );
+    const rows = context.permissions
+      .filter((permission) => permissionIds.has(permission.id))
+      .map((permission) => ({
+        permission: permission.name,
+        description: permission.description ?? '',
+        grant: this.describeGrant(role.id, permission.id, context),
+      }));
+
+    return {
+      title: `Permissions of ${role.name}`,
+      summary: `Role "${role.name}" has ${plural(rows.length, 'permission')}`,
+      columns: [
+        { key: 'permission', label: 'Permission' },
+        { key: 'description', label: 'Description' },
+        { key: 'grant', label: 'Granted' },
+      ],
+      rows,
+    };
+  }
+
+  private listUnusedPermissions(context: RBACContext): QueryResult {
+    const now = new Date();
+    const rolesByPermission = this.getRolesByPermission(context);
+    const heldRoleIds = new Set(
+      context.userRoles
+        .filter((ur) => isAssignmentActive(ur, now))
+        .map((ur) => ur.role_id)
+    );
+    const roleNames = new Map(context.roles.map((r) => [r.id, r.name]));
+
+    // Unused: no user currently holds it through any of their roles
+    const rows = context.permissions
+      .filter((permission) =>
+        (rolesByPermission.get(permission.id) ?? []).every(
+          (roleId) => !heldRoleIds.has(roleId)
+        )
+      )
+      .map((permission) => {
+        const roleIds = rolesByPermission.get(permission.id) ?? [];
+        return {
+          permission: permission.name,
+          description: permission.description ?? '',
+          roles:
+            roleIds.length > 0
+              ? roleIds.map((id) => roleNames.get(id)).join(', ')
+              : 'No roles',
+        };
+      });
+
+    return {
+      title: 'Unused permissions',
+      summary: `${plural(rows.length, 'permission')} ${
+        rows.length === 1 ? 'is' : 'are'
+      } not held by any user`,
+      columns: [
+        { key: 'permission', label: 'Permission' },
+        { key: 'description', label: 'Description' },
+        { key: 'roles', label: 'Roles' },
+      ],
+      rows,
+    };
+  }
+
+  private findUsersWithPermission(
+    { permission_name }: Record<string, string>,
+    context: RBACContext
+  ): QueryResult {
+    const permission = findByName(context.permissions, permission_name);
+    if (!permission) {
+      throw new Error(`Permission "${permission_name}" does not exist`);
+    }
+
+    const now = new Date();
+    const roleIds = this.getRolesByPermission(context).get(permission.id) ?? [];
+    const roleNames = new Map(context.roles.map((r) => [r.id, r.name]));
+    const emails = new Map(context.users.map((u) => [u.id, u.email]));
+
+    const rows = context.userRoles
+      .filter(
+        (ur) => roleIds.includes(ur.role_id) && isAssignmentActive(ur, now)
+      )
+      .map((ur) => ({
+        user: emails.get(ur.user_id) ?? ur.user_id,
+        role: roleNames.get(ur.role_id) ?? ur.role_id,
+        scope: formatScope(ur) || 'Global',
+      }))
+      .sort((a, b) => a.user.localeCompare(b.user));
+    const userCount = new Set(rows.map((row) => row.user)).size;
+
+    return {
+      title: `Users with ${permission.name}`,
+      summary: `${plural(userCount, 'user')} can use permission "${
+        permission.name
+      }"`,
+      columns: [
+        { key: 'user', label: 'User' },
+        { key: 'role', label: 'Through role' },
+        { key: 'scope', label: 'Scope' },
+      ],
+      rows,
+    };
+  }
+
+  private listUserRoles(
+    { user_email }: Record<string, string>,
+    context: RBACContext
+  ): QueryResult {
+    const user = context.users.find(
+      (u) => u.email.toLowerCase() === user_email.toLowerCase()
+    );
+    if (!user) {
+      throw new Error(`User "${user_email}" does not exist`);
+    }
+
+    const now = new Date();
+    const roleNames = new Map(context.roles.map((r) => [r.id, r.name]));
+    const rows = context.userRoles
+      .filter((ur) => ur.user_id === user.id && isAssignmentActive(ur, now))
+      .map((ur) => ({
+        role: roleNames.get(ur.role_id) ?? ur.role_id,
+        scope: formatScope(ur) || 'Global',
+        valid_until: ur.valid_until ?? 'No expiry',
+      }))
+      .sort((a, b) => a.role.localeCompare(b.role));
+
+    return {
+      title: `Roles of ${user.email}`,
+      summary: `User "${user.email}" has ${plural(rows.length, 'role')}`,
+      columns: [
+        { key: 'role', label: 'Role' },
+        { key: 'scope', label: 'Scope' },
+        { key: 'valid_until', label: 'Valid until' },
+      ],
+      rows,
+    };
+  }
+}
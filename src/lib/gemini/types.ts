@@ -1,30 +1,111 @@
 // Types for AI command processing
 
-export interface AICommand {
-  type:
-    | 'create_permission'
-    | 'create_role'
-    | 'assign_permission'
-    | 'remove_permission'
-    | 'delete_permission'
-    | 'delete_role'
-    | 'unknown';
+export type AICommandType =
+  | 'create_permission'
+  | 'create_role'
+  | 'assign_permission'
+  | 'remove_permission'
+  | 'delete_permission'
+  | 'delete_role'
+  | 'assign_role_to_user'
+  | 'remove_role_from_user'
+  | 'list_user_roles'
+  | 'find_roles_with_permission'
+  | 'list_role_permissions'
+  | 'list_unused_permissions'
+  | 'find_users_with_permission'
+  | 'unknown';
+
+export interface AICommandStep {
+  type: AICommandType;
   parameters: Record<string, string>;
+}
+
+// An ordered plan of steps, applied together or not at all
+export interface AICommand {
+  steps: AICommandStep[];
   confidence: number;
 }
 
+export interface StepValidation {
+  valid: boolean;
+  errors: string[];
+}
+
 export interface AIResponse {
   success: boolean;
   command?: AICommand;
+  // Validation status of each step of the command, in order
+  validation?: StepValidation[];
+  // Answers to read-only questions, one per step
+  results?: QueryResult[];
   message: string;
   error?: string;
   suggestions?: string[];
 }
 
+// Table answering a read-only question about the RBAC model
+export interface QueryResult {
+  title: string;
+  summary: string;
+  columns: Array<{ key: string; label: string }>;
+  rows: Array<Record<string, string>>;
+}
+
 export interface RBACContext {
   permissions: Array<{ id: string; name: string; description?: string }>;
-  roles: Array<{ id: string; name: string }>;
+  roles: Array<{
+    id: string;
+    name: string;
+    parent_role_id: string | null;
+    created_at: string;
+  }>;
   associations: Array<{ role_id: string; permission_id: string }>;
+  users: Array<{ id: string; email: string }>;
+  userRoles: Array<{
+    user_id: string;
+    role_id: string;
+    scope_type: string;
+    scope_id: string;
+    valid_from: string | null;
+    valid_until: string | null;
+  }>;
+}
+
+export type LLMProviderName = 'gemini' | 'openai' | 'rules';
+
+export interface LLMRequest {
+  // Full prompt with the RBAC context and the JSON format to answer in
+  prompt: string;
+  // The command exactly as the user typed it
+  userInput: string;
+  // The RBAC model the prompt describes, for providers that match names
+  // themselves
+  context?: RBACContext;
+  signal?: AbortSignal;
+}
+
+// Turns a command into the JSON response the prompt asks for
+export interface LLMProvider {
+  readonly name: LLMProviderName;
+  isConfigured(): boolean;
+  complete(request: LLMRequest): Promise<string>;
+}
+
+// What deleting a role or permission removes along with it
+export interface CommandImpact {
+  step: number;
+  type: AICommandType;
+  name: string;
+  associations: Array<{ role: string; permission: string }>;
+  user_assignments: Array<{ user: string; role: string; scope: string }>;
+}
+
+// Impact of a destructive command and the token that confirms it
+export interface CommandConfirmation {
+  impact: CommandImpact[];
+  confirmation_token: string;
+  expires_at: string;
 }
 
 export interface CommandExecutionResult {
@@ -32,4 +113,7 @@ export interface CommandExecutionResult {
   message: string;
   data?: unknown;
   error?: string;
+  // Set when the command was only checked, not applied
+  dry_run?: boolean;
+  confirmation?: CommandConfirmation;
 }
@@ -0,0 +1,1298 @@
+/**
+ * OpenAPI 3.1 description of the REST API, generated from the zod schemas
+ * the route handlers validate with. Every route under src/app/api has an
+ * entry in `apiRoutes`; add one when adding a route.
+ */
+
+import { z } from 'zod';
+import { idSchema, searchSchema } from './validations/common';
+import {
+  accessReviewDecisionsSchema,
+  addOrganizationMemberSchema,
+  assignUserRoleSchema,
+  auditLogQuerySchema,
+  bulkAssociationOperationSchema,
+  bulkCreatePermissionsSchema,
+  bulkCreateRolesSchema,
+  bulkDeletePermissionsSchema,
+  bulkDeleteRolesSchema,
+  bulkUpdatePermissionsSchema,
+  bulkUpdateRolesSchema,
+  changeRequestQuerySchema,
+  checkMultiplePermissionsSchema,
+  checkPermissionSchema,
+  createAccessReviewSchema,
+  createAssociationSchema,
+  createOrganizationSchema,
+  createPermissionSchema,
+  createRoleSchema,
+  createSnapshotSchema,
+  createSodConstraintSchema,
+  createWebhookSchema,
+  deleteAssociationSchema,
+  expiringGrantsQuerySchema,
+  explainUserAccessQuerySchema,
+  exportRbacSchema,
+  importRbacSchema,
+  reviewChangeRequestSchema,
+  simulateChangesSchema,
+  snapshotDiffQuerySchema,
+  switchOrganizationSchema,
+  unassignUserRoleSchema,
+  updatePermissionSchema,
+  updateRoleSchema,
+  updateWebhookSchema,
+  webhookDeliveryQuerySchema,
+} from './validations/rbac';
+import { aiCommandPlanSchema, executeCommandSchema } from './validations/ai';
+import { ORGANIZATION_HEADER } from './organizations';
+import {
+  RBAC_ADMIN_PERMISSION,
+  RBAC_APPROVE_PERMISSION,
+  RBAC_CHECK_PERMISSION,
+  RBAC_REVIEW_PERMISSION,
+} from './supabase/authorization';
+import type {
+  ChangeRequest,
+  Organization,
+  Permission,
+  PermissionDecision,
+  Role,
+  RolePermission,
+  RolePermissionRef,
+  UserRole,
+  UserWithRoles,
+  WebhookDelivery,
+  WebhookSubscription,
+} from './types';
+
+export const OPENAPI_VERSION = '3.1.0';
+export const API_VERSION = '1.0.0';
+
+type JsonSchema = Record<string, unknown>;
+type HttpMethod = 'get' | 'post' | 'put' | 'delete';
+
+// Who may call a route: anyone, any signed-in user, RBAC administrators of
+// the current organization, or Vercel Cron with CRON_SECRET
+type RouteAccess = 'public' | 'user' | 'admin' | 'cron';
+
+interface ApiRoute {
+  method: HttpMethod;
+  // Relative to /api, with path parameters in braces
+  path: string;
+  tag: string;
+  summary: string;
+  description?: string;
+  access: RouteAccess;
+  // Permission required on top of signing in
+  permission?: string;
+  query?: z.ZodType;
+  body?: z.ZodType;
+  // Fields of `query` or `body` that the handler takes from the path instead
+  fromPath?: string[];
+  // Schema of `data` in a successful response
+  data?: z.ZodType;
+  list?: boolean;
+  paginated?: boolean;
+  // Whole successful response, for routes without the { data } envelope
+  response?: z.ZodType;
+  status?: number;
+  // Route-specific error responses, by status
+  errors?: Record<number, string>;
+  // Submits a change request instead while RBAC_REQUIRE_APPROVAL is set
+  approvable?: boolean;
+}
+
+// Response schemas, kept in step with the app's types by `satisfies`
+const timestampSchema = z.string().datetime();
+
+const roleScopeShape = {
+  scope_type: z.string(),
+  scope_id: z.string(),
+};
+
+const roleValidityShape = {
+  valid_from: timestampSchema.nullable().optional(),
+  valid_until: timestampSchema.nullable().optional(),
+};
+
+const roleRefSchema = z.object({ id: idSchema, name: z.string() });
+
+const permissionResponseSchema = z.object({
+  id: idSchema,
+  name: z.string(),
+  description: z.string().nullable(),
+  created_at: timestampSchema,
+}) satisfies z.ZodType<Permission>;
+
+const roleResponseSchema = z.object({
+  id: idSchema,
+  name: z.string(),
+  parent_role_id: idSchema
+    .nullable()
+    .describe('Role whose permissions this role inherits'),
+  created_at: timestampSchema,
+}) satisfies z.ZodType<Role>;
+
+const rolePermissionResponseSchema = z.object({
+  role_id: idSchema,
+  permission_id: idSchema,
+  created_at: timestampSchema.optional(),
+}) satisfies z.ZodType<RolePermission>;
+
+const associationResponseSchema = z.object({
+  role_id: idSchema,
+  role_name: z.string(),
+  permission_id: idSchema,
+  permission_name: z.string(),
+  permission_description: z.string().nullable(),
+}) satisfies z.ZodType<RolePermissionRef>;
+
+const userRoleResponseSchema = z.object({
+  user_id: idSchema,
+  role_id: idSchema,
+  ...roleScopeShape,
+  ...roleValidityShape,
+  created_at: timestampSchema.optional(),
+}) satisfies z.ZodType<UserRole>;
+
+const userResponseSchema = z.object({
+  id: idSchema,
+  email: z.string().nullable(),
+  created_at: timestampSchema,
+  last_sign_in_at: timestampSchema.nullable(),
+  roles: z.array(roleResponseSchema).describe('Globally assigned roles'),
+  permissions: z
+    .array(permissionResponseSchema)
+    .describe('Permissions granted by the global roles'),
+  assignments: z
+    .array(
+      z.object({
+        role: roleRefSchema,
+        ...roleScopeShape,
+        ...roleValidityShape,
+        active: z.boolean(),
+      })
+    )
+    .describe('Every assignment, including resource-scoped ones'),
+}) satisfies z.ZodType<UserWithRoles>;
+
+const permissionDecisionResponseSchema = z.object({
+  user_id: idSchema,
+  permission_name: z.string(),
+  resource_type: z.string().optional(),
+  resource_id: z.string().optional(),
+  allowed: z.boolean(),
+  granted_by: z.array(roleRefSchema.extend(roleScopeShape)),
+  reason: z.string(),
+}) satisfies z.ZodType<PermissionDecision>;
+
+const organizationResponseSchema = z.object({
+  id: idSchema,
+  name: z.string(),
+  created_by: idSchema.nullable(),
+  created_at: timestampSchema,
+}) satisfies z.ZodType<Organization>;
+
+const webhookResponseSchema = z.object({
+  id: idSchema,
+  url: z.string(),
+  events: z.array(z.string()).describe("Event names, or '*' for every event"),
+  description: z.string().nullable(),
+  active: z.boolean(),
+  created_by: idSchema.nullable(),
+  created_at: timestampSchema,
+}) satisfies z.ZodType<WebhookSubscription>;
+
+const webhookDeliveryResponseSchema = z.object({
+  id: idSchema,
+  subscription_id: idSchema,
+  event: z.string(),
+  payload: z.record(z.string(), z.unknown()),
+  status: z.enum(['pending', 'succeeded', 'failed']),
+  attempts: z.number().int(),
+  next_attempt_at: timestampSchema,
+  last_attempt_at: timestampSchema.nullable(),
+  response_status: z.number().int().nullable(),
+  last_error: z.string().nullable(),
+  created_at: timestampSchema,
+}) satisfies z.ZodType<WebhookDelivery>;
+
+const changeRequestResponseSchema = z.object({
+  id: idSchema,
+  operation: z.enum([
+    'create_permission',
+    'update_permission',
+    'delete_permission',
+    'create_role',
+    'update_role',
+    'delete_role',
+    'create_association',
+    'delete_association',
+  ]),
+  resource_id: idSchema
+    .nullable()
+    .describe(
+      'Permission or role the change targets; set for creations once applied'
+    ),
+  payload: z.record(z.string(), z.unknown()),
+  summary: z.string(),
+  status: z.enum(['pending', 'approved', 'rejected']),
+  requested_by: idSchema.nullable(),
+  requested_by_email: z.string().nullable(),
+  requested_at: timestampSchema,
+  reviewed_by: idSchema.nullable(),
+  reviewed_by_email: z.string().nullable(),
+  reviewed_at: timestampSchema.nullable(),
+  review_comment: z.string().nullable(),
+}) satisfies z.ZodType<ChangeRequest>;
+
+const paginationResponseSchema = z.object({
+  page: z.number().int(),
+  pageSize: z.number().int(),
+  total: z.number().int(),
+  totalPages: z.number().int(),
+});
+
+const errorResponseSchema = z.object({
+  error: z.string(),
+  message: z.string().optional().describe('Longer explanation, if any'),
+});
+
+const validationErrorResponseSchema = z.object({
+  error: z.string(),
+  details: z
+    .array(
+      z.object({
+        field: z.string().optional(),
+        path: z.array(z.union([z.string(), z.number()])).optional(),
+        message: z.string(),
+      })
+    )
+    .describe(
+      'Invalid fields: `field` for request bodies, zod issues with a `path` for query parameters'
+    ),
+});
+
+// Natural language routes answer with their own envelope
+const aiResponseSchema = z.object({
+  success: z.boolean(),
+  message: z.string(),
+  data: z.unknown().optional(),
+  error: z.string().optional(),
+  suggestions: z.array(z.string()).optional(),
+});
+
+// Referenced from operations instead of being repeated in each
+const componentSchemas: Record<string, z.ZodType> = {
+  Permission: permissionResponseSchema,
+  Role: roleResponseSchema,
+  RolePermission: rolePermissionResponseSchema,
+  Association: associationResponseSchema,
+  UserRole: userRoleResponseSchema,
+  User: userResponseSchema,
+  PermissionDecision: permissionDecisionResponseSchema,
+  Organization: organizationResponseSchema,
+  Webhook: webhookResponseSchema,
+  WebhookDelivery: webhookDeliveryResponseSchema,
+  ChangeRequest: changeRequestResponseSchema,
+  Pagination: paginationResponseSchema,
+  Error: errorResponseSchema,
+  ValidationError: validationErrorResponseSchema,
+};
+
+const listQuerySchema = searchSchema.pick({
+  query: true,
+  limit: true,
+  offset: true,
+});
+
+const aiCommandSchema = executeCommandSchema.extend({
+  command: z.union([
+    z.string().min(1).describe('Natural language command'),
+    aiCommandPlanSchema.describe(
+      'Plan already parsed by POST /ai-service/process; its steps are applied in one transaction'
+    ),
+  ]),
+  dry_run: executeCommandSchema.shape.dry_run.describe(
+    'Validate the command and report its impact without changing anything'
+  ),
+  confirm_destructive: executeCommandSchema.shape.confirm_destructive.describe(
+    'Required, with confirmation_token, to apply commands that delete roles or permissions'
+  ),
+  confirmation_token: executeCommandSchema.shape.confirmation_token.describe(
+    'Token from the confirmation in an earlier response for the same plan'
+  ),
+  timeout: executeCommandSchema.shape.timeout.describe(
+    'Seconds allowed for interpreting and checking the command before changes are applied'
+  ),
+});
+
+export const apiRoutes: ApiRoute[] = [
+  // Permissions
+  {
+    method: 'get',
+    path: '/permissions',
+    tag: 'Permissions',
+    summary: 'List permissions',
+    access: 'user',
+    query: listQuerySchema,
+    data: permissionResponseSchema,
+    paginated: true,
+  },
+  {
+    method: 'post',
+    path: '/permissions',
+    tag: 'Permissions',
+    summary: 'Create a permission',
+    access: 'admin',
+    approvable: true,
+    body: createPermissionSchema,
+    data: permissionResponseSchema,
+    status: 201,
+    errors: { 409: 'A permission with this name already exists' },
+  },
+  {
+    method: 'get',
+    path: '/permissions/{id}',
+    tag: 'Permissions',
+    summary: 'Get a permission',
+    access: 'user',
+    data: permissionResponseSchema,
+  },
+  {
+    method: 'put',
+    path: '/permissions/{id}',
+    tag: 'Permissions',
+    summary: 'Update a permission',
+    access: 'admin',
+    approvable: true,
+    body: updatePermissionSchema,
+    data: permissionResponseSchema,
+    errors: { 409: 'A permission with this name already exists' },
+  },
+  {
+    method: 'delete',
+    path: '/permissions/{id}',
+    tag: 'Permissions',
+    summary: 'Delete a permission',
+    description: 'Fails while the permission is assigned to a role.',
+    access: 'admin',
+    approvable: true,
+    errors: { 409: 'The permission is assigned to roles' },
+  },
+  {
+    method: 'post',
+    path: '/permissions/bulk',
+    tag: 'Permissions',
+    summary: 'Create several permissions',
+    access: 'admin',
+    body: bulkCreatePermissionsSchema,
+    status: 201,
+  },
+  {
+    method: 'put',
+    path: '/permissions/bulk',
+    tag: 'Permissions',
+    summary: 'Update several permissions',
+    access: 'admin',
+    body: bulkUpdatePermissionsSchema,
+  },
+  {
+    method: 'delete',
+    path: '/permissions/bulk',
+    tag: 'Permissions',
+    summary: 'Delete several permissions',
+    access: 'admin',
+    body: bulkDeletePermissionsSchema,
+  },
+
+  // Roles
+  {
+    method: 'get',
+    path: '/roles',
+    tag: 'Roles',
+    summary: 'List roles',
+    access: 'user',
+    query: listQuerySchema,
+    data: roleResponseSchema,
+    paginated: true,
+  },
+  {
+    method: 'post',
+    path: '/roles',
+    tag: 'Roles',
+    summary: 'Create a role',
+    access: 'admin',
+    approvable: true,
+    body: createRoleSchema,
+    data: roleResponseSchema,
+    status: 201,
+    errors: { 409: 'A role with this name already exists' },
+  },
+  {
+    method: 'get',
+    path: '/roles/hierarchy',
+    tag: 'Roles',
+    summary: 'Get the role inheritance tree',
+    access: 'user',
+  },
+  {
+    method: 'get',
+    path: '/roles/{id}',
+    tag: 'Roles',
+    summary: 'Get a role',
+    access: 'user',
+    data: roleResponseSchema,
+  },
+  {
+    method: 'put',
+    path: '/roles/{id}',
+    tag: 'Roles',
+    summary: 'Update a role',
+    description: 'Rejects parents that would create an inheritance cycle.',
+    access: 'admin',
+    approvable: true,
+    body: updateRoleSchema,
+    data: roleResponseSchema,
+    errors: { 409: 'A role with this name already exists' },
+  },
+  {
+    method: 'delete',
+    path: '/roles/{id}',
+    tag: 'Roles',
+    summary: 'Delete a role',
+    description: 'Fails while the role has permissions or users.',
+    access: 'admin',
+    approvable: true,
+    errors: { 409: 'The role still has permissions or users' },
+  },
+  {
+    method: 'post',
+    path: '/roles/bulk',
+    tag: 'Roles',
+    summary: 'Create several roles',
+    access: 'admin',
+    body: bulkCreateRolesSchema,
+    status: 201,
+  },
+  {
+    method: 'put',
+    path: '/roles/bulk',
+    tag: 'Roles',
+    summary: 'Rename several roles',
+    access: 'admin',
+    body: bulkUpdateRolesSchema,
+  },
+  {
+    method: 'delete',
+    path: '/roles/bulk',
+    tag: 'Roles',
+    summary: 'Delete several roles',
+    access: 'admin',
+    body: bulkDeleteRolesSchema,
+  },
+
+  // Associations
+  {
+    method: 'get',
+    path: '/associations',
+    tag: 'Associations',
+    summary: 'List role permissions',
+    access: 'user',
+    data: associationResponseSchema,
+    list: true,
+  },
+  {
+    method: 'post',
+    path: '/associations',
+    tag: 'Associations',
+    summary: 'Give a permission to a role',
+    access: 'admin',
+    approvable: true,
+    body: createAssociationSchema,
+    data: rolePermissionResponseSchema,
+    status: 201,
+    errors: {
+      409: 'The role already has the permission, or it would violate a separation of duties constraint',
+    },
+  },
+  {
+    method: 'delete',
+    path: '/associations',
+    tag: 'Associations',
+    summary: 'Take a permission from a role',
+    access: 'admin',
+    approvable: true,
+    query: deleteAssociationSchema,
+  },
+  {
+    method: 'post',
+    path: '/associations/bulk',
+    tag: 'Associations',
+    summary: 'Give or take several permissions of a role',
+    access: 'admin',
+    body: bulkAssociationOperationSchema,
+  },
+
+  // Users
+  {
+    method: 'get',
+    path: '/users',
+    tag: 'Users',
+    summary: 'List the members of the organization',
+    access: 'admin',
+    query: listQuerySchema,
+    data: userResponseSchema,
+    paginated: true,
+  },
+  {
+    method: 'get',
+    path: '/users/{id}',
+    tag: 'Users',
+    summary: 'Get a user with their roles and permissions',
+    access: 'admin',
+    data: userResponseSchema,
+  },
+  {
+    method: 'get',
+    path: '/users/{id}/explain',
+    tag: 'Users',
+    summary: "Explain a user's permissions",
+    description:
+      'Lists every permission with the roles and scopes that grant it. With `permission_name` the response also contains the check decision for it.',
+    access: 'admin',
+    query: explainUserAccessQuerySchema,
+  },
+  {
+    method: 'post',
+    path: '/users/{id}/roles',
+    tag: 'Users',
+    summary: 'Assign a role to a user',
+    description:
+      'Optionally limited to a resource (`scope_type`/`scope_id`) and a `valid_from`/`valid_until` window.',
+    access: 'admin',
+    body: assignUserRoleSchema,
+    fromPath: ['user_id'],
+    data: userRoleResponseSchema,
+    status: 201,
+    errors: {
+      409: 'The user already has the role, or it would violate a separation of duties constraint',
+    },
+  },
+  {
+    method: 'delete',
+    path: '/users/{id}/roles',
+    tag: 'Users',
+    summary: 'Remove a role from a user',
+    access: 'admin',
+    query: unassignUserRoleSchema,
+    fromPath: ['user_id'],
+  },
+  {
+    method: 'get',
+    path: '/user-roles/expiring',
+    tag: 'Users',
+    summary: 'List role assignments about to expire',
+    access: 'admin',
+    query: expiringGrantsQuerySchema,
+  },
+
+  // Checks
+  {
+    method: 'post',
+    path: '/check',
+    tag: 'Checks',
+    summary: 'Decide whether a user holds a permission',
+    description: `Without \`resource_type\` only global grants apply. Checking anyone but yourself requires the \`${RBAC_CHECK_PERMISSION}\` permission.`,
+    access: 'user',
+    body: checkPermissionSchema,
+    data: permissionDecisionResponseSchema,
+  },
+  {
+    method: 'post',
+    path: '/check/batch',
+    tag: 'Checks',
+    summary: 'Decide several permissions of a user',
+    description: `\`allowed\` is true when every permission is held. Checking anyone but yourself requires the \`${RBAC_CHECK_PERMISSION}\` permission.`,
+    access: 'user',
+    body: checkMultiplePermissionsSchema,
+    response: z.object({
+      data: z.array(permissionDecisionResponseSchema),
+      allowed: z.boolean(),
+    }),
+  },
+
+  // Governance
+  {
+    method: 'get',
+    path: '/sod-constraints',
+    tag: 'Governance',
+    summary: 'List separation of duties constraints',
+    access: 'user',
+  },
+  {
+    method: 'post',
+    path: '/sod-constraints',
+    tag: 'Governance',
+    summary: 'Create a separation of duties constraint',
+    access: 'admin',
+    body: createSodConstraintSchema,
+    status: 201,
+  },
+  {
+    method: 'delete',
+    path: '/sod-constraints/{id}',
+    tag: 'Governance',
+    summary: 'Delete a separation of duties constraint',
+    access: 'admin',
+  },
+  {
+    method: 'get',
+    path: '/sod-constraints/violations',
+    tag: 'Governance',
+    summary: 'List users and roles that violate a constraint',
+    access: 'admin',
+  },
+  {
+    method: 'get',
+    path: '/change-requests',
+    tag: 'Governance',
+    summary: 'List change requests',
+    access: 'user',
+    query: changeRequestQuerySchema,
+  },
+  {
+    method: 'post',
+    path: '/change-requests/{id}/review',
+    tag: 'Governance',
+    summary: 'Approve or reject a change request',
+    description:
+      'Approving applies the change. Requesters cannot review their own requests.',
+    access: 'user',
+    permission: RBAC_APPROVE_PERMISSION,
+    body: reviewChangeRequestSchema,
+  },
+  {
+    method: 'get',
+    path: '/access-reviews',
+    tag: 'Governance',
+    summary: 'List access review campaigns',
+    access: 'user',
+  },
+  {
+    method: 'post',
+    path: '/access-reviews',
+    tag: 'Governance',
+    summary: 'Start an access review campaign',
+    access: 'admin',
+    body: createAccessReviewSchema,
+    status: 201,
+  },
+  {
+    method: 'get',
+    path: '/access-reviews/{id}',
+    tag: 'Governance',
+    summary: 'Get an access review with its items',
+    access: 'user',
+  },
+  {
+    method: 'post',
+    path: '/access-reviews/{id}/decisions',
+    tag: 'Governance',
+    summary: 'Keep or revoke reviewed assignments',
+    access: 'user',
+    permission: RBAC_REVIEW_PERMISSION,
+    body: accessReviewDecisionsSchema,
+  },
+  {
+    method: 'post',
+    path: '/access-reviews/{id}/close',
+    tag: 'Governance',
+    summary: 'Close an access review',
+    description:
+      'Applies the revocations and stores the signed report. On a closed review whose report was not stored, produces the report.',
+    access: 'admin',
+  },
+  {
+    method: 'get',
+    path: '/access-reviews/{id}/report',
+    tag: 'Governance',
+    summary: 'Download the signed report of a closed access review',
+    access: 'user',
+    errors: {
+      409: 'The review is still open, or its report was not stored when it was closed',
+    },
+  },
+  {
+    method: 'get',
+    path: '/audit-logs',
+    tag: 'Governance',
+    summary: 'Search the audit log',
+    access: 'admin',
+    query: auditLogQuerySchema,
+  },
+
+  // Model
+  {
+    method: 'get',
+    path: '/rbac/export',
+    tag: 'Model',
+    summary: 'Export the RBAC model',
+    description:
+      'JSON keyed by names, or a zip of CSV files with `format=csv`.',
+    access: 'admin',
+    query: exportRbacSchema,
+  },
+  {
+    method: 'post',
+    path: '/rbac/import',
+    tag: 'Model',
+    summary: 'Import an exported RBAC model',
+    description:
+      'Runs as a dry run, reporting what would change, unless `options.dry_run` is false.',
+    access: 'admin',
+    body: importRbacSchema,
+  },
+  {
+    method: 'get',
+    path: '/snapshots',
+    tag: 'Model',
+    summary: 'List snapshots',
+    access: 'admin',
+  },
+  {
+    method: 'post',
+    path: '/snapshots',
+    tag: 'Model',
+    summary: 'Take a snapshot of the RBAC model',
+    access: 'admin',
+    body: createSnapshotSchema,
+    status: 201,
+  },
+  {
+    method: 'get',
+    path: '/snapshots/diff',
+    tag: 'Model',
+    summary: 'Compare two snapshots, or a snapshot with the current model',
+    access: 'admin',
+    query: snapshotDiffQuerySchema,
+  },
+  {
+    method: 'get',
+    path: '/snapshots/{id}',
+    tag: 'Model',
+    summary: 'Get a snapshot',
+    access: 'admin',
+  },
+  {
+    method: 'delete',
+    path: '/snapshots/{id}',
+    tag: 'Model',
+    summary: 'Delete a snapshot',
+    access: 'admin',
+  },
+  {
+    method: 'post',
+    path: '/snapshots/{id}/restore',
+    tag: 'Model',
+    summary: 'Restore the RBAC model from a snapshot',
+    access: 'admin',
+  },
+  {
+    method: 'post',
+    path: '/simulate',
+    tag: 'Model',
+    summary: 'Simulate changes and report who gains or loses access',
+    description: 'Nothing is written.',
+    access: 'admin',
+    body: simulateChangesSchema,
+  },
+  {
+    method: 'get',
+    path: '/dashboard/stats',
+    tag: 'Model',
+    summary: 'Counts shown on the dashboard',
+    access: 'user',
+  },
+
+  // Organizations
+  {
+    method: 'get',
+    path: '/organizations',
+    tag: 'Organizations',
+    summary: 'List your organizations',
+    access: 'user',
+    response: z.object({
+      data: z.array(organizationResponseSchema),
+      current_organization_id: idSchema.nullable(),
+    }),
+  },
+  {
+    method: 'post',
+    path: '/organizations',
+    tag: 'Organizations',
+    summary: 'Create an organization',
+    description: 'Its creator becomes its first member and administrator.',
+    access: 'user',
+    body: createOrganizationSchema,
+    data: organizationResponseSchema,
+    status: 201,
+  },
+  {
+    method: 'put',
+    path: '/organizations/current',
+    tag: 'Organizations',
+    summary: 'Switch the organization the browser works on',
+    access: 'user',
+    body: switchOrganizationSchema,
+  },
+  {
+    method: 'get',
+    path: '/organizations/members',
+    tag: 'Organizations',
+    summary: 'List the members of the organization',
+    access: 'admin',
+  },
+  {
+    method: 'post',
+    path: '/organizations/members',
+    tag: 'Organizations',
+    summary: 'Add a member by email',
+    access: 'admin',
+    body: addOrganizationMemberSchema,
+    status: 201,
+    errors: { 409: 'The user is already a member' },
+  },
+  {
+    method: 'delete',
+    path: '/organizations/members/{id}',
+    tag: 'Organizations',
+    summary: 'Remove a member and their roles',
+    access: 'admin',
+  },
+
+  // Webhooks
+  {
+    method: 'get',
+    path: '/webhooks',
+    tag: 'Webhooks',
+    summary: 'List webhook subscriptions',
+    access: 'admin',
+    data: webhookResponseSchema,
+    list: true,
+  },
+  {
+    method: 'post',
+    path: '/webhooks',
+    tag: 'Webhooks',
+    summary: 'Subscribe an endpoint to RBAC events',
+    description:
+      'The response contains the signing secret; it is not returned again. URLs on loopback, private or link-local addresses are refused unless WEBHOOKS_ALLOW_PRIVATE_URLS is set.',
+    access: 'admin',
+    body: createWebhookSchema,
+    data: webhookResponseSchema.extend({ secret: z.string() }),
+    status: 201,
+  },
+  {
+    method: 'put',
+    path: '/webhooks/{id}',
+    tag: 'Webhooks',
+    summary: 'Update a webhook subscription',
+    access: 'admin',
+    body: updateWebhookSchema,
+    data: webhookResponseSchema,
+  },
+  {
+    method: 'delete',
+    path: '/webhooks/{id}',
+    tag: 'Webhooks',
+    summary: 'Delete a webhook subscription and its deliveries',
+    access: 'admin',
+  },
+  {
+    method: 'post',
+    path: '/webhooks/{id}/test',
+    tag: 'Webhooks',
+    summary: 'Send a test event now',
+    access: 'admin',
+    data: webhookDeliveryResponseSchema,
+  },
+  {
+    method: 'get',
+    path: '/webhooks/deliveries',
+    tag: 'Webhooks',
+    summary: 'List recent deliveries',
+    access: 'admin',
+    query: webhookDeliveryQuerySchema,
+    data: webhookDeliveryResponseSchema,
+    list: true,
+  },
+
+  // Natural language
+  {
+    method: 'post',
+    path: '/ai-service/process',
+    tag: 'Natural language',
+    summary: 'Parse a natural language command',
+    access: 'user',
+    body: z.object({ command: z.string().min(1) }),
+    response: aiResponseSchema,
+  },
+  {
+    method: 'post',
+    path: '/ai-command',
+    tag: 'Natural language',
+    summary: 'Run a natural language command',
+    access: 'admin',
+    body: aiCommandSchema,
+    response: aiResponseSchema,
+    errors: {
+      409: 'Changes require approval (RBAC_REQUIRE_APPROVAL), so only questions and dry runs are accepted',
+      428: 'The command deletes roles or permissions and needs confirmation; the response includes its impact and a confirmation token',
+      503: 'The AI service or AI_COMMAND_CONFIRMATION_SECRET is not configured',
+      504: 'The command timed out before any change was made',
+    },
+  },
+  {
+    method: 'get',
+    path: '/ai-service/availability',
+    tag: 'Natural language',
+    summary: 'Whether the AI service is configured and reachable',
+    access: 'user',
+  },
+  {
+    method: 'get',
+    path: '/ai-service/help',
+    tag: 'Natural language',
+    summary: 'Commands the AI service understands',
+    access: 'user',
+  },
+  {
+    method: 'get',
+    path: '/ai-service/suggestions',
+    tag: 'Natural language',
+    summary: 'Example commands',
+    access: 'user',
+  },
+
+  // Scheduled jobs
+  {
+    method: 'get',
+    path: '/cron/cleanup-expired-grants',
+    tag: 'Scheduled jobs',
+    summary: 'Delete expired role assignments',
+    access: 'cron',
+  },
+  {
+    method: 'get',
+    path: '/cron/deliver-webhooks',
+    tag: 'Scheduled jobs',
+    summary: 'Send due webhook deliveries',
+    access: 'cron',
+  },
+
+  {
+    method: 'get',
+    path: '/openapi.json',
+    tag: 'Documentation',
+    summary: 'This document',
+    access: 'public',
+    response: z.object({ openapi: z.string() }).catchall(z.unknown()),
+  },
+];
+
+const tags = [
+  { name: 'Permissions', description: 'Granular access rights' },
+  { name: 'Roles', description: 'Named sets of permissions' },
+  { name: 'Associations', description: 'Which permissions each role grants' },
+  { name: 'Users', description: 'Members and their role assignments' },
+  {
+    name: 'Checks',
+    description: 'Authorization decisions for other applications',
+  },
+  {
+    name: 'Governance',
+    description:
+      'Separation of duties, change approval, access reviews and the audit log',
+  },
+  {
+    name: 'Model',
+    description: 'Export, import, snapshots and what-if analysis',
+  },
+  { name: 'Organizations', description: 'Tenants and their members' },
+  { name: 'Webhooks', description: 'Notifications of RBAC changes' },
+  {
+    name: 'Natural language',
+    description: 'Commands in plain English, run by the AI service',
+  },
+  {
+    name: 'Scheduled jobs',
+    description: 'Called by Vercel Cron with `CRON_SECRET`',
+  },
+  { name: 'Documentation', description: 'This API description' },
+];
+
+const componentNames = new Map(
+  Object.entries(componentSchemas).map(([name, schema]) => [schema, name])
+);
+
+function convert(schema: z.ZodType, io: 'input' | 'output'): JsonSchema {
+  const jsonSchema: JsonSchema = z.toJSONSchema(schema, {
+    io,
+    unrepresentable: 'any',
+    override: (ctx) => {
+      // The format already says what the long generated pattern checks
+      if (ctx.jsonSchema.format) {
+        delete ctx.jsonSchema.pattern;
+      }
+      // Safe integer bounds only mean "no limit"
+      if (ctx.jsonSchema.maximum === Number.MAX_SAFE_INTEGER) {
+        delete ctx.jsonSchema.maximum;
+      }
+      if (ctx.jsonSchema.minimum === Number.MIN_SAFE_INTEGER) {
+        delete ctx.jsonSchema.minimum;
+      }
+    },
+  });
+  delete jsonSchema.$schema;
+  return jsonSchema;
+}
+
+// Response schema, as a reference when it is a component
+function toResponseSchema(schema: z.ZodType): JsonSchema {
+  const name = componentNames.get(schema);
+  return name
+    ? { $ref: `#/components/schemas/${name}` }
+    : convert(schema, 'output');
+}
+
+// Request schema without the fields taken from the path
+function toRequestSchema(schema: z.ZodType, omit: string[] = []): JsonSchema {
+  const jsonSchema = convert(schema, 'input');
+  const properties = jsonSchema.properties as JsonSchema | undefined;
+  omit.forEach((field) => delete properties?.[field]);
+  if (Array.isArray(jsonSchema.required)) {
+    jsonSchema.required = jsonSchema.required.filter(
+      (field: string) => !omit.includes(field)
+    );
+  }
+  return jsonSchema;
+}
+
+const errorContent = (name: 'Error' | 'ValidationError') => ({
+  'application/json': {
+    schema: { $ref: `#/components/schemas/${name}` },
+  },
+});
+
+function buildSuccessResponse(route: ApiRoute): JsonSchema {
+  if (route.response) {
+    return toResponseSchema(route.response);
+  }
+
+  const item = route.data ? toResponseSchema(route.data) : {};
+  return {
+    type: 'object',
+    properties: {
+      data:
+        route.list || route.paginated ? { type: 'array', items: item } : item,
+      ...(route.paginated && {
+        pagination: { $ref: '#/components/schemas/Pagination' },
+      }),
+      message: { type: 'string' },
+    },
+  };
+}
+
+function buildDescription(route: ApiRoute): string | undefined {
+  const access =
+    route.access === 'admin'
+      ? `Requires the \`${RBAC_ADMIN_PERMISSION}\` permission in the current organization.`
+      : route.permission
+        ? `Requires the \`${route.permission}\` permission in the current organization.`
+        : undefined;
+  const description = [route.description, access].filter(Boolean).join('\n\n');
+  return description || undefined;
+}
+
+function buildOperation(route: ApiRoute): JsonSchema {
+  const pathParameters = [...route.path.matchAll(/\{(\w+)\}/g)].map(
+    ([, name]) => ({
+      name,
+      in: 'path',
+      required: true,
+      schema: convert(idSchema, 'input'),
+    })
+  );
+
+  const querySchema = route.query
+    ? toRequestSchema(route.query, route.fromPath)
+    : undefined;
+  const queryRequired = (querySchema?.required as string[] | undefined) ?? [];
+  const queryParameters = Object.entries(
+    (querySchema?.properties as Record<string, JsonSchema> | undefined) ?? {}
+  ).map(([name, schema]) => ({
+    name,
+    in: 'query',
+    required: queryRequired.includes(name),
+    schema,
+  }));
+
+  const authenticated = route.access === 'user' || route.access === 'admin';
+  const hasInput = pathParameters.length > 0 || !!route.query || !!route.body;
+
+  const responses: Record<string, JsonSchema> = {
+    [route.status ?? 200]: {
+      description: route.status === 201 ? 'Created' : 'Success',
+      content: {
+        'application/json': { schema: buildSuccessResponse(route) },
+      },
+    },
+    ...(route.approvable && {
+      202: {
+        description:
+          'Submitted for approval instead of applied, while RBAC_REQUIRE_APPROVAL is set',
+        content: {
+          'application/json': {
+            schema: {
+              type: 'object',
+              properties: {
+                data: { $ref: '#/components/schemas/ChangeRequest' },
+                message: { type: 'string' },
+              },
+            },
+          },
+        },
+      },
+    }),
+    ...(hasInput && {
+      400: {
+        description: 'Invalid input',
+        content: errorContent('ValidationError'),
+      },
+    }),
+    ...(route.access !== 'public' && {
+      401: { description: 'Not authenticated', content: errorContent('Error') },
+    }),
+    ...((route.access === 'admin' || route.permission) && {
+      403: {
+        description: 'Missing permission',
+        content: errorContent('Error'),
+      },
+    }),
+    ...(pathParameters.length > 0 && {
+      404: { description: 'Not found', content: errorContent('Error') },
+    }),
+  };
+  Object.entries(route.errors ?? {}).forEach(([status, description]) => {
+    responses[status] = { description, content: errorContent('Error') };
+  });
+  if (route.access !== 'public') {
+    responses[500] = {
+      description: 'Unexpected error',
+      content: errorContent('Error'),
+    };
+  }
+
+  return {
+    tags: [route.tag],
+    summary: route.summary,
+    description: buildDescription(route),
+    operationId: `${route.method}${route.path
+      .replace(/\{(\w+)\}/g, 'by/$1')
+      .replace(/[^a-zA-Z0-9]+(\w)/g, (_, char: string) => char.toUpperCase())}`,
+    security:
+      route.access === 'cron'
+        ? [{ cronSecret: [] }]
+        : authenticated
+          ? [{ bearerAuth: [] }, { cookieAuth: [] }]
+          : [],
+    parameters: [
+      ...pathParameters,
+      ...queryParameters,
+      ...(authenticated
+        ? [{ $ref: '#/components/parameters/OrganizationId' }]
+        : []),
+    ],
+    ...(route.body && {
+      requestBody: {
+        required: true,
+        content: {
+          'application/json': {
+            schema: toRequestSchema(route.body, route.fromPath),
+          },
+        },
+      },
+    }),
+    responses,
+  };
+}
+
+/**
+ * Build the OpenAPI document for the API served at `serverUrl`
+ * (the application's origin followed by /api).
+ */
+export function buildOpenApiDocument(serverUrl: string): JsonSchema {
+  const paths: Record<string, Record<string, JsonSchema>> = {};
+  apiRoutes.forEach((route) => {
+    paths[route.path] = {
+      ...paths[route.path],
+      [route.method]: buildOperation(route),
+    };
+  });
+
+  return {
+    openapi: OPENAPI_VERSION,
+    info: {
+      title: 'Nexus Access API',
+      version: API_VERSION,
+      description: [
+        'Manage permissions, roles and user role assignments, and ask for authorization decisions.',
+        'Authenticate with a Supabase access token (`Authorization: Bearer <token>`) or the session cookie of the web app. Requests work on the organization in the `' +
+          ORGANIZATION_HEADER +
+          "` header, or the caller's oldest organization without it.",
+        'Successful responses wrap their result in `data`, often with a `message`. Errors have an `error` and, for invalid input, `details` describing each invalid field.',
+      ].join('\n\n'),
+    },
+    servers: [{ url: serverUrl }],
+    tags,
+    paths,
+    components: {
+      schemas: Object.fromEntries(
+        Object.entries(componentSchemas).map(([name, schema]) => [
+          name,
+          convert(schema, 'output'),
+        ])
+      ),
+      parameters: {
+        OrganizationId: {
+          name: ORGANIZATION_HEADER,
+          in: 'header',
+          required: false,
+          description: 'Organization to work on',
+          schema: convert(idSchema, 'input'),
+        },
+      },
+      securitySchemes: {
+        bearerAuth: {
+          type: 'http',
+          scheme: 'bearer',
+          bearerFormat: 'JWT',
+          description: 'Supabase access token of the caller',
+        },
+        cookieAuth: {
+          type: 'apiKey',
+          in: 'cookie',
+          name: 'sb-<project-ref>-auth-token',
+          description: 'Session cookie set when signing in to the web app',
+        },
+        cronSecret: {
+          type: 'http',
+          scheme: 'bearer',
+          description: 'The `CRON_SECRET` environment variable',
+        },
+      },
+    },
+  };
+}
@@ -0,0 +1,10 @@
+// Request header that selects the organization a request works on. The
+// database reads it in current_organization_id(); without it the user's
+// oldest organization is used.
+export const ORGANIZATION_HEADER = 'x-organization-id';
+
+// Cookie remembering the organization chosen in the switcher
+export const ORGANIZATION_COOKIE = 'nexus-organization';
+
+// How long the organization choice is remembered, in seconds
+export const ORGANIZATION_COOKIE_MAX_AGE = 60 * 60 * 24 * 365;
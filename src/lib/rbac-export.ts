@@ -0,0 +1,180 @@
+import type {
+  Permission,
+  Role,
+  RolePermission,
+  UserRole,
+  RbacExport,
+} from './types';
+
+// Bump when the shape of the export document changes
+export const RBAC_EXPORT_VERSION = 4;
+
+export interface RbacExportOptions {
+  include_permissions: boolean;
+  include_roles: boolean;
+  include_associations: boolean;
+  include_user_roles: boolean;
+}
+
+const byName = (a: string, b: string) => a.localeCompare(b);
+
+// Build a deterministic, name-keyed export document
+export function buildRbacExport(
+  data: {
+    permissions: Permission[];
+    roles: Role[];
+    rolePermissions: RolePermission[];
+    userRoles: UserRole[];
+  },
+  options: RbacExportOptions
+): RbacExport {
+  const roleNames = new Map(data.roles.map((role) => [role.id, role.name]));
+  const permissionNames = new Map(
+    data.permissions.map((permission) => [permission.id, permission.name])
+  );
+
+  const document: RbacExport = {
+    version: RBAC_EXPORT_VERSION,
+    exported_at: new Date().toISOString(),
+  };
+
+  if (options.include_permissions) {
+    document.permissions = data.permissions
+      .map((permission) => ({
+        name: permission.name,
+        description: permission.description ?? null,
+      }))
+      .sort((a, b) => byName(a.name, b.name));
+  }
+
+  if (options.include_roles) {
+    document.roles = data.roles
+      .map((role) => ({
+        name: role.name,
+        parent: role.parent_role_id
+          ? (roleNames.get(role.parent_role_id) ?? null)
+          : null,
+      }))
+      .sort((a, b) => byName(a.name, b.name));
+  }
+
+  if (options.include_associations) {
+    document.associations = data.rolePermissions
+      .filter(
+        (rp) =>
+          roleNames.has(rp.role_id) && permissionNames.has(rp.permission_id)
+      )
+      .map((rp) => ({
+        role: roleNames.get(rp.role_id)!,
+        permission: permissionNames.get(rp.permission_id)!,
+      }))
+      .sort(
+        (a, b) => byName(a.role, b.role) || byName(a.permission, b.permission)
+      );
+  }
+
+  if (options.include_user_roles) {
+    document.user_roles = data.userRoles
+      .filter((ur) => roleNames.has(ur.role_id))
+      .map((ur) => ({
+        user_id: ur.user_id,
+        role: roleNames.get(ur.role_id)!,
+        scope_type: ur.scope_type,
+        scope_id: ur.scope_id,
+        valid_from: ur.valid_from ?? null,
+        valid_until: ur.valid_until ?? null,
+      }))
+      .sort(
+        (a, b) =>
+          byName(a.user_id, b.user_id) ||
+          byName(a.role, b.role) ||
+          byName(a.scope_type, b.scope_type) ||
+          byName(a.scope_id, b.scope_id)
+      );
+  }
+
+  return document;
+}
+
+// Quote a CSV field when it contains a delimiter, quote or newline
+function escapeCsvField(value: string | null): string {
+  if (value === null) return '';
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+function toCsv(headers: string[], rows: Array<Array<string | null>>): string {
+  return [headers, ...rows]
+    .map((row) => row.map(escapeCsvField).join(','))
+    .join('\r\n');
+}
+
+// Split an export document into one CSV file per section
+export function rbacExportToCsvFiles(
+  document: RbacExport
+): Array<{ name: string; content: string }> {
+  const files = [
+    {
+      name: 'manifest.csv',
+      content: toCsv(
+        ['version', 'exported_at'],
+        [[String(document.version), document.exported_at]]
+      ),
+    },
+  ];
+
+  if (document.permissions) {
+    files.push({
+      name: 'permissions.csv',
+      content: toCsv(
+        ['name', 'description'],
+        document.permissions.map((p) => [p.name, p.description])
+      ),
+    });
+  }
+
+  if (document.roles) {
+    files.push({
+      name: 'roles.csv',
+      content: toCsv(
+        ['name', 'parent'],
+        document.roles.map((r) => [r.name, r.parent ?? null])
+      ),
+    });
+  }
+
+  if (document.associations) {
+    files.push({
+      name: 'associations.csv',
+      content: toCsv(
+        ['role', 'permission'],
+        document.associations.map((a) => [a.role, a.permission])
+      ),
+    });
+  }
+
+  if (document.user_roles) {
+    files.push({
+      name: 'user_roles.csv',
+      content: toCsv(
+        [
+          'user_id',
+          'role',
+          'scope_type',
+          'scope_id',
+          'valid_from',
+          'valid_until',
+        ],
+        document.user_roles.map((ur) => [
+          ur.user_id,
+          ur.role,
+          ur.scope_type,
+          ur.scope_id,
+          ur.valid_from ?? null,
+          ur.valid_until ?? null,
+        ])
+      ),
+    });
+  }
+
+  return files;
+}
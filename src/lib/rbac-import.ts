@@ -0,0 +1,432 @@
+import type {
+  EntityType,
+  Permission,
+  Role,
+  RolePermission,
+  UserRole,
+  RbacImportPlan,
+} from './types';
+import type { ImportRbacInput } from './validations/rbac';
+import {
+  RBAC_ADMIN_PERMISSION,
+  RBAC_ADMIN_ROLE,
+  RBAC_APPROVE_PERMISSION,
+  RBAC_APPROVER_ROLE,
+  RBAC_CHECK_PERMISSION,
+  RBAC_REVIEW_PERMISSION,
+} from './supabase/authorization';
+import { formatUserRoleLabel } from './rbac-utils';
+
+type ImportOptions = ImportRbacInput['options'];
+
+// Built-in entries an import may never delete, so nobody gets locked out
+const PROTECTED_PERMISSIONS = [
+  RBAC_ADMIN_PERMISSION,
+  RBAC_CHECK_PERMISSION,
+  RBAC_APPROVE_PERMISSION,
+  RBAC_REVIEW_PERMISSION,
+];
+const PROTECTED_ROLES = [RBAC_ADMIN_ROLE, RBAC_APPROVER_ROLE];
+
+const pairKey = (a: string, b: string) => `${a}\u0000${b}`;
+
+/**
+ * Compare an import document with the current RBAC model and work out what
+ * has to change. Sections missing from the document are left alone; with
+ * `overwrite_existing` the sections that are present become authoritative.
+ */
+export function planRbacImport(
+  document: ImportRbacInput['data'],
+  current: {
+    permissions: Permission[];
+    roles: Role[];
+    rolePermissions: RolePermission[];
+    userRoles: UserRole[];
+    // Known user IDs; when omitted, user references are not checked
+    userIds?: Set<string>;
+  },
+  options: ImportOptions
+): RbacImportPlan {
+  const plan: RbacImportPlan = {
+    permissions: { create: [], update: [], delete: [] },
+    roles: { create: [], update: [], delete: [] },
+    associations: { create: [], delete: [] },
+    user_roles: { create: [], delete: [] },
+    skipped: [],
+    conflicts: [],
+    unresolved: [],
+  };
+
+  // Existing item with the same identity: skip it, or refuse the import
+  const handleDuplicate = (type: EntityType, name: string) => {
+    if (options.overwrite_existing || options.skip_duplicates) {
+      plan.skipped.push({ type, name, reason: 'Already exists' });
+    } else {
+      plan.conflicts.push({ type, name, reason: 'Already exists' });
+    }
+  };
+
+  const existingPermissions = new Map(
+    current.permissions.map((permission) => [permission.name, permission])
+  );
+  const existingRoles = new Map(current.roles.map((role) => [role.name, role]));
+  const permissionNames = new Map(
+    current.permissions.map((permission) => [permission.id, permission.name])
+  );
+  const roleNames = new Map(current.roles.map((role) => [role.id, role.name]));
+
+  // Permissions
+  if (document.permissions) {
+    const seen = new Set<string>();
+    for (const permission of document.permissions) {
+      if (seen.has(permission.name)) {
+        plan.skipped.push({
+          type: 'permission',
+          name: permission.name,
+          reason: 'Duplicate entry in import',
+        });
+        continue;
+      }
+      seen.add(permission.name);
+
+      const existing = existingPermissions.get(permission.name);
+      if (!existing) {
+        plan.permissions.create.push(permission);
+        continue;
+      }
+
+      const currentDescription = existing.description ?? null;
+      if (currentDescription === permission.description) {
+        handleDuplicate('permission', permission.name);
+      } else if (options.overwrite_existing) {
+        plan.permissions.update.push({
+          name: permission.name,
+          description: permission.description,
+          previous_description: currentDescription,
+        });
+      } else if (options.skip_duplicates) {
+        plan.skipped.push({
+          type: 'permission',
+          name: permission.name,
+          reason: 'Exists with a different description',
+        });
+      } else {
+        plan.conflicts.push({
+          type: 'permission',
+          name: permission.name,
+          reason: 'Exists with a different description',
+        });
+      }
+    }
+
+    if (options.overwrite_existing) {
+      plan.permissions.delete = current.permissions
+        .map((permission) => permission.name)
+        .filter(
+          (name) => !seen.has(name) && !PROTECTED_PERMISSIONS.includes(name)
+        )
+        .sort();
+    }
+  }
+
+  // Roles. Parents are resolved once it is known which roles will exist.
+  const requestedParents = new Map<string, string | null>();
+  if (document.roles) {
+    const seen = new Set<string>();
+    for (const role of document.roles) {
+      if (seen.has(role.name)) {
+        plan.skipped.push({
+          type: 'role',
+          name: role.name,
+          reason: 'Duplicate entry in import',
+        });
+        continue;
+      }
+      seen.add(role.name);
+
+      const existing = existingRoles.get(role.name);
+      if (!existing) {
+        plan.roles.create.push({ name: role.name, parent: null });
+        if (role.parent) requestedParents.set(role.name, role.parent);
+        continue;
+      }
+
+      const currentParent = existing.parent_role_id
+        ? (roleNames.get(existing.parent_role_id) ?? null)
+        : null;
+      if (role.parent === undefined || role.parent === currentParent) {
+        handleDuplicate('role', role.name);
+      } else if (options.overwrite_existing) {
+        requestedParents.set(role.name, role.parent);
+      } else if (options.skip_duplicates) {
+        plan.skipped.push({
+          type: 'role',
+          name: role.name,
+          reason: 'Exists with a different parent',
+        });
+      } else {
+        plan.conflicts.push({
+          type: 'role',
+          name: role.name,
+          reason: 'Exists with a different parent',
+        });
+      }
+    }
+
+    if (options.overwrite_existing) {
+      plan.roles.delete = current.roles
+        .map((role) => role.name)
+        .filter((name) => !seen.has(name) && !PROTECTED_ROLES.includes(name))
+        .sort();
+    }
+  }
+
+  // Names that will exist once the plan is applied
+  const availablePermissions = new Set(
+    [
+      ...existingPermissions.keys(),
+      ...plan.permissions.create.map((p) => p.name),
+    ].filter((name) => !plan.permissions.delete.includes(name))
+  );
+  const availableRoles = new Set(
+    [...existingRoles.keys(), ...plan.roles.create.map((r) => r.name)].filter(
+      (name) => !plan.roles.delete.includes(name)
+    )
+  );
+
+  // Role parents, as the hierarchy will be once the plan is applied
+  if (requestedParents.size > 0) {
+    const parents = new Map(
+      current.roles
+        .filter((role) => availableRoles.has(role.name))
+        .map((role) => {
+          const parent = role.parent_role_id
+            ? roleNames.get(role.parent_role_id)
+            : undefined;
+          // Parents deleted by the plan are cleared by the database
+          return [
+            role.name,
+            parent && availableRoles.has(parent) ? parent : null,
+          ];
+        })
+    );
+
+    requestedParents.forEach((parent, name) => {
+      if (parent && !availableRoles.has(parent)) {
+        plan.unresolved.push({
+          type: 'role',
+          name,
+          reason: `Parent role "${parent}" not found`,
+        });
+        requestedParents.delete(name);
+      } else {
+        parents.set(name, parent);
+      }
+    });
+
+    // Walking up from a role must end at a root
+    const hasCycle = (name: string) => {
+      const visited = new Set<string>();
+      for (let at: string | null | undefined = name; at; at = parents.get(at)) {
+        if (visited.has(at)) return true;
+        visited.add(at);
+      }
+      return false;
+    };
+
+    requestedParents.forEach((parent, name) => {
+      if (hasCycle(name)) {
+        plan.conflicts.push({
+          type: 'role',
+          name,
+          reason: `Parent role "${parent}" would create a cycle`,
+        });
+        return;
+      }
+
+      const created = plan.roles.create.find((role) => role.name === name);
+      if (created) {
+        created.parent = parent;
+      } else {
+        const previous = existingRoles.get(name)!.parent_role_id;
+        plan.roles.update.push({
+          name,
+          parent,
+          previous_parent: previous ? (roleNames.get(previous) ?? null) : null,
+        });
+      }
+    });
+  }
+
+  // Associations
+  if (document.associations) {
+    const existing = new Set(
+      current.rolePermissions.map((rp) =>
+        pairKey(
+          roleNames.get(rp.role_id) ?? '',
+          permissionNames.get(rp.permission_id) ?? ''
+        )
+      )
+    );
+    const seen = new Set<string>();
+
+    for (const association of document.associations) {
+      const key = pairKey(association.role, association.permission);
+      const label = `${association.role} → ${association.permission}`;
+      if (seen.has(key)) {
+        plan.skipped.push({
+          type: 'association',
+          name: label,
+          reason: 'Duplicate entry in import',
+        });
+        continue;
+      }
+      seen.add(key);
+
+      if (!availableRoles.has(association.role)) {
+        plan.unresolved.push({
+          type: 'association',
+          name: label,
+          reason: `Role "${association.role}" not found`,
+        });
+      } else if (!availablePermissions.has(association.permission)) {
+        plan.unresolved.push({
+          type: 'association',
+          name: label,
+          reason: `Permission "${association.permission}" not found`,
+        });
+      } else if (existing.has(key)) {
+        handleDuplicate('association', label);
+      } else {
+        plan.associations.create.push(association);
+      }
+    }
+
+    if (options.overwrite_existing) {
+      plan.associations.delete = current.rolePermissions
+        .map((rp) => ({
+          role: roleNames.get(rp.role_id) ?? '',
+          permission: permissionNames.get(rp.permission_id) ?? '',
+        }))
+        .filter(
+          (association) =>
+            !seen.has(pairKey(association.role, association.permission)) &&
+            // Removed together with their role or permission
+            availableRoles.has(association.role) &&
+            availablePermissions.has(association.permission) &&
+            !(
+              PROTECTED_ROLES.includes(association.role) &&
+              PROTECTED_PERMISSIONS.includes(association.permission)
+            )
+        );
+    }
+  }
+
+  // User role assignments, one per user, role and scope
+  if (document.user_roles) {
+    const assignmentKey = (userRole: {
+      user_id: string;
+      role: string;
+      scope_type: string;
+      scope_id: string;
+    }) =>
+      [
+        userRole.user_id,
+        userRole.role,
+        userRole.scope_type,
+        userRole.scope_id,
+      ].join('\u0000');
+    const existing = new Set(
+      current.userRoles.map((ur) =>
+        assignmentKey({ ...ur, role: roleNames.get(ur.role_id) ?? '' })
+      )
+    );
+    const seen = new Set<string>();
+
+    for (const userRole of document.user_roles) {
+      const key = assignmentKey(userRole);
+      const label = formatUserRoleLabel(userRole);
+      if (seen.has(key)) {
+        plan.skipped.push({
+          type: 'user_role',
+          name: label,
+          reason: 'Duplicate entry in import',
+        });
+        continue;
+      }
+      seen.add(key);
+
+      if (
+        userRole.valid_until &&
+        new Date(userRole.valid_until) <= new Date()
+      ) {
+        plan.skipped.push({
+          type: 'user_role',
+          name: label,
+          reason: 'Assignment has expired',
+        });
+      } else if (current.userIds && !current.userIds.has(userRole.user_id)) {
+        plan.unresolved.push({
+          type: 'user_role',
+          name: label,
+          reason: `User "${userRole.user_id}" not found`,
+        });
+      } else if (!availableRoles.has(userRole.role)) {
+        plan.unresolved.push({
+          type: 'user_role',
+          name: label,
+          reason: `Role "${userRole.role}" not found`,
+        });
+      } else if (existing.has(key)) {
+        handleDuplicate('user_role', label);
+      } else {
+        plan.user_roles.create.push(userRole);
+      }
+    }
+
+    if (options.overwrite_existing) {
+      plan.user_roles.delete = current.userRoles
+        .map((ur) => ({
+          user_id: ur.user_id,
+          role: roleNames.get(ur.role_id) ?? '',
+          scope_type: ur.scope_type,
+          scope_id: ur.scope_id,
+        }))
+        .filter(
+          (userRole) =>
+            !seen.has(assignmentKey(userRole)) &&
+            availableRoles.has(userRole.role) &&
+            !PROTECTED_ROLES.includes(userRole.role)
+        );
+    }
+  }
+
+  return plan;
+}
+
+// Whether the plan can be applied under the given options
+export function isImportPlanBlocked(
+  plan: RbacImportPlan,
+  options: ImportOptions
+): boolean {
+  return (
+    plan.conflicts.length > 0 ||
+    (options.validate_references && plan.unresolved.length > 0)
+  );
+}
+
+// Number of changes the plan would make
+export function countImportChanges(plan: RbacImportPlan): number {
+  return (
+    plan.permissions.create.length +
+    plan.permissions.update.length +
+    plan.permissions.delete.length +
+    plan.roles.create.length +
+    plan.roles.update.length +
+    plan.roles.delete.length +
+    plan.associations.create.length +
+    plan.associations.delete.length +
+    plan.user_roles.create.length +
+    plan.user_roles.delete.length
+  );
+}
@@ -0,0 +1,265 @@
+import type {
+  EffectiveGrant,
+  RbacModel,
+  RoleScope,
+  SimulatedChange,
+  SimulatedUserImpact,
+  SimulationResult,
+  UserRole,
+} from './types';
+import { expandRoleIds, formatScope, isAssignmentActive } from './rbac-utils';
+import { SCOPE_WILDCARD } from './validations/rbac';
+
+const grantKey = (permissionId: string, scope: RoleScope) =>
+  [permissionId, scope.scope_type, scope.scope_id].join('\u0000');
+
+const compareGrants = (a: EffectiveGrant, b: EffectiveGrant) =>
+  a.permission.name.localeCompare(b.permission.name) ||
+  formatScope(a).localeCompare(formatScope(b));
+
+// Scopes that include the given one, e.g. project:* and * for project:42
+const broaderScopes = (scope: RoleScope): RoleScope[] => {
+  if (scope.scope_type === SCOPE_WILDCARD) return [];
+  const global = { scope_type: SCOPE_WILDCARD, scope_id: SCOPE_WILDCARD };
+  return scope.scope_id === SCOPE_WILDCARD
+    ? [global]
+    : [global, { scope_type: scope.scope_type, scope_id: SCOPE_WILDCARD }];
+};
+
+// Permissions each user holds per scope through their active assignments.
+// Scoped grants that a broader grant of the same permission already covers
+// are left out, so narrowing a redundant assignment is not reported as a loss.
+function getEffectiveGrants(
+  model: RbacModel,
+  now: Date
+): Map<string, Map<string, EffectiveGrant>> {
+  const permissionsById = new Map(
+    model.permissions.map((permission) => [permission.id, permission])
+  );
+  const permissionIdsByRole = new Map<string, string[]>();
+  const permissionIdsOf = (roleId: string) => {
+    if (!permissionIdsByRole.has(roleId)) {
+      const roleIds = new Set(expandRoleIds([roleId], model.roles));
+      permissionIdsByRole.set(roleId, [
+        ...new Set(
+          model.rolePermissions
+            .filter((rp) => roleIds.has(rp.role_id))
+            .map((rp) => rp.permission_id)
+        ),
+      ]);
+    }
+    return permissionIdsByRole.get(roleId)!;
+  };
+
+  const grants = new Map<string, Map<string, EffectiveGrant>>();
+  model.userRoles
+    .filter((ur) => isAssignmentActive(ur, now))
+    .forEach((ur) => {
+      const userGrants = grants.get(ur.user_id) ?? new Map();
+      permissionIdsOf(ur.role_id).forEach((permissionId) => {
+        const permission = permissionsById.get(permissionId);
+        if (!permission) return;
+        userGrants.set(grantKey(permission.id, ur), {
+          permission: { id: permission.id, name: permission.name },
+          scope_type: ur.scope_type,
+          scope_id: ur.scope_id,
+        });
+      });
+      grants.set(ur.user_id, userGrants);
+    });
+
+  grants.forEach((userGrants) =>
+    userGrants.forEach((grant, key) => {
+      if (
+        broaderScopes(grant).some((scope) =>
+          userGrants.has(grantKey(grant.permission.id, scope))
+        )
+      ) {
+        userGrants.delete(key);
+      }
+    })
+  );
+
+  return grants;
+}
+
+/**
+ * Apply hypothetical changes, in order, to an in-memory copy of the model.
+ * Deleting a role or permission removes its associations and assignments the
+ * way the database cascades do. Changes that would do nothing or refer to
+ * missing rows are skipped with a warning, as are role assignments to users
+ * outside `memberIds` when it is given, which the database would refuse.
+ */
+export function applySimulatedChanges(
+  model: RbacModel,
+  changes: SimulatedChange[],
+  memberIds?: Set<string>
+): { model: RbacModel; warnings: string[] } {
+  let { roles, permissions, rolePermissions, userRoles } = model;
+  const warnings: string[] = [];
+
+  changes.forEach((change, index) => {
+    const warn = (message: string) => {
+      warnings.push(`Change ${index + 1}: ${message}`);
+    };
+    const role =
+      'role_id' in change
+        ? roles.find((r) => r.id === change.role_id)
+        : undefined;
+    const permission =
+      'permission_id' in change
+        ? permissions.find((p) => p.id === change.permission_id)
+        : undefined;
+
+    switch (change.type) {
+      case 'assign_permission':
+      case 'unassign_permission': {
+        if (!role) return warn(`role ${change.role_id} does not exist`);
+        if (!permission) {
+          return warn(`permission ${change.permission_id} does not exist`);
+        }
+        const assigned = rolePermissions.some(
+          (rp) => rp.role_id === role.id && rp.permission_id === permission.id
+        );
+        if (change.type === 'assign_permission') {
+          if (assigned) {
+            return warn(`"${role.name}" already has "${permission.name}"`);
+          }
+          rolePermissions = [
+            ...rolePermissions,
+            { role_id: role.id, permission_id: permission.id },
+          ];
+        } else {
+          if (!assigned) {
+            return warn(`"${role.name}" does not have "${permission.name}"`);
+          }
+          rolePermissions = rolePermissions.filter(
+            (rp) => rp.role_id !== role.id || rp.permission_id !== permission.id
+          );
+        }
+        break;
+      }
+      case 'assign_role':
+      case 'unassign_role': {
+        if (!role) return warn(`role ${change.role_id} does not exist`);
+        const matches = (ur: UserRole) =>
+          ur.user_id === change.user_id &&
+          ur.role_id === role.id &&
+          ur.scope_type === change.scope_type &&
+          ur.scope_id === change.scope_id;
+        const scope = formatScope(change);
+        const label = `"${role.name}"${scope ? ` on ${scope}` : ''}`;
+        const assigned = userRoles.some(matches);
+        if (change.type === 'assign_role') {
+          if (memberIds && !memberIds.has(change.user_id)) {
+            return warn(
+              `user ${change.user_id} is not a member of this organization`
+            );
+          }
+          if (assigned) {
+            return warn(`user ${change.user_id} already has ${label}`);
+          }
+          userRoles = [
+            ...userRoles,
+            {
+              user_id: change.user_id,
+              role_id: role.id,
+              scope_type: change.scope_type,
+              scope_id: change.scope_id,
+              valid_from: null,
+              valid_until: null,
+            },
+          ];
+        } else {
+          if (!assigned) {
+            return warn(`user ${change.user_id} does not have ${label}`);
+          }
+          userRoles = userRoles.filter((ur) => !matches(ur));
+        }
+        break;
+      }
+      case 'delete_role': {
+        if (!role) return warn(`role ${change.role_id} does not exist`);
+        roles = roles
+          .filter((r) => r.id !== role.id)
+          .map((r) =>
+            r.parent_role_id === role.id ? { ...r, parent_role_id: null } : r
+          );
+        rolePermissions = rolePermissions.filter(
+          (rp) => rp.role_id !== role.id
+        );
+        userRoles = userRoles.filter((ur) => ur.role_id !== role.id);
+        break;
+      }
+      case 'delete_permission': {
+        if (!permission) {
+          return warn(`permission ${change.permission_id} does not exist`);
+        }
+        permissions = permissions.filter((p) => p.id !== permission.id);
+        rolePermissions = rolePermissions.filter(
+          (rp) => rp.permission_id !== permission.id
+        );
+        break;
+      }
+    }
+  });
+
+  return {
+    model: { roles, permissions, rolePermissions, userRoles },
+    warnings,
+  };
+}
+
+/**
+ * Evaluate hypothetical changes against the current model without writing
+ * anything, and report the permissions each user would gain or lose.
+ * `members` maps the organization's users to their emails; when given, only
+ * they can be assigned roles.
+ */
+export function simulateChanges(
+  model: RbacModel,
+  changes: SimulatedChange[],
+  members?: Map<string, string | null>,
+  now: Date = new Date()
+): SimulationResult {
+  const { model: changed, warnings } = applySimulatedChanges(
+    model,
+    changes,
+    members && new Set(members.keys())
+  );
+  const before = getEffectiveGrants(model, now);
+  const after = getEffectiveGrants(changed, now);
+
+  const userIds = new Set([...before.keys(), ...after.keys()]);
+  const users: SimulatedUserImpact[] = [...userIds]
+    .map((userId) => {
+      const held = before.get(userId) ?? new Map<string, EffectiveGrant>();
+      const willHold = after.get(userId) ?? new Map<string, EffectiveGrant>();
+      return {
+        user_id: userId,
+        user_email: members?.get(userId) ?? null,
+        gained: [...willHold]
+          .filter(([key]) => !held.has(key))
+          .map(([, grant]) => grant)
+          .sort(compareGrants),
+        lost: [...held]
+          .filter(([key]) => !willHold.has(key))
+          .map(([, grant]) => grant)
+          .sort(compareGrants),
+      };
+    })
+    .filter((user) => user.gained.length > 0 || user.lost.length > 0)
+    .sort((a, b) =>
+      (a.user_email ?? a.user_id).localeCompare(b.user_email ?? b.user_id)
+    );
+
+  return {
+    users,
+    warnings,
+    summary: {
+      users_affected: users.length,
+      grants_gained: users.reduce((sum, user) => sum + user.gained.length, 0),
+      grants_lost: users.reduce((sum, user) => sum + user.lost.length, 0),
+    },
+  };
+}
@@ -0,0 +1,132 @@
+import type {
+  Permission,
+  RbacChange,
+  RbacDiff,
+  RbacSnapshotData,
+  Role,
+  RolePermission,
+  RolePermissionRef,
+  UserRole,
+  UserRoleRef,
+} from './types';
+
+const pairKey = (a: string, b: string) => `${a}\u0000${b}`;
+
+const userRoleKey = (userRole: UserRole) =>
+  [
+    userRole.user_id,
+    userRole.role_id,
+    userRole.scope_type,
+    userRole.scope_id,
+  ].join('\u0000');
+
+// Timestamps may be formatted differently by the API and by JSONB snapshots
+const sameTime = (a?: string | null, b?: string | null) =>
+  a && b ? new Date(a).getTime() === new Date(b).getTime() : !a && !b;
+
+// Rows only in `to`, rows only in `from`, and rows whose compared fields differ
+function diffRows<T, K>(
+  from: T[],
+  to: T[],
+  keyOf: (row: T) => K,
+  differs: (before: T, after: T) => boolean
+): { added: T[]; removed: T[]; changed: RbacChange<T>[] } {
+  const before = new Map(from.map((row) => [keyOf(row), row]));
+  const after = new Map(to.map((row) => [keyOf(row), row]));
+
+  return {
+    added: to.filter((row) => !before.has(keyOf(row))),
+    removed: from.filter((row) => !after.has(keyOf(row))),
+    changed: to.flatMap((row) => {
+      const previous = before.get(keyOf(row));
+      return previous && differs(previous, row)
+        ? [{ before: previous, after: row }]
+        : [];
+    }),
+  };
+}
+
+/**
+ * Work out what changes when going from one RBAC state to another, e.g. what
+ * restoring a snapshot would do to the live state. Rows are matched by ID, so
+ * a renamed role shows up as changed rather than removed and re-added.
+ */
+export function diffRbacStates(
+  from: RbacSnapshotData,
+  to: RbacSnapshotData
+): RbacDiff {
+  // Names come from the target state first, so removed rows keep their label
+  const roleNames = new Map(
+    [...from.roles, ...to.roles].map((role) => [role.id, role.name])
+  );
+  const permissionNames = new Map(
+    [...from.permissions, ...to.permissions].map((permission) => [
+      permission.id,
+      permission.name,
+    ])
+  );
+
+  const withNames = (association: RolePermission): RolePermissionRef => ({
+    ...association,
+    role_name: roleNames.get(association.role_id) ?? association.role_id,
+    permission_name:
+      permissionNames.get(association.permission_id) ??
+      association.permission_id,
+  });
+  const withRoleName = (userRole: UserRole): UserRoleRef => ({
+    ...userRole,
+    role_name: roleNames.get(userRole.role_id) ?? userRole.role_id,
+  });
+
+  const permissions = diffRows<Permission, string>(
+    from.permissions,
+    to.permissions,
+    (permission) => permission.id,
+    (before, after) =>
+      before.name !== after.name || before.description !== after.description
+  );
+  const roles = diffRows<Role, string>(
+    from.roles,
+    to.roles,
+    (role) => role.id,
+    (before, after) =>
+      before.name !== after.name ||
+      (before.parent_role_id ?? null) !== (after.parent_role_id ?? null)
+  );
+  const rolePermissions = diffRows<RolePermission, string>(
+    from.role_permissions,
+    to.role_permissions,
+    (association) => pairKey(association.role_id, association.permission_id),
+    () => false
+  );
+  const userRoles = diffRows<UserRoleRef, string>(
+    from.user_roles.map(withRoleName),
+    to.user_roles.map(withRoleName),
+    userRoleKey,
+    (before, after) =>
+      !sameTime(before.valid_from, after.valid_from) ||
+      !sameTime(before.valid_until, after.valid_until)
+  );
+
+  return {
+    permissions,
+    roles,
+    role_permissions: {
+      added: rolePermissions.added.map(withNames),
+      removed: rolePermissions.removed.map(withNames),
+    },
+    user_roles: userRoles,
+    total:
+      permissions.added.length +
+      permissions.removed.length +
+      permissions.changed.length +
+      roles.added.length +
+      roles.removed.length +
+      roles.changed.length +
+      rolePermissions.added.length +
+      rolePermissions.removed.length +
+      userRoles.added.length +
+      userRoles.removed.length +
+      userRoles.changed.length,
+  };
+}
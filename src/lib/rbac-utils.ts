@@ -7,10 +7,26 @@ import type {
   RoleWithPermissions,
   PermissionWithRoleCount,
   RoleWithPermissionCount,
+  UserWithRoles,
+  PermissionDecision,
+  EffectivePermission,
+  ExplainedPermission,
+  RoleHierarchyNode,
   AssociationMatrix,
   PaginatedResponse,
   SearchFilters,
+  BulkMode,
+  BulkItemResult,
+  BulkOperationResult,
+  BulkDeleteImpact,
+  ResourceRef,
+  RoleScope,
+  RoleValidity,
+  RbacModel,
+  SodConstraint,
+  SodViolation,
 } from './types';
+import { SCOPE_WILDCARD } from './validations/rbac';
 
 /**
  * RBAC-specific utility functions for data transformation and business logic
@@ -120,17 +136,175 @@ export function createAssociationMatrix(
   return matrix;
 }
 
-// Get all permissions that a user has through their roles
+// Get the chain of parent roles a role inherits from, nearest first
+export function getRoleAncestors(roleId: string, roles: Role[]): Role[] {
+  const rolesById = new Map(roles.map((role) => [role.id, role]));
+  const ancestors: Role[] = [];
+  const visited = new Set([roleId]);
+
+  let parentId = rolesById.get(roleId)?.parent_role_id;
+  while (parentId && !visited.has(parentId)) {
+    const parent = rolesById.get(parentId);
+    if (!parent) break;
+    ancestors.push(parent);
+    visited.add(parentId);
+    parentId = parent.parent_role_id;
+  }
+
+  return ancestors;
+}
+
+// Expand role IDs with every role they inherit from
+export function expandRoleIds(roleIds: string[], roles: Role[]): string[] {
+  const expanded = new Set(roleIds);
+  roleIds.forEach((roleId) =>
+    getRoleAncestors(roleId, roles).forEach((ancestor) =>
+      expanded.add(ancestor.id)
+    )
+  );
+  return [...expanded];
+}
+
+// Check whether making parentRoleId the parent of roleId would create a cycle
+export function wouldCreateRoleCycle(
+  roleId: string,
+  parentRoleId: string | null,
+  roles: Role[]
+): boolean {
+  if (!parentRoleId) return false;
+  if (parentRoleId === roleId) return true;
+  return getRoleAncestors(parentRoleId, roles).some(
+    (ancestor) => ancestor.id === roleId
+  );
+}
+
+// Get a role's direct and inherited permissions
+export function getEffectiveRolePermissions(
+  roleId: string,
+  roles: Role[],
+  rolePermissions: RolePermission[],
+  permissions: Permission[]
+): EffectivePermission[] {
+  const permissionsById = new Map(permissions.map((p) => [p.id, p]));
+  const sources = [
+    { roleId, inheritedFrom: null },
+    ...getRoleAncestors(roleId, roles).map((ancestor) => ({
+      roleId: ancestor.id,
+      inheritedFrom: { id: ancestor.id, name: ancestor.name },
+    })),
+  ];
+  const effective = new Map<string, EffectivePermission>();
+
+  // Walk from the role up, so direct grants win over inherited ones
+  sources.forEach(({ roleId: sourceId, inheritedFrom }) => {
+    rolePermissions
+      .filter((rp) => rp.role_id === sourceId)
+      .forEach((rp) => {
+        const permission = permissionsById.get(rp.permission_id);
+        if (!permission || effective.has(permission.id)) return;
+        effective.set(permission.id, {
+          ...permission,
+          inherited_from: inheritedFrom,
+        });
+      });
+  });
+
+  return [...effective.values()].sort((a, b) => a.name.localeCompare(b.name));
+}
+
+// Arrange roles into a tree of parents and children with effective permissions
+export function buildRoleHierarchy(
+  roles: Role[],
+  rolePermissions: RolePermission[],
+  permissions: Permission[]
+): RoleHierarchyNode[] {
+  const roleIds = new Set(roles.map((role) => role.id));
+  const sorted = [...roles].sort((a, b) => a.name.localeCompare(b.name));
+
+  const buildNode = (role: Role): RoleHierarchyNode => ({
+    ...role,
+    permissions: getEffectiveRolePermissions(
+      role.id,
+      roles,
+      rolePermissions,
+      permissions
+    ),
+    children: sorted
+      .filter((child) => child.parent_role_id === role.id)
+      .map(buildNode),
+  });
+
+  return sorted
+    .filter((role) => !role.parent_role_id || !roleIds.has(role.parent_role_id))
+    .map(buildNode);
+}
+
+// Check whether a role assignment applies to a resource. Without a resource
+// type only global grants apply; '*' matches every type or ID.
+export function scopeMatches(
+  scope: RoleScope,
+  resource: ResourceRef = {}
+): boolean {
+  if (scope.scope_type === SCOPE_WILDCARD) return true;
+  if (!resource.resource_type || scope.scope_type !== resource.resource_type) {
+    return false;
+  }
+  return (
+    scope.scope_id === SCOPE_WILDCARD || scope.scope_id === resource.resource_id
+  );
+}
+
+// Check whether an assignment is inside its validity window
+export function isAssignmentActive(
+  validity: RoleValidity,
+  now: Date = new Date()
+): boolean {
+  if (validity.valid_from && new Date(validity.valid_from) > now) {
+    return false;
+  }
+  if (validity.valid_until && new Date(validity.valid_until) <= now) {
+    return false;
+  }
+  return true;
+}
+
+// Describe a scope for display, e.g. "project:42"; empty for global grants
+export function formatScope(scope: RoleScope): string {
+  return scope.scope_type === SCOPE_WILDCARD
+    ? ''
+    : `${scope.scope_type}:${scope.scope_id}`;
+}
+
+// "user → role", followed by the scope for resource-scoped assignments
+export function formatUserRoleLabel(
+  userRole: { user_id: string; role: string } & RoleScope
+): string {
+  const scope = formatScope(userRole);
+  return `${userRole.user_id} → ${userRole.role}${scope ? ` on ${scope}` : ''}`;
+}
+
+// Get all permissions that a user has through their roles and the roles
+// those inherit from, for the given resource (global grants by default)
 export function getUserPermissions(
   userId: string,
   userRoles: UserRole[],
   rolePermissions: RolePermission[],
-  permissions: Permission[]
+  permissions: Permission[],
+  roles: Role[],
+  resource: ResourceRef = {}
 ): Permission[] {
-  // Get user's role IDs
-  const userRoleIds = userRoles
-    .filter((ur) => ur.user_id === userId)
-    .map((ur) => ur.role_id);
+  // Get user's role IDs, including inherited roles
+  const userRoleIds = expandRoleIds(
+    userRoles
+      .filter(
+        (ur) =>
+          ur.user_id === userId &&
+          isAssignmentActive(ur) &&
+          scopeMatches(ur, resource)
+      )
+      .map((ur) => ur.role_id),
+    roles
+  );
 
   // Get permission IDs for user's roles
   const permissionIds = rolePermissions
@@ -142,23 +316,245 @@ export function getUserPermissions(
   return permissions.filter((p) => uniquePermissionIds.includes(p.id));
 }
 
+// Explain every permission a user holds through their active assignments.
+// Each assignment is evaluated on its own scope, so a permission granted both
+// globally and for a resource lists both paths.
+export function explainUserPermissions(
+  userId: string,
+  userRoles: UserRole[],
+  rolePermissions: RolePermission[],
+  permissions: Permission[],
+  roles: Role[]
+): ExplainedPermission[] {
+  const rolesById = new Map(roles.map((role) => [role.id, role]));
+  const explained = new Map<string, ExplainedPermission>();
+
+  userRoles
+    .filter((ur) => ur.user_id === userId)
+    .forEach((assignment) => {
+      const role = rolesById.get(assignment.role_id);
+      if (!role) return;
+      const chain = [role, ...getRoleAncestors(role.id, roles)];
+
+      getUserPermissions(
+        userId,
+        [assignment],
+        rolePermissions,
+        permissions,
+        roles,
+        {
+          resource_type: assignment.scope_type,
+          resource_id: assignment.scope_id,
+        }
+      ).forEach((permission) => {
+        const grantingIndex = chain.findIndex((source) =>
+          rolePermissions.some(
+            (rp) =>
+              rp.role_id === source.id && rp.permission_id === permission.id
+          )
+        );
+        const entry = explained.get(permission.id) ?? {
+          ...permission,
+          paths: [],
+        };
+        entry.paths.push({
+          roles: chain
+            .slice(0, grantingIndex + 1)
+            .map(({ id, name }) => ({ id, name })),
+          scope_type: assignment.scope_type,
+          scope_id: assignment.scope_id,
+          valid_until: assignment.valid_until ?? null,
+        });
+        explained.set(permission.id, entry);
+      });
+    });
+
+  return [...explained.values()].sort((a, b) => a.name.localeCompare(b.name));
+}
+
 // Check if a user has a specific permission
 export function userHasPermission(
   userId: string,
   permissionName: string,
   userRoles: UserRole[],
   rolePermissions: RolePermission[],
-  permissions: Permission[]
+  permissions: Permission[],
+  roles: Role[],
+  resource: ResourceRef = {}
 ): boolean {
   const userPermissions = getUserPermissions(
     userId,
     userRoles,
     rolePermissions,
-    permissions
+    permissions,
+    roles,
+    resource
   );
   return userPermissions.some((p) => p.name === permissionName);
 }
 
+// Decide whether a user holds a permission and explain which roles grant it
+export function evaluatePermission(
+  userId: string,
+  permissionName: string,
+  roles: Role[],
+  permissions: Permission[],
+  userRoles: UserRole[],
+  rolePermissions: RolePermission[],
+  resource: ResourceRef = {}
+): PermissionDecision {
+  const decision = {
+    user_id: userId,
+    permission_name: permissionName,
+    ...(resource.resource_type && { resource_type: resource.resource_type }),
+    ...(resource.resource_id && { resource_id: resource.resource_id }),
+  };
+
+  const permission = permissions.find((p) => p.name === permissionName);
+  if (!permission) {
+    return {
+      ...decision,
+      allowed: false,
+      granted_by: [],
+      reason: `Permission "${permissionName}" does not exist`,
+    };
+  }
+
+  const assignments = userRoles.filter((ur) => ur.user_id === userId);
+  if (assignments.length === 0) {
+    return {
+      ...decision,
+      allowed: false,
+      granted_by: [],
+      reason: 'User has no roles assigned',
+    };
+  }
+
+  const active = assignments.filter((ur) => isAssignmentActive(ur));
+  if (active.length === 0) {
+    return {
+      ...decision,
+      allowed: false,
+      granted_by: [],
+      reason:
+        "All of the user's role assignments have expired or are not yet active",
+    };
+  }
+
+  const applicable = active.filter((ur) => scopeMatches(ur, resource));
+  if (applicable.length === 0) {
+    return {
+      ...decision,
+      allowed: false,
+      granted_by: [],
+      reason: "None of the user's roles apply to this resource",
+    };
+  }
+
+  const rolesById = new Map(roles.map((role) => [role.id, role]));
+  const grantingRoleIds = new Set(
+    rolePermissions
+      .filter((rp) => rp.permission_id === permission.id)
+      .map((rp) => rp.role_id)
+  );
+
+  // Assignments whose role grants the permission directly or through a parent
+  const grants = applicable.flatMap((assignment) => {
+    const role = rolesById.get(assignment.role_id);
+    if (!role) return [];
+    const source = grantingRoleIds.has(role.id)
+      ? role
+      : getRoleAncestors(role.id, roles).find((ancestor) =>
+          grantingRoleIds.has(ancestor.id)
+        );
+    return source ? [{ role, source, assignment }] : [];
+  });
+
+  if (grants.length === 0) {
+    return {
+      ...decision,
+      allowed: false,
+      granted_by: [],
+      reason: `None of the user's roles grant "${permissionName}"`,
+    };
+  }
+
+  const grantedBy = grants.map(({ role, assignment }) => ({
+    id: role.id,
+    name: role.name,
+    scope_type: assignment.scope_type,
+    scope_id: assignment.scope_id,
+  }));
+
+  return {
+    ...decision,
+    allowed: true,
+    granted_by: grantedBy,
+    reason: `Granted by role${grants.length > 1 ? 's' : ''} ${grants
+      .map(({ role, source, assignment }) => {
+        const scope = formatScope(assignment);
+        return [
+          `"${role.name}"`,
+          scope && `on ${scope}`,
+          source.id !== role.id && `(inherited from "${source.name}")`,
+        ]
+          .filter(Boolean)
+          .join(' ');
+      })
+      .join(', ')}`,
+  };
+}
+
+// Attach assigned roles and effective permissions to auth users
+export function enrichUsersWithRoles(
+  users: Array<{
+    id: string;
+    email?: string | null;
+    created_at: string;
+    last_sign_in_at?: string | null;
+  }>,
+  roles: Role[],
+  permissions: Permission[],
+  userRoles: UserRole[],
+  rolePermissions: RolePermission[]
+): UserWithRoles[] {
+  const rolesById = new Map(roles.map((role) => [role.id, role]));
+
+  return users.map((user) => {
+    const assignments = userRoles.filter(
+      (ur) => ur.user_id === user.id && rolesById.has(ur.role_id)
+    );
+    const globalRoleIds = assignments
+      .filter(
+        (ur) => ur.scope_type === SCOPE_WILDCARD && isAssignmentActive(ur)
+      )
+      .map((ur) => ur.role_id);
+
+    return {
+      id: user.id,
+      email: user.email ?? null,
+      created_at: user.created_at,
+      last_sign_in_at: user.last_sign_in_at ?? null,
+      roles: roles.filter((role) => globalRoleIds.includes(role.id)),
+      permissions: getUserPermissions(
+        user.id,
+        userRoles,
+        rolePermissions,
+        permissions,
+        roles
+      ),
+      assignments: assignments.map((ur) => ({
+        role: { id: ur.role_id, name: rolesById.get(ur.role_id)!.name },
+        scope_type: ur.scope_type,
+        scope_id: ur.scope_id,
+        valid_from: ur.valid_from ?? null,
+        valid_until: ur.valid_until ?? null,
+        active: isAssignmentActive(ur),
+      })),
+    };
+  });
+}
+
 // Get all users who have a specific permission
 export function getUsersWithPermission(
   permissionId: string,
@@ -210,6 +606,130 @@ export function validateRolePermissionAssignment(
   return { isValid: true };
 }
 
+const sodViolationKey = (violation: SodViolation) =>
+  `${violation.constraint.id}:${violation.subject_type}:${violation.subject_id}`;
+
+/**
+ * Find roles and users that hold both sides of a separation-of-duties
+ * constraint. Inherited roles and permissions count, as does every assignment
+ * that has not expired, whatever its scope: the same person would still hold
+ * both duties.
+ */
+export function findSodViolations(
+  constraints: SodConstraint[],
+  model: RbacModel,
+  now: Date = new Date()
+): SodViolation[] {
+  if (constraints.length === 0) return [];
+
+  const names = {
+    role: new Map(model.roles.map((role) => [role.id, role.name])),
+    permission: new Map(model.permissions.map((p) => [p.id, p.name])),
+  };
+
+  // Roles and permissions each role holds, including inherited ones
+  const heldByRole = new Map(
+    model.roles.map((role) => {
+      const roleIds = new Set(expandRoleIds([role.id], model.roles));
+      const permissionIds = new Set(
+        model.rolePermissions
+          .filter((rp) => roleIds.has(rp.role_id))
+          .map((rp) => rp.permission_id)
+      );
+      return [role.id, { role: roleIds, permission: permissionIds }];
+    })
+  );
+
+  const heldByUser = new Map<
+    string,
+    { role: Set<string>; permission: Set<string> }
+  >();
+  model.userRoles
+    .filter((ur) => !ur.valid_until || new Date(ur.valid_until) > now)
+    .forEach((ur) => {
+      const roleHeld = heldByRole.get(ur.role_id);
+      if (!roleHeld) return;
+      const held = heldByUser.get(ur.user_id) ?? {
+        role: new Set<string>(),
+        permission: new Set<string>(),
+      };
+      roleHeld.role.forEach((id) => held.role.add(id));
+      roleHeld.permission.forEach((id) => held.permission.add(id));
+      heldByUser.set(ur.user_id, held);
+    });
+
+  const violations: SodViolation[] = [];
+  const check = (
+    subjectType: SodViolation['subject_type'],
+    subjectId: string,
+    subjectName: string | null,
+    held: { role: Set<string>; permission: Set<string> }
+  ) => {
+    constraints.forEach((constraint) => {
+      const type = constraint.constraint_type;
+      if (
+        !held[type].has(constraint.first_id) ||
+        !held[type].has(constraint.second_id)
+      ) {
+        return;
+      }
+      violations.push({
+        constraint: {
+          id: constraint.id,
+          name: constraint.name,
+          constraint_type: type,
+        },
+        subject_type: subjectType,
+        subject_id: subjectId,
+        subject_name: subjectName,
+        conflicting: [
+          {
+            id: constraint.first_id,
+            name: names[type].get(constraint.first_id) ?? constraint.first_id,
+          },
+          {
+            id: constraint.second_id,
+            name: names[type].get(constraint.second_id) ?? constraint.second_id,
+          },
+        ],
+      });
+    });
+  };
+
+  model.roles.forEach((role) =>
+    check('role', role.id, role.name, heldByRole.get(role.id)!)
+  );
+  heldByUser.forEach((held, userId) => check('user', userId, null, held));
+
+  return violations;
+}
+
+// Violations a change would introduce. Existing violations are reported
+// separately and do not block unrelated changes.
+export function findNewSodViolations(
+  constraints: SodConstraint[],
+  before: RbacModel,
+  after: RbacModel
+): SodViolation[] {
+  const existing = new Set(
+    findSodViolations(constraints, before).map(sodViolationKey)
+  );
+  return findSodViolations(constraints, after).filter(
+    (violation) => !existing.has(sodViolationKey(violation))
+  );
+}
+
+// Describe a violation, e.g. 'Role "clerk" holds both "create_payment" and
+// "approve_payment", which "payments" forbids'
+export function formatSodViolation(violation: SodViolation): string {
+  const subject =
+    violation.subject_type === 'role'
+      ? `Role "${violation.subject_name ?? violation.subject_id}"`
+      : `User ${violation.subject_name ?? violation.subject_id}`;
+  const [first, second] = violation.conflicting;
+  return `${subject} holds both "${first.name}" and "${second.name}", which "${violation.constraint.name}" forbids`;
+}
+
 // Find orphaned permissions (permissions not assigned to any role)
 export function findOrphanedPermissions(
   permissions: Permission[],
@@ -311,6 +831,55 @@ export function createPaginatedResponse<T>(
   };
 }
 
+// Summarize per-item results of a bulk operation
+export function createBulkResult(
+  mode: BulkMode,
+  results: BulkItemResult[]
+): BulkOperationResult {
+  const sorted = [...results].sort((a, b) => a.index - b.index);
+  const failed = sorted.filter(
+    (result) => result.status === 'failed' || result.status === 'rolled_back'
+  ).length;
+
+  return {
+    mode,
+    results: sorted,
+    succeeded: sorted.length - failed,
+    failed,
+  };
+}
+
+// What the deleted items of a bulk result took with them, e.g. ", along with
+// 3 associations and 1 user assignment; 1 child role detached". Empty when
+// nothing else changed.
+export function describeDeleteImpact(results: BulkItemResult[]): string {
+  const total: BulkDeleteImpact = {
+    associations: 0,
+    user_assignments: 0,
+    detached_roles: 0,
+  };
+  results.forEach(({ removed }) => {
+    total.associations += removed?.associations ?? 0;
+    total.user_assignments += removed?.user_assignments ?? 0;
+    total.detached_roles += removed?.detached_roles ?? 0;
+  });
+
+  const count = (n: number, noun: string) =>
+    `${n} ${noun}${n === 1 ? '' : 's'}`;
+  const removed = [
+    total.associations > 0 && count(total.associations, 'association'),
+    total.user_assignments > 0 &&
+      count(total.user_assignments, 'user assignment'),
+  ].filter(Boolean);
+
+  return [
+    removed.length > 0 ? `, along with ${removed.join(' and ')}` : '',
+    total.detached_roles > 0
+      ? `; ${count(total.detached_roles, 'child role')} detached`
+      : '',
+  ].join('');
+}
+
 // Generate suggestions for role-permission assignments
 export function generateAssignmentSuggestions(
   roles: Role[],
@@ -134,6 +134,8 @@ export function createAuditLog(
 
 /**
  * Log audit entry (in production, this would go to a secure logging service)
+ * Changes to RBAC data are recorded separately in the audit_logs table by
+ * database triggers, so they are captured for every write path.
  */
 export function logAuditEntry(entry: AuditLogEntry): void {
   // In development, log to console
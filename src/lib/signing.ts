@@ -0,0 +1,39 @@
+import { createHmac, timingSafeEqual } from 'crypto';
+
+/**
+ * Serialize a value as JSON with object keys sorted at every level, so the
+ * same data always produces the same string. Postgres JSONB does not keep key
+ * order, so signatures are computed over this form.
+ */
+export function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map((item) => canonicalJson(item ?? null)).join(',')}]`;
+  }
+
+  if (value !== null && typeof value === 'object') {
+    const entries = Object.entries(value as Record<string, unknown>)
+      .filter(([, item]) => item !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+      .map(([key, item]) => `${JSON.stringify(key)}:${canonicalJson(item)}`);
+    return `{${entries.join(',')}}`;
+  }
+
+  return JSON.stringify(value);
+}
+
+// Hex-encoded HMAC-SHA256 of the canonical JSON form of a payload
+export function signPayload(payload: unknown, secret: string): string {
+  return createHmac('sha256', secret)
+    .update(canonicalJson(payload))
+    .digest('hex');
+}
+
+export function verifySignature(
+  payload: unknown,
+  signature: string,
+  secret: string
+): boolean {
+  const expected = Buffer.from(signPayload(payload, secret), 'hex');
+  const actual = Buffer.from(signature, 'hex');
+  return actual.length === expected.length && timingSafeEqual(actual, expected);
+}
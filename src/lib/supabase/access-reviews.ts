@@ -0,0 +1,101 @@
+import { createClient } from './server';
+import { handleDatabaseError } from './errors';
+import { signPayload } from '../signing';
+import type {
+  AccessReviewCampaign,
+  AccessReviewItem,
+  AccessReviewReport,
+} from '../types';
+
+type ServerClient = Awaited<ReturnType<typeof createClient>>;
+
+// Bumped whenever the report layout changes
+const REPORT_VERSION = 1;
+
+// Secret used to sign access review reports, if configured
+export function getReportSigningSecret(): string | undefined {
+  return process.env.ACCESS_REVIEW_SIGNING_SECRET || undefined;
+}
+
+export function buildAccessReviewReport(
+  campaign: AccessReviewCampaign,
+  items: AccessReviewItem[]
+): AccessReviewReport {
+  const revoked = items.filter((item) => item.decision === 'revoke').length;
+
+  return {
+    version: REPORT_VERSION,
+    campaign: {
+      id: campaign.id,
+      name: campaign.name,
+      description: campaign.description,
+      roles: campaign.roles,
+      due_at: campaign.due_at,
+      created_by_email: campaign.created_by_email,
+      created_at: campaign.created_at,
+      closed_by_email: campaign.closed_by_email,
+      closed_at: campaign.closed_at,
+    },
+    totals: {
+      items: items.length,
+      kept: items.length - revoked,
+      revoked,
+    },
+    items: items.map((item) => ({
+      user_id: item.user_id,
+      user_email: item.user_email,
+      role_id: item.role_id,
+      role_name: item.role_name,
+      scope_type: item.scope_type,
+      scope_id: item.scope_id,
+      decision: item.decision,
+      comment: item.comment,
+      decided_by_email: item.decided_by_email,
+      decided_at: item.decided_at,
+    })),
+    generated_at: new Date().toISOString(),
+  };
+}
+
+/**
+ * Return the signed report of a closed campaign, producing and storing it on
+ * first use. Reports are written once, so a stored report is never replaced.
+ */
+export async function ensureAccessReviewReport(
+  supabase: ServerClient,
+  campaign: AccessReviewCampaign,
+  secret: string
+): Promise<AccessReviewCampaign> {
+  if (campaign.report && campaign.report_signature) {
+    return campaign;
+  }
+
+  const { data: items, error: itemsError } = await supabase
+    .from('access_review_items')
+    .select('*')
+    .eq('campaign_id', campaign.id)
+    .order('role_name')
+    .order('user_email');
+
+  if (itemsError) {
+    throw handleDatabaseError(itemsError);
+  }
+
+  const report = buildAccessReviewReport(campaign, items || []);
+
+  const { data, error } = await supabase
+    .from('access_review_campaigns')
+    .update({
+      report,
+      report_signature: signPayload(report, secret),
+    })
+    .eq('id', campaign.id)
+    .select()
+    .single();
+
+  if (error) {
+    throw handleDatabaseError(error);
+  }
+
+  return data;
+}
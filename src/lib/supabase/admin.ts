@@ -0,0 +1,66 @@
+import { createClient as createSupabaseClient } from '@supabase/supabase-js';
+import type { User } from '@supabase/supabase-js';
+import type { Database } from '../types/database';
+
+// Page size used when walking the auth user directory
+const USERS_PAGE_SIZE = 1000;
+
+/**
+ * Service-role client for the auth admin API.
+ * This bypasses RLS and must only ever be used on the server.
+ */
+export function createClient() {
+  const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL;
+  const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+
+  if (!supabaseUrl || !supabaseServiceKey) {
+    throw new Error('Missing Supabase service role environment variables');
+  }
+
+  return createSupabaseClient<Database>(supabaseUrl, supabaseServiceKey, {
+    auth: {
+      persistSession: false,
+      autoRefreshToken: false,
+    },
+  });
+}
+
+// List every auth user, following the admin API pagination
+export async function listAuthUsers(): Promise<User[]> {
+  const supabase = createClient();
+  const users: User[] = [];
+
+  for (let page = 1; ; page++) {
+    const { data, error } = await supabase.auth.admin.listUsers({
+      page,
+      perPage: USERS_PAGE_SIZE,
+    });
+
+    if (error) {
+      throw new Error(error.message);
+    }
+
+    users.push(...data.users);
+
+    if (data.users.length < USERS_PAGE_SIZE) {
+      break;
+    }
+  }
+
+  return users;
+}
+
+export async function getAuthUserById(id: string): Promise<User | null> {
+  const supabase = createClient();
+
+  const { data, error } = await supabase.auth.admin.getUserById(id);
+
+  if (error) {
+    if (error.status === 404) {
+      return null; // Not found
+    }
+    throw new Error(error.message);
+  }
+
+  return data.user;
+}
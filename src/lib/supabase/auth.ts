@@ -100,7 +100,18 @@ export async function isAuthenticated(isServer = false): Promise<boolean> {
   return user !== null;
 }
 
-// Check if user is admin (for now, all authenticated users are admins)
+// Check if user holds the RBAC administrator permission
 export async function isAdmin(isServer = false): Promise<boolean> {
-  return await isAuthenticated(isServer);
+  const supabase = isServer
+    ? await createServerClient()
+    : createBrowserClient();
+
+  const { data, error } = await supabase.rpc('is_admin');
+
+  if (error) {
+    console.error('Error checking admin status:', error);
+    return false;
+  }
+
+  return data === true;
 }
@@ -0,0 +1,124 @@
+import type { NextResponse } from 'next/server';
+import { headers } from 'next/headers';
+import type { User } from '@supabase/supabase-js';
+import { createClient } from './server';
+import {
+  handleAuthError,
+  handleAuthorizationError,
+} from '../api-error-handler';
+
+// Permission that grants access to manage RBAC data in this tool
+export const RBAC_ADMIN_PERMISSION = 'rbac_admin';
+
+// Permission that allows checking the access of other users
+export const RBAC_CHECK_PERMISSION = 'rbac_check';
+
+// Role that bundles the administrator permissions
+export const RBAC_ADMIN_ROLE = 'rbac_administrator';
+
+// Permission that allows approving or rejecting pending change requests
+export const RBAC_APPROVE_PERMISSION = 'rbac_approve_changes';
+
+// Role that bundles the approver permission
+export const RBAC_APPROVER_ROLE = 'rbac_change_approver';
+
+// Permission that allows deciding on items in access review campaigns
+export const RBAC_REVIEW_PERMISSION = 'rbac_review_access';
+
+type ServerClient = Awaited<ReturnType<typeof createClient>>;
+
+export type AuthorizationResult =
+  | { user: User; response: null }
+  | { user: null; response: NextResponse };
+
+// Bearer token sent by service callers, if any
+async function getBearerToken(): Promise<string | undefined> {
+  const authorization = (await headers()).get('authorization');
+  return authorization?.startsWith('Bearer ')
+    ? authorization.slice('Bearer '.length)
+    : undefined;
+}
+
+/**
+ * Resolve the signed-in user for a route handler.
+ * Accepts a session cookie or an `Authorization: Bearer` access token.
+ * Returns a 401 response when there is no valid session.
+ */
+export async function requireUser(
+  supabase: ServerClient
+): Promise<AuthorizationResult> {
+  const {
+    data: { user },
+    error,
+  } = await supabase.auth.getUser(await getBearerToken());
+
+  if (error || !user) {
+    return { user: null, response: handleAuthError() };
+  }
+
+  return { user, response: null };
+}
+
+/**
+ * Resolve the signed-in user and require the RBAC administrator permission.
+ * Returns a 401 response without a session and a 403 response for non-admins.
+ */
+export async function requireAdmin(
+  supabase: ServerClient
+): Promise<AuthorizationResult> {
+  const result = await requireUser(supabase);
+  if (result.response) {
+    return result;
+  }
+
+  const { data: isAdmin, error } = await supabase.rpc('is_admin');
+
+  if (error) {
+    console.error('Error checking admin permission:', error);
+  }
+
+  if (error || !isAdmin) {
+    return {
+      user: null,
+      response: handleAuthorizationError(
+        'RBAC administrator permission required'
+      ),
+    };
+  }
+
+  return result;
+}
+
+/**
+ * Resolve the signed-in user and require a specific permission.
+ * Returns a 401 response without a session and a 403 response otherwise.
+ */
+export async function requirePermission(
+  supabase: ServerClient,
+  permissionName: string
+): Promise<AuthorizationResult> {
+  const result = await requireUser(supabase);
+  if (result.response) {
+    return result;
+  }
+
+  const { data: allowed, error } = await supabase.rpc('has_permission', {
+    check_user_id: result.user.id,
+    permission_name: permissionName,
+  });
+
+  if (error) {
+    console.error('Error checking permission:', error);
+  }
+
+  if (error || !allowed) {
+    return {
+      user: null,
+      response: handleAuthorizationError(
+        `Permission "${permissionName}" required`
+      ),
+    };
+  }
+
+  return result;
+}
@@ -0,0 +1,476 @@
+import { NextResponse } from 'next/server';
+import { createClient } from './server';
+import { handleDatabaseError } from './errors';
+import { fetchAllRows } from './rows';
+import { createBulkResult, describeDeleteImpact } from '../rbac-utils';
+import type { BulkDeleteImpact, BulkItemResult, BulkMode } from '../types';
+import type { Database } from '../types/database';
+
+type ServerClient = Awaited<ReturnType<typeof createClient>>;
+
+// Tables whose items are created, renamed and deleted in bulk by name
+type BulkTable = 'permissions' | 'roles';
+type Tables = Database['public']['Tables'];
+
+const NOUNS: Record<BulkTable, { one: string; many: string }> = {
+  permissions: { one: 'permission', many: 'permissions' },
+  roles: { one: 'role', many: 'roles' },
+};
+
+const NOT_APPLIED = 'Not applied because other items failed';
+
+const capitalize = (text: string) => text[0].toUpperCase() + text.slice(1);
+
+// Whether the value at `index` already appeared earlier in `values`. The first
+// of several items with the same name or ID is kept and the others fail.
+const repeatsEarlier = (values: Array<string | undefined>, index: number) =>
+  values[index] !== undefined && values.indexOf(values[index]) !== index;
+
+// Why a statement that succeeded changed nothing: the row was deleted in the
+// meantime, or RLS hides it from the caller. Undefined when a row changed.
+const notAffected = (rows: unknown[] | null, noun: string) =>
+  rows && rows.length > 0 ? undefined : `${capitalize(noun)} not found`;
+
+/**
+ * Create the given items. In atomic mode a single insert creates every item
+ * or none of them; in best effort mode each item is inserted on its own.
+ */
+export async function bulkCreate<T extends BulkTable>(
+  supabase: ServerClient,
+  table: T,
+  items: Tables[T]['Insert'][],
+  mode: BulkMode
+): Promise<NextResponse> {
+  const noun = NOUNS[table];
+  const names = items.map((item) => item.name);
+
+  const { data: existing, error: fetchError } = await supabase
+    .from(table as BulkTable)
+    .select('name')
+    .in('name', names);
+
+  if (fetchError) {
+    throw handleDatabaseError(fetchError);
+  }
+
+  const existingNames = new Set((existing || []).map((item) => item.name));
+  const results: BulkItemResult[] = [];
+  const pending: Array<{ index: number; name: string }> = [];
+
+  names.forEach((name, index) => {
+    if (existingNames.has(name)) {
+      results.push({
+        index,
+        name,
+        status: 'failed',
+        reason: `A ${noun.one} with this name already exists`,
+      });
+    } else if (repeatsEarlier(names, index)) {
+      results.push({
+        index,
+        name,
+        status: 'failed',
+        reason: 'Duplicate name in request',
+      });
+    } else {
+      pending.push({ index, name });
+    }
+  });
+
+  if (mode === 'atomic') {
+    if (results.length > 0) {
+      pending.forEach(({ index, name }) =>
+        results.push({
+          index,
+          name,
+          status: 'rolled_back',
+          reason: NOT_APPLIED,
+        })
+      );
+      return NextResponse.json(
+        {
+          error: `No ${noun.many} were created`,
+          data: createBulkResult(mode, results),
+        },
+        { status: 409 }
+      );
+    }
+
+    const { data, error } = await supabase
+      .from(table as BulkTable)
+      .insert(items)
+      .select('id, name');
+
+    if (error) {
+      throw handleDatabaseError(error);
+    }
+
+    const created = new Map((data || []).map((item) => [item.name, item.id]));
+    names.forEach((name, index) =>
+      results.push({ index, id: created.get(name), name, status: 'created' })
+    );
+
+    return NextResponse.json(
+      {
+        data: createBulkResult(mode, results),
+        message: `${items.length} ${noun.many} created successfully`,
+      },
+      { status: 201 }
+    );
+  }
+
+  for (const { index, name } of pending) {
+    const { data, error } = await supabase
+      .from(table as BulkTable)
+      .insert(items[index])
+      .select('id')
+      .single();
+
+    results.push(
+      error
+        ? {
+            index,
+            name,
+            status: 'failed',
+            reason: handleDatabaseError(error).message,
+          }
+        : { index, id: data.id, name, status: 'created' }
+    );
+  }
+
+  const result = createBulkResult(mode, results);
+  return NextResponse.json({
+    data: result,
+    message: `${result.succeeded} of ${items.length} ${noun.many} created`,
+  });
+}
+
+/**
+ * Update the given items. Each update names the item by ID; omitted names
+ * keep the current one, and `fields` gives the other columns to write from
+ * the update and the current row.
+ */
+export async function bulkUpdate<
+  T extends BulkTable,
+  U extends { id: string; name?: string },
+>(
+  supabase: ServerClient,
+  table: T,
+  updates: U[],
+  mode: BulkMode,
+  fields?: (
+    update: U,
+    current: Tables[T]['Row'],
+    index: number
+  ) => Omit<Tables[T]['Update'], 'id' | 'name'>
+): Promise<NextResponse> {
+  const noun = NOUNS[table];
+  const ids = updates.map((update) => update.id);
+  const newNames = updates.map((update) => update.name);
+  const requestedNames = newNames.filter((name) => name !== undefined);
+
+  const [existingResult, namesResult] = await Promise.all([
+    supabase
+      .from(table as BulkTable)
+      .select('*')
+      .in('id', ids),
+    supabase
+      .from(table as BulkTable)
+      .select('id, name')
+      .in('name', requestedNames),
+  ]);
+
+  if (existingResult.error || namesResult.error) {
+    throw handleDatabaseError((existingResult.error || namesResult.error)!);
+  }
+
+  const existing = new Map(
+    ((existingResult.data || []) as Tables[T]['Row'][]).map((item) => [
+      item.id,
+      item,
+    ])
+  );
+  const nameOwners = new Map(
+    (namesResult.data || []).map((item) => [item.name, item.id])
+  );
+  const results: BulkItemResult[] = [];
+  const pending: Array<{
+    index: number;
+    row: Tables[T]['Update'] & { id: string; name: string };
+  }> = [];
+
+  updates.forEach((update, index) => {
+    const current = existing.get(update.id);
+    const owner = update.name ? nameOwners.get(update.name) : undefined;
+    const fail = (reason: string) =>
+      results.push({
+        index,
+        id: update.id,
+        name: update.name ?? current?.name,
+        status: 'failed',
+        reason,
+      });
+
+    if (!current) {
+      fail(`${capitalize(noun.one)} not found`);
+    } else if (repeatsEarlier(ids, index)) {
+      fail('Duplicate ID in request');
+    } else if (owner && owner !== update.id) {
+      fail(`A ${noun.one} with this name already exists`);
+    } else if (repeatsEarlier(newNames, index)) {
+      fail('Duplicate name in request');
+    } else {
+      pending.push({
+        index,
+        row: {
+          ...fields?.(update, current, index),
+          id: update.id,
+          name: update.name ?? current.name,
+        },
+      });
+    }
+  });
+
+  if (mode === 'atomic') {
+    if (results.length > 0) {
+      pending.forEach(({ index, row }) =>
+        results.push({
+          index,
+          id: row.id,
+          name: row.name,
+          status: 'rolled_back',
+          reason: NOT_APPLIED,
+        })
+      );
+      return NextResponse.json(
+        {
+          error: `No ${noun.many} were updated`,
+          data: createBulkResult(mode, results),
+        },
+        { status: 409 }
+      );
+    }
+
+    // Upserting existing IDs updates every row in one statement
+    const { error } = await supabase.from(table as BulkTable).upsert(
+      pending.map(({ row }) => row),
+      { onConflict: 'id' }
+    );
+
+    if (error) {
+      throw handleDatabaseError(error);
+    }
+
+    pending.forEach(({ index, row }) =>
+      results.push({ index, id: row.id, name: row.name, status: 'updated' })
+    );
+
+    return NextResponse.json({
+      data: createBulkResult(mode, results),
+      message: `${updates.length} ${noun.many} updated successfully`,
+    });
+  }
+
+  for (const { index, row } of pending) {
+    const { id, ...changes } = row;
+    const { data, error } = await supabase
+      .from(table as BulkTable)
+      .update(changes)
+      .eq('id', id)
+      .select('id');
+
+    const reason = error
+      ? handleDatabaseError(error).message
+      : notAffected(data, noun.one);
+    results.push(
+      reason
+        ? { index, id, name: row.name, status: 'failed', reason }
+        : { index, id, name: row.name, status: 'updated' }
+    );
+  }
+
+  const result = createBulkResult(mode, results);
+  return NextResponse.json({
+    data: result,
+    message: `${result.succeeded} of ${updates.length} ${noun.many} updated`,
+  });
+}
+
+// What deleting each of the given items removes or changes along with it:
+// their role associations, the user assignments of roles, and child roles,
+// which lose their parent unless they are deleted too
+async function loadDeleteImpact(
+  supabase: ServerClient,
+  table: BulkTable,
+  ids: string[]
+): Promise<Map<string, BulkDeleteImpact>> {
+  const key = table === 'roles' ? 'role_id' : 'permission_id';
+  const [associations, assignments, children] = await Promise.all([
+    fetchAllRows((from, to) =>
+      supabase
+        .from('role_permissions')
+        .select('role_id, permission_id')
+        .in(key, ids)
+        .order('role_id')
+        .order('permission_id')
+        .range(from, to)
+    ),
+    table === 'roles'
+      ? fetchAllRows((from, to) =>
+          supabase
+            .from('user_roles')
+            .select('role_id')
+            .in('role_id', ids)
+            .order('user_id')
+            .order('role_id')
+            .order('scope_type')
+            .order('scope_id')
+            .range(from, to)
+        )
+      : [],
+    table === 'roles'
+      ? fetchAllRows((from, to) =>
+          supabase
+            .from('roles')
+            .select('id, parent_role_id')
+            .in('parent_role_id', ids)
+            .order('id')
+            .range(from, to)
+        )
+      : [],
+  ]);
+
+  const impact = new Map<string, BulkDeleteImpact>(
+    ids.map((id) => [
+      id,
+      { associations: 0, user_assignments: 0, detached_roles: 0 },
+    ])
+  );
+  associations.forEach((row) => impact.get(row[key])!.associations++);
+  assignments.forEach((row) => impact.get(row.role_id)!.user_assignments++);
+  children
+    .filter((child) => !impact.has(child.id))
+    .forEach((child) => impact.get(child.parent_role_id!)!.detached_roles++);
+
+  return impact;
+}
+
+/**
+ * Delete the items with the given IDs. Their role associations and, for
+ * roles, user assignments are deleted with them, and child roles of deleted
+ * roles lose their parent; each deleted item reports what it `removed`.
+ */
+export async function bulkDelete(
+  supabase: ServerClient,
+  table: BulkTable,
+  ids: string[],
+  mode: BulkMode
+): Promise<NextResponse> {
+  const noun = NOUNS[table];
+
+  const { data: existing, error: fetchError } = await supabase
+    .from(table)
+    .select('id, name')
+    .in('id', ids);
+
+  if (fetchError) {
+    throw handleDatabaseError(fetchError);
+  }
+
+  const names = new Map((existing || []).map((item) => [item.id, item.name]));
+  const results: BulkItemResult[] = [];
+  const pending: Array<{ index: number; id: string; name: string }> = [];
+
+  ids.forEach((id, index) => {
+    const name = names.get(id);
+    if (name === undefined) {
+      results.push({
+        index,
+        id,
+        status: 'failed',
+        reason: `${capitalize(noun.one)} not found`,
+      });
+    } else if (repeatsEarlier(ids, index)) {
+      results.push({
+        index,
+        id,
+        name,
+        status: 'failed',
+        reason: 'Duplicate ID in request',
+      });
+    } else {
+      pending.push({ index, id, name });
+    }
+  });
+
+  if (mode === 'atomic') {
+    if (results.length > 0) {
+      pending.forEach(({ index, id, name }) =>
+        results.push({
+          index,
+          id,
+          name,
+          status: 'rolled_back',
+          reason: NOT_APPLIED,
+        })
+      );
+      return NextResponse.json(
+        {
+          error: `No ${noun.many} were deleted`,
+          data: createBulkResult(mode, results),
+        },
+        { status: 404 }
+      );
+    }
+
+    const impact = await loadDeleteImpact(supabase, table, ids);
+    const { error } = await supabase.from(table).delete().in('id', ids);
+
+    if (error) {
+      throw handleDatabaseError(error);
+    }
+
+    pending.forEach(({ index, id, name }) =>
+      results.push({
+        index,
+        id,
+        name,
+        status: 'deleted',
+        removed: impact.get(id),
+      })
+    );
+
+    return NextResponse.json({
+      data: createBulkResult(mode, results),
+      message: `${ids.length} ${noun.many} deleted successfully${describeDeleteImpact(results)}`,
+    });
+  }
+
+  const impact = await loadDeleteImpact(
+    supabase,
+    table,
+    pending.map(({ id }) => id)
+  );
+  for (const { index, id, name } of pending) {
+    const { data, error } = await supabase
+      .from(table)
+      .delete()
+      .eq('id', id)
+      .select('id');
+
+    const reason = error
+      ? handleDatabaseError(error).message
+      : notAffected(data, noun.one);
+    results.push(
+      reason
+        ? { index, id, name, status: 'failed', reason }
+        : { index, id, name, status: 'deleted', removed: impact.get(id) }
+    );
+  }
+
+  const result = createBulkResult(mode, results);
+  return NextResponse.json({
+    data: result,
+    message: `${result.succeeded} of ${ids.length} ${noun.many} deleted${describeDeleteImpact(results)}`,
+  });
+}
@@ -0,0 +1,68 @@
+import { NextResponse } from 'next/server';
+import type { User } from '@supabase/supabase-js';
+import { createClient } from './server';
+import { handleDatabaseError } from './errors';
+import type { ChangeOperation } from '../types';
+import type { Json } from '../types/database';
+
+type ServerClient = Awaited<ReturnType<typeof createClient>>;
+
+/**
+ * Whether changes to permissions, roles and associations need approval.
+ * Enabled with RBAC_REQUIRE_APPROVAL=true; changes apply immediately otherwise.
+ */
+export function isChangeApprovalRequired(): boolean {
+  return process.env.RBAC_REQUIRE_APPROVAL === 'true';
+}
+
+/**
+ * Store a proposed change as a pending change request instead of applying it.
+ * Returns a 202 response with the request.
+ */
+export async function submitChangeRequest(
+  supabase: ServerClient,
+  user: User,
+  change: {
+    operation: ChangeOperation;
+    resource_id?: string;
+    payload: Json;
+    summary: string;
+  }
+): Promise<NextResponse> {
+  const { data, error } = await supabase
+    .from('change_requests')
+    .insert({
+      operation: change.operation,
+      resource_id: change.resource_id ?? null,
+      payload: change.payload,
+      summary: change.summary,
+      requested_by: user.id,
+      requested_by_email: user.email ?? null,
+    })
+    .select()
+    .single();
+
+  if (error) {
+    throw handleDatabaseError(error);
+  }
+
+  return NextResponse.json(
+    {
+      data,
+      message: `Submitted for approval: ${change.summary}`,
+    },
+    { status: 202 }
+  );
+}
+
+// Endpoints that change many items at once cannot go through approval
+export function changeApprovalRequiredResponse(): NextResponse {
+  return NextResponse.json(
+    {
+      error: 'Change approval required',
+      message:
+        'Bulk changes are disabled while changes require approval. Submit them one at a time instead.',
+    },
+    { status: 409 }
+  );
+}
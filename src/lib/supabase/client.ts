@@ -1,5 +1,18 @@
 import { createBrowserClient } from '@supabase/ssr';
 import type { Database } from '../types/database';
+import { ORGANIZATION_COOKIE, ORGANIZATION_HEADER } from '../organizations';
+
+// The organization chosen in the switcher, if any
+function getOrganizationId(): string | undefined {
+  if (typeof document === 'undefined') {
+    return undefined;
+  }
+
+  return document.cookie
+    .split('; ')
+    .find((cookie) => cookie.startsWith(`${ORGANIZATION_COOKIE}=`))
+    ?.slice(ORGANIZATION_COOKIE.length + 1);
+}
 
 export function createClient() {
   const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL;
@@ -9,7 +22,12 @@ export function createClient() {
     throw new Error('Missing Supabase environment variables');
   }
 
+  const organizationId = getOrganizationId();
+
   return createBrowserClient<Database>(supabaseUrl, supabaseAnonKey, {
+    global: organizationId
+      ? { headers: { [ORGANIZATION_HEADER]: organizationId } }
+      : undefined,
     auth: {
       persistSession: true,
       autoRefreshToken: true,
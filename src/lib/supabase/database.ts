@@ -6,10 +6,13 @@ import type {
   Role,
   RolePermission,
   UserRole,
+  RoleScope,
   PermissionWithRoles,
   RoleWithPermissions,
 } from '../types';
 
+const GLOBAL_SCOPE: RoleScope = { scope_type: '*', scope_id: '*' };
+
 // Helper function to get the appropriate client
 export function getSupabaseClient(isServer = false) {
   if (isServer) {
@@ -367,7 +370,8 @@ export async function getUserRoles(
 export async function assignRoleToUser(
   userId: string,
   roleId: string,
-  isServer = false
+  isServer = false,
+  scope: RoleScope = GLOBAL_SCOPE
 ): Promise<UserRole> {
   const supabase = isServer
     ? await createServerClient()
@@ -375,7 +379,7 @@ export async function assignRoleToUser(
 
   const { data, error } = await supabase
     .from('user_roles')
-    .insert({ user_id: userId, role_id: roleId })
+    .insert({ user_id: userId, role_id: roleId, ...scope })
     .select()
     .single();
 
@@ -389,7 +393,8 @@ export async function assignRoleToUser(
 export async function removeRoleFromUser(
   userId: string,
   roleId: string,
-  isServer = false
+  isServer = false,
+  scope: RoleScope = GLOBAL_SCOPE
 ): Promise<void> {
   const supabase = isServer
     ? await createServerClient()
@@ -399,7 +404,9 @@ export async function removeRoleFromUser(
     .from('user_roles')
     .delete()
     .eq('user_id', userId)
-    .eq('role_id', roleId);
+    .eq('role_id', roleId)
+    .eq('scope_type', scope.scope_type)
+    .eq('scope_id', scope.scope_id);
 
   if (error) {
     throw handleDatabaseError(error);
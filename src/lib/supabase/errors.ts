@@ -29,11 +29,11 @@ export function handleDatabaseError(error: PostgrestError): DatabaseError {
   // Provide user-friendly error messages for common errors
   switch (error.code) {
     case '23505': // unique_violation
-      if (error.details?.includes('permissions_name_key')) {
+      if (error.details?.includes('permissions_organization_name_key')) {
         dbError.message = 'A permission with this name already exists';
         dbError.userMessage = 'Please choose a different permission name.';
         dbError.statusCode = 409;
-      } else if (error.details?.includes('roles_name_key')) {
+      } else if (error.details?.includes('roles_organization_name_key')) {
         dbError.message = 'A role with this name already exists';
         dbError.userMessage = 'Please choose a different role name.';
         dbError.statusCode = 409;
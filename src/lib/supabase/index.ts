@@ -1,6 +1,7 @@
 // Client exports
 export { createClient as createBrowserClient } from './client';
 export { createClient as createServerClient } from './server';
+export { createClient as createAdminClient } from './admin';
 
 // Database operations
 export * from './database';
@@ -8,6 +9,9 @@ export * from './database';
 // Authentication utilities
 export * from './auth';
 
+// Route handler authorization
+export * from './authorization';
+
 // Error handling
 export * from './errors';
 
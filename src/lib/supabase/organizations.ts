@@ -0,0 +1,68 @@
+import type { NextResponse } from 'next/server';
+import type { User } from '@supabase/supabase-js';
+import { createClient } from './server';
+import { getAuthUserById, listAuthUsers } from './admin';
+import { handleDatabaseError } from './errors';
+import {
+  ORGANIZATION_COOKIE,
+  ORGANIZATION_COOKIE_MAX_AGE,
+} from '../organizations';
+
+type ServerClient = Awaited<ReturnType<typeof createClient>>;
+
+// IDs of the members of the current organization; RLS hides other members
+async function getMemberIds(supabase: ServerClient): Promise<Set<string>> {
+  const { data, error } = await supabase
+    .from('organization_members')
+    .select('user_id');
+
+  if (error) {
+    throw handleDatabaseError(error);
+  }
+
+  return new Set((data || []).map((member) => member.user_id));
+}
+
+// Auth users who are members of the current organization
+export async function listOrganizationUsers(
+  supabase: ServerClient
+): Promise<User[]> {
+  const [memberIds, users] = await Promise.all([
+    getMemberIds(supabase),
+    listAuthUsers(),
+  ]);
+
+  return users.filter((user) => memberIds.has(user.id));
+}
+
+// Auth user by ID, or null when they are not a member of the current
+// organization, so other tenants' users look like they do not exist
+export async function getOrganizationUserById(
+  supabase: ServerClient,
+  id: string
+): Promise<User | null> {
+  const { data, error } = await supabase
+    .from('organization_members')
+    .select('user_id')
+    .eq('user_id', id)
+    .maybeSingle();
+
+  if (error) {
+    throw handleDatabaseError(error);
+  }
+
+  return data ? getAuthUserById(id) : null;
+}
+
+// Make later requests from this browser work on the given organization.
+// The cookie is readable from scripts so the browser client can send it too.
+export function setOrganizationCookie(
+  response: NextResponse,
+  organizationId: string
+) {
+  response.cookies.set(ORGANIZATION_COOKIE, organizationId, {
+    path: '/',
+    sameSite: 'lax',
+    maxAge: ORGANIZATION_COOKIE_MAX_AGE,
+  });
+}
@@ -0,0 +1,38 @@
+import type { PostgrestError } from '@supabase/supabase-js';
+import { handleDatabaseError } from './errors';
+
+// PostgREST returns at most max_rows rows per request (1000 by default) and
+// silently drops the rest, so whole tables are read in pages
+const PAGE_SIZE = 1000;
+
+/**
+ * Every row of a query, read page by page. `page` builds the query for the
+ * rows `from` to `to` (inclusive) and must order them by a unique key, so
+ * that pages neither overlap nor skip rows. Pages continue from the last row
+ * received, so a max_rows below the page size loses nothing.
+ */
+export async function fetchAllRows<Row>(
+  page: (
+    from: number,
+    to: number
+  ) => PromiseLike<{ data: Row[] | null; error: PostgrestError | null }>
+): Promise<Row[]> {
+  const rows: Row[] = [];
+
+  for (;;) {
+    const { data, error } = await page(
+      rows.length,
+      rows.length + PAGE_SIZE - 1
+    );
+
+    if (error) {
+      throw handleDatabaseError(error);
+    }
+
+    if (!data || data.length === 0) {
+      return rows;
+    }
+
+    rows.push(...data);
+  }
+}
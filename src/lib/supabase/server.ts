@@ -1,10 +1,12 @@
 'use server';
 import { createServerClient } from '@supabase/ssr';
-import { cookies } from 'next/headers';
+import { cookies, headers } from 'next/headers';
 import type { Database } from '../types/database';
+import { ORGANIZATION_COOKIE, ORGANIZATION_HEADER } from '../organizations';
 
 export async function createClient() {
   const cookieStore = await cookies();
+  const headerStore = await headers();
 
   const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL;
   const supabaseAnonKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY;
@@ -13,7 +15,24 @@ export async function createClient() {
     throw new Error('Missing Supabase environment variables');
   }
 
+  // Service callers authenticate with a bearer token instead of cookies
+  const authorization = headerStore.get('authorization');
+  const organizationId =
+    headerStore.get(ORGANIZATION_HEADER) ||
+    cookieStore.get(ORGANIZATION_COOKIE)?.value;
+  const globalHeaders: Record<string, string> = {
+    ...(authorization?.startsWith('Bearer ') && {
+      Authorization: authorization,
+    }),
+    ...(organizationId && { [ORGANIZATION_HEADER]: organizationId }),
+  };
+  const globalOptions =
+    Object.keys(globalHeaders).length > 0
+      ? { headers: globalHeaders }
+      : undefined;
+
   return createServerClient<Database>(supabaseUrl, supabaseAnonKey, {
+    global: globalOptions,
     cookies: {
       getAll() {
         return cookieStore.getAll();
@@ -0,0 +1,77 @@
+import { createClient } from './server';
+import { handleDatabaseError } from './errors';
+import { fetchAllRows } from './rows';
+import type { RbacSnapshotData } from '../types';
+
+type ServerClient = Awaited<ReturnType<typeof createClient>>;
+
+// Stands for the current state wherever a snapshot ID is expected
+export const LIVE_STATE = 'live';
+
+// Current contents of the tables a snapshot captures. Exports that leave out
+// user role assignments can skip reading them.
+export async function loadLiveRbacState(
+  supabase: ServerClient,
+  options: { userRoles?: boolean } = {}
+): Promise<RbacSnapshotData> {
+  const [permissions, roles, rolePermissions, userRoles] = await Promise.all([
+    fetchAllRows((from, to) =>
+      supabase.from('permissions').select('*').order('id').range(from, to)
+    ),
+    fetchAllRows((from, to) =>
+      supabase.from('roles').select('*').order('id').range(from, to)
+    ),
+    fetchAllRows((from, to) =>
+      supabase
+        .from('role_permissions')
+        .select('*')
+        .order('role_id')
+        .order('permission_id')
+        .range(from, to)
+    ),
+    options.userRoles === false
+      ? []
+      : fetchAllRows((from, to) =>
+          supabase
+            .from('user_roles')
+            .select('*')
+            .order('user_id')
+            .order('role_id')
+            .order('scope_type')
+            .order('scope_id')
+            .range(from, to)
+        ),
+  ]);
+
+  return {
+    permissions,
+    roles,
+    role_permissions: rolePermissions,
+    user_roles: userRoles,
+  };
+}
+
+/**
+ * State captured by a snapshot, or the live state for `live`.
+ * Returns null when the snapshot does not exist.
+ */
+export async function loadRbacState(
+  supabase: ServerClient,
+  snapshotId: string
+): Promise<RbacSnapshotData | null> {
+  if (snapshotId === LIVE_STATE) {
+    return loadLiveRbacState(supabase);
+  }
+
+  const { data, error } = await supabase
+    .from('rbac_snapshots')
+    .select('data')
+    .eq('id', snapshotId)
+    .maybeSingle();
+
+  if (error) {
+    throw handleDatabaseError(error);
+  }
+
+  return data?.data ?? null;
+}
@@ -0,0 +1,147 @@
+import { NextResponse } from 'next/server';
+import { createClient } from './server';
+import { listAuthUsers } from './admin';
+import { handleDatabaseError } from './errors';
+import {
+  findNewSodViolations,
+  findSodViolations,
+  formatSodViolation,
+} from '../rbac-utils';
+import type {
+  RbacModel,
+  Role,
+  RolePermission,
+  SodConstraint,
+  SodViolation,
+  UserRole,
+} from '../types';
+
+type ServerClient = Awaited<ReturnType<typeof createClient>>;
+
+// Load the separation-of-duties constraints and the model they apply to
+async function loadSodState(
+  supabase: ServerClient
+): Promise<{ constraints: SodConstraint[]; model: RbacModel }> {
+  const [
+    { data: constraints, error: constraintsError },
+    { data: roles, error: rolesError },
+    { data: permissions, error: permissionsError },
+    { data: rolePermissions, error: rolePermissionsError },
+    { data: userRoles, error: userRolesError },
+  ] = await Promise.all([
+    supabase.from('sod_constraints').select('*'),
+    supabase.from('roles').select('*'),
+    supabase.from('permissions').select('*'),
+    supabase.from('role_permissions').select('*'),
+    supabase.from('user_roles').select('*'),
+  ]);
+
+  const queryError =
+    constraintsError ||
+    rolesError ||
+    permissionsError ||
+    rolePermissionsError ||
+    userRolesError;
+  if (queryError) {
+    throw handleDatabaseError(queryError);
+  }
+
+  return {
+    constraints: constraints || [],
+    model: {
+      roles: roles || [],
+      permissions: permissions || [],
+      rolePermissions: rolePermissions || [],
+      userRoles: userRoles || [],
+    },
+  };
+}
+
+// Show users by email rather than by ID
+async function withUserEmails(
+  violations: SodViolation[]
+): Promise<SodViolation[]> {
+  if (!violations.some((violation) => violation.subject_type === 'user')) {
+    return violations;
+  }
+
+  const emails = new Map(
+    (await listAuthUsers()).map((user) => [user.id, user.email ?? null])
+  );
+  return violations.map((violation) =>
+    violation.subject_type === 'user'
+      ? {
+          ...violation,
+          subject_name: emails.get(violation.subject_id) ?? null,
+        }
+      : violation
+  );
+}
+
+// Every role and user currently holding both sides of a constraint
+export async function listSodViolations(
+  supabase: ServerClient
+): Promise<SodViolation[]> {
+  const { constraints, model } = await loadSodState(supabase);
+  return withUserEmails(findSodViolations(constraints, model));
+}
+
+// New or changed roles, new role permissions and new user role assignments
+interface SodChange {
+  roles?: Role[];
+  rolePermissions?: RolePermission[];
+  userRoles?: UserRole[];
+}
+
+/**
+ * The separation-of-duties violations a change would introduce, with users
+ * shown by email. A changed role replaces the one with its ID, e.g. to move
+ * it to another parent.
+ */
+export async function findSodChangeViolations(
+  supabase: ServerClient,
+  change: SodChange
+): Promise<SodViolation[]> {
+  const { constraints, model } = await loadSodState(supabase);
+  const changedRoleIds = new Set((change.roles || []).map((role) => role.id));
+
+  const violations = findNewSodViolations(constraints, model, {
+    ...model,
+    roles: [
+      ...model.roles.filter((role) => !changedRoleIds.has(role.id)),
+      ...(change.roles || []),
+    ],
+    rolePermissions: [
+      ...model.rolePermissions,
+      ...(change.rolePermissions || []),
+    ],
+    userRoles: [...model.userRoles, ...(change.userRoles || [])],
+  });
+  return withUserEmails(violations);
+}
+
+/**
+ * Check a change against the separation-of-duties constraints, see
+ * findSodChangeViolations. Returns a 409 response listing the violations it
+ * would introduce, or null when the change is allowed.
+ */
+export async function checkSodChange(
+  supabase: ServerClient,
+  change: SodChange
+): Promise<NextResponse | null> {
+  const violations = await findSodChangeViolations(supabase, change);
+  if (violations.length === 0) {
+    return null;
+  }
+
+  return NextResponse.json(
+    {
+      error: 'Separation of duties violation',
+      details: violations.map((violation) => ({
+        constraint: violation.constraint.name,
+        message: formatSodViolation(violation),
+      })),
+    },
+    { status: 409 }
+  );
+}
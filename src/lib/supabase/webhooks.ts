@@ -0,0 +1,314 @@
+import { randomBytes, randomUUID } from 'crypto';
+import { lookup } from 'dns/promises';
+import { BlockList, isIP } from 'net';
+import { createClient } from './admin';
+import { handleDatabaseError } from './errors';
+import { canonicalJson, signPayload } from '../signing';
+import {
+  WEBHOOK_DELIVERY_HEADER,
+  WEBHOOK_EVENT_HEADER,
+  WEBHOOK_MAX_ATTEMPTS,
+  WEBHOOK_SIGNATURE_HEADER,
+  WEBHOOK_TEST_EVENT,
+  getWebhookRetryDelay,
+} from '../webhooks';
+import type { Database } from '../types/database';
+import type { WebhookDelivery } from '../types';
+
+type AdminClient = ReturnType<typeof createClient>;
+type DeliveryRow = Database['public']['Tables']['webhook_deliveries']['Row'];
+type SubscriptionRow =
+  Database['public']['Tables']['webhook_subscriptions']['Row'];
+
+// Endpoints that take longer than this count as failed
+const DELIVERY_TIMEOUT_MS = 10_000;
+
+// Deliveries attempted per run of the delivery job
+const DELIVERY_BATCH_SIZE = 50;
+
+// Delivery columns shown to administrators
+export const WEBHOOK_DELIVERY_COLUMNS =
+  'id, subscription_id, event, payload, status, attempts, next_attempt_at, last_attempt_at, response_status, last_error, created_at';
+
+// Subscription columns readable through RLS; the secret is not one of them
+export const WEBHOOK_SUBSCRIPTION_COLUMNS =
+  'id, url, events, description, active, created_by, created_at';
+
+// Random signing secret for subscriptions created without one
+export function generateWebhookSecret(): string {
+  return `whsec_${randomBytes(24).toString('hex')}`;
+}
+
+// Loopback, private, link-local, shared and reserved ranges. IPv4-mapped
+// IPv6 addresses are checked against the IPv4 ranges.
+const NON_PUBLIC_ADDRESSES = new BlockList();
+(
+  [
+    ['0.0.0.0', 8],
+    ['10.0.0.0', 8],
+    ['100.64.0.0', 10],
+    ['127.0.0.0', 8],
+    ['169.254.0.0', 16],
+    ['172.16.0.0', 12],
+    ['192.168.0.0', 16],
+    ['224.0.0.0', 3],
+  ] as const
+).forEach(([network, prefix]) =>
+  NON_PUBLIC_ADDRESSES.addSubnet(network, prefix, 'ipv4')
+);
+(
+  [
+    ['::', 127],
+    ['fc00::', 7],
+    ['fe80::', 10],
+    ['ff00::', 8],
+  ] as const
+).forEach(([network, prefix]) =>
+  NON_PUBLIC_ADDRESSES.addSubnet(network, prefix, 'ipv6')
+);
+
+/**
+ * Why a webhook URL may not be called, or null when it may. URLs whose host
+ * is or resolves to a non-public address are refused, so subscriptions cannot
+ * be used to probe the internal network. WEBHOOKS_ALLOW_PRIVATE_URLS=true
+ * turns the check off for local development.
+ */
+export async function checkWebhookDestination(
+  url: string
+): Promise<string | null> {
+  if (process.env.WEBHOOKS_ALLOW_PRIVATE_URLS === 'true') {
+    return null;
+  }
+
+  const host = new URL(url).hostname.replace(/^\[(.*)\]$/, '$1');
+  let addresses: string[];
+  if (isIP(host)) {
+    addresses = [host];
+  } else {
+    try {
+      addresses = (await lookup(host, { all: true })).map(
+        ({ address }) => address
+      );
+    } catch {
+      return `Host ${host} could not be resolved`;
+    }
+  }
+
+  const blocked = addresses.some((address) =>
+    NON_PUBLIC_ADDRESSES.check(address, isIP(address) === 6 ? 'ipv6' : 'ipv4')
+  );
+  return blocked
+    ? 'URL must not point to a loopback, private or link-local address'
+    : null;
+}
+
+interface DeliveryOutcome {
+  ok: boolean;
+  response_status: number | null;
+  error: string | null;
+}
+
+// POST the payload as canonical JSON, so receivers can check the signature
+// against the raw body
+async function sendDelivery(
+  delivery: DeliveryRow,
+  subscription: Pick<SubscriptionRow, 'url' | 'secret'>
+): Promise<DeliveryOutcome> {
+  // Checked again before every attempt, since DNS may have changed
+  const refused = await checkWebhookDestination(subscription.url);
+  if (refused) {
+    return { ok: false, response_status: null, error: refused };
+  }
+
+  try {
+    const response = await fetch(subscription.url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'User-Agent': 'Nexus-Access-Webhooks/1.0',
+        [WEBHOOK_EVENT_HEADER]: delivery.event,
+        [WEBHOOK_DELIVERY_HEADER]: delivery.id,
+        [WEBHOOK_SIGNATURE_HEADER]: `sha256=${signPayload(
+          delivery.payload,
+          subscription.secret
+        )}`,
+      },
+      body: canonicalJson(delivery.payload),
+      redirect: 'manual',
+      signal: AbortSignal.timeout(DELIVERY_TIMEOUT_MS),
+    });
+
+    return {
+      ok: response.ok,
+      response_status: response.status,
+      error: response.ok ? null : `Endpoint responded with ${response.status}`,
+    };
+  } catch (error) {
+    return {
+      ok: false,
+      response_status: null,
+      error: error instanceof Error ? error.message : 'Request failed',
+    };
+  }
+}
+
+// Record the outcome of an attempt. Failures are retried with backoff until
+// WEBHOOK_MAX_ATTEMPTS, unless retrying is turned off.
+async function recordAttempt(
+  supabase: AdminClient,
+  delivery: DeliveryRow,
+  outcome: DeliveryOutcome,
+  retry: boolean
+): Promise<DeliveryRow> {
+  const attempts = delivery.attempts + 1;
+  const now = new Date();
+  const status = outcome.ok
+    ? 'succeeded'
+    : retry && attempts < WEBHOOK_MAX_ATTEMPTS
+      ? 'pending'
+      : 'failed';
+
+  const { data, error } = await supabase
+    .from('webhook_deliveries')
+    .update({
+      status,
+      attempts,
+      last_attempt_at: now.toISOString(),
+      response_status: outcome.response_status,
+      last_error: outcome.error,
+      next_attempt_at:
+        status === 'pending'
+          ? new Date(
+              now.getTime() + getWebhookRetryDelay(attempts)
+            ).toISOString()
+          : now.toISOString(),
+    })
+    .eq('id', delivery.id)
+    .select()
+    .single();
+
+  if (error) {
+    throw handleDatabaseError(error);
+  }
+
+  return data;
+}
+
+/**
+ * Attempt every delivery that is due, once. Meant to be run on a schedule;
+ * deliveries are leased so overlapping runs do not send them twice.
+ */
+export async function deliverDueWebhooks(): Promise<{
+  attempted: number;
+  succeeded: number;
+  rescheduled: number;
+  failed: number;
+}> {
+  const supabase = createClient();
+
+  const { data: deliveries, error } = await supabase.rpc(
+    'claim_webhook_deliveries',
+    { batch_size: DELIVERY_BATCH_SIZE }
+  );
+
+  if (error) {
+    throw handleDatabaseError(error);
+  }
+
+  if (!deliveries || deliveries.length === 0) {
+    return { attempted: 0, succeeded: 0, rescheduled: 0, failed: 0 };
+  }
+
+  const { data: subscriptions, error: subscriptionsError } = await supabase
+    .from('webhook_subscriptions')
+    .select('id, url, secret, active')
+    .in('id', [...new Set(deliveries.map((d) => d.subscription_id))]);
+
+  if (subscriptionsError) {
+    throw handleDatabaseError(subscriptionsError);
+  }
+
+  const subscriptionsById = new Map(
+    (subscriptions || []).map((subscription) => [subscription.id, subscription])
+  );
+
+  const results = await Promise.all(
+    deliveries.map((delivery) => {
+      const subscription = subscriptionsById.get(delivery.subscription_id);
+      // Deliveries queued before a subscription was disabled are dropped
+      if (!subscription?.active) {
+        return recordAttempt(
+          supabase,
+          delivery,
+          {
+            ok: false,
+            response_status: null,
+            error: 'Subscription is disabled',
+          },
+          false
+        );
+      }
+      return sendDelivery(delivery, subscription).then((outcome) =>
+        recordAttempt(supabase, delivery, outcome, true)
+      );
+    })
+  );
+
+  return {
+    attempted: results.length,
+    succeeded: results.filter((d) => d.status === 'succeeded').length,
+    rescheduled: results.filter((d) => d.status === 'pending').length,
+    failed: results.filter((d) => d.status === 'failed').length,
+  };
+}
+
+/**
+ * Send a test event to a subscription right away, whether or not it is
+ * active. The delivery is logged like any other but not retried.
+ */
+export async function sendTestWebhook(
+  subscriptionId: string,
+  actor: { id: string; email: string | null }
+): Promise<WebhookDelivery> {
+  const supabase = createClient();
+
+  const { data: subscription, error: subscriptionError } = await supabase
+    .from('webhook_subscriptions')
+    .select('id, organization_id, url, secret')
+    .eq('id', subscriptionId)
+    .single();
+
+  if (subscriptionError) {
+    throw handleDatabaseError(subscriptionError);
+  }
+
+  const id = randomUUID();
+  const { data: delivery, error } = await supabase
+    .from('webhook_deliveries')
+    .insert({
+      id,
+      organization_id: subscription.organization_id,
+      subscription_id: subscription.id,
+      event: WEBHOOK_TEST_EVENT,
+      payload: {
+        id,
+        event: WEBHOOK_TEST_EVENT,
+        occurred_at: new Date().toISOString(),
+        organization_id: subscription.organization_id,
+        actor,
+        resource: { type: 'webhook', id: subscription.id },
+        data: { message: 'Test delivery from Nexus Access' },
+      },
+    })
+    .select()
+    .single();
+
+  if (error) {
+    throw handleDatabaseError(error);
+  }
+
+  const outcome = await sendDelivery(delivery, subscription);
+  const result = await recordAttempt(supabase, delivery, outcome, false);
+
+  return result as WebhookDelivery;
+}
@@ -1,3 +1,12 @@
+import type { AICommandStep } from '../gemini/types';
+import type {
+  AccessReviewCampaign,
+  AccessReviewReport,
+  RbacImportPlan,
+  RbacSnapshotCounts,
+  RbacSnapshotData,
+} from './index';
+
 export type Json =
   | string
   | number
@@ -12,18 +21,21 @@ export interface Database {
       permissions: {
         Row: {
           id: string;
+          organization_id: string;
           name: string;
           description: string | null;
           created_at: string;
         };
         Insert: {
           id?: string;
+          organization_id?: string;
           name: string;
           description?: string | null;
           created_at?: string;
         };
         Update: {
           id?: string;
+          organization_id?: string;
           name?: string;
           description?: string | null;
           created_at?: string;
@@ -33,33 +45,42 @@ export interface Database {
       roles: {
         Row: {
           id: string;
+          organization_id: string;
           name: string;
+          parent_role_id: string | null;
           created_at: string;
         };
         Insert: {
           id?: string;
+          organization_id?: string;
           name: string;
+          parent_role_id?: string | null;
           created_at?: string;
         };
         Update: {
           id?: string;
+          organization_id?: string;
           name?: string;
+          parent_role_id?: string | null;
           created_at?: string;
         };
         Relationships: [];
       };
       role_permissions: {
         Row: {
+          organization_id: string;
           role_id: string;
           permission_id: string;
           created_at: string;
         };
         Insert: {
+          organization_id?: string;
           role_id: string;
           permission_id: string;
           created_at?: string;
         };
         Update: {
+          organization_id?: string;
           role_id?: string;
           permission_id?: string;
           created_at?: string;
@@ -83,18 +104,33 @@ export interface Database {
       };
       user_roles: {
         Row: {
+          organization_id: string;
           user_id: string;
           role_id: string;
+          scope_type: string;
+          scope_id: string;
+          valid_from: string | null;
+          valid_until: string | null;
           created_at: string;
         };
         Insert: {
+          organization_id?: string;
           user_id: string;
           role_id: string;
+          scope_type?: string;
+          scope_id?: string;
+          valid_from?: string | null;
+          valid_until?: string | null;
           created_at?: string;
         };
         Update: {
+          organization_id?: string;
           user_id?: string;
           role_id?: string;
+          scope_type?: string;
+          scope_id?: string;
+          valid_from?: string | null;
+          valid_until?: string | null;
           created_at?: string;
         };
         Relationships: [
@@ -114,12 +150,544 @@ export interface Database {
           },
         ];
       };
+      sod_constraints: {
+        Row: {
+          id: string;
+          organization_id: string;
+          name: string;
+          description: string | null;
+          constraint_type: 'role' | 'permission';
+          first_id: string;
+          second_id: string;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          organization_id?: string;
+          name: string;
+          description?: string | null;
+          constraint_type: 'role' | 'permission';
+          first_id: string;
+          second_id: string;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          organization_id?: string;
+          name?: string;
+          description?: string | null;
+          constraint_type?: 'role' | 'permission';
+          first_id?: string;
+          second_id?: string;
+          created_at?: string;
+        };
+        Relationships: [];
+      };
+      change_requests: {
+        Row: {
+          id: string;
+          organization_id: string;
+          operation:
+            | 'create_permission'
+            | 'update_permission'
+            | 'delete_permission'
+            | 'create_role'
+            | 'update_role'
+            | 'delete_role'
+            | 'create_association'
+            | 'delete_association';
+          resource_id: string | null;
+          payload: Json;
+          summary: string;
+          status: 'pending' | 'approved' | 'rejected';
+          requested_by: string | null;
+          requested_by_email: string | null;
+          requested_at: string;
+          reviewed_by: string | null;
+          reviewed_by_email: string | null;
+          reviewed_at: string | null;
+          review_comment: string | null;
+        };
+        Insert: {
+          id?: string;
+          organization_id?: string;
+          operation:
+            | 'create_permission'
+            | 'update_permission'
+            | 'delete_permission'
+            | 'create_role'
+            | 'update_role'
+            | 'delete_role'
+            | 'create_association'
+            | 'delete_association';
+          resource_id?: string | null;
+          payload?: Json;
+          summary: string;
+          status?: 'pending' | 'approved' | 'rejected';
+          requested_by?: string | null;
+          requested_by_email?: string | null;
+          requested_at?: string;
+          reviewed_by?: string | null;
+          reviewed_by_email?: string | null;
+          reviewed_at?: string | null;
+          review_comment?: string | null;
+        };
+        Update: {
+          id?: string;
+          organization_id?: string;
+          operation?:
+            | 'create_permission'
+            | 'update_permission'
+            | 'delete_permission'
+            | 'create_role'
+            | 'update_role'
+            | 'delete_role'
+            | 'create_association'
+            | 'delete_association';
+          resource_id?: string | null;
+          payload?: Json;
+          summary?: string;
+          status?: 'pending' | 'approved' | 'rejected';
+          requested_by?: string | null;
+          requested_by_email?: string | null;
+          requested_at?: string;
+          reviewed_by?: string | null;
+          reviewed_by_email?: string | null;
+          reviewed_at?: string | null;
+          review_comment?: string | null;
+        };
+        Relationships: [];
+      };
+      access_review_campaigns: {
+        Row: {
+          id: string;
+          organization_id: string;
+          name: string;
+          description: string | null;
+          roles: AccessReviewCampaign['roles'];
+          status: 'open' | 'closed';
+          due_at: string | null;
+          created_by: string | null;
+          created_by_email: string | null;
+          created_at: string;
+          closed_by: string | null;
+          closed_by_email: string | null;
+          closed_at: string | null;
+          report: AccessReviewReport | null;
+          report_signature: string | null;
+        };
+        Insert: {
+          id?: string;
+          organization_id?: string;
+          name: string;
+          description?: string | null;
+          roles?: AccessReviewCampaign['roles'];
+          status?: 'open' | 'closed';
+          due_at?: string | null;
+          created_by?: string | null;
+          created_by_email?: string | null;
+          created_at?: string;
+          closed_by?: string | null;
+          closed_by_email?: string | null;
+          closed_at?: string | null;
+          report?: AccessReviewReport | null;
+          report_signature?: string | null;
+        };
+        Update: {
+          id?: string;
+          organization_id?: string;
+          name?: string;
+          description?: string | null;
+          roles?: AccessReviewCampaign['roles'];
+          status?: 'open' | 'closed';
+          due_at?: string | null;
+          created_by?: string | null;
+          created_by_email?: string | null;
+          created_at?: string;
+          closed_by?: string | null;
+          closed_by_email?: string | null;
+          closed_at?: string | null;
+          report?: AccessReviewReport | null;
+          report_signature?: string | null;
+        };
+        Relationships: [];
+      };
+      access_review_items: {
+        Row: {
+          id: string;
+          organization_id: string;
+          campaign_id: string;
+          user_id: string;
+          user_email: string | null;
+          role_id: string;
+          role_name: string;
+          scope_type: string;
+          scope_id: string;
+          valid_until: string | null;
+          decision: 'keep' | 'revoke' | null;
+          comment: string | null;
+          decided_by: string | null;
+          decided_by_email: string | null;
+          decided_at: string | null;
+        };
+        Insert: {
+          id?: string;
+          organization_id?: string;
+          campaign_id: string;
+          user_id: string;
+          user_email?: string | null;
+          role_id: string;
+          role_name: string;
+          scope_type?: string;
+          scope_id?: string;
+          valid_until?: string | null;
+          decision?: 'keep' | 'revoke' | null;
+          comment?: string | null;
+          decided_by?: string | null;
+          decided_by_email?: string | null;
+          decided_at?: string | null;
+        };
+        Update: {
+          id?: string;
+          organization_id?: string;
+          campaign_id?: string;
+          user_id?: string;
+          user_email?: string | null;
+          role_id?: string;
+          role_name?: string;
+          scope_type?: string;
+          scope_id?: string;
+          valid_until?: string | null;
+          decision?: 'keep' | 'revoke' | null;
+          comment?: string | null;
+          decided_by?: string | null;
+          decided_by_email?: string | null;
+          decided_at?: string | null;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'access_review_items_campaign_id_fkey';
+            columns: ['campaign_id'];
+            isOneToOne: false;
+            referencedRelation: 'access_review_campaigns';
+            referencedColumns: ['id'];
+          },
+        ];
+      };
+      rbac_snapshots: {
+        Row: {
+          id: string;
+          organization_id: string;
+          name: string;
+          description: string | null;
+          data: RbacSnapshotData;
+          counts: RbacSnapshotCounts;
+          created_by: string | null;
+          created_by_email: string | null;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          organization_id?: string;
+          name: string;
+          description?: string | null;
+          data: RbacSnapshotData;
+          counts: RbacSnapshotCounts;
+          created_by?: string | null;
+          created_by_email?: string | null;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          organization_id?: string;
+          name?: string;
+          description?: string | null;
+          data?: RbacSnapshotData;
+          counts?: RbacSnapshotCounts;
+          created_by?: string | null;
+          created_by_email?: string | null;
+          created_at?: string;
+        };
+        Relationships: [];
+      };
+      audit_logs: {
+        Row: {
+          id: string;
+          organization_id: string;
+          user_id: string | null;
+          user_email: string | null;
+          action: string;
+          resource_type: string;
+          resource_id: string;
+          old_values: Json | null;
+          new_values: Json | null;
+          timestamp: string;
+        };
+        Insert: {
+          id?: string;
+          organization_id?: string;
+          user_id?: string | null;
+          user_email?: string | null;
+          action: string;
+          resource_type: string;
+          resource_id: string;
+          old_values?: Json | null;
+          new_values?: Json | null;
+          timestamp?: string;
+        };
+        Update: {
+          id?: string;
+          organization_id?: string;
+          user_id?: string | null;
+          user_email?: string | null;
+          action?: string;
+          resource_type?: string;
+          resource_id?: string;
+          old_values?: Json | null;
+          new_values?: Json | null;
+          timestamp?: string;
+        };
+        Relationships: [];
+      };
+      organizations: {
+        Row: {
+          id: string;
+          name: string;
+          created_by: string | null;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          name: string;
+          created_by?: string | null;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          name?: string;
+          created_by?: string | null;
+          created_at?: string;
+        };
+        Relationships: [];
+      };
+      organization_members: {
+        Row: {
+          organization_id: string;
+          user_id: string;
+          created_at: string;
+        };
+        Insert: {
+          organization_id: string;
+          user_id: string;
+          created_at?: string;
+        };
+        Update: {
+          organization_id?: string;
+          user_id?: string;
+          created_at?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'organization_members_organization_id_fkey';
+            columns: ['organization_id'];
+            isOneToOne: false;
+            referencedRelation: 'organizations';
+            referencedColumns: ['id'];
+          },
+        ];
+      };
+      webhook_subscriptions: {
+        Row: {
+          id: string;
+          organization_id: string;
+          url: string;
+          secret: string;
+          events: string[];
+          description: string | null;
+          active: boolean;
+          created_by: string | null;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          organization_id?: string;
+          url: string;
+          secret: string;
+          events: string[];
+          description?: string | null;
+          active?: boolean;
+          created_by?: string | null;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          organization_id?: string;
+          url?: string;
+          secret?: string;
+          events?: string[];
+          description?: string | null;
+          active?: boolean;
+          created_by?: string | null;
+          created_at?: string;
+        };
+        Relationships: [];
+      };
+      webhook_deliveries: {
+        Row: {
+          id: string;
+          organization_id: string;
+          subscription_id: string;
+          event: string;
+          payload: Json;
+          status: string;
+          attempts: number;
+          next_attempt_at: string;
+          last_attempt_at: string | null;
+          response_status: number | null;
+          last_error: string | null;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          organization_id: string;
+          subscription_id: string;
+          event: string;
+          payload: Json;
+          status?: string;
+          attempts?: number;
+          next_attempt_at?: string;
+          last_attempt_at?: string | null;
+          response_status?: number | null;
+          last_error?: string | null;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          organization_id?: string;
+          subscription_id?: string;
+          event?: string;
+          payload?: Json;
+          status?: string;
+          attempts?: number;
+          next_attempt_at?: string;
+          last_attempt_at?: string | null;
+          response_status?: number | null;
+          last_error?: string | null;
+          created_at?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'webhook_deliveries_subscription_id_fkey';
+            columns: ['subscription_id'];
+            isOneToOne: false;
+            referencedRelation: 'webhook_subscriptions';
+            referencedColumns: ['id'];
+          },
+        ];
+      };
     };
     Views: {
       [_ in never]: never;
     };
     Functions: {
-      [_ in never]: never;
+      add_organization_member: {
+        Args: {
+          member_email: string;
+        };
+        Returns: string;
+      };
+      apply_ai_command_plan: {
+        Args: {
+          steps: AICommandStep[];
+          snapshot_name?: string | null;
+        };
+        Returns: undefined;
+      };
+      apply_rbac_import: {
+        Args: {
+          plan: RbacImportPlan;
+        };
+        Returns: undefined;
+      };
+      claim_webhook_deliveries: {
+        Args: {
+          batch_size: number;
+        };
+        Returns: Database['public']['Tables']['webhook_deliveries']['Row'][];
+      };
+      cleanup_expired_user_roles: {
+        Args: Record<PropertyKey, never>;
+        Returns: number;
+      };
+      close_access_review: {
+        Args: {
+          campaign_id: string;
+        };
+        Returns: Database['public']['Tables']['access_review_campaigns']['Row'][];
+      };
+      create_organization: {
+        Args: {
+          organization_name: string;
+        };
+        Returns: Database['public']['Tables']['organizations']['Row'][];
+      };
+      create_rbac_snapshot: {
+        Args: {
+          snapshot_name: string;
+          snapshot_description?: string | null;
+        };
+        Returns: Database['public']['Tables']['rbac_snapshots']['Row'][];
+      };
+      current_organization_id: {
+        Args: Record<PropertyKey, never>;
+        Returns: string | null;
+      };
+      grant_rbac_admin: {
+        Args: {
+          admin_email: string;
+        };
+        Returns: string;
+      };
+      has_permission: {
+        Args: {
+          check_user_id: string;
+          permission_name: string;
+        };
+        Returns: boolean;
+      };
+      is_admin: {
+        Args: Record<PropertyKey, never>;
+        Returns: boolean;
+      };
+      is_organization_member: {
+        Args: {
+          org_id: string;
+        };
+        Returns: boolean;
+      };
+      restore_rbac_snapshot: {
+        Args: {
+          snapshot_id: string;
+        };
+        Returns: Json;
+      };
+      review_change_request: {
+        Args: {
+          request_id: string;
+          approve: boolean;
+          comment?: string | null;
+        };
+        Returns: Database['public']['Tables']['change_requests']['Row'][];
+      };
+      start_access_review: {
+        Args: {
+          campaign_name: string;
+          campaign_description: string | null;
+          role_ids: string[];
+          due_at?: string | null;
+        };
+        Returns: Database['public']['Tables']['access_review_campaigns']['Row'][];
+      };
     };
     Enums: {
       [_ in never]: never;
@@ -12,6 +12,8 @@ export interface Permission {
 export interface Role {
   id: string;
   name: string;
+  // Role whose permissions this role inherits
+  parent_role_id: string | null;
   created_at: string;
 }
 
@@ -21,12 +23,339 @@ export interface RolePermission {
   created_at?: string;
 }
 
-export interface UserRole {
+// Resource a role assignment applies to; '*' is a wildcard
+export interface RoleScope {
+  scope_type: string;
+  scope_id: string;
+}
+
+// Resource a permission is checked against
+export interface ResourceRef {
+  resource_type?: string;
+  resource_id?: string;
+}
+
+// Window in which a role assignment is active; null bounds are open
+export interface RoleValidity {
+  valid_from?: string | null;
+  valid_until?: string | null;
+}
+
+export interface UserRole extends RoleScope, RoleValidity {
   user_id: string;
   role_id: string;
   created_at?: string;
 }
 
+export interface UserRoleAssignment extends RoleScope, RoleValidity {
+  role: Pick<Role, 'id' | 'name'>;
+  // Whether the assignment is currently within its validity window
+  active: boolean;
+}
+
+// Time-bound assignment that is about to expire (or already has)
+export interface ExpiringGrant extends RoleScope {
+  user_id: string;
+  user_email: string | null;
+  role: Pick<Role, 'id' | 'name'>;
+  valid_from: string | null;
+  valid_until: string;
+  expired: boolean;
+}
+
+// Everything needed to work out who holds which roles and permissions
+export interface RbacModel {
+  roles: Role[];
+  permissions: Permission[];
+  rolePermissions: RolePermission[];
+  userRoles: UserRole[];
+}
+
+// Two roles or two permissions that nobody may hold together
+export type SodConstraintType = 'role' | 'permission';
+
+export interface SodConstraint {
+  id: string;
+  name: string;
+  description: string | null;
+  constraint_type: SodConstraintType;
+  // Role or permission IDs, depending on constraint_type
+  first_id: string;
+  second_id: string;
+  created_at: string;
+}
+
+// A role or user that holds both sides of a constraint
+export interface SodViolation {
+  constraint: Pick<SodConstraint, 'id' | 'name' | 'constraint_type'>;
+  subject_type: 'role' | 'user';
+  subject_id: string;
+  // Role name, or the user's email when known
+  subject_name: string | null;
+  // The two roles or permissions held together
+  conflicting: [{ id: string; name: string }, { id: string; name: string }];
+}
+
+// Proposed change to permissions, roles or associations awaiting approval
+export type ChangeOperation =
+  | 'create_permission'
+  | 'update_permission'
+  | 'delete_permission'
+  | 'create_role'
+  | 'update_role'
+  | 'delete_role'
+  | 'create_association'
+  | 'delete_association';
+
+export type ChangeRequestStatus = 'pending' | 'approved' | 'rejected';
+
+export interface ChangeRequest {
+  id: string;
+  operation: ChangeOperation;
+  // Permission or role the change targets; set for creations once applied
+  resource_id: string | null;
+  payload: Record<string, unknown>;
+  // Human-readable description captured when the change was submitted
+  summary: string;
+  status: ChangeRequestStatus;
+  requested_by: string | null;
+  requested_by_email: string | null;
+  requested_at: string;
+  reviewed_by: string | null;
+  reviewed_by_email: string | null;
+  reviewed_at: string | null;
+  review_comment: string | null;
+}
+
+// Full state of the RBAC tables as stored in a snapshot
+export interface RbacSnapshotData {
+  permissions: Permission[];
+  roles: Role[];
+  role_permissions: RolePermission[];
+  user_roles: UserRole[];
+}
+
+export type RbacSnapshotCounts = Record<keyof RbacSnapshotData, number>;
+
+export interface RbacSnapshot {
+  id: string;
+  name: string;
+  description: string | null;
+  counts: RbacSnapshotCounts;
+  created_by: string | null;
+  created_by_email: string | null;
+  created_at: string;
+}
+
+export interface RbacSnapshotWithData extends RbacSnapshot {
+  data: RbacSnapshotData;
+}
+
+export interface RbacChange<T> {
+  before: T;
+  after: T;
+}
+
+// Association with the names of both sides, for display
+export interface RolePermissionRef extends RolePermission {
+  role_name: string;
+  permission_name: string;
+}
+
+export interface UserRoleRef extends UserRole {
+  role_name: string;
+}
+
+// What changes when going from one RBAC state to another
+export interface RbacDiff {
+  permissions: {
+    added: Permission[];
+    removed: Permission[];
+    changed: RbacChange<Permission>[];
+  };
+  roles: {
+    added: Role[];
+    removed: Role[];
+    changed: RbacChange<Role>[];
+  };
+  role_permissions: {
+    added: RolePermissionRef[];
+    removed: RolePermissionRef[];
+  };
+  user_roles: {
+    added: UserRoleRef[];
+    removed: UserRoleRef[];
+    changed: RbacChange<UserRoleRef>[];
+  };
+  // Number of added, removed and changed rows across all tables
+  total: number;
+}
+
+// Hypothetical change evaluated by the policy simulator
+export type SimulatedChange =
+  | {
+      type: 'assign_permission' | 'unassign_permission';
+      role_id: string;
+      permission_id: string;
+    }
+  | ({
+      type: 'assign_role' | 'unassign_role';
+      user_id: string;
+      role_id: string;
+    } & RoleScope)
+  | { type: 'delete_role'; role_id: string }
+  | { type: 'delete_permission'; permission_id: string };
+
+// A permission a user holds, globally or on a resource scope
+export interface EffectiveGrant extends RoleScope {
+  permission: Pick<Permission, 'id' | 'name'>;
+}
+
+export interface SimulatedUserImpact {
+  user_id: string;
+  user_email: string | null;
+  gained: EffectiveGrant[];
+  lost: EffectiveGrant[];
+}
+
+export interface SimulationResult {
+  // Only users whose effective permissions would change
+  users: SimulatedUserImpact[];
+  // Changes that would have no effect or refer to missing rows
+  warnings: string[];
+  summary: {
+    users_affected: number;
+    grants_gained: number;
+    grants_lost: number;
+  };
+}
+
+// Campaign certifying the assignments of a set of roles
+export type AccessReviewStatus = 'open' | 'closed';
+
+export type AccessReviewDecision = 'keep' | 'revoke';
+
+export interface AccessReviewCampaign {
+  id: string;
+  name: string;
+  description: string | null;
+  // Reviewed roles as they were named when the campaign was launched
+  roles: { id: string; name: string }[];
+  status: AccessReviewStatus;
+  due_at: string | null;
+  created_by: string | null;
+  created_by_email: string | null;
+  created_at: string;
+  closed_by: string | null;
+  closed_by_email: string | null;
+  closed_at: string | null;
+  report: AccessReviewReport | null;
+  report_signature: string | null;
+}
+
+// One user role assignment under review, copied when the campaign started
+export interface AccessReviewItem {
+  id: string;
+  campaign_id: string;
+  user_id: string;
+  user_email: string | null;
+  role_id: string;
+  role_name: string;
+  scope_type: string;
+  scope_id: string;
+  valid_until: string | null;
+  decision: AccessReviewDecision | null;
+  comment: string | null;
+  decided_by: string | null;
+  decided_by_email: string | null;
+  decided_at: string | null;
+}
+
+// Decision counts shown while a campaign is running
+export interface AccessReviewProgress {
+  total: number;
+  decided: number;
+  revoke: number;
+}
+
+// Summary produced when a campaign closes; signed so it can be archived as
+// evidence
+export interface AccessReviewReport {
+  version: number;
+  campaign: Pick<
+    AccessReviewCampaign,
+    | 'id'
+    | 'name'
+    | 'description'
+    | 'roles'
+    | 'due_at'
+    | 'created_by_email'
+    | 'created_at'
+    | 'closed_by_email'
+    | 'closed_at'
+  >;
+  totals: { items: number; kept: number; revoked: number };
+  items: Pick<
+    AccessReviewItem,
+    | 'user_id'
+    | 'user_email'
+    | 'role_id'
+    | 'role_name'
+    | 'scope_type'
+    | 'scope_id'
+    | 'decision'
+    | 'comment'
+    | 'decided_by_email'
+    | 'decided_at'
+  >[];
+  generated_at: string;
+}
+
+// Tenant owning its own permissions, roles and assignments
+export interface Organization {
+  id: string;
+  name: string;
+  created_by: string | null;
+  created_at: string;
+}
+
+export interface OrganizationMember {
+  user_id: string;
+  email: string | null;
+  // Roles held in the organization
+  roles: Pick<Role, 'id' | 'name'>[];
+  created_at: string;
+}
+
+// Endpoint notified of RBAC changes; its secret is never returned
+export interface WebhookSubscription {
+  id: string;
+  url: string;
+  // Event names, or '*' for every event
+  events: string[];
+  description: string | null;
+  active: boolean;
+  created_by: string | null;
+  created_at: string;
+}
+
+export type WebhookDeliveryStatus = 'pending' | 'succeeded' | 'failed';
+
+export interface WebhookDelivery {
+  id: string;
+  subscription_id: string;
+  event: string;
+  payload: Record<string, unknown>;
+  // Pending deliveries are retried at next_attempt_at
+  status: WebhookDeliveryStatus;
+  attempts: number;
+  next_attempt_at: string;
+  last_attempt_at: string | null;
+  response_status: number | null;
+  last_error: string | null;
+  created_at: string;
+}
+
 // Extended Types for UI
 export interface PermissionWithRoles extends Permission {
   roles: Role[];
@@ -36,6 +365,108 @@ export interface RoleWithPermissions extends Role {
   permissions: Permission[];
 }
 
+// Permission held by a role, either directly or through a parent role
+export interface EffectivePermission extends Permission {
+  inherited_from: Pick<Role, 'id' | 'name'> | null;
+}
+
+export interface RoleHierarchyNode extends Role {
+  permissions: EffectivePermission[];
+  children: RoleHierarchyNode[];
+}
+
+export interface UserWithRoles {
+  id: string;
+  email: string | null;
+  created_at: string;
+  last_sign_in_at: string | null;
+  // Globally assigned roles and the permissions they grant
+  roles: Role[];
+  permissions: Permission[];
+  // Every assignment, including resource-scoped ones
+  assignments: UserRoleAssignment[];
+}
+
+export interface PermissionDecision {
+  user_id: string;
+  permission_name: string;
+  resource_type?: string;
+  resource_id?: string;
+  allowed: boolean;
+  granted_by: Array<Pick<Role, 'id' | 'name'> & RoleScope>;
+  reason: string;
+}
+
+// How an assignment grants a permission: the assigned role first, then each
+// parent up to the role the permission is attached to
+export interface PermissionGrantPath extends RoleScope {
+  roles: Pick<Role, 'id' | 'name'>[];
+  valid_until: string | null;
+}
+
+export interface ExplainedPermission extends Permission {
+  paths: PermissionGrantPath[];
+}
+
+export interface UserAccessExplanation {
+  user_id: string;
+  email: string | null;
+  permissions: ExplainedPermission[];
+  // Set when a specific permission was asked about
+  decision: PermissionDecision | null;
+}
+
+// Portable snapshot of the RBAC model, keyed by names so it can be
+// diffed and imported across environments
+export interface RbacExport {
+  version: number;
+  exported_at: string;
+  permissions?: Array<{ name: string; description: string | null }>;
+  // Roles are linked to their parent role by name
+  roles?: Array<{ name: string; parent?: string | null }>;
+  associations?: Array<{ role: string; permission: string }>;
+  user_roles?: Array<
+    { user_id: string; role: string } & RoleScope & RoleValidity
+  >;
+}
+
+// Changes required to bring the RBAC model in line with an import document
+export interface RbacImportPlan {
+  permissions: {
+    create: Array<{ name: string; description: string | null }>;
+    update: Array<{
+      name: string;
+      description: string | null;
+      previous_description: string | null;
+    }>;
+    delete: string[];
+  };
+  roles: {
+    create: Array<{ name: string; parent: string | null }>;
+    // Existing roles whose parent changes
+    update: Array<{
+      name: string;
+      parent: string | null;
+      previous_parent: string | null;
+    }>;
+    delete: string[];
+  };
+  associations: {
+    create: Array<{ role: string; permission: string }>;
+    delete: Array<{ role: string; permission: string }>;
+  };
+  user_roles: {
+    create: Array<{ user_id: string; role: string } & RoleScope & RoleValidity>;
+    delete: Array<{ user_id: string; role: string } & RoleScope>;
+  };
+  // Items already present that were left untouched
+  skipped: Array<{ type: EntityType; name: string; reason: string }>;
+  // Existing items that differ but may not be overwritten
+  conflicts: Array<{ type: EntityType; name: string; reason: string }>;
+  // References to roles, permissions or users that cannot be found
+  unresolved: Array<{ type: EntityType; name: string; reason: string }>;
+}
+
 // Enhanced UI Types
 export interface PermissionWithRoleCount extends Permission {
   roleCount: number;
@@ -81,6 +512,33 @@ export interface BulkRemovePermissionsData {
   permissionIds: string[];
 }
 
+export type BulkMode = 'atomic' | 'best_effort';
+
+export interface BulkItemResult {
+  index: number;
+  id?: string;
+  name?: string;
+  status: 'created' | 'updated' | 'deleted' | 'failed' | 'rolled_back';
+  reason?: string;
+  // What a deleted item took with it
+  removed?: BulkDeleteImpact;
+}
+
+// Rows that deleting a permission or role removes or changes as well
+export interface BulkDeleteImpact {
+  associations: number;
+  user_assignments: number;
+  // Child roles whose parent is cleared
+  detached_roles: number;
+}
+
+export interface BulkOperationResult {
+  mode: BulkMode;
+  results: BulkItemResult[];
+  succeeded: number;
+  failed: number;
+}
+
 // Search and filter types
 export interface SearchFilters {
   query?: string;
@@ -152,14 +610,29 @@ export interface AIContext {
 }
 
 // Audit and logging types
+export type AuditAction =
+  | 'create_permission'
+  | 'update_permission'
+  | 'delete_permission'
+  | 'create_role'
+  | 'update_role'
+  | 'delete_role'
+  | 'create_association'
+  | 'update_association'
+  | 'delete_association'
+  | 'assign_user_role'
+  | 'update_user_role'
+  | 'unassign_user_role';
+
 export interface AuditLog {
   id: string;
-  user_id: string;
-  action: 'create' | 'update' | 'delete' | 'assign' | 'unassign';
-  resource_type: 'permission' | 'role' | 'association';
+  user_id: string | null;
+  user_email: string | null;
+  action: AuditAction;
+  resource_type: EntityType;
   resource_id: string;
-  old_values?: Record<string, unknown>;
-  new_values?: Record<string, unknown>;
+  old_values: Record<string, unknown> | null;
+  new_values: Record<string, unknown> | null;
   timestamp: string;
 }
 
@@ -118,14 +118,18 @@ export function createAssociation(
   };
 }
 
-// Utility to create user-role association objects
+// Utility to create user-role association objects (global unless scoped)
 export function createUserRoleAssociation(
   userId: string,
-  roleId: string
+  roleId: string,
+  scopeType: string = '*',
+  scopeId: string = '*'
 ): UserRole {
   return {
     user_id: userId,
     role_id: roleId,
+    scope_type: scopeType,
+    scope_id: scopeId,
   };
 }
 
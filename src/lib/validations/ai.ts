@@ -28,6 +28,20 @@ export const aiCommandSchema = z.object({
     .optional(),
 });
 
+// Plan returned by POST /api/ai-service/process, sent back to be executed
+export const aiCommandStepSchema = z.object({
+  type: z.string().min(1, 'Step type is required'),
+  parameters: z.record(z.string(), z.string()).default({}),
+});
+
+export const aiCommandPlanSchema = z.object({
+  steps: z
+    .array(aiCommandStepSchema)
+    .min(1, 'At least one step is required')
+    .max(50, 'Too many steps'),
+  confidence: z.number().min(0).max(1).default(1),
+});
+
 export const aiCommandHistorySchema = z.object({
   user_id: idSchema.optional(),
   command_type: z
@@ -207,11 +221,17 @@ export const sanitizeCommandSchema = z.object({
   validate_permissions: z.boolean().default(true),
 });
 
-// AI command execution schemas
+// AI command execution schemas. Commands that delete roles or permissions
+// need confirm_destructive and the confirmation_token from an earlier
+// response for the same plan.
 export const executeCommandSchema = z.object({
-  command: z.string().min(1, 'Command is required'),
+  command: z.union([
+    z.string().trim().min(1, 'Command is required'),
+    aiCommandPlanSchema,
+  ]),
   dry_run: z.boolean().default(false),
   confirm_destructive: z.boolean().default(false),
+  confirmation_token: z.string().optional(),
   timeout: z.number().int().min(1).max(300).default(30), // seconds
 });
 
@@ -259,6 +279,7 @@ export const validateCommandExecution = (
 
 // Type exports
 export type AiCommandInput = z.infer<typeof aiCommandSchema>;
+export type AiCommandPlanInput = z.infer<typeof aiCommandPlanSchema>;
 export type AiCommandHistoryInput = z.infer<typeof aiCommandHistorySchema>;
 export type AiResponseOutput = z.infer<typeof aiResponseSchema>;
 export type ProcessCommandInput = z.infer<typeof processCommandSchema>;
@@ -5,8 +5,10 @@
 import { z } from 'zod';
 import {
   idSchema,
+  emailSchema,
   nameSchema,
   descriptionSchema,
+  urlSchema,
   searchSchema,
   paginationSchema,
   sortSchema,
@@ -15,6 +17,7 @@ import {
   validateData,
   type ValidationResult,
 } from './common';
+import { ALL_WEBHOOK_EVENTS, WEBHOOK_EVENTS } from '../webhooks';
 
 // Permission validation schemas
 export const createPermissionSchema = z.object({
@@ -37,6 +40,7 @@ export const permissionQuerySchema = searchSchema.extend({
 // Role validation schemas
 export const createRoleSchema = z.object({
   name: nameSchema,
+  parent_role_id: idSchema.nullable().optional(),
 });
 
 export const updateRoleSchema = createRoleSchema
@@ -66,6 +70,16 @@ export const batchCreateAssociationsSchema = z.object({
 
 export const batchDeleteAssociationsSchema = batchCreateAssociationsSchema;
 
+export const bulkAssociationOperationSchema = z.object({
+  role_id: z.string().uuid({ message: 'Invalid role ID' }),
+  permission_ids: z
+    .array(z.string().uuid({ message: 'Invalid permission ID' }))
+    .min(1, 'At least one permission is required'),
+  operation: z.enum(['assign', 'unassign'], {
+    message: 'Operation must be either "assign" or "unassign"',
+  }),
+});
+
 export const associationQuerySchema = z
   .object({
     role_id: idSchema.optional(),
@@ -77,13 +91,84 @@ export const associationQuerySchema = z
     'Either role_id or permission_id must be provided'
   );
 
+// Resource scopes, e.g. type "project" and id "42"; '*' is a wildcard
+export const SCOPE_WILDCARD = '*';
+
+export const scopeTypeSchema = z
+  .string()
+  .trim()
+  .min(1, 'Scope type is required')
+  .max(100, 'Scope type must be less than 100 characters')
+  .regex(
+    /^(\*|[a-zA-Z][a-zA-Z0-9_.-]*)$/,
+    'Scope type must be "*" or start with a letter and contain only letters, numbers, dots, dashes and underscores'
+  );
+
+export const scopeIdSchema = z
+  .string()
+  .trim()
+  .min(1, 'Scope ID is required')
+  .max(255, 'Scope ID must be less than 255 characters');
+
+const roleScopeShape = {
+  scope_type: scopeTypeSchema.default(SCOPE_WILDCARD),
+  scope_id: scopeIdSchema.default(SCOPE_WILDCARD),
+};
+
+// A global grant ('*' type) cannot be narrowed to a resource ID
+const isValidScope = (scope: { scope_type: string; scope_id: string }) =>
+  scope.scope_type !== SCOPE_WILDCARD || scope.scope_id === SCOPE_WILDCARD;
+
+const invalidScopeMessage = {
+  message: 'scope_id must be "*" when scope_type is "*"',
+  path: ['scope_id'],
+};
+
+// Optional validity window of a role assignment
+const roleValidityShape = {
+  valid_from: z.string().datetime({ offset: true }).nullable().optional(),
+  valid_until: z.string().datetime({ offset: true }).nullable().optional(),
+};
+
+const isValidWindow = (validity: {
+  valid_from?: string | null;
+  valid_until?: string | null;
+}) =>
+  !validity.valid_from ||
+  !validity.valid_until ||
+  new Date(validity.valid_until) > new Date(validity.valid_from);
+
+const invalidWindowMessage = {
+  message: 'valid_until must be after valid_from',
+  path: ['valid_until'],
+};
+
 // User role validation schemas
-export const assignUserRoleSchema = z.object({
-  user_id: idSchema,
-  role_id: idSchema,
-});
+export const assignUserRoleSchema = z
+  .object({
+    user_id: idSchema,
+    role_id: idSchema,
+    ...roleScopeShape,
+    ...roleValidityShape,
+  })
+  .refine(isValidScope, invalidScopeMessage)
+  .refine(isValidWindow, invalidWindowMessage)
+  .refine(
+    (data) => !data.valid_until || new Date(data.valid_until) > new Date(),
+    { message: 'valid_until must be in the future', path: ['valid_until'] }
+  );
 
-export const unassignUserRoleSchema = assignUserRoleSchema;
+export const unassignUserRoleSchema = z
+  .object({
+    user_id: idSchema,
+    role_id: idSchema,
+    ...roleScopeShape,
+  })
+  .refine(isValidScope, invalidScopeMessage);
+
+export const expiringGrantsQuerySchema = z.object({
+  within_days: z.coerce.number().int().min(1).max(365).default(7),
+});
 
 export const batchAssignUserRolesSchema = z.object({
   user_id: idSchema,
@@ -104,10 +189,12 @@ export const userRoleQuerySchema = z
   );
 
 // Permission check schemas
+// Without resource_type only global grants apply
 export const checkPermissionSchema = z.object({
   user_id: idSchema,
   permission_name: nameSchema,
-  resource_id: idSchema.optional(),
+  resource_type: scopeTypeSchema.optional(),
+  resource_id: scopeIdSchema.optional(),
 });
 
 export const checkMultiplePermissionsSchema = z.object({
@@ -115,14 +202,28 @@ export const checkMultiplePermissionsSchema = z.object({
   permissions: nonEmptyArraySchema(
     z.object({
       permission_name: nameSchema,
-      resource_id: idSchema.optional(),
+      resource_type: scopeTypeSchema.optional(),
+      resource_id: scopeIdSchema.optional(),
     })
   ),
 });
 
+// Optionally explain a single permission, for a resource
+export const explainUserAccessQuerySchema = z.object({
+  permission_name: nameSchema.optional(),
+  resource_type: scopeTypeSchema.optional(),
+  resource_id: scopeIdSchema.optional(),
+});
+
 // Bulk operations schemas
+// atomic: apply every item or none; best_effort: apply what succeeds
+export const bulkModeSchema = z
+  .enum(['atomic', 'best_effort'])
+  .default('atomic');
+
 export const bulkCreatePermissionsSchema = z.object({
   permissions: nonEmptyArraySchema(createPermissionSchema),
+  mode: bulkModeSchema,
 });
 
 export const bulkUpdatePermissionsSchema = z.object({
@@ -132,27 +233,32 @@ export const bulkUpdatePermissionsSchema = z.object({
       ...updatePermissionSchema.shape,
     })
   ),
+  mode: bulkModeSchema,
 });
 
 export const bulkDeletePermissionsSchema = z.object({
   ids: uniqueArraySchema(idSchema),
+  mode: bulkModeSchema,
 });
 
 export const bulkCreateRolesSchema = z.object({
-  roles: nonEmptyArraySchema(createRoleSchema),
+  roles: nonEmptyArraySchema(createRoleSchema.pick({ name: true })),
+  mode: bulkModeSchema,
 });
 
 export const bulkUpdateRolesSchema = z.object({
   updates: nonEmptyArraySchema(
     z.object({
       id: idSchema,
-      ...updateRoleSchema.shape,
+      name: nameSchema.optional(),
     })
   ),
+  mode: bulkModeSchema,
 });
 
 export const bulkDeleteRolesSchema = z.object({
   ids: uniqueArraySchema(idSchema),
+  mode: bulkModeSchema,
 });
 
 // Import/Export schemas
@@ -164,22 +270,239 @@ export const exportRbacSchema = z.object({
   format: z.enum(['json', 'csv']).default('json'),
 });
 
+// Accepts the document produced by GET /api/rbac/export
 export const importRbacSchema = z.object({
   data: z.object({
+    version: z.number().int().positive().optional(),
+    exported_at: z.string().optional(),
     permissions: z.array(createPermissionSchema).optional(),
-    roles: z.array(createRoleSchema).optional(),
-    associations: z.array(createAssociationSchema).optional(),
+    // Documents without `parent` leave the role hierarchy as it is
+    roles: z
+      .array(
+        createRoleSchema
+          .pick({ name: true })
+          .extend({ parent: nameSchema.nullable().optional() })
+      )
+      .optional(),
+    associations: z
+      .array(z.object({ role: nameSchema, permission: nameSchema }))
+      .optional(),
+    user_roles: z
+      .array(
+        z
+          .object({
+            user_id: idSchema,
+            role: nameSchema,
+            ...roleScopeShape,
+            ...roleValidityShape,
+          })
+          .refine(isValidScope, invalidScopeMessage)
+          .refine(isValidWindow, invalidWindowMessage)
+      )
+      .optional(),
   }),
   options: z
     .object({
       overwrite_existing: z.boolean().default(false),
       skip_duplicates: z.boolean().default(true),
       validate_references: z.boolean().default(true),
+      dry_run: z.boolean().default(true),
     })
-    .optional(),
+    .default({
+      overwrite_existing: false,
+      skip_duplicates: true,
+      validate_references: true,
+      dry_run: true,
+    }),
+});
+
+// Separation-of-duties schemas
+export const createSodConstraintSchema = z
+  .object({
+    name: nameSchema,
+    description: descriptionSchema,
+    constraint_type: z.enum(['role', 'permission'], {
+      message: 'Constraint type must be either "role" or "permission"',
+    }),
+    first_id: idSchema,
+    second_id: idSchema,
+  })
+  .refine((data) => data.first_id !== data.second_id, {
+    message: 'A constraint needs two different roles or permissions',
+    path: ['second_id'],
+  });
+
+// Change request schemas
+export const changeRequestQuerySchema = z.object({
+  status: z.enum(['pending', 'approved', 'rejected']).optional(),
+  ...paginationSchema.shape,
+});
+
+export const reviewChangeRequestSchema = z.object({
+  decision: z.enum(['approve', 'reject'], {
+    message: 'Decision must be either "approve" or "reject"',
+  }),
+  comment: descriptionSchema,
+});
+
+// Access review schemas
+export const createAccessReviewSchema = z.object({
+  name: z
+    .string()
+    .trim()
+    .min(1, 'Name is required')
+    .max(100, 'Name must be less than 100 characters'),
+  description: descriptionSchema,
+  role_ids: uniqueArraySchema(idSchema).min(1, 'Select at least one role'),
+  due_at: z
+    .string()
+    .datetime({ offset: true })
+    .nullable()
+    .optional()
+    .refine((value) => !value || new Date(value) > new Date(), {
+      message: 'Due date must be in the future',
+    }),
+});
+
+export const accessReviewDecisionsSchema = z.object({
+  decisions: nonEmptyArraySchema(
+    z.object({
+      item_id: idSchema,
+      decision: z.enum(['keep', 'revoke'], {
+        message: 'Decision must be either "keep" or "revoke"',
+      }),
+      comment: descriptionSchema,
+    })
+  ).max(500, 'At most 500 decisions can be recorded at once'),
+});
+
+// Snapshot schemas
+export const createSnapshotSchema = z.object({
+  name: z
+    .string()
+    .trim()
+    .min(1, 'Name is required')
+    .max(100, 'Name must be less than 100 characters'),
+  description: descriptionSchema,
+});
+
+// Either side can be a snapshot ID or "live" for the current state
+const snapshotRefSchema = z.union([idSchema, z.literal('live')]);
+
+export const snapshotDiffQuerySchema = z.object({
+  from: snapshotRefSchema,
+  to: snapshotRefSchema.default('live'),
+});
+
+// Simulation schemas
+// Hypothetical changes, applied in order without writing anything
+const simulatedChangeSchema = z.discriminatedUnion('type', [
+  z.object({
+    type: z.literal('assign_permission'),
+    role_id: idSchema,
+    permission_id: idSchema,
+  }),
+  z.object({
+    type: z.literal('unassign_permission'),
+    role_id: idSchema,
+    permission_id: idSchema,
+  }),
+  z
+    .object({
+      type: z.literal('assign_role'),
+      user_id: idSchema,
+      role_id: idSchema,
+      ...roleScopeShape,
+    })
+    .refine(isValidScope, invalidScopeMessage),
+  z
+    .object({
+      type: z.literal('unassign_role'),
+      user_id: idSchema,
+      role_id: idSchema,
+      ...roleScopeShape,
+    })
+    .refine(isValidScope, invalidScopeMessage),
+  z.object({
+    type: z.literal('delete_role'),
+    role_id: idSchema,
+  }),
+  z.object({
+    type: z.literal('delete_permission'),
+    permission_id: idSchema,
+  }),
+]);
+
+export const simulateChangesSchema = z.object({
+  changes: nonEmptyArraySchema(simulatedChangeSchema).max(
+    100,
+    'At most 100 changes can be simulated at once'
+  ),
+});
+
+// Organization schemas
+export const createOrganizationSchema = z.object({
+  name: z
+    .string()
+    .trim()
+    .min(1, 'Name is required')
+    .max(100, 'Name must be less than 100 characters'),
+});
+
+export const switchOrganizationSchema = z.object({
+  organization_id: idSchema,
+});
+
+export const addOrganizationMemberSchema = z.object({
+  email: emailSchema,
+});
+
+// Webhook schemas
+const webhookEventSchema = z.enum([...WEBHOOK_EVENTS, ALL_WEBHOOK_EVENTS]);
+
+const webhookShape = {
+  url: urlSchema.regex(/^https?:\/\//i, 'URL must use http or https'),
+  secret: z
+    .string()
+    .min(16, 'Secret must be at least 16 characters')
+    .max(200, 'Secret must be less than 200 characters'),
+  events: nonEmptyArraySchema(webhookEventSchema).refine(
+    (events) => new Set(events).size === events.length,
+    'Events must be unique'
+  ),
+};
+
+export const createWebhookSchema = z.object({
+  ...webhookShape,
+  // Generated when omitted
+  secret: webhookShape.secret.optional(),
+  description: descriptionSchema,
+  active: z.boolean().default(true),
+});
+
+// Omitted fields are left unchanged; a null description clears it
+export const updateWebhookSchema = z
+  .object({
+    ...webhookShape,
+    description: z
+      .string()
+      .max(500, 'Description must be less than 500 characters')
+      .nullable()
+      .transform((val) => val?.trim() || null),
+    active: z.boolean(),
+  })
+  .partial()
+  .refine(
+    (data) => Object.keys(data).length > 0,
+    'At least one field must be provided for update'
+  );
+
+export const webhookDeliveryQuerySchema = z.object({
+  subscription_id: idSchema.optional(),
+  status: z.enum(['pending', 'succeeded', 'failed']).optional(),
+  limit: z.coerce.number().int().min(1).max(100).default(50),
 });
 
-// Audit and logging schemas
 export const auditLogQuerySchema = z.object({
   user_id: idSchema.optional(),
   action: z
@@ -191,8 +514,10 @@ export const auditLogQuerySchema = z.object({
       'update_role',
       'delete_role',
       'create_association',
+      'update_association',
       'delete_association',
       'assign_user_role',
+      'update_user_role',
       'unassign_user_role',
     ])
     .optional(),
@@ -263,8 +588,39 @@ export type CheckPermissionInput = z.infer<typeof checkPermissionSchema>;
 export type CheckMultiplePermissionsInput = z.infer<
   typeof checkMultiplePermissionsSchema
 >;
+export type ExplainUserAccessQueryInput = z.infer<
+  typeof explainUserAccessQuerySchema
+>;
 
 export type ExportRbacInput = z.infer<typeof exportRbacSchema>;
 export type ImportRbacInput = z.infer<typeof importRbacSchema>;
 
+export type CreateSodConstraintInput = z.infer<
+  typeof createSodConstraintSchema
+>;
+
+export type ChangeRequestQueryInput = z.infer<typeof changeRequestQuerySchema>;
+
+export type CreateAccessReviewInput = z.infer<typeof createAccessReviewSchema>;
+export type AccessReviewDecisionsInput = z.infer<
+  typeof accessReviewDecisionsSchema
+>;
+
+export type CreateSnapshotInput = z.infer<typeof createSnapshotSchema>;
+export type SnapshotDiffQueryInput = z.infer<typeof snapshotDiffQuerySchema>;
+
+export type SimulateChangesInput = z.infer<typeof simulateChangesSchema>;
+
+export type CreateOrganizationInput = z.infer<typeof createOrganizationSchema>;
+export type SwitchOrganizationInput = z.infer<typeof switchOrganizationSchema>;
+export type AddOrganizationMemberInput = z.infer<
+  typeof addOrganizationMemberSchema
+>;
+
+export type CreateWebhookInput = z.infer<typeof createWebhookSchema>;
+export type UpdateWebhookInput = z.infer<typeof updateWebhookSchema>;
+export type WebhookDeliveryQueryInput = z.infer<
+  typeof webhookDeliveryQuerySchema
+>;
+
 export type AuditLogQueryInput = z.infer<typeof auditLogQuerySchema>;
@@ -0,0 +1,39 @@
+// Events a webhook subscription can ask for, one per kind of audited change
+export const WEBHOOK_EVENTS = [
+  'permission.created',
+  'permission.updated',
+  'permission.deleted',
+  'role.created',
+  'role.updated',
+  'role.deleted',
+  'association.created',
+  'association.updated',
+  'association.deleted',
+  'user_role.assigned',
+  'user_role.updated',
+  'user_role.unassigned',
+] as const;
+
+export type WebhookEvent = (typeof WEBHOOK_EVENTS)[number];
+
+// Subscribes to every event, including ones added later
+export const ALL_WEBHOOK_EVENTS = '*';
+
+// Event of the deliveries sent by the test button
+export const WEBHOOK_TEST_EVENT = 'webhook.test';
+
+// Request headers of a delivery
+export const WEBHOOK_SIGNATURE_HEADER = 'X-Nexus-Signature';
+export const WEBHOOK_EVENT_HEADER = 'X-Nexus-Event';
+export const WEBHOOK_DELIVERY_HEADER = 'X-Nexus-Delivery';
+
+// A delivery is given up after this many failed attempts
+export const WEBHOOK_MAX_ATTEMPTS = 8;
+
+/**
+ * Delay before retrying a delivery that has failed `attempts` times:
+ * 30 seconds, doubling with every attempt up to six hours.
+ */
+export function getWebhookRetryDelay(attempts: number): number {
+  return Math.min(30_000 * 2 ** Math.max(attempts - 1, 0), 6 * 60 * 60_000);
+}
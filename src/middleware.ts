@@ -18,8 +18,27 @@ export async function middleware(request: NextRequest) {
         return response;
       }
 
+      // The API description is public for client generators and docs tools
+      if (request.nextUrl.pathname === '/api/openapi.json') {
+        return response;
+      }
+
+      // Scheduled jobs authenticate with CRON_SECRET in the route itself
+      if (request.nextUrl.pathname.startsWith('/api/cron/')) {
+        return response;
+      }
+
+      // Service callers may authenticate with a bearer access token
+      const authorization = request.headers.get('authorization');
+      const bearerToken = authorization?.startsWith('Bearer ')
+        ? authorization.slice('Bearer '.length)
+        : null;
+      const tokenUser = bearerToken
+        ? (await supabase.auth.getUser(bearerToken)).data.user
+        : null;
+
       // Check for valid session on API routes
-      if (!session) {
+      if (!session && !tokenUser) {
         return NextResponse.json(
           { error: 'Authentication required' },
           { status: 401 }
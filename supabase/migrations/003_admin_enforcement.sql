@@ -0,0 +1,88 @@
+-- Bootstrap the RBAC administrator permission and role.
+-- Administrators are managed through the same permissions/role_permissions/user_roles
+-- tables as every other grant, so access to this tool is itself RBAC-controlled.
+INSERT INTO permissions (name, description) VALUES
+  ('rbac_admin', 'Manage permissions, roles and user access in this tool')
+ON CONFLICT (name) DO NOTHING;
+
+INSERT INTO roles (name) VALUES
+  ('rbac_administrator')
+ON CONFLICT (name) DO NOTHING;
+
+INSERT INTO role_permissions (role_id, permission_id)
+SELECT r.id, p.id
+FROM roles r, permissions p
+WHERE r.name = 'rbac_administrator' AND p.name = 'rbac_admin'
+ON CONFLICT (role_id, permission_id) DO NOTHING;
+
+-- Check whether a user holds a permission through any of their roles
+CREATE OR REPLACE FUNCTION public.has_permission(
+  check_user_id UUID,
+  permission_name TEXT
+)
+RETURNS BOOLEAN AS $$
+BEGIN
+  IF check_user_id IS NULL THEN
+    RETURN FALSE;
+  END IF;
+
+  RETURN EXISTS (
+    SELECT 1
+    FROM user_roles ur
+    JOIN role_permissions rp ON rp.role_id = ur.role_id
+    JOIN permissions p ON p.id = rp.permission_id
+    WHERE ur.user_id = check_user_id
+      AND p.name = permission_name
+  );
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Only users granted rbac_admin are administrators
+CREATE OR REPLACE FUNCTION public.is_admin()
+RETURNS BOOLEAN AS $$
+BEGIN
+  RETURN public.has_permission(auth.uid(), 'rbac_admin');
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Grant the administrator role to a user by email.
+-- Not callable through the API: run it from the SQL editor or with the service role
+-- (see scripts/grant-admin.js) to appoint the first administrator.
+CREATE OR REPLACE FUNCTION public.grant_rbac_admin(admin_email TEXT)
+RETURNS UUID AS $$
+DECLARE
+  target_user_id UUID;
+BEGIN
+  SELECT id INTO target_user_id
+  FROM auth.users
+  WHERE lower(email) = lower(admin_email);
+
+  IF target_user_id IS NULL THEN
+    RAISE EXCEPTION 'No user found with email %', admin_email;
+  END IF;
+
+  INSERT INTO user_roles (user_id, role_id)
+  SELECT target_user_id, r.id
+  FROM roles r
+  WHERE r.name = 'rbac_administrator'
+  ON CONFLICT (user_id, role_id) DO NOTHING;
+
+  RETURN target_user_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.grant_rbac_admin(TEXT) FROM PUBLIC, anon, authenticated;
+
+-- Existing deployments: keep the earliest account as administrator so nobody is locked out
+INSERT INTO user_roles (user_id, role_id)
+SELECT u.id, r.id
+FROM (SELECT id FROM auth.users ORDER BY created_at LIMIT 1) u, roles r
+WHERE r.name = 'rbac_administrator'
+  AND NOT EXISTS (
+    SELECT 1
+    FROM user_roles ur
+    JOIN role_permissions rp ON rp.role_id = ur.role_id
+    JOIN permissions p ON p.id = rp.permission_id
+    WHERE p.name = 'rbac_admin'
+  )
+ON CONFLICT (user_id, role_id) DO NOTHING;
@@ -0,0 +1,21 @@
+-- Permission for downstream services that ask Nexus-Access for access decisions
+INSERT INTO permissions (name, description) VALUES
+  ('rbac_check', 'Check permissions of any user through the decision API')
+ON CONFLICT (name) DO NOTHING;
+
+-- Administrators can always check permissions
+INSERT INTO role_permissions (role_id, permission_id)
+SELECT r.id, p.id
+FROM roles r, permissions p
+WHERE r.name = 'rbac_administrator' AND p.name = 'rbac_check'
+ON CONFLICT (role_id, permission_id) DO NOTHING;
+
+-- Decision callers need to read the role assignments of the users they check
+DROP POLICY IF EXISTS "Users can view their own roles" ON user_roles;
+
+CREATE POLICY "Users can view their own roles" ON user_roles
+  FOR SELECT USING (
+    auth.uid() = user_id
+    OR public.is_admin()
+    OR public.has_permission(auth.uid(), 'rbac_check')
+  );
@@ -0,0 +1,106 @@
+-- Audit trail of every change to RBAC data
+CREATE TABLE IF NOT EXISTS audit_logs (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  user_email TEXT,
+  action TEXT NOT NULL,
+  resource_type TEXT NOT NULL CHECK (
+    resource_type IN ('permission', 'role', 'association', 'user_role')
+  ),
+  resource_id UUID NOT NULL,
+  old_values JSONB,
+  new_values JSONB,
+  timestamp TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_audit_logs_timestamp ON audit_logs(timestamp DESC);
+CREATE INDEX IF NOT EXISTS idx_audit_logs_user_id ON audit_logs(user_id);
+CREATE INDEX IF NOT EXISTS idx_audit_logs_action ON audit_logs(action);
+CREATE INDEX IF NOT EXISTS idx_audit_logs_resource ON audit_logs(resource_type, resource_id);
+
+-- Only administrators can read the audit trail. There are no write policies:
+-- entries are written exclusively by the SECURITY DEFINER trigger below.
+ALTER TABLE audit_logs ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admin users can view audit logs" ON audit_logs
+  FOR SELECT USING (public.is_admin());
+
+-- Record old/new values of a mutation on one of the RBAC tables
+CREATE OR REPLACE FUNCTION public.log_rbac_change()
+RETURNS TRIGGER AS $$
+DECLARE
+  audit_verb TEXT;
+  audit_action TEXT;
+  audit_resource_type TEXT;
+  audit_resource_id UUID;
+  row_data JSONB;
+BEGIN
+  row_data := to_jsonb(COALESCE(NEW, OLD));
+  audit_verb := CASE TG_OP
+    WHEN 'INSERT' THEN 'create'
+    WHEN 'UPDATE' THEN 'update'
+    ELSE 'delete'
+  END;
+
+  CASE TG_TABLE_NAME
+    WHEN 'permissions' THEN
+      audit_resource_type := 'permission';
+      audit_action := audit_verb || '_permission';
+      audit_resource_id := (row_data->>'id')::UUID;
+    WHEN 'roles' THEN
+      audit_resource_type := 'role';
+      audit_action := audit_verb || '_role';
+      audit_resource_id := (row_data->>'id')::UUID;
+    WHEN 'role_permissions' THEN
+      audit_resource_type := 'association';
+      audit_action := CASE TG_OP
+        WHEN 'DELETE' THEN 'delete_association'
+        ELSE 'create_association'
+      END;
+      audit_resource_id := (row_data->>'role_id')::UUID;
+    WHEN 'user_roles' THEN
+      audit_resource_type := 'user_role';
+      audit_action := CASE TG_OP
+        WHEN 'DELETE' THEN 'unassign_user_role'
+        ELSE 'assign_user_role'
+      END;
+      audit_resource_id := (row_data->>'user_id')::UUID;
+  END CASE;
+
+  INSERT INTO audit_logs (
+    user_id,
+    user_email,
+    action,
+    resource_type,
+    resource_id,
+    old_values,
+    new_values
+  ) VALUES (
+    auth.uid(),
+    auth.jwt()->>'email',
+    audit_action,
+    audit_resource_type,
+    audit_resource_id,
+    CASE WHEN TG_OP IN ('UPDATE', 'DELETE') THEN to_jsonb(OLD) END,
+    CASE WHEN TG_OP IN ('INSERT', 'UPDATE') THEN to_jsonb(NEW) END
+  );
+
+  RETURN COALESCE(NEW, OLD);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER audit_permissions
+  AFTER INSERT OR UPDATE OR DELETE ON permissions
+  FOR EACH ROW EXECUTE FUNCTION public.log_rbac_change();
+
+CREATE TRIGGER audit_roles
+  AFTER INSERT OR UPDATE OR DELETE ON roles
+  FOR EACH ROW EXECUTE FUNCTION public.log_rbac_change();
+
+CREATE TRIGGER audit_role_permissions
+  AFTER INSERT OR UPDATE OR DELETE ON role_permissions
+  FOR EACH ROW EXECUTE FUNCTION public.log_rbac_change();
+
+CREATE TRIGGER audit_user_roles
+  AFTER INSERT OR UPDATE OR DELETE ON user_roles
+  FOR EACH ROW EXECUTE FUNCTION public.log_rbac_change();
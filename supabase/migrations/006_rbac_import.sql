@@ -0,0 +1,63 @@
+-- Apply an import plan computed by POST /api/rbac/import in a single transaction.
+-- Entries are referenced by name so newly created rows can be linked immediately.
+-- Runs with the caller's privileges, so RLS and the audit triggers still apply.
+CREATE OR REPLACE FUNCTION public.apply_rbac_import(plan JSONB)
+RETURNS VOID AS $$
+BEGIN
+  IF NOT public.is_admin() THEN
+    RAISE EXCEPTION 'RBAC administrator permission required'
+      USING ERRCODE = '42501';
+  END IF;
+
+  INSERT INTO permissions (name, description)
+  SELECT p->>'name', p->>'description'
+  FROM jsonb_array_elements(COALESCE(plan->'permissions'->'create', '[]')) p;
+
+  UPDATE permissions
+  SET description = u->>'description'
+  FROM jsonb_array_elements(COALESCE(plan->'permissions'->'update', '[]')) u
+  WHERE permissions.name = u->>'name';
+
+  INSERT INTO roles (name)
+  SELECT jsonb_array_elements_text(COALESCE(plan->'roles'->'create', '[]'));
+
+  DELETE FROM role_permissions rp
+  USING roles r, permissions p,
+    jsonb_array_elements(COALESCE(plan->'associations'->'delete', '[]')) a
+  WHERE rp.role_id = r.id
+    AND rp.permission_id = p.id
+    AND r.name = a->>'role'
+    AND p.name = a->>'permission';
+
+  INSERT INTO role_permissions (role_id, permission_id)
+  SELECT r.id, p.id
+  FROM jsonb_array_elements(COALESCE(plan->'associations'->'create', '[]')) a
+  JOIN roles r ON r.name = a->>'role'
+  JOIN permissions p ON p.name = a->>'permission';
+
+  DELETE FROM user_roles ur
+  USING roles r,
+    jsonb_array_elements(COALESCE(plan->'user_roles'->'delete', '[]')) a
+  WHERE ur.role_id = r.id
+    AND r.name = a->>'role'
+    AND ur.user_id = (a->>'user_id')::UUID;
+
+  INSERT INTO user_roles (user_id, role_id)
+  SELECT (a->>'user_id')::UUID, r.id
+  FROM jsonb_array_elements(COALESCE(plan->'user_roles'->'create', '[]')) a
+  JOIN roles r ON r.name = a->>'role';
+
+  -- Deleting roles and permissions cascades to their remaining associations
+  DELETE FROM roles
+  WHERE name IN (
+    SELECT jsonb_array_elements_text(COALESCE(plan->'roles'->'delete', '[]'))
+  );
+
+  DELETE FROM permissions
+  WHERE name IN (
+    SELECT jsonb_array_elements_text(
+      COALESCE(plan->'permissions'->'delete', '[]')
+    )
+  );
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
@@ -0,0 +1,67 @@
+-- Role hierarchy: a role inherits every permission of its parent role,
+-- e.g. admin -> manager -> user means admin also holds manager and user permissions
+ALTER TABLE roles
+  ADD COLUMN IF NOT EXISTS parent_role_id UUID REFERENCES roles(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_roles_parent_role_id ON roles(parent_role_id);
+
+-- Reject parent assignments that would make a role inherit from itself
+CREATE OR REPLACE FUNCTION public.prevent_role_cycle()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.parent_role_id IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.parent_role_id = NEW.id OR EXISTS (
+    WITH RECURSIVE ancestors(id) AS (
+      SELECT parent_role_id FROM roles WHERE id = NEW.parent_role_id
+      UNION
+      SELECT r.parent_role_id
+      FROM roles r
+      JOIN ancestors a ON r.id = a.id
+    )
+    SELECT 1 FROM ancestors WHERE id = NEW.id
+  ) THEN
+    RAISE EXCEPTION 'Role hierarchy cannot contain cycles'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER check_role_hierarchy
+  BEFORE INSERT OR UPDATE OF parent_role_id ON roles
+  FOR EACH ROW EXECUTE FUNCTION public.prevent_role_cycle();
+
+-- Follow parent roles when checking permissions (is_admin builds on this too)
+CREATE OR REPLACE FUNCTION public.has_permission(
+  check_user_id UUID,
+  permission_name TEXT
+)
+RETURNS BOOLEAN AS $$
+BEGIN
+  IF check_user_id IS NULL THEN
+    RETURN FALSE;
+  END IF;
+
+  RETURN EXISTS (
+    WITH RECURSIVE effective_roles(id) AS (
+      SELECT ur.role_id
+      FROM user_roles ur
+      WHERE ur.user_id = check_user_id
+      UNION
+      SELECT r.parent_role_id
+      FROM roles r
+      JOIN effective_roles er ON r.id = er.id
+      WHERE r.parent_role_id IS NOT NULL
+    )
+    SELECT 1
+    FROM effective_roles er
+    JOIN role_permissions rp ON rp.role_id = er.id
+    JOIN permissions p ON p.id = rp.permission_id
+    WHERE p.name = permission_name
+  );
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
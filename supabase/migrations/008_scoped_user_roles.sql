@@ -0,0 +1,143 @@
+-- Resource-scoped role assignments, e.g. "manager of project 42".
+-- '*' is a wildcard: scope_type '*' is a global grant, scope_id '*' covers every
+-- resource of the scope type. Existing assignments become global grants.
+ALTER TABLE user_roles
+  ADD COLUMN IF NOT EXISTS scope_type TEXT NOT NULL DEFAULT '*',
+  ADD COLUMN IF NOT EXISTS scope_id TEXT NOT NULL DEFAULT '*';
+
+ALTER TABLE user_roles
+  ADD CONSTRAINT user_roles_global_scope_check
+  CHECK (scope_type <> '*' OR scope_id = '*');
+
+-- The same role can be granted once per scope
+ALTER TABLE user_roles DROP CONSTRAINT IF EXISTS user_roles_pkey;
+ALTER TABLE user_roles ADD PRIMARY KEY (user_id, role_id, scope_type, scope_id);
+
+CREATE INDEX IF NOT EXISTS idx_user_roles_scope ON user_roles(scope_type, scope_id);
+
+-- Only global grants count for permission checks without a resource,
+-- so a project-scoped administrator role does not unlock this tool
+CREATE OR REPLACE FUNCTION public.has_permission(
+  check_user_id UUID,
+  permission_name TEXT
+)
+RETURNS BOOLEAN AS $$
+BEGIN
+  IF check_user_id IS NULL THEN
+    RETURN FALSE;
+  END IF;
+
+  RETURN EXISTS (
+    WITH RECURSIVE effective_roles(id) AS (
+      SELECT ur.role_id
+      FROM user_roles ur
+      WHERE ur.user_id = check_user_id
+        AND ur.scope_type = '*'
+      UNION
+      SELECT r.parent_role_id
+      FROM roles r
+      JOIN effective_roles er ON r.id = er.id
+      WHERE r.parent_role_id IS NOT NULL
+    )
+    SELECT 1
+    FROM effective_roles er
+    JOIN role_permissions rp ON rp.role_id = er.id
+    JOIN permissions p ON p.id = rp.permission_id
+    WHERE p.name = permission_name
+  );
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Follow the new primary key
+CREATE OR REPLACE FUNCTION public.grant_rbac_admin(admin_email TEXT)
+RETURNS UUID AS $$
+DECLARE
+  target_user_id UUID;
+BEGIN
+  SELECT id INTO target_user_id
+  FROM auth.users
+  WHERE lower(email) = lower(admin_email);
+
+  IF target_user_id IS NULL THEN
+    RAISE EXCEPTION 'No user found with email %', admin_email;
+  END IF;
+
+  INSERT INTO user_roles (user_id, role_id)
+  SELECT target_user_id, r.id
+  FROM roles r
+  WHERE r.name = 'rbac_administrator'
+  ON CONFLICT (user_id, role_id, scope_type, scope_id) DO NOTHING;
+
+  RETURN target_user_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.grant_rbac_admin(TEXT) FROM PUBLIC, anon, authenticated;
+
+-- Import plans now carry the scope of each user role assignment
+CREATE OR REPLACE FUNCTION public.apply_rbac_import(plan JSONB)
+RETURNS VOID AS $$
+BEGIN
+  IF NOT public.is_admin() THEN
+    RAISE EXCEPTION 'RBAC administrator permission required'
+      USING ERRCODE = '42501';
+  END IF;
+
+  INSERT INTO permissions (name, description)
+  SELECT p->>'name', p->>'description'
+  FROM jsonb_array_elements(COALESCE(plan->'permissions'->'create', '[]')) p;
+
+  UPDATE permissions
+  SET description = u->>'description'
+  FROM jsonb_array_elements(COALESCE(plan->'permissions'->'update', '[]')) u
+  WHERE permissions.name = u->>'name';
+
+  INSERT INTO roles (name)
+  SELECT jsonb_array_elements_text(COALESCE(plan->'roles'->'create', '[]'));
+
+  DELETE FROM role_permissions rp
+  USING roles r, permissions p,
+    jsonb_array_elements(COALESCE(plan->'associations'->'delete', '[]')) a
+  WHERE rp.role_id = r.id
+    AND rp.permission_id = p.id
+    AND r.name = a->>'role'
+    AND p.name = a->>'permission';
+
+  INSERT INTO role_permissions (role_id, permission_id)
+  SELECT r.id, p.id
+  FROM jsonb_array_elements(COALESCE(plan->'associations'->'create', '[]')) a
+  JOIN roles r ON r.name = a->>'role'
+  JOIN permissions p ON p.name = a->>'permission';
+
+  DELETE FROM user_roles ur
+  USING roles r,
+    jsonb_array_elements(COALESCE(plan->'user_roles'->'delete', '[]')) a
+  WHERE ur.role_id = r.id
+    AND r.name = a->>'role'
+    AND ur.user_id = (a->>'user_id')::UUID
+    AND ur.scope_type = COALESCE(a->>'scope_type', '*')
+    AND ur.scope_id = COALESCE(a->>'scope_id', '*');
+
+  INSERT INTO user_roles (user_id, role_id, scope_type, scope_id)
+  SELECT
+    (a->>'user_id')::UUID,
+    r.id,
+    COALESCE(a->>'scope_type', '*'),
+    COALESCE(a->>'scope_id', '*')
+  FROM jsonb_array_elements(COALESCE(plan->'user_roles'->'create', '[]')) a
+  JOIN roles r ON r.name = a->>'role';
+
+  -- Deleting roles and permissions cascades to their remaining associations
+  DELETE FROM roles
+  WHERE name IN (
+    SELECT jsonb_array_elements_text(COALESCE(plan->'roles'->'delete', '[]'))
+  );
+
+  DELETE FROM permissions
+  WHERE name IN (
+    SELECT jsonb_array_elements_text(
+      COALESCE(plan->'permissions'->'delete', '[]')
+    )
+  );
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
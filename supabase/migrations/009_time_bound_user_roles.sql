@@ -0,0 +1,144 @@
+-- Time-bound role assignments for temporary access such as contractors or
+-- incident response. NULL bounds mean the assignment is not limited that way.
+ALTER TABLE user_roles
+  ADD COLUMN IF NOT EXISTS valid_from TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS valid_until TIMESTAMPTZ;
+
+ALTER TABLE user_roles
+  ADD CONSTRAINT user_roles_validity_check
+  CHECK (valid_from IS NULL OR valid_until IS NULL OR valid_until > valid_from);
+
+CREATE INDEX IF NOT EXISTS idx_user_roles_valid_until
+  ON user_roles(valid_until)
+  WHERE valid_until IS NOT NULL;
+
+-- Administrators can change the validity window of existing assignments
+CREATE POLICY "Admin users can update user roles" ON user_roles
+  FOR UPDATE USING (public.is_admin()) WITH CHECK (public.is_admin());
+
+-- Grants outside their validity window no longer count
+CREATE OR REPLACE FUNCTION public.has_permission(
+  check_user_id UUID,
+  permission_name TEXT
+)
+RETURNS BOOLEAN AS $$
+BEGIN
+  IF check_user_id IS NULL THEN
+    RETURN FALSE;
+  END IF;
+
+  RETURN EXISTS (
+    WITH RECURSIVE effective_roles(id) AS (
+      SELECT ur.role_id
+      FROM user_roles ur
+      WHERE ur.user_id = check_user_id
+        AND ur.scope_type = '*'
+        AND (ur.valid_from IS NULL OR ur.valid_from <= NOW())
+        AND (ur.valid_until IS NULL OR ur.valid_until > NOW())
+      UNION
+      SELECT r.parent_role_id
+      FROM roles r
+      JOIN effective_roles er ON r.id = er.id
+      WHERE r.parent_role_id IS NOT NULL
+    )
+    SELECT 1
+    FROM effective_roles er
+    JOIN role_permissions rp ON rp.role_id = er.id
+    JOIN permissions p ON p.id = rp.permission_id
+    WHERE p.name = permission_name
+  );
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Delete expired assignments and return how many were removed.
+-- Expired rows are already ignored by permission checks; this keeps the table
+-- and the user directory clean. Each deletion is recorded in the audit log.
+-- Not callable through the API: run it with the service role
+-- (see /api/cron/cleanup-expired-grants and scripts/cleanup-expired-grants.js).
+CREATE OR REPLACE FUNCTION public.cleanup_expired_user_roles()
+RETURNS INTEGER AS $$
+DECLARE
+  removed INTEGER;
+BEGIN
+  DELETE FROM user_roles
+  WHERE valid_until IS NOT NULL
+    AND valid_until <= NOW();
+
+  GET DIAGNOSTICS removed = ROW_COUNT;
+  RETURN removed;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.cleanup_expired_user_roles() FROM PUBLIC, anon, authenticated;
+
+-- Import plans now carry the validity window of each user role assignment
+CREATE OR REPLACE FUNCTION public.apply_rbac_import(plan JSONB)
+RETURNS VOID AS $$
+BEGIN
+  IF NOT public.is_admin() THEN
+    RAISE EXCEPTION 'RBAC administrator permission required'
+      USING ERRCODE = '42501';
+  END IF;
+
+  INSERT INTO permissions (name, description)
+  SELECT p->>'name', p->>'description'
+  FROM jsonb_array_elements(COALESCE(plan->'permissions'->'create', '[]')) p;
+
+  UPDATE permissions
+  SET description = u->>'description'
+  FROM jsonb_array_elements(COALESCE(plan->'permissions'->'update', '[]')) u
+  WHERE permissions.name = u->>'name';
+
+  INSERT INTO roles (name)
+  SELECT jsonb_array_elements_text(COALESCE(plan->'roles'->'create', '[]'));
+
+  DELETE FROM role_permissions rp
+  USING roles r, permissions p,
+    jsonb_array_elements(COALESCE(plan->'associations'->'delete', '[]')) a
+  WHERE rp.role_id = r.id
+    AND rp.permission_id = p.id
+    AND r.name = a->>'role'
+    AND p.name = a->>'permission';
+
+  INSERT INTO role_permissions (role_id, permission_id)
+  SELECT r.id, p.id
+  FROM jsonb_array_elements(COALESCE(plan->'associations'->'create', '[]')) a
+  JOIN roles r ON r.name = a->>'role'
+  JOIN permissions p ON p.name = a->>'permission';
+
+  DELETE FROM user_roles ur
+  USING roles r,
+    jsonb_array_elements(COALESCE(plan->'user_roles'->'delete', '[]')) a
+  WHERE ur.role_id = r.id
+    AND r.name = a->>'role'
+    AND ur.user_id = (a->>'user_id')::UUID
+    AND ur.scope_type = COALESCE(a->>'scope_type', '*')
+    AND ur.scope_id = COALESCE(a->>'scope_id', '*');
+
+  INSERT INTO user_roles (
+    user_id, role_id, scope_type, scope_id, valid_from, valid_until
+  )
+  SELECT
+    (a->>'user_id')::UUID,
+    r.id,
+    COALESCE(a->>'scope_type', '*'),
+    COALESCE(a->>'scope_id', '*'),
+    (a->>'valid_from')::TIMESTAMPTZ,
+    (a->>'valid_until')::TIMESTAMPTZ
+  FROM jsonb_array_elements(COALESCE(plan->'user_roles'->'create', '[]')) a
+  JOIN roles r ON r.name = a->>'role';
+
+  -- Deleting roles and permissions cascades to their remaining associations
+  DELETE FROM roles
+  WHERE name IN (
+    SELECT jsonb_array_elements_text(COALESCE(plan->'roles'->'delete', '[]'))
+  );
+
+  DELETE FROM permissions
+  WHERE name IN (
+    SELECT jsonb_array_elements_text(
+      COALESCE(plan->'permissions'->'delete', '[]')
+    )
+  );
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
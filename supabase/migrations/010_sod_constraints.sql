@@ -0,0 +1,52 @@
+-- Separation of duties: pairs of roles or permissions that nobody may hold
+-- together, e.g. create_payment and approve_payment. first_id/second_id refer to
+-- roles or permissions depending on constraint_type.
+CREATE TABLE IF NOT EXISTS sod_constraints (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  name TEXT NOT NULL UNIQUE,
+  description TEXT,
+  constraint_type TEXT NOT NULL CHECK (constraint_type IN ('role', 'permission')),
+  first_id UUID NOT NULL,
+  second_id UUID NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  CHECK (first_id <> second_id)
+);
+
+-- A pair can only be declared once, in either order
+CREATE UNIQUE INDEX IF NOT EXISTS idx_sod_constraints_pair ON sod_constraints (
+  constraint_type,
+  LEAST(first_id, second_id),
+  GREATEST(first_id, second_id)
+);
+
+ALTER TABLE sod_constraints ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view SoD constraints" ON sod_constraints
+  FOR SELECT USING (public.is_authenticated());
+
+CREATE POLICY "Admin users can insert SoD constraints" ON sod_constraints
+  FOR INSERT WITH CHECK (public.is_admin());
+
+CREATE POLICY "Admin users can delete SoD constraints" ON sod_constraints
+  FOR DELETE USING (public.is_admin());
+
+-- Constraints have no foreign keys, so drop them with the role or permission
+-- they refer to
+CREATE OR REPLACE FUNCTION public.delete_sod_constraints_for()
+RETURNS TRIGGER AS $$
+BEGIN
+  DELETE FROM sod_constraints
+  WHERE constraint_type = TG_ARGV[0]
+    AND OLD.id IN (first_id, second_id);
+
+  RETURN OLD;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER delete_role_sod_constraints
+  AFTER DELETE ON roles
+  FOR EACH ROW EXECUTE FUNCTION public.delete_sod_constraints_for('role');
+
+CREATE TRIGGER delete_permission_sod_constraints
+  AFTER DELETE ON permissions
+  FOR EACH ROW EXECUTE FUNCTION public.delete_sod_constraints_for('permission');
@@ -0,0 +1,170 @@
+-- Approval workflow: with change approval enabled, changes to permissions,
+-- roles and their associations are stored as pending change requests and only
+-- applied once a reviewer with rbac_approve_changes approves them.
+INSERT INTO permissions (name, description) VALUES
+  ('rbac_approve_changes', 'Approve or reject pending RBAC change requests')
+ON CONFLICT (name) DO NOTHING;
+
+-- Kept apart from rbac_administrator so nobody approves their own changes
+-- just by being an administrator
+INSERT INTO roles (name) VALUES
+  ('rbac_change_approver')
+ON CONFLICT (name) DO NOTHING;
+
+-- Approvers also read role assignments (rbac_check) to judge what a change
+-- would grant, including separation-of-duties checks
+INSERT INTO role_permissions (role_id, permission_id)
+SELECT r.id, p.id
+FROM roles r, permissions p
+WHERE r.name = 'rbac_change_approver'
+  AND p.name IN ('rbac_approve_changes', 'rbac_check')
+ON CONFLICT (role_id, permission_id) DO NOTHING;
+
+CREATE TABLE IF NOT EXISTS change_requests (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  operation TEXT NOT NULL CHECK (
+    operation IN (
+      'create_permission',
+      'update_permission',
+      'delete_permission',
+      'create_role',
+      'update_role',
+      'delete_role',
+      'create_association',
+      'delete_association'
+    )
+  ),
+  -- Permission or role the change targets; set for creations once applied
+  resource_id UUID,
+  payload JSONB NOT NULL DEFAULT '{}',
+  summary TEXT NOT NULL,
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (
+    status IN ('pending', 'approved', 'rejected')
+  ),
+  requested_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  requested_by_email TEXT,
+  requested_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  reviewed_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  reviewed_by_email TEXT,
+  reviewed_at TIMESTAMPTZ,
+  review_comment TEXT
+);
+
+CREATE INDEX IF NOT EXISTS idx_change_requests_status
+  ON change_requests(status, requested_at DESC);
+
+-- Administrators submit and everyone involved can read the history. Requests
+-- are only ever reviewed through review_change_request below.
+ALTER TABLE change_requests ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins and approvers can view change requests" ON change_requests
+  FOR SELECT USING (
+    public.is_admin()
+    OR public.has_permission(auth.uid(), 'rbac_approve_changes')
+  );
+
+CREATE POLICY "Admin users can submit change requests" ON change_requests
+  FOR INSERT WITH CHECK (
+    public.is_admin()
+    AND requested_by = auth.uid()
+    AND status = 'pending'
+  );
+
+-- Approve (applying the change) or reject a pending change request.
+-- Runs as the definer so approvers do not need rbac_admin themselves; the audit
+-- log still records the approver as the user making the change.
+CREATE OR REPLACE FUNCTION public.review_change_request(
+  request_id UUID,
+  approve BOOLEAN,
+  comment TEXT DEFAULT NULL
+)
+RETURNS SETOF change_requests AS $$
+DECLARE
+  request change_requests;
+  change JSONB;
+  affected INTEGER;
+BEGIN
+  IF NOT public.has_permission(auth.uid(), 'rbac_approve_changes') THEN
+    RAISE EXCEPTION 'Permission "rbac_approve_changes" required'
+      USING ERRCODE = '42501';
+  END IF;
+
+  SELECT * INTO request FROM change_requests WHERE id = request_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Change request not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF request.status <> 'pending' THEN
+    RAISE EXCEPTION 'Change request has already been %', request.status
+      USING ERRCODE = '55000';
+  END IF;
+
+  IF request.requested_by = auth.uid() THEN
+    RAISE EXCEPTION 'You cannot review your own change request'
+      USING ERRCODE = '42501';
+  END IF;
+
+  IF approve THEN
+    change := request.payload;
+
+    CASE request.operation
+      WHEN 'create_permission' THEN
+        INSERT INTO permissions (name, description)
+        VALUES (change->>'name', change->>'description')
+        RETURNING id INTO request.resource_id;
+      WHEN 'update_permission' THEN
+        UPDATE permissions SET
+          name = COALESCE(change->>'name', name),
+          description = CASE
+            WHEN change ? 'description' THEN change->>'description'
+            ELSE description
+          END
+        WHERE id = request.resource_id;
+      WHEN 'delete_permission' THEN
+        DELETE FROM permissions WHERE id = request.resource_id;
+      WHEN 'create_role' THEN
+        INSERT INTO roles (name, parent_role_id)
+        VALUES (change->>'name', (change->>'parent_role_id')::UUID)
+        RETURNING id INTO request.resource_id;
+      WHEN 'update_role' THEN
+        UPDATE roles SET
+          name = COALESCE(change->>'name', name),
+          parent_role_id = CASE
+            WHEN change ? 'parent_role_id' THEN (change->>'parent_role_id')::UUID
+            ELSE parent_role_id
+          END
+        WHERE id = request.resource_id;
+      WHEN 'delete_role' THEN
+        DELETE FROM roles WHERE id = request.resource_id;
+      WHEN 'create_association' THEN
+        INSERT INTO role_permissions (role_id, permission_id)
+        VALUES ((change->>'role_id')::UUID, (change->>'permission_id')::UUID);
+      WHEN 'delete_association' THEN
+        DELETE FROM role_permissions
+        WHERE role_id = (change->>'role_id')::UUID
+          AND permission_id = (change->>'permission_id')::UUID;
+    END CASE;
+
+    -- The target may have changed since the request was submitted
+    GET DIAGNOSTICS affected = ROW_COUNT;
+    IF affected = 0 THEN
+      RAISE EXCEPTION 'The target of this change no longer exists'
+        USING ERRCODE = 'P0002';
+    END IF;
+  END IF;
+
+  RETURN QUERY
+  UPDATE change_requests SET
+    status = CASE WHEN approve THEN 'approved' ELSE 'rejected' END,
+    resource_id = request.resource_id,
+    reviewed_by = auth.uid(),
+    reviewed_by_email = auth.jwt()->>'email',
+    reviewed_at = NOW(),
+    review_comment = comment
+  WHERE id = request_id
+  RETURNING *;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.review_change_request(UUID, BOOLEAN, TEXT) FROM PUBLIC, anon;
@@ -0,0 +1,218 @@
+-- Access review campaigns: periodically certify that every user still needs
+-- the roles they hold. A campaign snapshots the assignments of a set of roles,
+-- reviewers mark each one keep or revoke, and closing the campaign revokes the
+-- assignments marked revoke.
+INSERT INTO permissions (name, description) VALUES
+  ('rbac_review_access', 'Record keep or revoke decisions in access review campaigns')
+ON CONFLICT (name) DO NOTHING;
+
+-- Administrators review by default; other reviewers get the permission
+-- through a role of their own
+INSERT INTO role_permissions (role_id, permission_id)
+SELECT r.id, p.id
+FROM roles r, permissions p
+WHERE r.name = 'rbac_administrator'
+  AND p.name = 'rbac_review_access'
+ON CONFLICT (role_id, permission_id) DO NOTHING;
+
+CREATE TABLE IF NOT EXISTS access_review_campaigns (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  name TEXT NOT NULL,
+  description TEXT,
+  -- IDs and names of the reviewed roles when the campaign was launched
+  roles JSONB NOT NULL DEFAULT '[]',
+  status TEXT NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'closed')),
+  due_at TIMESTAMPTZ,
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_by_email TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  closed_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  closed_by_email TEXT,
+  closed_at TIMESTAMPTZ,
+  -- Summary of the closed campaign and its HMAC-SHA256 signature
+  report JSONB,
+  report_signature TEXT
+);
+
+-- One row per user role assignment under review. Users, roles and emails are
+-- copied so the history survives later changes.
+CREATE TABLE IF NOT EXISTS access_review_items (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  campaign_id UUID NOT NULL REFERENCES access_review_campaigns(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL,
+  user_email TEXT,
+  role_id UUID NOT NULL,
+  role_name TEXT NOT NULL,
+  scope_type TEXT NOT NULL DEFAULT '*',
+  scope_id TEXT NOT NULL DEFAULT '*',
+  valid_until TIMESTAMPTZ,
+  decision TEXT CHECK (decision IN ('keep', 'revoke')),
+  comment TEXT,
+  decided_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  decided_by_email TEXT,
+  decided_at TIMESTAMPTZ,
+  UNIQUE (campaign_id, user_id, role_id, scope_type, scope_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_access_review_campaigns_created_at
+  ON access_review_campaigns(created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_access_review_items_campaign_id
+  ON access_review_items(campaign_id);
+
+ALTER TABLE access_review_campaigns ENABLE ROW LEVEL SECURITY;
+ALTER TABLE access_review_items ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins and reviewers can view access reviews" ON access_review_campaigns
+  FOR SELECT USING (
+    public.is_admin()
+    OR public.has_permission(auth.uid(), 'rbac_review_access')
+  );
+
+CREATE POLICY "Admins and reviewers can view access review items" ON access_review_items
+  FOR SELECT USING (
+    public.is_admin()
+    OR public.has_permission(auth.uid(), 'rbac_review_access')
+  );
+
+-- Reviewers decide while the campaign is open, never on their own access
+CREATE POLICY "Reviewers can decide on access review items" ON access_review_items
+  FOR UPDATE USING (
+    public.has_permission(auth.uid(), 'rbac_review_access')
+    AND user_id <> auth.uid()
+    AND EXISTS (
+      SELECT 1 FROM access_review_campaigns c
+      WHERE c.id = campaign_id AND c.status = 'open'
+    )
+  ) WITH CHECK (decided_by = auth.uid());
+
+-- The signed report is written once, after the campaign is closed
+CREATE POLICY "Admin users can store access review reports" ON access_review_campaigns
+  FOR UPDATE USING (
+    public.is_admin() AND status = 'closed' AND report IS NULL
+  ) WITH CHECK (public.is_admin());
+
+REVOKE UPDATE ON access_review_items FROM authenticated;
+GRANT UPDATE (decision, comment, decided_by, decided_by_email, decided_at)
+  ON access_review_items TO authenticated;
+
+REVOKE UPDATE ON access_review_campaigns FROM authenticated;
+GRANT UPDATE (report, report_signature)
+  ON access_review_campaigns TO authenticated;
+
+-- Launch a campaign over every current assignment of the given roles.
+-- Runs as the definer to copy user emails from auth.users.
+CREATE OR REPLACE FUNCTION public.start_access_review(
+  campaign_name TEXT,
+  campaign_description TEXT,
+  role_ids UUID[],
+  due_at TIMESTAMPTZ DEFAULT NULL
+)
+RETURNS SETOF access_review_campaigns AS $$
+DECLARE
+  campaign access_review_campaigns;
+  reviewed_roles JSONB;
+BEGIN
+  IF NOT public.is_admin() THEN
+    RAISE EXCEPTION 'RBAC administrator permission required'
+      USING ERRCODE = '42501';
+  END IF;
+
+  SELECT jsonb_agg(jsonb_build_object('id', r.id, 'name', r.name) ORDER BY r.name)
+  INTO reviewed_roles
+  FROM roles r
+  WHERE r.id = ANY(role_ids);
+
+  IF reviewed_roles IS NULL
+    OR jsonb_array_length(reviewed_roles) <> cardinality(role_ids) THEN
+    RAISE EXCEPTION 'One or more roles do not exist' USING ERRCODE = 'P0002';
+  END IF;
+
+  INSERT INTO access_review_campaigns (
+    name, description, roles, due_at, created_by, created_by_email
+  )
+  VALUES (
+    campaign_name,
+    campaign_description,
+    reviewed_roles,
+    start_access_review.due_at,
+    auth.uid(),
+    auth.jwt()->>'email'
+  )
+  RETURNING * INTO campaign;
+
+  -- Expired assignments no longer grant anything and are left to the cleanup job
+  INSERT INTO access_review_items (
+    campaign_id, user_id, user_email, role_id, role_name,
+    scope_type, scope_id, valid_until
+  )
+  SELECT
+    campaign.id, ur.user_id, u.email, ur.role_id, r.name,
+    ur.scope_type, ur.scope_id, ur.valid_until
+  FROM user_roles ur
+  JOIN roles r ON r.id = ur.role_id
+  LEFT JOIN auth.users u ON u.id = ur.user_id
+  WHERE ur.role_id = ANY(role_ids)
+    AND (ur.valid_until IS NULL OR ur.valid_until > NOW());
+
+  RETURN NEXT campaign;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Close a campaign once every item has a decision and revoke the assignments
+-- marked revoke. Assignments that already disappeared are skipped. Revocations
+-- are recorded in the audit log under the administrator closing the campaign.
+CREATE OR REPLACE FUNCTION public.close_access_review(campaign_id UUID)
+RETURNS SETOF access_review_campaigns AS $$
+DECLARE
+  campaign access_review_campaigns;
+  undecided INTEGER;
+BEGIN
+  IF NOT public.is_admin() THEN
+    RAISE EXCEPTION 'RBAC administrator permission required'
+      USING ERRCODE = '42501';
+  END IF;
+
+  SELECT * INTO campaign
+  FROM access_review_campaigns c
+  WHERE c.id = close_access_review.campaign_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Access review not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF campaign.status <> 'open' THEN
+    RAISE EXCEPTION 'Access review is already closed' USING ERRCODE = '55000';
+  END IF;
+
+  SELECT COUNT(*) INTO undecided
+  FROM access_review_items i
+  WHERE i.campaign_id = campaign.id AND i.decision IS NULL;
+
+  IF undecided > 0 THEN
+    RAISE EXCEPTION '% item(s) still need a decision', undecided
+      USING ERRCODE = '55000';
+  END IF;
+
+  DELETE FROM user_roles ur
+  USING access_review_items i
+  WHERE i.campaign_id = campaign.id
+    AND i.decision = 'revoke'
+    AND ur.user_id = i.user_id
+    AND ur.role_id = i.role_id
+    AND ur.scope_type = i.scope_type
+    AND ur.scope_id = i.scope_id;
+
+  RETURN QUERY
+  UPDATE access_review_campaigns c SET
+    status = 'closed',
+    closed_by = auth.uid(),
+    closed_by_email = auth.jwt()->>'email',
+    closed_at = NOW()
+  WHERE c.id = campaign.id
+  RETURNING c.*;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.start_access_review(TEXT, TEXT, UUID[], TIMESTAMPTZ) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION public.close_access_review(UUID) FROM PUBLIC, anon;
@@ -0,0 +1,211 @@
+-- Named point-in-time snapshots of permissions, roles, their associations and
+-- user role assignments, with a restore that re-creates deleted rows under
+-- their original IDs.
+CREATE TABLE IF NOT EXISTS rbac_snapshots (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  name TEXT NOT NULL,
+  description TEXT,
+  -- { permissions, roles, role_permissions, user_roles } as full table rows
+  data JSONB NOT NULL,
+  -- Number of rows per table, so listings do not need to load the data
+  counts JSONB NOT NULL,
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_by_email TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_rbac_snapshots_created_at
+  ON rbac_snapshots(created_at DESC);
+
+ALTER TABLE rbac_snapshots ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admin users can view snapshots" ON rbac_snapshots
+  FOR SELECT USING (public.is_admin());
+
+CREATE POLICY "Admin users can create snapshots" ON rbac_snapshots
+  FOR INSERT WITH CHECK (public.is_admin());
+
+CREATE POLICY "Admin users can delete snapshots" ON rbac_snapshots
+  FOR DELETE USING (public.is_admin());
+
+-- Capture the current state in a single statement, so it is consistent
+CREATE OR REPLACE FUNCTION public.create_rbac_snapshot(
+  snapshot_name TEXT,
+  snapshot_description TEXT DEFAULT NULL
+)
+RETURNS SETOF rbac_snapshots AS $$
+DECLARE
+  state JSONB;
+BEGIN
+  IF NOT public.is_admin() THEN
+    RAISE EXCEPTION 'RBAC administrator permission required'
+      USING ERRCODE = '42501';
+  END IF;
+
+  SELECT jsonb_build_object(
+    'permissions', COALESCE(
+      (SELECT jsonb_agg(to_jsonb(p) ORDER BY p.name) FROM permissions p), '[]'),
+    'roles', COALESCE(
+      (SELECT jsonb_agg(to_jsonb(r) ORDER BY r.name) FROM roles r), '[]'),
+    'role_permissions', COALESCE(
+      (SELECT jsonb_agg(to_jsonb(rp) ORDER BY rp.role_id, rp.permission_id)
+       FROM role_permissions rp), '[]'),
+    'user_roles', COALESCE(
+      (SELECT jsonb_agg(to_jsonb(ur) ORDER BY ur.user_id, ur.role_id)
+       FROM user_roles ur), '[]')
+  ) INTO state;
+
+  RETURN QUERY
+  INSERT INTO rbac_snapshots (
+    name, description, data, counts, created_by, created_by_email
+  )
+  VALUES (
+    snapshot_name,
+    snapshot_description,
+    state,
+    jsonb_build_object(
+      'permissions', jsonb_array_length(state->'permissions'),
+      'roles', jsonb_array_length(state->'roles'),
+      'role_permissions', jsonb_array_length(state->'role_permissions'),
+      'user_roles', jsonb_array_length(state->'user_roles')
+    ),
+    auth.uid(),
+    auth.jwt()->>'email'
+  )
+  RETURNING *;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+-- Make the live state match a snapshot in one transaction. The state before
+-- the restore is snapshotted first so the restore can itself be undone.
+-- Assignments of users who no longer exist cannot be restored and are skipped.
+-- Runs as the definer to check for those users; every change is still
+-- recorded in the audit log under the administrator restoring.
+CREATE OR REPLACE FUNCTION public.restore_rbac_snapshot(snapshot_id UUID)
+RETURNS JSONB AS $$
+DECLARE
+  snapshot rbac_snapshots;
+  backup rbac_snapshots;
+  skipped INTEGER;
+BEGIN
+  IF NOT public.is_admin() THEN
+    RAISE EXCEPTION 'RBAC administrator permission required'
+      USING ERRCODE = '42501';
+  END IF;
+
+  SELECT * INTO snapshot
+  FROM rbac_snapshots s
+  WHERE s.id = restore_rbac_snapshot.snapshot_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Snapshot not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  SELECT * INTO backup
+  FROM public.create_rbac_snapshot(
+    'Before restoring ' || snapshot.name,
+    'Created automatically before restoring snapshot ' || snapshot.id
+  );
+
+  -- Remove what the snapshot does not have, dependents first
+  DELETE FROM user_roles ur
+  WHERE NOT EXISTS (
+    SELECT 1
+    FROM jsonb_to_recordset(snapshot.data->'user_roles')
+      AS s(user_id UUID, role_id UUID, scope_type TEXT, scope_id TEXT)
+    WHERE s.user_id = ur.user_id
+      AND s.role_id = ur.role_id
+      AND s.scope_type = ur.scope_type
+      AND s.scope_id = ur.scope_id
+  );
+
+  DELETE FROM role_permissions rp
+  WHERE NOT EXISTS (
+    SELECT 1
+    FROM jsonb_to_recordset(snapshot.data->'role_permissions')
+      AS s(role_id UUID, permission_id UUID)
+    WHERE s.role_id = rp.role_id AND s.permission_id = rp.permission_id
+  );
+
+  DELETE FROM roles
+  WHERE id NOT IN (
+    SELECT s.id
+    FROM jsonb_to_recordset(snapshot.data->'roles') AS s(id UUID)
+  );
+
+  DELETE FROM permissions
+  WHERE id NOT IN (
+    SELECT s.id
+    FROM jsonb_to_recordset(snapshot.data->'permissions') AS s(id UUID)
+  );
+
+  -- Re-create missing rows under their original IDs and revert edits.
+  -- Unchanged rows are not touched, so the audit log only shows real changes.
+  INSERT INTO permissions (id, name, description, created_at)
+  SELECT s.id, s.name, s.description, s.created_at
+  FROM jsonb_to_recordset(snapshot.data->'permissions')
+    AS s(id UUID, name TEXT, description TEXT, created_at TIMESTAMPTZ)
+  ON CONFLICT (id) DO UPDATE SET
+    name = EXCLUDED.name,
+    description = EXCLUDED.description
+  WHERE permissions.name IS DISTINCT FROM EXCLUDED.name
+    OR permissions.description IS DISTINCT FROM EXCLUDED.description;
+
+  INSERT INTO roles (id, name, created_at)
+  SELECT s.id, s.name, s.created_at
+  FROM jsonb_to_recordset(snapshot.data->'roles')
+    AS s(id UUID, name TEXT, created_at TIMESTAMPTZ)
+  ON CONFLICT (id) DO UPDATE SET name = EXCLUDED.name
+  WHERE roles.name IS DISTINCT FROM EXCLUDED.name;
+
+  -- Parents are linked once every role exists. Clearing the changed ones
+  -- first keeps the hierarchy free of cycles at every step.
+  UPDATE roles r SET parent_role_id = NULL
+  FROM jsonb_to_recordset(snapshot.data->'roles')
+    AS s(id UUID, parent_role_id UUID)
+  WHERE r.id = s.id
+    AND r.parent_role_id IS NOT NULL
+    AND r.parent_role_id IS DISTINCT FROM s.parent_role_id;
+
+  UPDATE roles r SET parent_role_id = s.parent_role_id
+  FROM jsonb_to_recordset(snapshot.data->'roles')
+    AS s(id UUID, parent_role_id UUID)
+  WHERE r.id = s.id
+    AND r.parent_role_id IS DISTINCT FROM s.parent_role_id;
+
+  INSERT INTO role_permissions (role_id, permission_id, created_at)
+  SELECT s.role_id, s.permission_id, s.created_at
+  FROM jsonb_to_recordset(snapshot.data->'role_permissions')
+    AS s(role_id UUID, permission_id UUID, created_at TIMESTAMPTZ)
+  ON CONFLICT (role_id, permission_id) DO NOTHING;
+
+  INSERT INTO user_roles (
+    user_id, role_id, scope_type, scope_id, valid_from, valid_until, created_at
+  )
+  SELECT
+    s.user_id, s.role_id, s.scope_type, s.scope_id,
+    s.valid_from, s.valid_until, s.created_at
+  FROM jsonb_to_recordset(snapshot.data->'user_roles')
+    AS s(
+      user_id UUID, role_id UUID, scope_type TEXT, scope_id TEXT,
+      valid_from TIMESTAMPTZ, valid_until TIMESTAMPTZ, created_at TIMESTAMPTZ
+    )
+  JOIN auth.users u ON u.id = s.user_id
+  ON CONFLICT (user_id, role_id, scope_type, scope_id) DO UPDATE SET
+    valid_from = EXCLUDED.valid_from,
+    valid_until = EXCLUDED.valid_until
+  WHERE user_roles.valid_from IS DISTINCT FROM EXCLUDED.valid_from
+    OR user_roles.valid_until IS DISTINCT FROM EXCLUDED.valid_until;
+
+  SELECT COUNT(*) INTO skipped
+  FROM jsonb_to_recordset(snapshot.data->'user_roles') AS s(user_id UUID)
+  WHERE NOT EXISTS (SELECT 1 FROM auth.users u WHERE u.id = s.user_id);
+
+  RETURN jsonb_build_object(
+    'backup_snapshot_id', backup.id,
+    'skipped_user_roles', skipped
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.restore_rbac_snapshot(UUID) FROM PUBLIC, anon;
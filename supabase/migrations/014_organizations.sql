@@ -0,0 +1,794 @@
+-- Multi-tenant organizations. Permissions, roles, their associations, user
+-- role assignments and everything built on them belong to an organization,
+-- and users only see the organizations they are members of.
+--
+-- A request works on the organization named by its x-organization-id header
+-- (the app sends it from the organization switcher); without the header the
+-- user's oldest membership is used. Existing data moves to a "Default"
+-- organization that every existing user joins.
+CREATE TABLE IF NOT EXISTS organizations (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  name TEXT NOT NULL,
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS organization_members (
+  organization_id UUID NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  PRIMARY KEY (organization_id, user_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_organization_members_user_id
+  ON organization_members(user_id);
+
+-- Whether the current user belongs to an organization. Runs as the definer so
+-- policies can use it without being filtered by organization_members' own RLS.
+CREATE OR REPLACE FUNCTION public.is_organization_member(org_id UUID)
+RETURNS BOOLEAN AS $$
+BEGIN
+  RETURN EXISTS (
+    SELECT 1
+    FROM organization_members m
+    WHERE m.organization_id = org_id
+      AND m.user_id = auth.uid()
+  );
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+-- The organization the current request works on. A requested organization the
+-- user does not belong to resolves to NULL, so the request sees nothing
+-- instead of falling back to another organization's data.
+CREATE OR REPLACE FUNCTION public.current_organization_id()
+RETURNS UUID AS $$
+DECLARE
+  requested TEXT;
+  org_id UUID;
+BEGIN
+  requested := lower(NULLIF(
+    NULLIF(current_setting('request.headers', true), '')::JSON
+      ->> 'x-organization-id',
+    ''
+  ));
+
+  SELECT m.organization_id INTO org_id
+  FROM organization_members m
+  WHERE m.user_id = auth.uid()
+    AND (requested IS NULL OR m.organization_id::TEXT = requested)
+  ORDER BY m.created_at, m.organization_id
+  LIMIT 1;
+
+  RETURN org_id;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+INSERT INTO organizations (name)
+SELECT 'Default'
+WHERE NOT EXISTS (SELECT 1 FROM organizations);
+
+INSERT INTO organization_members (organization_id, user_id, created_at)
+SELECT o.id, u.id, u.created_at
+FROM (SELECT id FROM organizations ORDER BY created_at LIMIT 1) o, auth.users u
+ON CONFLICT (organization_id, user_id) DO NOTHING;
+
+-- Give every tenant table an organization, defaulting to the current one, and
+-- isolate tenants with a restrictive policy that applies on top of the
+-- existing ones. Audit triggers are paused so the backfill is not logged.
+DO $$
+DECLARE
+  default_org UUID;
+  tenant_table TEXT;
+BEGIN
+  SELECT id INTO default_org FROM organizations ORDER BY created_at LIMIT 1;
+
+  FOREACH tenant_table IN ARRAY ARRAY[
+    'permissions',
+    'roles',
+    'role_permissions',
+    'user_roles',
+    'sod_constraints',
+    'change_requests',
+    'access_review_campaigns',
+    'access_review_items',
+    'rbac_snapshots',
+    'audit_logs'
+  ] LOOP
+    EXECUTE format(
+      'ALTER TABLE %I ADD COLUMN IF NOT EXISTS organization_id UUID
+         REFERENCES organizations(id) ON DELETE CASCADE',
+      tenant_table
+    );
+
+    EXECUTE format('ALTER TABLE %I DISABLE TRIGGER USER', tenant_table);
+    EXECUTE format(
+      'UPDATE %I SET organization_id = %L WHERE organization_id IS NULL',
+      tenant_table,
+      default_org
+    );
+    EXECUTE format('ALTER TABLE %I ENABLE TRIGGER USER', tenant_table);
+
+    EXECUTE format(
+      'ALTER TABLE %I
+         ALTER COLUMN organization_id SET DEFAULT public.current_organization_id(),
+         ALTER COLUMN organization_id SET NOT NULL',
+      tenant_table
+    );
+
+    EXECUTE format(
+      'CREATE INDEX IF NOT EXISTS %I ON %I(organization_id)',
+      'idx_' || tenant_table || '_organization_id',
+      tenant_table
+    );
+
+    EXECUTE format(
+      'CREATE POLICY "Only the current organization is visible" ON %I
+         AS RESTRICTIVE FOR ALL
+         USING (organization_id = public.current_organization_id())
+         WITH CHECK (organization_id = public.current_organization_id())',
+      tenant_table
+    );
+  END LOOP;
+END $$;
+
+-- Names are unique within an organization rather than globally
+ALTER TABLE permissions
+  DROP CONSTRAINT IF EXISTS permissions_name_key,
+  ADD CONSTRAINT permissions_organization_name_key UNIQUE (organization_id, name),
+  ADD CONSTRAINT permissions_id_organization_key UNIQUE (id, organization_id);
+
+ALTER TABLE roles
+  DROP CONSTRAINT IF EXISTS roles_name_key,
+  ADD CONSTRAINT roles_organization_name_key UNIQUE (organization_id, name),
+  ADD CONSTRAINT roles_id_organization_key UNIQUE (id, organization_id);
+
+ALTER TABLE sod_constraints
+  DROP CONSTRAINT IF EXISTS sod_constraints_name_key,
+  ADD CONSTRAINT sod_constraints_organization_name_key UNIQUE (organization_id, name);
+
+-- Rows only refer to rows of their own organization, and only members hold
+-- roles: removing a member drops their assignments in that organization
+ALTER TABLE roles
+  ADD CONSTRAINT roles_parent_organization_fkey
+  FOREIGN KEY (parent_role_id, organization_id)
+  REFERENCES roles(id, organization_id) ON DELETE SET NULL (parent_role_id);
+
+ALTER TABLE role_permissions
+  ADD CONSTRAINT role_permissions_role_organization_fkey
+  FOREIGN KEY (role_id, organization_id)
+  REFERENCES roles(id, organization_id) ON DELETE CASCADE,
+  ADD CONSTRAINT role_permissions_permission_organization_fkey
+  FOREIGN KEY (permission_id, organization_id)
+  REFERENCES permissions(id, organization_id) ON DELETE CASCADE;
+
+ALTER TABLE user_roles
+  ADD CONSTRAINT user_roles_role_organization_fkey
+  FOREIGN KEY (role_id, organization_id)
+  REFERENCES roles(id, organization_id) ON DELETE CASCADE,
+  ADD CONSTRAINT user_roles_member_fkey
+  FOREIGN KEY (organization_id, user_id)
+  REFERENCES organization_members(organization_id, user_id) ON DELETE CASCADE;
+
+ALTER TABLE organizations ENABLE ROW LEVEL SECURITY;
+ALTER TABLE organization_members ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Members can view their organizations" ON organizations
+  FOR SELECT USING (public.is_organization_member(id));
+
+CREATE POLICY "Members can view the members of the current organization" ON organization_members
+  FOR SELECT USING (organization_id = public.current_organization_id());
+
+-- Members are added by email through add_organization_member. Administrators
+-- cannot remove themselves, so an organization keeps at least one.
+CREATE POLICY "Admin users can remove other members" ON organization_members
+  FOR DELETE USING (
+    organization_id = public.current_organization_id()
+    AND public.is_admin()
+    AND user_id <> auth.uid()
+  );
+
+-- Permissions are held per organization: only assignments in the current
+-- organization count, so is_admin() and every policy built on it follow
+CREATE OR REPLACE FUNCTION public.has_permission(
+  check_user_id UUID,
+  permission_name TEXT
+)
+RETURNS BOOLEAN AS $$
+BEGIN
+  IF check_user_id IS NULL THEN
+    RETURN FALSE;
+  END IF;
+
+  RETURN EXISTS (
+    WITH RECURSIVE effective_roles(id) AS (
+      SELECT ur.role_id
+      FROM user_roles ur
+      WHERE ur.user_id = check_user_id
+        AND ur.organization_id = public.current_organization_id()
+        AND ur.scope_type = '*'
+        AND (ur.valid_from IS NULL OR ur.valid_from <= NOW())
+        AND (ur.valid_until IS NULL OR ur.valid_until > NOW())
+      UNION
+      SELECT r.parent_role_id
+      FROM roles r
+      JOIN effective_roles er ON r.id = er.id
+      WHERE r.parent_role_id IS NOT NULL
+    )
+    SELECT 1
+    FROM effective_roles er
+    JOIN role_permissions rp ON rp.role_id = er.id
+    JOIN permissions p ON p.id = rp.permission_id
+    WHERE p.name = permission_name
+  );
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+-- The built-in permissions and roles of migrations 003, 004, 011 and 012
+CREATE OR REPLACE FUNCTION public.seed_organization_rbac(org_id UUID)
+RETURNS VOID AS $$
+BEGIN
+  INSERT INTO permissions (organization_id, name, description) VALUES
+    (org_id, 'rbac_admin', 'Manage permissions, roles and user access in this tool'),
+    (org_id, 'rbac_check', 'Check permissions of any user through the decision API'),
+    (org_id, 'rbac_approve_changes', 'Approve or reject pending RBAC change requests'),
+    (org_id, 'rbac_review_access', 'Record keep or revoke decisions in access review campaigns')
+  ON CONFLICT (organization_id, name) DO NOTHING;
+
+  INSERT INTO roles (organization_id, name) VALUES
+    (org_id, 'rbac_administrator'),
+    (org_id, 'rbac_change_approver')
+  ON CONFLICT (organization_id, name) DO NOTHING;
+
+  INSERT INTO role_permissions (organization_id, role_id, permission_id)
+  SELECT org_id, r.id, p.id
+  FROM roles r
+  JOIN permissions p ON p.organization_id = r.organization_id
+  WHERE r.organization_id = org_id
+    AND (
+      (r.name = 'rbac_administrator'
+        AND p.name IN ('rbac_admin', 'rbac_check', 'rbac_review_access'))
+      OR (r.name = 'rbac_change_approver'
+        AND p.name IN ('rbac_approve_changes', 'rbac_check'))
+    )
+  ON CONFLICT (role_id, permission_id) DO NOTHING;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.seed_organization_rbac(UUID) FROM PUBLIC, anon, authenticated;
+
+-- Any signed-in user can start an organization. They become its first member
+-- and administrator.
+CREATE OR REPLACE FUNCTION public.create_organization(organization_name TEXT)
+RETURNS SETOF organizations AS $$
+DECLARE
+  org organizations;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Authentication required' USING ERRCODE = '42501';
+  END IF;
+
+  INSERT INTO organizations (name, created_by)
+  VALUES (organization_name, auth.uid())
+  RETURNING * INTO org;
+
+  INSERT INTO organization_members (organization_id, user_id)
+  VALUES (org.id, auth.uid());
+
+  PERFORM public.seed_organization_rbac(org.id);
+
+  INSERT INTO user_roles (organization_id, user_id, role_id)
+  SELECT org.id, auth.uid(), r.id
+  FROM roles r
+  WHERE r.organization_id = org.id
+    AND r.name = 'rbac_administrator';
+
+  RETURN NEXT org;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.create_organization(TEXT) FROM PUBLIC, anon;
+
+-- Add a signed-up user to the current organization by email.
+-- Runs as the definer to look the user up in auth.users.
+CREATE OR REPLACE FUNCTION public.add_organization_member(member_email TEXT)
+RETURNS UUID AS $$
+DECLARE
+  target_user_id UUID;
+BEGIN
+  IF NOT public.is_admin() THEN
+    RAISE EXCEPTION 'RBAC administrator permission required'
+      USING ERRCODE = '42501';
+  END IF;
+
+  SELECT id INTO target_user_id
+  FROM auth.users
+  WHERE lower(email) = lower(member_email);
+
+  IF target_user_id IS NULL THEN
+    RAISE EXCEPTION 'No user found with email %', member_email
+      USING ERRCODE = 'P0002';
+  END IF;
+
+  INSERT INTO organization_members (organization_id, user_id)
+  VALUES (public.current_organization_id(), target_user_id);
+
+  RETURN target_user_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.add_organization_member(TEXT) FROM PUBLIC, anon;
+
+-- Appoint an administrator of the oldest organization, joining it if needed
+CREATE OR REPLACE FUNCTION public.grant_rbac_admin(admin_email TEXT)
+RETURNS UUID AS $$
+DECLARE
+  target_user_id UUID;
+  org_id UUID;
+BEGIN
+  SELECT id INTO target_user_id
+  FROM auth.users
+  WHERE lower(email) = lower(admin_email);
+
+  IF target_user_id IS NULL THEN
+    RAISE EXCEPTION 'No user found with email %', admin_email;
+  END IF;
+
+  SELECT id INTO org_id FROM organizations ORDER BY created_at LIMIT 1;
+
+  INSERT INTO organization_members (organization_id, user_id)
+  VALUES (org_id, target_user_id)
+  ON CONFLICT (organization_id, user_id) DO NOTHING;
+
+  INSERT INTO user_roles (organization_id, user_id, role_id)
+  SELECT org_id, target_user_id, r.id
+  FROM roles r
+  WHERE r.organization_id = org_id
+    AND r.name = 'rbac_administrator'
+  ON CONFLICT (user_id, role_id, scope_type, scope_id) DO NOTHING;
+
+  RETURN target_user_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.grant_rbac_admin(TEXT) FROM PUBLIC, anon, authenticated;
+
+-- Audit entries belong to the organization of the row that changed
+CREATE OR REPLACE FUNCTION public.log_rbac_change()
+RETURNS TRIGGER AS $$
+DECLARE
+  audit_verb TEXT;
+  audit_action TEXT;
+  audit_resource_type TEXT;
+  audit_resource_id UUID;
+  row_data JSONB;
+BEGIN
+  row_data := to_jsonb(COALESCE(NEW, OLD));
+  audit_verb := CASE TG_OP
+    WHEN 'INSERT' THEN 'create'
+    WHEN 'UPDATE' THEN 'update'
+    ELSE 'delete'
+  END;
+
+  CASE TG_TABLE_NAME
+    WHEN 'permissions' THEN
+      audit_resource_type := 'permission';
+      audit_action := audit_verb || '_permission';
+      audit_resource_id := (row_data->>'id')::UUID;
+    WHEN 'roles' THEN
+      audit_resource_type := 'role';
+      audit_action := audit_verb || '_role';
+      audit_resource_id := (row_data->>'id')::UUID;
+    WHEN 'role_permissions' THEN
+      audit_resource_type := 'association';
+      audit_action := CASE TG_OP
+        WHEN 'DELETE' THEN 'delete_association'
+        ELSE 'create_association'
+      END;
+      audit_resource_id := (row_data->>'role_id')::UUID;
+    WHEN 'user_roles' THEN
+      audit_resource_type := 'user_role';
+      audit_action := CASE TG_OP
+        WHEN 'DELETE' THEN 'unassign_user_role'
+        ELSE 'assign_user_role'
+      END;
+      audit_resource_id := (row_data->>'user_id')::UUID;
+  END CASE;
+
+  INSERT INTO audit_logs (
+    organization_id,
+    user_id,
+    user_email,
+    action,
+    resource_type,
+    resource_id,
+    old_values,
+    new_values
+  ) VALUES (
+    (row_data->>'organization_id')::UUID,
+    auth.uid(),
+    auth.jwt()->>'email',
+    audit_action,
+    audit_resource_type,
+    audit_resource_id,
+    CASE WHEN TG_OP IN ('UPDATE', 'DELETE') THEN to_jsonb(OLD) END,
+    CASE WHEN TG_OP IN ('INSERT', 'UPDATE') THEN to_jsonb(NEW) END
+  );
+
+  RETURN COALESCE(NEW, OLD);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- The SECURITY DEFINER functions below bypass RLS, so they now only touch
+-- rows of the current organization explicitly
+CREATE OR REPLACE FUNCTION public.review_change_request(
+  request_id UUID,
+  approve BOOLEAN,
+  comment TEXT DEFAULT NULL
+)
+RETURNS SETOF change_requests AS $$
+DECLARE
+  request change_requests;
+  change JSONB;
+  affected INTEGER;
+BEGIN
+  IF NOT public.has_permission(auth.uid(), 'rbac_approve_changes') THEN
+    RAISE EXCEPTION 'Permission "rbac_approve_changes" required'
+      USING ERRCODE = '42501';
+  END IF;
+
+  SELECT * INTO request
+  FROM change_requests
+  WHERE id = request_id
+    AND organization_id = public.current_organization_id()
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Change request not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF request.status <> 'pending' THEN
+    RAISE EXCEPTION 'Change request has already been %', request.status
+      USING ERRCODE = '55000';
+  END IF;
+
+  IF request.requested_by = auth.uid() THEN
+    RAISE EXCEPTION 'You cannot review your own change request'
+      USING ERRCODE = '42501';
+  END IF;
+
+  IF approve THEN
+    change := request.payload;
+
+    CASE request.operation
+      WHEN 'create_permission' THEN
+        INSERT INTO permissions (organization_id, name, description)
+        VALUES (request.organization_id, change->>'name', change->>'description')
+        RETURNING id INTO request.resource_id;
+      WHEN 'update_permission' THEN
+        UPDATE permissions SET
+          name = COALESCE(change->>'name', name),
+          description = CASE
+            WHEN change ? 'description' THEN change->>'description'
+            ELSE description
+          END
+        WHERE id = request.resource_id
+          AND organization_id = request.organization_id;
+      WHEN 'delete_permission' THEN
+        DELETE FROM permissions
+        WHERE id = request.resource_id
+          AND organization_id = request.organization_id;
+      WHEN 'create_role' THEN
+        INSERT INTO roles (organization_id, name, parent_role_id)
+        VALUES (
+          request.organization_id,
+          change->>'name',
+          (change->>'parent_role_id')::UUID
+        )
+        RETURNING id INTO request.resource_id;
+      WHEN 'update_role' THEN
+        UPDATE roles SET
+          name = COALESCE(change->>'name', name),
+          parent_role_id = CASE
+            WHEN change ? 'parent_role_id' THEN (change->>'parent_role_id')::UUID
+            ELSE parent_role_id
+          END
+        WHERE id = request.resource_id
+          AND organization_id = request.organization_id;
+      WHEN 'delete_role' THEN
+        DELETE FROM roles
+        WHERE id = request.resource_id
+          AND organization_id = request.organization_id;
+      WHEN 'create_association' THEN
+        INSERT INTO role_permissions (organization_id, role_id, permission_id)
+        VALUES (
+          request.organization_id,
+          (change->>'role_id')::UUID,
+          (change->>'permission_id')::UUID
+        );
+      WHEN 'delete_association' THEN
+        DELETE FROM role_permissions
+        WHERE role_id = (change->>'role_id')::UUID
+          AND permission_id = (change->>'permission_id')::UUID
+          AND organization_id = request.organization_id;
+    END CASE;
+
+    -- The target may have changed since the request was submitted
+    GET DIAGNOSTICS affected = ROW_COUNT;
+    IF affected = 0 THEN
+      RAISE EXCEPTION 'The target of this change no longer exists'
+        USING ERRCODE = 'P0002';
+    END IF;
+  END IF;
+
+  RETURN QUERY
+  UPDATE change_requests SET
+    status = CASE WHEN approve THEN 'approved' ELSE 'rejected' END,
+    resource_id = request.resource_id,
+    reviewed_by = auth.uid(),
+    reviewed_by_email = auth.jwt()->>'email',
+    reviewed_at = NOW(),
+    review_comment = comment
+  WHERE id = request_id
+  RETURNING *;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION public.start_access_review(
+  campaign_name TEXT,
+  campaign_description TEXT,
+  role_ids UUID[],
+  due_at TIMESTAMPTZ DEFAULT NULL
+)
+RETURNS SETOF access_review_campaigns AS $$
+DECLARE
+  campaign access_review_campaigns;
+  reviewed_roles JSONB;
+BEGIN
+  IF NOT public.is_admin() THEN
+    RAISE EXCEPTION 'RBAC administrator permission required'
+      USING ERRCODE = '42501';
+  END IF;
+
+  SELECT jsonb_agg(jsonb_build_object('id', r.id, 'name', r.name) ORDER BY r.name)
+  INTO reviewed_roles
+  FROM roles r
+  WHERE r.id = ANY(role_ids)
+    AND r.organization_id = public.current_organization_id();
+
+  IF reviewed_roles IS NULL
+    OR jsonb_array_length(reviewed_roles) <> cardinality(role_ids) THEN
+    RAISE EXCEPTION 'One or more roles do not exist' USING ERRCODE = 'P0002';
+  END IF;
+
+  INSERT INTO access_review_campaigns (
+    name, description, roles, due_at, created_by, created_by_email
+  )
+  VALUES (
+    campaign_name,
+    campaign_description,
+    reviewed_roles,
+    start_access_review.due_at,
+    auth.uid(),
+    auth.jwt()->>'email'
+  )
+  RETURNING * INTO campaign;
+
+  -- Expired assignments no longer grant anything and are left to the cleanup job
+  INSERT INTO access_review_items (
+    campaign_id, user_id, user_email, role_id, role_name,
+    scope_type, scope_id, valid_until
+  )
+  SELECT
+    campaign.id, ur.user_id, u.email, ur.role_id, r.name,
+    ur.scope_type, ur.scope_id, ur.valid_until
+  FROM user_roles ur
+  JOIN roles r ON r.id = ur.role_id
+  LEFT JOIN auth.users u ON u.id = ur.user_id
+  WHERE ur.role_id = ANY(role_ids)
+    AND (ur.valid_until IS NULL OR ur.valid_until > NOW());
+
+  RETURN NEXT campaign;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION public.close_access_review(campaign_id UUID)
+RETURNS SETOF access_review_campaigns AS $$
+DECLARE
+  campaign access_review_campaigns;
+  undecided INTEGER;
+BEGIN
+  IF NOT public.is_admin() THEN
+    RAISE EXCEPTION 'RBAC administrator permission required'
+      USING ERRCODE = '42501';
+  END IF;
+
+  SELECT * INTO campaign
+  FROM access_review_campaigns c
+  WHERE c.id = close_access_review.campaign_id
+    AND c.organization_id = public.current_organization_id()
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Access review not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF campaign.status <> 'open' THEN
+    RAISE EXCEPTION 'Access review is already closed' USING ERRCODE = '55000';
+  END IF;
+
+  SELECT COUNT(*) INTO undecided
+  FROM access_review_items i
+  WHERE i.campaign_id = campaign.id AND i.decision IS NULL;
+
+  IF undecided > 0 THEN
+    RAISE EXCEPTION '% item(s) still need a decision', undecided
+      USING ERRCODE = '55000';
+  END IF;
+
+  DELETE FROM user_roles ur
+  USING access_review_items i
+  WHERE i.campaign_id = campaign.id
+    AND i.decision = 'revoke'
+    AND ur.organization_id = campaign.organization_id
+    AND ur.user_id = i.user_id
+    AND ur.role_id = i.role_id
+    AND ur.scope_type = i.scope_type
+    AND ur.scope_id = i.scope_id;
+
+  RETURN QUERY
+  UPDATE access_review_campaigns c SET
+    status = 'closed',
+    closed_by = auth.uid(),
+    closed_by_email = auth.jwt()->>'email',
+    closed_at = NOW()
+  WHERE c.id = campaign.id
+  RETURNING c.*;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Restoring only ever touches the current organization. Assignments of users
+-- who are no longer members cannot be restored and are skipped.
+CREATE OR REPLACE FUNCTION public.restore_rbac_snapshot(snapshot_id UUID)
+RETURNS JSONB AS $$
+DECLARE
+  org_id UUID;
+  snapshot rbac_snapshots;
+  backup rbac_snapshots;
+  skipped INTEGER;
+BEGIN
+  IF NOT public.is_admin() THEN
+    RAISE EXCEPTION 'RBAC administrator permission required'
+      USING ERRCODE = '42501';
+  END IF;
+
+  org_id := public.current_organization_id();
+
+  SELECT * INTO snapshot
+  FROM rbac_snapshots s
+  WHERE s.id = restore_rbac_snapshot.snapshot_id
+    AND s.organization_id = org_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Snapshot not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  SELECT * INTO backup
+  FROM public.create_rbac_snapshot(
+    'Before restoring ' || snapshot.name,
+    'Created automatically before restoring snapshot ' || snapshot.id
+  );
+
+  -- Remove what the snapshot does not have, dependents first
+  DELETE FROM user_roles ur
+  WHERE ur.organization_id = org_id
+    AND NOT EXISTS (
+      SELECT 1
+      FROM jsonb_to_recordset(snapshot.data->'user_roles')
+        AS s(user_id UUID, role_id UUID, scope_type TEXT, scope_id TEXT)
+      WHERE s.user_id = ur.user_id
+        AND s.role_id = ur.role_id
+        AND s.scope_type = ur.scope_type
+        AND s.scope_id = ur.scope_id
+    );
+
+  DELETE FROM role_permissions rp
+  WHERE rp.organization_id = org_id
+    AND NOT EXISTS (
+      SELECT 1
+      FROM jsonb_to_recordset(snapshot.data->'role_permissions')
+        AS s(role_id UUID, permission_id UUID)
+      WHERE s.role_id = rp.role_id AND s.permission_id = rp.permission_id
+    );
+
+  DELETE FROM roles
+  WHERE organization_id = org_id
+    AND id NOT IN (
+      SELECT s.id
+      FROM jsonb_to_recordset(snapshot.data->'roles') AS s(id UUID)
+    );
+
+  DELETE FROM permissions
+  WHERE organization_id = org_id
+    AND id NOT IN (
+      SELECT s.id
+      FROM jsonb_to_recordset(snapshot.data->'permissions') AS s(id UUID)
+    );
+
+  -- Re-create missing rows under their original IDs and revert edits.
+  -- Unchanged rows are not touched, so the audit log only shows real changes.
+  INSERT INTO permissions (id, organization_id, name, description, created_at)
+  SELECT s.id, org_id, s.name, s.description, s.created_at
+  FROM jsonb_to_recordset(snapshot.data->'permissions')
+    AS s(id UUID, name TEXT, description TEXT, created_at TIMESTAMPTZ)
+  ON CONFLICT (id) DO UPDATE SET
+    name = EXCLUDED.name,
+    description = EXCLUDED.description
+  WHERE permissions.organization_id = org_id
+    AND (permissions.name IS DISTINCT FROM EXCLUDED.name
+      OR permissions.description IS DISTINCT FROM EXCLUDED.description);
+
+  INSERT INTO roles (id, organization_id, name, created_at)
+  SELECT s.id, org_id, s.name, s.created_at
+  FROM jsonb_to_recordset(snapshot.data->'roles')
+    AS s(id UUID, name TEXT, created_at TIMESTAMPTZ)
+  ON CONFLICT (id) DO UPDATE SET name = EXCLUDED.name
+  WHERE roles.organization_id = org_id
+    AND roles.name IS DISTINCT FROM EXCLUDED.name;
+
+  -- Parents are linked once every role exists. Clearing the changed ones
+  -- first keeps the hierarchy free of cycles at every step.
+  UPDATE roles r SET parent_role_id = NULL
+  FROM jsonb_to_recordset(snapshot.data->'roles')
+    AS s(id UUID, parent_role_id UUID)
+  WHERE r.id = s.id
+    AND r.organization_id = org_id
+    AND r.parent_role_id IS NOT NULL
+    AND r.parent_role_id IS DISTINCT FROM s.parent_role_id;
+
+  UPDATE roles r SET parent_role_id = s.parent_role_id
+  FROM jsonb_to_recordset(snapshot.data->'roles')
+    AS s(id UUID, parent_role_id UUID)
+  WHERE r.id = s.id
+    AND r.organization_id = org_id
+    AND r.parent_role_id IS DISTINCT FROM s.parent_role_id;
+
+  INSERT INTO role_permissions (organization_id, role_id, permission_id, created_at)
+  SELECT org_id, s.role_id, s.permission_id, s.created_at
+  FROM jsonb_to_recordset(snapshot.data->'role_permissions')
+    AS s(role_id UUID, permission_id UUID, created_at TIMESTAMPTZ)
+  ON CONFLICT (role_id, permission_id) DO NOTHING;
+
+  INSERT INTO user_roles (
+    organization_id, user_id, role_id, scope_type, scope_id,
+    valid_from, valid_until, created_at
+  )
+  SELECT
+    org_id, s.user_id, s.role_id, s.scope_type, s.scope_id,
+    s.valid_from, s.valid_until, s.created_at
+  FROM jsonb_to_recordset(snapshot.data->'user_roles')
+    AS s(
+      user_id UUID, role_id UUID, scope_type TEXT, scope_id TEXT,
+      valid_from TIMESTAMPTZ, valid_until TIMESTAMPTZ, created_at TIMESTAMPTZ
+    )
+  JOIN organization_members m
+    ON m.organization_id = org_id AND m.user_id = s.user_id
+  ON CONFLICT (user_id, role_id, scope_type, scope_id) DO UPDATE SET
+    valid_from = EXCLUDED.valid_from,
+    valid_until = EXCLUDED.valid_until
+  WHERE user_roles.valid_from IS DISTINCT FROM EXCLUDED.valid_from
+    OR user_roles.valid_until IS DISTINCT FROM EXCLUDED.valid_until;
+
+  SELECT COUNT(*) INTO skipped
+  FROM jsonb_to_recordset(snapshot.data->'user_roles') AS s(user_id UUID)
+  WHERE NOT EXISTS (
+    SELECT 1
+    FROM organization_members m
+    WHERE m.organization_id = org_id AND m.user_id = s.user_id
+  );
+
+  RETURN jsonb_build_object(
+    'backup_snapshot_id', backup.id,
+    'skipped_user_roles', skipped
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
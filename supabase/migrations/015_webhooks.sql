@@ -0,0 +1,166 @@
+-- Outbound webhooks. Every recorded RBAC change queues a delivery for each
+-- subscription of its organization that wants the event; the app sends them,
+-- signed with the subscription's secret, and retries failures with backoff.
+CREATE TABLE IF NOT EXISTS webhook_subscriptions (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  organization_id UUID NOT NULL DEFAULT public.current_organization_id()
+    REFERENCES organizations(id) ON DELETE CASCADE,
+  url TEXT NOT NULL CHECK (url ~ '^https?://'),
+  -- HMAC-SHA256 key for the X-Nexus-Signature header; never shown again
+  -- after the subscription is created
+  secret TEXT NOT NULL,
+  -- Event names such as permission.created, or '*' for every event
+  events TEXT[] NOT NULL CHECK (cardinality(events) > 0),
+  description TEXT,
+  active BOOLEAN NOT NULL DEFAULT TRUE,
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_webhook_subscriptions_organization_id
+  ON webhook_subscriptions(organization_id);
+
+CREATE TABLE IF NOT EXISTS webhook_deliveries (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  organization_id UUID NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+  subscription_id UUID NOT NULL
+    REFERENCES webhook_subscriptions(id) ON DELETE CASCADE,
+  event TEXT NOT NULL,
+  -- Request body, sent as canonical JSON so the signature can be checked
+  -- against the raw body
+  payload JSONB NOT NULL,
+  status TEXT NOT NULL DEFAULT 'pending'
+    CHECK (status IN ('pending', 'succeeded', 'failed')),
+  attempts INTEGER NOT NULL DEFAULT 0,
+  next_attempt_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  last_attempt_at TIMESTAMPTZ,
+  response_status INTEGER,
+  last_error TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_subscription_id
+  ON webhook_deliveries(subscription_id, created_at DESC);
+
+CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_due
+  ON webhook_deliveries(next_attempt_at)
+  WHERE status = 'pending';
+
+ALTER TABLE webhook_subscriptions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE webhook_deliveries ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Only the current organization is visible" ON webhook_subscriptions
+  AS RESTRICTIVE FOR ALL
+  USING (organization_id = public.current_organization_id())
+  WITH CHECK (organization_id = public.current_organization_id());
+
+CREATE POLICY "Admin users can view webhook subscriptions" ON webhook_subscriptions
+  FOR SELECT USING (public.is_admin());
+
+CREATE POLICY "Admin users can create webhook subscriptions" ON webhook_subscriptions
+  FOR INSERT WITH CHECK (public.is_admin());
+
+CREATE POLICY "Admin users can update webhook subscriptions" ON webhook_subscriptions
+  FOR UPDATE USING (public.is_admin()) WITH CHECK (public.is_admin());
+
+CREATE POLICY "Admin users can delete webhook subscriptions" ON webhook_subscriptions
+  FOR DELETE USING (public.is_admin());
+
+-- Secrets can be written but not read back; the delivery job reads them with
+-- the service role
+REVOKE SELECT ON webhook_subscriptions FROM anon, authenticated;
+GRANT SELECT (
+  id, organization_id, url, events, description, active, created_by, created_at
+) ON webhook_subscriptions TO authenticated;
+
+CREATE POLICY "Only the current organization is visible" ON webhook_deliveries
+  AS RESTRICTIVE FOR ALL
+  USING (organization_id = public.current_organization_id())
+  WITH CHECK (organization_id = public.current_organization_id());
+
+-- Deliveries are written by the trigger below and the delivery job only
+CREATE POLICY "Admin users can view webhook deliveries" ON webhook_deliveries
+  FOR SELECT USING (public.is_admin());
+
+-- Queue deliveries for an audit log entry. Runs as the definer because the
+-- user making the change cannot see subscriptions or write deliveries.
+CREATE OR REPLACE FUNCTION public.enqueue_webhook_deliveries()
+RETURNS TRIGGER AS $$
+DECLARE
+  event_name TEXT;
+BEGIN
+  event_name := CASE NEW.action
+    WHEN 'create_permission' THEN 'permission.created'
+    WHEN 'update_permission' THEN 'permission.updated'
+    WHEN 'delete_permission' THEN 'permission.deleted'
+    WHEN 'create_role' THEN 'role.created'
+    WHEN 'update_role' THEN 'role.updated'
+    WHEN 'delete_role' THEN 'role.deleted'
+    WHEN 'create_association' THEN 'association.created'
+    WHEN 'delete_association' THEN 'association.deleted'
+    WHEN 'assign_user_role' THEN 'user_role.assigned'
+    WHEN 'unassign_user_role' THEN 'user_role.unassigned'
+  END;
+
+  IF event_name IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  INSERT INTO webhook_deliveries (id, organization_id, subscription_id, event, payload)
+  SELECT
+    d.id,
+    s.organization_id,
+    s.id,
+    event_name,
+    jsonb_build_object(
+      'id', d.id,
+      'event', event_name,
+      'occurred_at', NEW.timestamp,
+      'organization_id', NEW.organization_id,
+      'actor', jsonb_build_object('id', NEW.user_id, 'email', NEW.user_email),
+      'resource', jsonb_build_object(
+        'type', NEW.resource_type,
+        'id', NEW.resource_id
+      ),
+      'data', jsonb_build_object(
+        'old', NEW.old_values,
+        'new', NEW.new_values
+      )
+    )
+  FROM webhook_subscriptions s
+  CROSS JOIN LATERAL (SELECT gen_random_uuid() AS id) d
+  WHERE s.organization_id = NEW.organization_id
+    AND s.active
+    AND ('*' = ANY(s.events) OR event_name = ANY(s.events));
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER enqueue_webhook_deliveries
+  AFTER INSERT ON audit_logs
+  FOR EACH ROW EXECUTE FUNCTION public.enqueue_webhook_deliveries();
+
+-- Lease up to batch_size due deliveries to the calling delivery job. Leased
+-- rows are pushed back by five minutes so concurrent jobs skip them, and a job
+-- that dies mid-batch only delays them.
+CREATE OR REPLACE FUNCTION public.claim_webhook_deliveries(batch_size INTEGER)
+RETURNS SETOF webhook_deliveries AS $$
+BEGIN
+  RETURN QUERY
+  UPDATE webhook_deliveries d SET
+    next_attempt_at = NOW() + INTERVAL '5 minutes'
+  WHERE d.id IN (
+    SELECT due.id
+    FROM webhook_deliveries due
+    WHERE due.status = 'pending'
+      AND due.next_attempt_at <= NOW()
+    ORDER BY due.next_attempt_at
+    LIMIT batch_size
+    FOR UPDATE SKIP LOCKED
+  )
+  RETURNING d.*;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.claim_webhook_deliveries(INTEGER) FROM PUBLIC, anon, authenticated;
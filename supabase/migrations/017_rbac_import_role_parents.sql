@@ -0,0 +1,91 @@
+-- Import plans now carry the role hierarchy: roles are created with the name
+-- of their parent, and existing roles can be moved to another parent.
+CREATE OR REPLACE FUNCTION public.apply_rbac_import(plan JSONB)
+RETURNS VOID AS $$
+BEGIN
+  IF NOT public.is_admin() THEN
+    RAISE EXCEPTION 'RBAC administrator permission required'
+      USING ERRCODE = '42501';
+  END IF;
+
+  INSERT INTO permissions (name, description)
+  SELECT p->>'name', p->>'description'
+  FROM jsonb_array_elements(COALESCE(plan->'permissions'->'create', '[]')) p;
+
+  UPDATE permissions
+  SET description = u->>'description'
+  FROM jsonb_array_elements(COALESCE(plan->'permissions'->'update', '[]')) u
+  WHERE permissions.name = u->>'name';
+
+  INSERT INTO roles (name)
+  SELECT r->>'name'
+  FROM jsonb_array_elements(COALESCE(plan->'roles'->'create', '[]')) r;
+
+  DELETE FROM role_permissions rp
+  USING roles r, permissions p,
+    jsonb_array_elements(COALESCE(plan->'associations'->'delete', '[]')) a
+  WHERE rp.role_id = r.id
+    AND rp.permission_id = p.id
+    AND r.name = a->>'role'
+    AND p.name = a->>'permission';
+
+  INSERT INTO role_permissions (role_id, permission_id)
+  SELECT r.id, p.id
+  FROM jsonb_array_elements(COALESCE(plan->'associations'->'create', '[]')) a
+  JOIN roles r ON r.name = a->>'role'
+  JOIN permissions p ON p.name = a->>'permission';
+
+  DELETE FROM user_roles ur
+  USING roles r,
+    jsonb_array_elements(COALESCE(plan->'user_roles'->'delete', '[]')) a
+  WHERE ur.role_id = r.id
+    AND r.name = a->>'role'
+    AND ur.user_id = (a->>'user_id')::UUID
+    AND ur.scope_type = COALESCE(a->>'scope_type', '*')
+    AND ur.scope_id = COALESCE(a->>'scope_id', '*');
+
+  INSERT INTO user_roles (
+    user_id, role_id, scope_type, scope_id, valid_from, valid_until
+  )
+  SELECT
+    (a->>'user_id')::UUID,
+    r.id,
+    COALESCE(a->>'scope_type', '*'),
+    COALESCE(a->>'scope_id', '*'),
+    (a->>'valid_from')::TIMESTAMPTZ,
+    (a->>'valid_until')::TIMESTAMPTZ
+  FROM jsonb_array_elements(COALESCE(plan->'user_roles'->'create', '[]')) a
+  JOIN roles r ON r.name = a->>'role';
+
+  -- Deleting roles and permissions cascades to their remaining associations
+  DELETE FROM roles
+  WHERE name IN (
+    SELECT jsonb_array_elements_text(COALESCE(plan->'roles'->'delete', '[]'))
+  );
+
+  DELETE FROM permissions
+  WHERE name IN (
+    SELECT jsonb_array_elements_text(
+      COALESCE(plan->'permissions'->'delete', '[]')
+    )
+  );
+
+  -- Parents are set last, once deleted roles are gone, and moved roles are
+  -- detached first. Every intermediate hierarchy is then part of the final
+  -- one, which the plan has checked for cycles, so check_role_hierarchy only
+  -- fires on real cycles.
+  UPDATE roles
+  SET parent_role_id = NULL
+  FROM jsonb_array_elements(COALESCE(plan->'roles'->'update', '[]')) u
+  WHERE roles.name = u->>'name';
+
+  UPDATE roles
+  SET parent_role_id = parent.id
+  FROM jsonb_array_elements(
+    COALESCE(plan->'roles'->'create', '[]') ||
+    COALESCE(plan->'roles'->'update', '[]')
+  ) r
+  JOIN roles parent ON parent.name = r->>'parent'
+  WHERE roles.name = r->>'name';
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
@@ -0,0 +1,45 @@
+-- has_permission runs as its definer, so any signed-in user could call it
+-- through the API to learn another user's permissions without rbac_check.
+-- Checking someone else now needs rbac_check, like the decision API does.
+-- Policies and is_admin() only ask about auth.uid() and are unaffected.
+CREATE OR REPLACE FUNCTION public.has_permission(
+  check_user_id UUID,
+  permission_name TEXT
+)
+RETURNS BOOLEAN AS $$
+BEGIN
+  IF check_user_id IS NULL THEN
+    RETURN FALSE;
+  END IF;
+
+  IF check_user_id IS DISTINCT FROM auth.uid()
+    AND auth.role() IS DISTINCT FROM 'service_role'
+    AND NOT public.has_permission(auth.uid(), 'rbac_check')
+  THEN
+    RAISE EXCEPTION 'Permission "rbac_check" required to check other users'
+      USING ERRCODE = '42501';
+  END IF;
+
+  RETURN EXISTS (
+    WITH RECURSIVE effective_roles(id) AS (
+      SELECT ur.role_id
+      FROM user_roles ur
+      WHERE ur.user_id = check_user_id
+        AND ur.organization_id = public.current_organization_id()
+        AND ur.scope_type = '*'
+        AND (ur.valid_from IS NULL OR ur.valid_from <= NOW())
+        AND (ur.valid_until IS NULL OR ur.valid_until > NOW())
+      UNION
+      SELECT r.parent_role_id
+      FROM roles r
+      JOIN effective_roles er ON r.id = er.id
+      WHERE r.parent_role_id IS NOT NULL
+    )
+    SELECT 1
+    FROM effective_roles er
+    JOIN role_permissions rp ON rp.role_id = er.id
+    JOIN permissions p ON p.id = rp.permission_id
+    WHERE p.name = permission_name
+  );
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
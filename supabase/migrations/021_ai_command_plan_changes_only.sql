@@ -0,0 +1,171 @@
+-- Questions such as list_user_roles are answered by the app and never sent
+-- to apply_ai_command_plan, which only applies changes. A plan that still
+-- contains one is now refused as unsupported instead of being skipped.
+CREATE OR REPLACE FUNCTION public.apply_ai_command_plan(
+  steps JSONB,
+  snapshot_name TEXT DEFAULT NULL
+)
+RETURNS VOID AS $$
+DECLARE
+  step JSONB;
+  params JSONB;
+  step_number INTEGER := 0;
+  target_role_id UUID;
+  target_permission_id UUID;
+BEGIN
+  IF NOT public.is_admin() THEN
+    RAISE EXCEPTION 'RBAC administrator permission required'
+      USING ERRCODE = '42501';
+  END IF;
+
+  IF snapshot_name IS NOT NULL THEN
+    PERFORM public.create_rbac_snapshot(
+      snapshot_name,
+      'Created automatically by a natural-language command'
+    );
+  END IF;
+
+  FOR step IN SELECT * FROM jsonb_array_elements(steps) LOOP
+    step_number := step_number + 1;
+    params := COALESCE(step->'parameters', '{}');
+    target_role_id := NULL;
+    target_permission_id := NULL;
+
+    -- Roles and permissions referenced by name, as earlier steps left them
+    IF params ? 'role_name' THEN
+      SELECT id INTO target_role_id
+      FROM roles
+      WHERE lower(name) = lower(params->>'role_name')
+      ORDER BY name = params->>'role_name' DESC, name COLLATE "C"
+      LIMIT 1;
+
+      IF target_role_id IS NULL THEN
+        RAISE EXCEPTION 'Step %: Role "%" does not exist',
+          step_number, params->>'role_name'
+          USING ERRCODE = 'P0002';
+      END IF;
+    END IF;
+
+    IF params ? 'permission_name' THEN
+      SELECT id INTO target_permission_id
+      FROM permissions
+      WHERE lower(name) = lower(params->>'permission_name')
+      ORDER BY name = params->>'permission_name' DESC, name COLLATE "C"
+      LIMIT 1;
+
+      IF target_permission_id IS NULL THEN
+        RAISE EXCEPTION 'Step %: Permission "%" does not exist',
+          step_number, params->>'permission_name'
+          USING ERRCODE = 'P0002';
+      END IF;
+    END IF;
+
+    CASE step->>'type'
+      WHEN 'create_permission' THEN
+        IF EXISTS (SELECT 1 FROM permissions WHERE name = params->>'name') THEN
+          RAISE EXCEPTION 'Step %: Permission "%" already exists',
+            step_number, params->>'name'
+            USING ERRCODE = '23505';
+        END IF;
+
+        INSERT INTO permissions (name, description)
+        VALUES (params->>'name', NULLIF(params->>'description', ''));
+
+      WHEN 'create_role' THEN
+        IF EXISTS (SELECT 1 FROM roles WHERE name = params->>'name') THEN
+          RAISE EXCEPTION 'Step %: Role "%" already exists',
+            step_number, params->>'name'
+            USING ERRCODE = '23505';
+        END IF;
+
+        INSERT INTO roles (name) VALUES (params->>'name');
+
+      WHEN 'assign_permission' THEN
+        INSERT INTO role_permissions (role_id, permission_id)
+        VALUES (target_role_id, target_permission_id)
+        ON CONFLICT DO NOTHING;
+
+        IF NOT FOUND THEN
+          RAISE EXCEPTION 'Step %: Role "%" already has permission "%"',
+            step_number, params->>'role_name', params->>'permission_name'
+            USING ERRCODE = '23505';
+        END IF;
+
+      WHEN 'remove_permission' THEN
+        DELETE FROM role_permissions
+        WHERE role_id = target_role_id
+          AND permission_id = target_permission_id;
+
+        IF NOT FOUND THEN
+          RAISE EXCEPTION 'Step %: Role "%" does not have permission "%"',
+            step_number, params->>'role_name', params->>'permission_name'
+            USING ERRCODE = 'P0002';
+        END IF;
+
+      -- Deleting roles and permissions cascades to their associations
+      WHEN 'delete_permission' THEN
+        DELETE FROM permissions
+        WHERE id = (
+          SELECT id FROM permissions
+          WHERE lower(name) = lower(params->>'name')
+          ORDER BY name = params->>'name' DESC, name COLLATE "C"
+          LIMIT 1
+        );
+
+        IF NOT FOUND THEN
+          RAISE EXCEPTION 'Step %: Permission "%" does not exist',
+            step_number, params->>'name'
+            USING ERRCODE = 'P0002';
+        END IF;
+
+      WHEN 'delete_role' THEN
+        DELETE FROM roles
+        WHERE id = (
+          SELECT id FROM roles
+          WHERE lower(name) = lower(params->>'name')
+          ORDER BY name = params->>'name' DESC, name COLLATE "C"
+          LIMIT 1
+        );
+
+        IF NOT FOUND THEN
+          RAISE EXCEPTION 'Step %: Role "%" does not exist',
+            step_number, params->>'name'
+            USING ERRCODE = 'P0002';
+        END IF;
+
+      -- Natural-language commands only manage global assignments. An expired
+      -- one that has not been cleaned up yet is replaced.
+      WHEN 'assign_role_to_user' THEN
+        INSERT INTO user_roles (user_id, role_id)
+        VALUES ((params->>'user_id')::UUID, target_role_id)
+        ON CONFLICT (user_id, role_id, scope_type, scope_id) DO UPDATE
+        SET valid_from = NULL, valid_until = NULL
+        WHERE user_roles.valid_until <= NOW();
+
+        IF NOT FOUND THEN
+          RAISE EXCEPTION 'Step %: User "%" already has role "%"',
+            step_number, params->>'user_email', params->>'role_name'
+            USING ERRCODE = '23505';
+        END IF;
+
+      WHEN 'remove_role_from_user' THEN
+        DELETE FROM user_roles
+        WHERE user_id = (params->>'user_id')::UUID
+          AND role_id = target_role_id
+          AND scope_type = '*'
+          AND scope_id = '*';
+
+        IF NOT FOUND THEN
+          RAISE EXCEPTION 'Step %: User "%" does not have role "%"',
+            step_number, params->>'user_email', params->>'role_name'
+            USING ERRCODE = 'P0002';
+        END IF;
+
+      ELSE
+        RAISE EXCEPTION 'Step %: Unsupported command type "%"',
+          step_number, step->>'type'
+          USING ERRCODE = '22023';
+    END CASE;
+  END LOOP;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
@@ -0,0 +1,122 @@
+-- Updates of role assignments (e.g. a new validity window, or an expired
+-- assignment renewed) and of associations were logged as new assignments and
+-- associations and announced as user_role.assigned / association.created.
+-- They now have their own audit actions and webhook events.
+CREATE OR REPLACE FUNCTION public.log_rbac_change()
+RETURNS TRIGGER AS $$
+DECLARE
+  audit_verb TEXT;
+  audit_action TEXT;
+  audit_resource_type TEXT;
+  audit_resource_id UUID;
+  row_data JSONB;
+BEGIN
+  row_data := to_jsonb(COALESCE(NEW, OLD));
+  audit_verb := CASE TG_OP
+    WHEN 'INSERT' THEN 'create'
+    WHEN 'UPDATE' THEN 'update'
+    ELSE 'delete'
+  END;
+
+  CASE TG_TABLE_NAME
+    WHEN 'permissions' THEN
+      audit_resource_type := 'permission';
+      audit_action := audit_verb || '_permission';
+      audit_resource_id := (row_data->>'id')::UUID;
+    WHEN 'roles' THEN
+      audit_resource_type := 'role';
+      audit_action := audit_verb || '_role';
+      audit_resource_id := (row_data->>'id')::UUID;
+    WHEN 'role_permissions' THEN
+      audit_resource_type := 'association';
+      audit_action := audit_verb || '_association';
+      audit_resource_id := (row_data->>'role_id')::UUID;
+    WHEN 'user_roles' THEN
+      audit_resource_type := 'user_role';
+      audit_action := CASE TG_OP
+        WHEN 'INSERT' THEN 'assign_user_role'
+        WHEN 'UPDATE' THEN 'update_user_role'
+        ELSE 'unassign_user_role'
+      END;
+      audit_resource_id := (row_data->>'user_id')::UUID;
+  END CASE;
+
+  INSERT INTO audit_logs (
+    organization_id,
+    user_id,
+    user_email,
+    action,
+    resource_type,
+    resource_id,
+    old_values,
+    new_values
+  ) VALUES (
+    (row_data->>'organization_id')::UUID,
+    auth.uid(),
+    auth.jwt()->>'email',
+    audit_action,
+    audit_resource_type,
+    audit_resource_id,
+    CASE WHEN TG_OP IN ('UPDATE', 'DELETE') THEN to_jsonb(OLD) END,
+    CASE WHEN TG_OP IN ('INSERT', 'UPDATE') THEN to_jsonb(NEW) END
+  );
+
+  RETURN COALESCE(NEW, OLD);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Queue deliveries for an audit log entry
+CREATE OR REPLACE FUNCTION public.enqueue_webhook_deliveries()
+RETURNS TRIGGER AS $$
+DECLARE
+  event_name TEXT;
+BEGIN
+  event_name := CASE NEW.action
+    WHEN 'create_permission' THEN 'permission.created'
+    WHEN 'update_permission' THEN 'permission.updated'
+    WHEN 'delete_permission' THEN 'permission.deleted'
+    WHEN 'create_role' THEN 'role.created'
+    WHEN 'update_role' THEN 'role.updated'
+    WHEN 'delete_role' THEN 'role.deleted'
+    WHEN 'create_association' THEN 'association.created'
+    WHEN 'update_association' THEN 'association.updated'
+    WHEN 'delete_association' THEN 'association.deleted'
+    WHEN 'assign_user_role' THEN 'user_role.assigned'
+    WHEN 'update_user_role' THEN 'user_role.updated'
+    WHEN 'unassign_user_role' THEN 'user_role.unassigned'
+  END;
+
+  IF event_name IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  INSERT INTO webhook_deliveries (id, organization_id, subscription_id, event, payload)
+  SELECT
+    d.id,
+    s.organization_id,
+    s.id,
+    event_name,
+    jsonb_build_object(
+      'id', d.id,
+      'event', event_name,
+      'occurred_at', NEW.timestamp,
+      'organization_id', NEW.organization_id,
+      'actor', jsonb_build_object('id', NEW.user_id, 'email', NEW.user_email),
+      'resource', jsonb_build_object(
+        'type', NEW.resource_type,
+        'id', NEW.resource_id
+      ),
+      'data', jsonb_build_object(
+        'old', NEW.old_values,
+        'new', NEW.new_values
+      )
+    )
+  FROM webhook_subscriptions s
+  CROSS JOIN LATERAL (SELECT gen_random_uuid() AS id) d
+  WHERE s.organization_id = NEW.organization_id
+    AND s.active
+    AND ('*' = ANY(s.events) OR event_name = ANY(s.events));
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
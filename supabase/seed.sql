@@ -1,27 +1,35 @@
+-- Sample data goes into the oldest organization, the one existing data was
+-- moved to when organizations were introduced
+
 -- Insert sample permissions
-INSERT INTO permissions (name, description) VALUES
-  ('read_users', 'Permission to view user information'),
-  ('write_users', 'Permission to create and update users'),
-  ('delete_users', 'Permission to delete users'),
-  ('read_reports', 'Permission to view reports'),
-  ('write_reports', 'Permission to create and update reports'),
-  ('admin_access', 'Full administrative access to the system')
-ON CONFLICT (name) DO NOTHING;
+INSERT INTO permissions (organization_id, name, description)
+SELECT o.id, p.name, p.description
+FROM (SELECT id FROM organizations ORDER BY created_at LIMIT 1) o,
+  (VALUES
+    ('read_users', 'Permission to view user information'),
+    ('write_users', 'Permission to create and update users'),
+    ('delete_users', 'Permission to delete users'),
+    ('read_reports', 'Permission to view reports'),
+    ('write_reports', 'Permission to create and update reports'),
+    ('admin_access', 'Full administrative access to the system')
+  ) AS p(name, description)
+ON CONFLICT (organization_id, name) DO NOTHING;
 
 -- Insert sample roles
-INSERT INTO roles (name) VALUES
-  ('Admin'),
-  ('Manager'),
-  ('User'),
-  ('Viewer')
-ON CONFLICT (name) DO NOTHING;
+INSERT INTO roles (organization_id, name)
+SELECT o.id, r.name
+FROM (SELECT id FROM organizations ORDER BY created_at LIMIT 1) o,
+  (VALUES ('Admin'), ('Manager'), ('User'), ('Viewer')) AS r(name)
+ON CONFLICT (organization_id, name) DO NOTHING;
 
 -- Create role-permission associations
-INSERT INTO role_permissions (role_id, permission_id)
-SELECT r.id, p.id
-FROM roles r, permissions p
-WHERE (r.name = 'Admin' AND p.name IN ('read_users', 'write_users', 'delete_users', 'read_reports', 'write_reports', 'admin_access'))
+INSERT INTO role_permissions (organization_id, role_id, permission_id)
+SELECT r.organization_id, r.id, p.id
+FROM roles r
+JOIN permissions p ON p.organization_id = r.organization_id
+WHERE r.organization_id = (SELECT id FROM organizations ORDER BY created_at LIMIT 1)
+  AND ((r.name = 'Admin' AND p.name IN ('read_users', 'write_users', 'delete_users', 'read_reports', 'write_reports', 'admin_access'))
    OR (r.name = 'Manager' AND p.name IN ('read_users', 'write_users', 'read_reports', 'write_reports'))
    OR (r.name = 'User' AND p.name IN ('read_users', 'read_reports'))
-   OR (r.name = 'Viewer' AND p.name IN ('read_reports'))
-ON CONFLICT (role_id, permission_id) DO NOTHING;
\ No newline at end of file
+   OR (r.name = 'Viewer' AND p.name IN ('read_reports')))
+ON CONFLICT (role_id, permission_id) DO NOTHING;